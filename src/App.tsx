@@ -1,8 +1,59 @@
 import * as React from "react";
-import { computeWaitingDing } from "./ding-policy";
-import { playDing, unlockAudio } from "./sound";
+import { dingKindForEvent } from "./ding-policy";
+import { playDing, unlockAudio, type DingKind } from "./sound";
+import {
+  NOTIFICATION_KINDS,
+  notificationMessage,
+  notificationsSupported,
+  parseNotificationPrefs,
+  requestNotificationPermission,
+  showNotification,
+  type NotificationPrefs,
+} from "./notify";
 import { computeStackedSegments } from "./timeseries-stacked";
+import { formatCost } from "./format-cost";
 import { formatTokenCount } from "./format-token-count";
+import { SessionTimelineGantt, toSessionTimeline, type SessionTimeline } from "./session-timeline-ui";
+import { ToolStatsTable, toToolStats, type ToolStats, type ToolStatsSort } from "./tool-stats-ui";
+import { SessionTreeTable, toSessionTree, type SessionTree } from "./session-tree-ui";
+import {
+  PlanOutline,
+  StepCompletedAt,
+  StepCompletedBy,
+  toPlanOutline,
+  toPlanStepAttribution,
+  type PlanOutlineSection,
+  type PlanStepAttribution,
+} from "./plan-outline-ui";
+import {
+  PlanBurnupChart,
+  PlanEta,
+  toPlanForecast,
+  toPlanHistory,
+  type PlanForecast,
+  type PlanHistory,
+} from "./plan-history-ui";
+import { isPlansHash, PlanLibraryTable, PLANS_HASH, toPlanLibrary, type PlanLibrary } from "./plan-library-ui";
+import {
+  EMPTY_TOOL_CALL_FILTER,
+  appendToolCallPage,
+  isToolCallFilterActive,
+  ToolCallFilterBar,
+  toolCallFilterQuery,
+  toToolCallFacets,
+  type ToolCallFacets,
+  type ToolCallFilter,
+} from "./tool-call-filter-ui";
+import { ToolCallDrawer, toToolCallDetail, type ToolCallDetail, type ToolCallDrawerTarget } from "./tool-call-drawer";
+import { TokenUsageUi, tokenUsageCost } from "./token-usage-ui";
+import {
+  readTranscriptHash,
+  toSessionTranscript,
+  transcriptHash,
+  TranscriptView,
+  type SessionTranscript,
+} from "./transcript-ui";
+import { TokenUsageHistoryChart, toTokenUsageHistory, type TokenUsageHistory } from "./token-usage-history-ui";
 
 const APP_VERSION =
   typeof __APP_VERSION__ === "string" && __APP_VERSION__.trim().length > 0 ? __APP_VERSION__ : "0.0.0";
@@ -20,6 +71,7 @@ type BackgroundTask = {
   toolCalls: number;
   lastTool: string;
   timeline: string;
+  tokenUsage?: TokenUsage;
 };
 
 type ToolCallSummary = {
@@ -39,16 +91,65 @@ type ToolCallsResponse = {
   toolCalls: ToolCallSummary[];
   caps?: { maxMessages: number; maxToolCalls: number };
   truncated?: boolean;
+  nextBefore?: string | null;
+  facets?: ToolCallFacets;
 };
 
-type TimeSeriesTone = "muted" | "teal" | "red" | "green";
+// Pages fetched with "Load older"; `nextBefore` is the cursor for the page after them.
+type OlderToolCalls = {
+  toolCalls: ToolCallSummary[];
+  nextBefore: string | null;
+  state: "idle" | "loading" | "error";
+};
+
+type ToolCallsEntry = {
+  state: "idle" | "loading" | "ok" | "error";
+  data: ToolCallsResponse | null;
+  lastFetchedAtMs: number | null;
+  older?: OlderToolCalls;
+};
+
+type SessionListEntry = {
+  id: string;
+  title: string;
+  createdAt: number | null;
+  updatedAt: number | null;
+  agent: string;
+  statusPill: string;
+};
+
+type SessionList = {
+  autoSessionId: string | null;
+  sessions: SessionListEntry[];
+  truncated: boolean;
+};
+
+type ProjectSummary = {
+  id: string;
+  label: string;
+  projectRoot: string;
+  mainSession: { agent: string; session: string; statusPill: string };
+  planProgress: { name: string; completed: number; total: number; statusPill: string };
+};
 
-type TimeSeriesSeriesId =
-  | "overall-main"
-  | "agent:sisyphus"
-  | "agent:prometheus"
-  | "agent:atlas"
-  | "background-total";
+const TIME_SERIES_AGENT_TONES = [
+  "teal",
+  "red",
+  "green",
+  "blue",
+  "violet",
+  "amber",
+  "rose",
+  "slate",
+  "orange",
+  "olive",
+  "indigo",
+] as const;
+
+type TimeSeriesTone = "muted" | "sand" | (typeof TIME_SERIES_AGENT_TONES)[number];
+
+// "overall-main", "background-total", or one "agent:<name>" series per agent seen in the window.
+type TimeSeriesSeriesId = string;
 
 type TimeSeriesSeries = {
   id: TimeSeriesSeriesId;
@@ -73,6 +174,7 @@ type TokenUsageTotals = {
   cacheRead: number;
   cacheWrite: number;
   total: number;
+  cost?: number;
 };
 
 type TokenUsageRow = {
@@ -83,6 +185,8 @@ type TokenUsageRow = {
   cacheRead: number;
   cacheWrite: number;
   total: number;
+  // undefined: server has no price table; null: model missing from it.
+  cost?: number | null;
 };
 
 type TokenUsage = {
@@ -99,50 +203,76 @@ function toNonNegativeFinite(value: unknown): number {
 export function computeOtherMainAgentsCount(params: {
   overall: unknown;
   background: unknown;
-  sisyphus: unknown;
-  prometheus: unknown;
-  atlas: unknown;
+  agents: unknown[];
 }): number {
   const overall = toNonNegativeFinite(params.overall);
   const background = toNonNegativeFinite(params.background);
-  const sisyphus = toNonNegativeFinite(params.sisyphus);
-  const prometheus = toNonNegativeFinite(params.prometheus);
-  const atlas = toNonNegativeFinite(params.atlas);
+  const attributed = params.agents.reduce<number>((sum, value) => sum + toNonNegativeFinite(value), 0);
 
   const mainTotal = Math.max(0, overall - background);
-  return Math.max(0, mainTotal - sisyphus - prometheus - atlas);
+  return Math.max(0, mainTotal - attributed);
 }
 
 export function computeMainAgentsScaleMax(params: {
   buckets: number;
   overallValues: unknown[];
   backgroundValues: unknown[];
-  sisyphusValues: unknown[];
-  prometheusValues: unknown[];
-  atlasValues: unknown[];
+  agentValues: unknown[][];
 }): number {
   const buckets = Math.max(0, Math.floor(params.buckets));
   let sumMax = 0;
 
   for (let i = 0; i < buckets; i++) {
-    const sis = toNonNegativeFinite(params.sisyphusValues[i]);
-    const pro = toNonNegativeFinite(params.prometheusValues[i]);
-    const atl = toNonNegativeFinite(params.atlasValues[i]);
+    const agents = params.agentValues.map((values) => toNonNegativeFinite(values[i]));
     const other = computeOtherMainAgentsCount({
       overall: params.overallValues[i],
       background: params.backgroundValues[i],
-      sisyphus: sis,
-      prometheus: pro,
-      atlas: atl,
+      agents,
     });
-    const s = sis + pro + atl + other;
+    const s = agents.reduce((sum, v) => sum + v, 0) + other;
     if (s > sumMax) sumMax = s;
   }
 
   return Math.max(1, sumMax || 1);
 }
 
-export function TimeSeriesActivitySection(props: { timeSeries: TimeSeries }) {
+export const TIME_SERIES_WINDOW_KEYS = ["5m", "30m", "2h", "24h"] as const;
+export type TimeSeriesWindowKey = (typeof TIME_SERIES_WINDOW_KEYS)[number];
+
+function formatAxisOffset(ms: number): string {
+  const totalMinutes = Math.round(ms / 60_000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return minutes === 0 ? `${hours}h` : `${hours}h${minutes}m`;
+}
+
+export function formatTimeSeriesWindow(windowMs: number): string {
+  const minutes = Math.round(windowMs / 60_000);
+  if (minutes < 60 || minutes % 60 !== 0) return `${minutes} minutes`;
+  const hours = minutes / 60;
+  return hours === 1 ? "hour" : `${hours} hours`;
+}
+
+const TIME_SERIES_AXIS_STEPS_MS = [60_000, 300_000, 600_000, 1_800_000, 3_600_000, 10_800_000, 21_600_000];
+
+// Evenly spaced bottom-axis labels ("-30m" ... "Now") using the smallest step that needs at most 6 intervals.
+export function computeTimeSeriesAxis(windowMs: number): { stepMs: number; labels: string[] } {
+  const stepMs =
+    TIME_SERIES_AXIS_STEPS_MS.find((step) => windowMs / step <= 6) ?? TIME_SERIES_AXIS_STEPS_MS[TIME_SERIES_AXIS_STEPS_MS.length - 1];
+  const intervals = Math.max(1, Math.floor(windowMs / stepMs));
+  const labels = Array.from({ length: intervals + 1 }, (_, idx) => {
+    const offset = (intervals - idx) * stepMs;
+    return offset === 0 ? "Now" : `-${formatAxisOffset(offset)}`;
+  });
+  return { stepMs, labels };
+}
+
+export function TimeSeriesActivitySection(props: {
+  timeSeries: TimeSeries;
+  windowKey?: TimeSeriesWindowKey;
+  onWindowChange?: (next: TimeSeriesWindowKey) => void;
+}) {
   const timeSeriesById = new Map<TimeSeriesSeriesId, TimeSeriesSeries>();
   for (const s of props.timeSeries.series) {
     if (s && typeof s.id === "string") {
@@ -153,16 +283,45 @@ export function TimeSeriesActivitySection(props: { timeSeries: TimeSeries }) {
   const buckets = Math.max(1, props.timeSeries.buckets);
   const bucketMs = Math.max(1, props.timeSeries.bucketMs);
   const viewBox = `0 0 ${buckets} 28`;
-  const minuteStep = Math.max(1, Math.round(60_000 / bucketMs));
+  const axis = computeTimeSeriesAxis(buckets * bucketMs);
+  const gridStep = Math.max(1, Math.round(axis.stepMs / bucketMs));
   const bucketStartMs = props.timeSeries.anchorMs - (buckets - 1) * bucketMs;
 
   const overallValues = timeSeriesById.get("overall-main")?.values ?? [];
+  const backgroundValues = timeSeriesById.get("background-total")?.values ?? [];
+  const agentSeries = props.timeSeries.series.filter((s) => s.id.startsWith("agent:"));
+  const otherMainValues = Array.from({ length: buckets }, (_, i) =>
+    computeOtherMainAgentsCount({
+      overall: overallValues[i],
+      background: backgroundValues[i],
+      agents: agentSeries.map((s) => s.values[i]),
+    })
+  );
+  const legend = [
+    ...agentSeries.map((s) => ({ id: s.id, label: s.label, tone: s.tone })),
+    ...(otherMainValues.some((v) => v > 0) ? [{ id: "other-main", label: "Other", tone: "sand" as const }] : []),
+  ];
 
   return (
     <section className="timeSeries">
       <div className="timeSeriesHeader">
         <h2 className="timeSeriesTitle">Time-series activity</h2>
-        <p className="timeSeriesSub">Last 5 minutes</p>
+        <p className="timeSeriesSub">Last {formatTimeSeriesWindow(buckets * bucketMs)}</p>
+        {props.onWindowChange ? (
+          <div className="timeSeriesWindows" role="group" aria-label="Time window">
+            {TIME_SERIES_WINDOW_KEYS.map((key) => (
+              <button
+                key={key}
+                type="button"
+                className="button buttonSmall"
+                aria-pressed={(props.windowKey ?? "5m") === key}
+                onClick={() => props.onWindowChange?.(key)}
+              >
+                {key}
+              </button>
+            ))}
+          </div>
+        ) : null}
       </div>
 
       <div className="timeSeriesRows">
@@ -190,18 +349,11 @@ export function TimeSeriesActivitySection(props: { timeSeries: TimeSeries }) {
           const barInset = (1 - barW) / 2;
 
           if (row.kind === "main-agents") {
-            const sisyphusValues = timeSeriesById.get("agent:sisyphus")?.values ?? [];
-            const prometheusValues = timeSeriesById.get("agent:prometheus")?.values ?? [];
-            const atlasValues = timeSeriesById.get("agent:atlas")?.values ?? [];
-            const backgroundValues = timeSeriesById.get("background-total")?.values ?? [];
-
             const scaleMax = computeMainAgentsScaleMax({
               buckets,
               overallValues,
               backgroundValues,
-              sisyphusValues,
-              prometheusValues,
-              atlasValues,
+              agentValues: agentSeries.map((s) => s.values),
             });
 
             return (
@@ -209,8 +361,8 @@ export function TimeSeriesActivitySection(props: { timeSeries: TimeSeries }) {
                 <div className="timeSeriesRowLabel">{row.label}</div>
                 <div className="timeSeriesSvgWrap">
                   <svg className="timeSeriesSvg" viewBox={viewBox} preserveAspectRatio="none" aria-hidden="true">
-                    {Array.from({ length: Math.floor(buckets / minuteStep) + 1 }, (_, idx) => {
-                      const x = idx * minuteStep;
+                    {Array.from({ length: Math.floor(buckets / gridStep) + 1 }, (_, idx) => {
+                      const x = idx * gridStep;
                       if (x < 0 || x > buckets) return null;
                       return (
                         <line
@@ -228,24 +380,11 @@ export function TimeSeriesActivitySection(props: { timeSeries: TimeSeries }) {
                       const bucketMsAt = bucketStartMs + i * bucketMs;
                       const barX = i + barInset;
 
-                      const sis = toNonNegativeFinite(sisyphusValues[i]);
-                      const pro = toNonNegativeFinite(prometheusValues[i]);
-                      const atl = toNonNegativeFinite(atlasValues[i]);
-                      const other = computeOtherMainAgentsCount({
-                        overall: overallValues[i],
-                        background: backgroundValues[i],
-                        sisyphus: sis,
-                        prometheus: pro,
-                        atlas: atl,
-                      });
-
                       const segments = computeStackedSegments(
-                        {
-                          sisyphus: sis,
-                          prometheus: pro,
-                          atlas: atl,
-                          other,
-                        },
+                        [
+                          ...agentSeries.map((s) => ({ id: s.id, tone: s.tone, value: toNonNegativeFinite(s.values[i]) })),
+                          { id: "other-main", tone: "sand", value: otherMainValues[i] },
+                        ],
                         scaleMax,
                         chartHeight
                       );
@@ -253,7 +392,7 @@ export function TimeSeriesActivitySection(props: { timeSeries: TimeSeries }) {
                       if (segments.length === 0) return null;
                       return segments.map((seg) => (
                         <rect
-                          key={`main-agents-${bucketMsAt}-${seg.tone}`}
+                          key={`main-agents-${bucketMsAt}-${seg.id}`}
                           className={`timeSeriesBar timeSeriesBar--${seg.tone}`}
                           x={barX}
                           y={padTop + seg.y}
@@ -278,8 +417,8 @@ export function TimeSeriesActivitySection(props: { timeSeries: TimeSeries }) {
               <div className="timeSeriesRowLabel">{row.label}</div>
               <div className="timeSeriesSvgWrap">
                 <svg className="timeSeriesSvg" viewBox={viewBox} preserveAspectRatio="none" aria-hidden="true">
-                  {Array.from({ length: Math.floor(buckets / minuteStep) + 1 }, (_, idx) => {
-                    const x = idx * minuteStep;
+                  {Array.from({ length: Math.floor(buckets / gridStep) + 1 }, (_, idx) => {
+                    const x = idx * gridStep;
                     if (x < 0 || x > buckets) return null;
                     return (
                       <line
@@ -338,18 +477,40 @@ export function TimeSeriesActivitySection(props: { timeSeries: TimeSeries }) {
       <div className="timeSeriesAxisBottom" aria-hidden="true">
         <div />
         <div className="timeSeriesAxisBottomLabels">
-          <span className="timeSeriesAxisBottomLabel">-5m</span>
-          <span className="timeSeriesAxisBottomLabel">-4m</span>
-          <span className="timeSeriesAxisBottomLabel">-3m</span>
-          <span className="timeSeriesAxisBottomLabel">-2m</span>
-          <span className="timeSeriesAxisBottomLabel">-1m</span>
-          <span className="timeSeriesAxisBottomLabel">Now</span>
+          {axis.labels.map((label) => (
+            <span key={label} className="timeSeriesAxisBottomLabel">
+              {label}
+            </span>
+          ))}
         </div>
       </div>
+
+      {legend.length > 0 ? (
+        <div className="timeSeriesLegend" aria-label="Main agents legend">
+          <div />
+          <ul className="timeSeriesLegendItems">
+            {legend.map((item) => (
+              <li key={item.id} className="timeSeriesLegendItem">
+                <svg className="timeSeriesLegendSwatch" viewBox="0 0 1 1" aria-hidden="true">
+                  <rect className={`timeSeriesBar timeSeriesBar--${item.tone}`} width={1} height={1} />
+                </svg>
+                {item.label}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
     </section>
   );
 }
 
+type PlanStepRow = { checked: boolean; text: string; completedAtMs?: number; completedBy?: PlanStepAttribution };
+
+// DOM id of a task table row, for links that scroll to it.
+function taskRowDomId(taskId: string): string {
+  return `task-row-${taskId}`;
+}
+
 type DashboardPayload = {
   mainSession: {
     agent: string;
@@ -366,7 +527,9 @@ type DashboardPayload = {
     total: number;
     path: string;
     statusPill: string;
-    steps?: Array<{ checked: boolean; text: string }>;
+    steps?: PlanStepRow[];
+    outline?: PlanOutlineSection[];
+    forecast?: PlanForecast | null;
   };
   backgroundTasks: BackgroundTask[];
   mainSessionTasks: BackgroundTask[];
@@ -375,24 +538,34 @@ type DashboardPayload = {
   raw: unknown;
 };
 
+const STREAM_RETRY_MS = 30_000;
+
 const TIME_SERIES_DEFAULT_WINDOW_MS = 300_000;
 const TIME_SERIES_DEFAULT_BUCKET_MS = 2_000;
 const TIME_SERIES_DEFAULT_BUCKETS = Math.floor(TIME_SERIES_DEFAULT_WINDOW_MS / TIME_SERIES_DEFAULT_BUCKET_MS);
 
 const TIME_SERIES_SERIES_DEFS: Array<Pick<TimeSeriesSeries, "id" | "label" | "tone">> = [
   { id: "overall-main", label: "Overall", tone: "muted" },
-  { id: "agent:sisyphus", label: "Sisyphus", tone: "teal" },
-  { id: "agent:prometheus", label: "Prometheus", tone: "red" },
-  { id: "agent:atlas", label: "Atlas", tone: "green" },
   { id: "background-total", label: "Background tasks (total)", tone: "muted" },
 ];
 
+function toAgentTone(value: unknown, idx: number): TimeSeriesTone {
+  const known = TIME_SERIES_AGENT_TONES.find((tone) => tone === value);
+  return known ?? TIME_SERIES_AGENT_TONES[idx % TIME_SERIES_AGENT_TONES.length];
+}
+
 function toFiniteNumber(value: unknown): number | null {
   if (typeof value !== "number") return null;
   if (!Number.isFinite(value)) return null;
   return value;
 }
 
+function toOptionalCost(value: unknown): number | null | undefined {
+  if (value === null) return null;
+  const n = toFiniteNumber(value);
+  return n === null ? undefined : Math.max(0, n);
+}
+
 function toNonNegativeCount(value: unknown): number {
   const n = typeof value === "number" ? value : Number(value);
   if (!Number.isFinite(n)) return 0;
@@ -471,14 +644,27 @@ function normalizeTimeSeries(input: unknown, nowMsFallback: number): TimeSeries
     }
   }
 
-  const series: TimeSeriesSeries[] = TIME_SERIES_SERIES_DEFS.map((def) => {
-    const found = byId.get(def.id);
+  const toValues = (found: unknown): number[] => {
     const valuesRaw = found && typeof found === "object" ? (found as Record<string, unknown>).values : null;
     const parsed = Array.isArray(valuesRaw) ? valuesRaw.map(toNonNegativeCount) : [];
     const trimmed = parsed.length > buckets ? parsed.slice(parsed.length - buckets) : parsed;
-    const padded = trimmed.length < buckets ? trimmed.concat(new Array<number>(buckets - trimmed.length).fill(0)) : trimmed;
-    return { ...def, values: padded };
-  });
+    return trimmed.length < buckets ? trimmed.concat(new Array<number>(buckets - trimmed.length).fill(0)) : trimmed;
+  };
+
+  const [overallDef, backgroundDef] = TIME_SERIES_SERIES_DEFS;
+  const agentSeries: TimeSeriesSeries[] = [...byId.entries()]
+    .filter(([id]) => id.startsWith("agent:"))
+    .map(([id, found], idx) => {
+      const srec = found as Record<string, unknown>;
+      const label = typeof srec.label === "string" && srec.label.trim() ? srec.label : id.slice("agent:".length);
+      return { id, label, tone: toAgentTone(srec.tone, idx), values: toValues(found) };
+    });
+
+  const series: TimeSeriesSeries[] = [
+    { ...overallDef, values: toValues(byId.get(overallDef.id)) },
+    ...agentSeries,
+    { ...backgroundDef, values: toValues(byId.get(backgroundDef.id)) },
+  ];
 
   return { windowMs, buckets, bucketMs, anchorMs, serverNowMs, series };
 }
@@ -645,6 +831,7 @@ function toToolCallsResponse(value: unknown): ToolCallsResponse | null {
       : undefined;
 
   const truncated = typeof rec.truncated === "boolean" ? rec.truncated : undefined;
+  const nextBefore = toNonEmptyString(rec.nextBefore ?? rec.next_before);
 
   return {
     ok,
@@ -652,9 +839,194 @@ function toToolCallsResponse(value: unknown): ToolCallsResponse | null {
     toolCalls,
     caps,
     truncated,
+    nextBefore,
+    facets: toToolCallFacets(rec.facets),
+  };
+}
+
+export function toSessionList(value: unknown): SessionList | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  if (rec.ok !== true || !Array.isArray(rec.sessions)) return null;
+
+  const sessions: SessionListEntry[] = rec.sessions
+    .map((s): SessionListEntry | null => {
+      if (!s || typeof s !== "object") return null;
+      const srec = s as Record<string, unknown>;
+      const id = toNonEmptyString(srec.id);
+      if (!id) return null;
+      const createdAt = toFiniteNumber(srec.createdAt ?? srec.created_at);
+      const updatedAt = toFiniteNumber(srec.updatedAt ?? srec.updated_at);
+      return {
+        id,
+        title: toNonEmptyString(srec.title) ?? id,
+        createdAt,
+        updatedAt,
+        agent: toNonEmptyString(srec.agent) ?? "unknown",
+        statusPill: toNonEmptyString(srec.statusPill ?? srec.status) ?? "unknown",
+      };
+    })
+    .filter((s): s is SessionListEntry => s !== null);
+
+  return {
+    autoSessionId: toNonEmptyString(rec.autoSessionId ?? rec.auto_session_id),
+    sessions,
+    truncated: rec.truncated === true,
+  };
+}
+
+export type TransitionEvent = {
+  seq: number;
+  type: string;
+  atMs: number;
+  sessionId: string | null;
+  plan?: { name: string; completed: number; total: number };
+};
+
+export type TransitionEventPage = {
+  // Null from servers that predate epochs.
+  epoch: string | null;
+  events: TransitionEvent[];
+  latestSeq: number;
+  nextSince: number;
+};
+
+export function toTransitionEventPage(value: unknown): TransitionEventPage | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  if (rec.ok !== true || !Array.isArray(rec.events)) return null;
+  const latestSeq = toNonNegativeCount(rec.latestSeq);
+
+  const events = rec.events
+    .map((e): TransitionEvent | null => {
+      if (!e || typeof e !== "object") return null;
+      const erec = e as Record<string, unknown>;
+      const type = toNonEmptyString(erec.type);
+      const seq = toFiniteNumber(erec.seq);
+      if (!type || seq === null) return null;
+      const plan = erec.plan && typeof erec.plan === "object" ? (erec.plan as Record<string, unknown>) : null;
+      return {
+        seq,
+        type,
+        atMs: toFiniteNumber(erec.atMs) ?? 0,
+        sessionId: toNonEmptyString(erec.sessionId),
+        ...(plan
+          ? {
+              plan: {
+                name: toNonEmptyString(plan.name) ?? "",
+                completed: toNonNegativeCount(plan.completed),
+                total: toNonNegativeCount(plan.total),
+              },
+            }
+          : {}),
+      };
+    })
+    .filter((e): e is TransitionEvent => e !== null);
+
+  const nextSinceRaw = toFiniteNumber(rec.nextSince);
+  return {
+    epoch: toNonEmptyString(rec.epoch),
+    events,
+    latestSeq,
+    nextSince: nextSinceRaw === null ? latestSeq : Math.max(0, Math.floor(nextSinceRaw)),
   };
 }
 
+export type TransitionEventCursor = { epoch: string | null; since: number };
+
+// The first page only finds our place. A new epoch means the server restarted and numbers its
+// events from 1 again: the page was read with a stale `since`, so the next pull starts at 0.
+export function advanceTransitionCursor(
+  cursor: TransitionEventCursor | null,
+  page: TransitionEventPage
+): { cursor: TransitionEventCursor; events: TransitionEvent[] } {
+  if (!cursor) return { cursor: { epoch: page.epoch, since: page.latestSeq }, events: [] };
+  if (page.epoch !== cursor.epoch) return { cursor: { epoch: page.epoch, since: 0 }, events: [] };
+  return { cursor: { epoch: page.epoch, since: page.nextSince }, events: page.events };
+}
+
+export type ServerHealth = {
+  privacy: "strict" | "debug" | null;
+  revealToolInputs: boolean;
+  // `--transcripts`: /sessions/:id/transcript is served.
+  transcripts: boolean;
+};
+
+export function toServerHealth(value: unknown): ServerHealth | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  if (rec.ok !== true) return null;
+  return {
+    privacy: rec.privacy === "strict" || rec.privacy === "debug" ? rec.privacy : null,
+    revealToolInputs: rec.revealToolInputs === true,
+    transcripts: rec.transcripts === true,
+  };
+}
+
+export function privacyHeaderText(health: ServerHealth | null): string {
+  // Servers that predate --privacy (or are unreachable) get the original wording.
+  if (!health || health.privacy === null) return "Live view (no prompts or tool arguments rendered).";
+  if (health.privacy === "strict") return "Live view (strict privacy: metadata only, no prompts, tool arguments or output).";
+  if (health.transcripts) {
+    return health.revealToolInputs
+      ? "Live view (debug privacy: redacted transcripts, tool arguments, output and errors shown)."
+      : "Live view (debug privacy: redacted transcripts, tool output and errors shown; no tool arguments).";
+  }
+  return health.revealToolInputs
+    ? "Live view (debug privacy: redacted tool arguments, output and errors shown; no prompts)."
+    : "Live view (debug privacy: redacted tool output and errors shown; no prompts or tool arguments).";
+}
+
+export function toProjectList(value: unknown): ProjectSummary[] | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  if (rec.ok !== true || !Array.isArray(rec.projects)) return null;
+
+  return rec.projects
+    .map((p): ProjectSummary | null => {
+      if (!p || typeof p !== "object") return null;
+      const prec = p as Record<string, unknown>;
+      const id = toNonEmptyString(prec.id);
+      if (!id) return null;
+      const main = (prec.mainSession ?? {}) as Record<string, unknown>;
+      const plan = (prec.planProgress ?? {}) as Record<string, unknown>;
+      return {
+        id,
+        label: toNonEmptyString(prec.label) ?? id,
+        projectRoot: toNonEmptyString(prec.projectRoot) ?? "",
+        mainSession: {
+          agent: toNonEmptyString(main.agent) ?? "unknown",
+          session: toNonEmptyString(main.session) ?? "(no session)",
+          statusPill: toNonEmptyString(main.statusPill) ?? "unknown",
+        },
+        planProgress: {
+          name: toNonEmptyString(plan.name) ?? "(no active plan)",
+          completed: toNonNegativeCount(plan.completed),
+          total: toNonNegativeCount(plan.total),
+          statusPill: toNonEmptyString(plan.statusPill) ?? "not started",
+        },
+      };
+    })
+    .filter((p): p is ProjectSummary => p !== null);
+}
+
+export function projectApiBase(projectId: string | null): string {
+  return projectId ? `/api/projects/${encodeURIComponent(projectId)}` : "/api";
+}
+
+export function withSessionQuery(url: string, sessionId: string | null): string {
+  if (!sessionId) return url;
+  const sep = url.includes("?") ? "&" : "?";
+  return `${url}${sep}sessionId=${encodeURIComponent(sessionId)}`;
+}
+
+export function withTimeSeriesWindow(url: string, windowKey: TimeSeriesWindowKey): string {
+  // 5m is the server default; leaving it off keeps URLs (and cache keys) unchanged.
+  if (windowKey === "5m") return url;
+  const sep = url.includes("?") ? "&" : "?";
+  return `${url}${sep}window=${encodeURIComponent(windowKey)}`;
+}
+
 export function formatBackgroundTaskTimelineCell(status: unknown, timeline: unknown): string {
   const s = typeof status === "string" ? status.trim().toLowerCase() : "";
   if (s === "unknown") return "";
@@ -748,7 +1120,7 @@ function toDashboardPayload(json: unknown): DashboardPayload {
             const totalFromServer = totalKey === undefined || totalKey === null ? null : toNonNegativeCount(totalKey);
             const total = typeof totalFromServer === "number" ? totalFromServer : input + output + reasoning + cacheRead + cacheWrite;
 
-            return { model, input, output, reasoning, cacheRead, cacheWrite, total };
+            return { model, input, output, reasoning, cacheRead, cacheWrite, total, cost: toOptionalCost(r.cost) };
           })
           .filter((r): r is TokenUsageRow => r !== null)
       : [];
@@ -775,25 +1147,34 @@ function toDashboardPayload(json: unknown): DashboardPayload {
       cacheRead: cacheReadTotal,
       cacheWrite: cacheWriteTotal,
       total,
+      cost: toOptionalCost(totalsObj?.cost) ?? undefined,
     };
 
     return { totals, rows };
   }
 
-  function parsePlanSteps(stepsInput: unknown): Array<{ checked: boolean; text: string }> {
+  function parsePlanSteps(stepsInput: unknown): PlanStepRow[] {
     if (!Array.isArray(stepsInput)) return [];
     
     return stepsInput
-      .map((step): { checked: boolean; text: string } | null => {
+      .map((step): PlanStepRow | null => {
         if (!step || typeof step !== "object") return null;
         
         const stepObj = step as Record<string, unknown>;
         const checked = typeof stepObj.checked === "boolean" ? stepObj.checked : false;
         const text = typeof stepObj.text === "string" ? stepObj.text : "";
+        const completedAtMs = typeof stepObj.completedAtMs === "number" && Number.isFinite(stepObj.completedAtMs) ? stepObj.completedAtMs : null;
+        const completedBy = toPlanStepAttribution(stepObj.completedBy);
         
-        return text.trim().length > 0 ? { checked, text } : null;
+        if (text.trim().length === 0) return null;
+        return {
+          checked,
+          text,
+          ...(completedAtMs !== null ? { completedAtMs } : {}),
+          ...(completedBy ? { completedBy } : {}),
+        };
       })
-      .filter((step): step is { checked: boolean; text: string } => step !== null);
+      .filter((step): step is PlanStepRow => step !== null);
   }
 
   const backgroundTasks: BackgroundTask[] = Array.isArray(tasks)
@@ -815,6 +1196,7 @@ function toDashboardPayload(json: unknown): DashboardPayload {
           toolCalls: Number(rec.toolCalls ?? rec.tool_calls ?? 0) || 0,
           lastTool: String(rec.lastTool ?? rec.last_tool ?? "-") || "-",
           timeline: String(rec.timeline ?? "") || "",
+          tokenUsage: rec.tokenUsage ? parseTokenUsage(rec.tokenUsage) : undefined,
         };
       })
     : FALLBACK_DATA.backgroundTasks;
@@ -838,6 +1220,7 @@ function toDashboardPayload(json: unknown): DashboardPayload {
           toolCalls: Number(rec.toolCalls ?? rec.tool_calls ?? 0) || 0,
           lastTool: String(rec.lastTool ?? rec.last_tool ?? "-") || "-",
           timeline: String(rec.timeline ?? "") || "",
+          tokenUsage: rec.tokenUsage ? parseTokenUsage(rec.tokenUsage) : undefined,
         };
       })
     : [];
@@ -845,6 +1228,8 @@ function toDashboardPayload(json: unknown): DashboardPayload {
   const completed = Number(plan.completed ?? plan.done ?? 0) || 0;
   const total = Number(plan.total ?? plan.count ?? 0) || 0;
   const steps = parsePlanSteps(plan.steps);
+  const outline = toPlanOutline(plan.outline);
+  const forecast = toPlanForecast(plan.forecast);
 
   const timeSeries = normalizeTimeSeries(anyJson.timeSeries, Date.now());
   const tokenUsage = parseTokenUsage(anyJson.tokenUsage ?? anyJson.token_usage);
@@ -866,6 +1251,8 @@ function toDashboardPayload(json: unknown): DashboardPayload {
       path: String(plan.path ?? FALLBACK_DATA.planProgress.path),
       statusPill: String(plan.statusPill ?? plan.status ?? FALLBACK_DATA.planProgress.statusPill),
       steps,
+      outline,
+      forecast,
     },
     backgroundTasks,
     mainSessionTasks,
@@ -883,7 +1270,79 @@ export default function App() {
   const [copyState, setCopyState] = React.useState<"idle" | "ok" | "err">("idle");
   const [soundEnabled, setSoundEnabled] = React.useState(false);
   const [soundUnlocked, setSoundUnlocked] = React.useState(false);
+  const [notificationsEnabled, setNotificationsEnabled] = React.useState(false);
+  const [notificationPrefs, setNotificationPrefs] = React.useState<NotificationPrefs>(() => {
+    try {
+      return parseNotificationPrefs(window.localStorage.getItem("omoDashboardNotificationEvents"));
+    } catch {
+      return parseNotificationPrefs(null);
+    }
+  });
   const [planOpen, setPlanOpen] = React.useState(false);
+  const [planHistoryOpen, setPlanHistoryOpen] = React.useState(false);
+  const [planHistory, setPlanHistory] = React.useState<{ data: PlanHistory | null; failed: boolean }>({
+    data: null,
+    failed: false,
+  });
+  const [timelineOpen, setTimelineOpen] = React.useState(false);
+  const [timeSeriesWindow, setTimeSeriesWindow] = React.useState<TimeSeriesWindowKey>(() => {
+    try {
+      const stored = window.localStorage.getItem("omoDashboardTimeSeriesWindow");
+      return TIME_SERIES_WINDOW_KEYS.find((key) => key === stored) ?? "5m";
+    } catch {
+      return "5m";
+    }
+  });
+  const [timeline, setTimeline] = React.useState<SessionTimeline | null>(null);
+  const [toolStatsOpen, setToolStatsOpen] = React.useState(false);
+  const [toolStats, setToolStats] = React.useState<ToolStats | null>(null);
+  const [transcriptSessionId, setTranscriptSessionId] = React.useState<string | null>(() =>
+    typeof window === "undefined" ? null : readTranscriptHash(window.location.hash)
+  );
+  const [transcript, setTranscript] = React.useState<{ data: SessionTranscript | null; failed: boolean }>({
+    data: null,
+    failed: false,
+  });
+  const [transcriptReload, setTranscriptReload] = React.useState(0);
+  const [plansPageOpen, setPlansPageOpen] = React.useState(() =>
+    typeof window === "undefined" ? false : isPlansHash(window.location.hash)
+  );
+  const [planLibrary, setPlanLibrary] = React.useState<{ data: PlanLibrary | null; failed: boolean }>({
+    data: null,
+    failed: false,
+  });
+  const [planLibraryReload, setPlanLibraryReload] = React.useState(0);
+  const [planLibraryHalfDoneOnly, setPlanLibraryHalfDoneOnly] = React.useState(false);
+  const [toolStatsSort, setToolStatsSort] = React.useState<ToolStatsSort>({ key: "calls", dir: "desc" });
+  const [sessionTreeOpen, setSessionTreeOpen] = React.useState(false);
+  const [sessionTree, setSessionTree] = React.useState<SessionTree | null>(null);
+  const [sessionTreeCollapsed, setSessionTreeCollapsed] = React.useState<Set<string>>(() => new Set());
+  const [toolCallTarget, setToolCallTarget] = React.useState<ToolCallDrawerTarget | null>(null);
+  const [toolCallDetail, setToolCallDetail] = React.useState<{ detail: ToolCallDetail | null; failed: boolean }>({
+    detail: null,
+    failed: false,
+  });
+  const [pinnedSessionId, setPinnedSessionId] = React.useState<string | null>(() => {
+    if (typeof window === "undefined") return null;
+    try {
+      return toNonEmptyString(window.localStorage.getItem("omoDashboardPinnedSessionId"));
+    } catch {
+      return null;
+    }
+  });
+  const [sessionList, setSessionList] = React.useState<SessionList | null>(null);
+  const [projects, setProjects] = React.useState<ProjectSummary[]>([]);
+  const [serverHealth, setServerHealth] = React.useState<ServerHealth | null>(null);
+  const [tokenHistory, setTokenHistory] = React.useState<TokenUsageHistory | null>(null);
+  const [projectId, setProjectId] = React.useState<string | null>(() => {
+    if (typeof window === "undefined") return null;
+    try {
+      return toNonEmptyString(window.localStorage.getItem("omoDashboardProjectId"));
+    } catch {
+      return null;
+    }
+  });
+  const apiBase = projectApiBase(projectId);
   const [theme, setTheme] = React.useState<"light" | "dark">(() => {
     if (typeof document === "undefined") return "light";
     return (document.documentElement.getAttribute("data-theme") as "light" | "dark") || "light";
@@ -927,19 +1386,19 @@ export default function App() {
 
   const [expandedBgTaskIds, setExpandedBgTaskIds] = React.useState<Set<string>>(() => new Set());
   const [expandedMainTaskIds, setExpandedMainTaskIds] = React.useState<Set<string>>(() => new Set());
-  const [toolCallsBySession, setToolCallsBySession] = React.useState<
-    Map<string, { state: "idle" | "loading" | "ok" | "error"; data: ToolCallsResponse | null; lastFetchedAtMs: number | null }>
-  >(() => new Map());
+  const [toolCallsBySession, setToolCallsBySession] = React.useState<Map<string, ToolCallsEntry>>(() => new Map());
   const toolCallsBySessionRef = React.useRef(toolCallsBySession);
   const toolCallsSeqRef = React.useRef<Map<string, number>>(new Map());
+  const [toolCallFilters, setToolCallFilters] = React.useState<Map<string, ToolCallFilter>>(() => new Map());
+  const toolCallFiltersRef = React.useRef(toolCallFilters);
 
   const timerRef = React.useRef<number | null>(null);
   const hadSuccessRef = React.useRef(false);
   const soundEnabledRef = React.useRef(false);
-  const prevWaitingRef = React.useRef<boolean | null>(null);
-  const lastLeftWaitingAtRef = React.useRef<number | null>(null);
-  const prevPlanCompletedRef = React.useRef<number | null>(null);
-  const prevPlanTotalRef = React.useRef<number | null>(null);
+  const notificationsEnabledRef = React.useRef(false);
+  const notificationPrefsRef = React.useRef(notificationPrefs);
+  const eventsCursorRef = React.useRef<TransitionEventCursor | null>(null);
+  const eventsPullingRef = React.useRef(false);
 
   const servedFrom = React.useMemo(() => {
     if (typeof window === "undefined") return "";
@@ -955,6 +1414,11 @@ export default function App() {
     soundEnabledRef.current = soundEnabled;
   }, [soundEnabled]);
 
+  React.useEffect(() => {
+    notificationsEnabledRef.current = notificationsEnabled;
+    notificationPrefsRef.current = notificationPrefs;
+  }, [notificationsEnabled, notificationPrefs]);
+
   React.useEffect(() => {
     toolCallsBySessionRef.current = toolCallsBySession;
   }, [toolCallsBySession]);
@@ -970,6 +1434,38 @@ export default function App() {
     }
   }, []);
 
+  React.useEffect(() => {
+    try {
+      const raw = window.localStorage.getItem("omoDashboardNotificationsEnabled");
+      // Permission can be revoked in browser settings between visits.
+      if (raw === "1" && typeof Notification !== "undefined" && Notification.permission === "granted") {
+        setNotificationsEnabled(true);
+      }
+    } catch {
+      // ignore
+    }
+  }, []);
+
+  async function enableNotifications(next: boolean) {
+    const ok = next ? await requestNotificationPermission() : false;
+    setNotificationsEnabled(ok);
+    try {
+      window.localStorage.setItem("omoDashboardNotificationsEnabled", ok ? "1" : "0");
+    } catch {
+      // ignore
+    }
+  }
+
+  function toggleNotificationKind(kind: DingKind) {
+    const next = { ...notificationPrefs, [kind]: !notificationPrefs[kind] };
+    setNotificationPrefs(next);
+    try {
+      window.localStorage.setItem("omoDashboardNotificationEvents", JSON.stringify(next));
+    } catch {
+      // ignore
+    }
+  }
+
   async function enableSound(next: boolean) {
     if (!next) {
       setSoundEnabled(false);
@@ -992,78 +1488,366 @@ export default function App() {
     }
   }
 
-  function toggleTheme() {
-    setTheme((prev) => {
-      const next = prev === "light" ? "dark" : "light";
+  const refreshSessions = React.useCallback(async () => {
+    try {
+      const parsed = toSessionList(await safeFetchJson(`${apiBase}/sessions`));
+      if (parsed) setSessionList(parsed);
+    } catch {
+      // keep the previous list; the picker still works with the pinned id alone
+    }
+  }, [apiBase]);
+
+  React.useEffect(() => {
+    if (!connected) return;
+    let alive = true;
+    // Privacy mode is fixed per server process; re-read it whenever the connection comes back.
+    void (async () => {
       try {
-        window.localStorage.setItem("omoDashboardTheme", next);
+        const parsed = toServerHealth(await safeFetchJson("/api/health"));
+        if (alive) setServerHealth(parsed);
       } catch {
-        // ignore
+        // keep the last known mode
       }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [connected]);
+
+  React.useEffect(() => {
+    let alive = true;
+    let timer: number | null = null;
+
+    async function refreshProjects() {
+      let multi = false;
+      try {
+        const parsed = toProjectList(await safeFetchJson("/api/projects"));
+        if (!alive || !parsed) return;
+        setProjects(parsed);
+        multi = parsed.length > 1;
+        // Drop a remembered project the server no longer serves.
+        setProjectId((prev) => (prev && !parsed.some((p) => p.id === prev) ? null : prev));
+      } catch {
+        // older servers have no /api/projects; stay in single-project mode
+      } finally {
+        if (alive && multi) timer = window.setTimeout(refreshProjects, 10_000);
+      }
+    }
+
+    void refreshProjects();
+    return () => {
+      alive = false;
+      if (timer) window.clearTimeout(timer);
+    };
+  }, []);
+
+  React.useEffect(() => {
+    let alive = true;
+    let timer: number | null = null;
+
+    async function refreshTokenHistory() {
+      try {
+        // The ledger is shared by every project, so this always uses the unscoped route.
+        const parsed = toTokenUsageHistory(await safeFetchJson("/api/token-usage/history?groupBy=day"));
+        if (alive) setTokenHistory(parsed);
+      } catch {
+        if (alive) setTokenHistory(null);
+      } finally {
+        if (alive) timer = window.setTimeout(refreshTokenHistory, 60_000);
+      }
+    }
+
+    void refreshTokenHistory();
+    return () => {
+      alive = false;
+      if (timer) window.clearTimeout(timer);
+    };
+  }, []);
+
+  function selectTimeSeriesWindow(next: TimeSeriesWindowKey) {
+    setTimeSeriesWindow(next);
+    try {
+      window.localStorage.setItem("omoDashboardTimeSeriesWindow", next);
+    } catch {
+      // ignore
+    }
+  }
+
+  function selectProject(next: string | null) {
+    if (next === projectId) return;
+    setProjectId(next);
+    setSessionList(null);
+    pinSession(null);
+    try {
+      if (next) window.localStorage.setItem("omoDashboardProjectId", next);
+      else window.localStorage.removeItem("omoDashboardProjectId");
+    } catch {
+      // ignore
+    }
+  }
+
+  React.useEffect(() => {
+    void refreshSessions();
+  }, [refreshSessions, data.mainSession.sessionId]);
+
+  React.useEffect(() => {
+    if (!timelineOpen) return;
+    let alive = true;
+    let timer: number | null = null;
+
+    // Tick data reads every lane's tool calls, so it is only fetched while the card is open.
+    async function refreshTimeline() {
+      try {
+        const parsed = toSessionTimeline(await safeFetchJson(withSessionQuery(`${apiBase}/timeline`, pinnedSessionId)));
+        if (alive) setTimeline(parsed);
+      } catch {
+        // keep the last layout
+      } finally {
+        if (alive) timer = window.setTimeout(refreshTimeline, 5000);
+      }
+    }
+
+    void refreshTimeline();
+    return () => {
+      alive = false;
+      if (timer) window.clearTimeout(timer);
+    };
+  }, [apiBase, pinnedSessionId, timelineOpen]);
+
+  const statsSessionId = toNonEmptyString(data.mainSession.sessionId);
+  React.useEffect(() => {
+    setToolStats(null);
+    if (!toolStatsOpen || !statsSessionId) return;
+    let alive = true;
+    let timer: number | null = null;
+
+    // Aggregates every session in the tree, so like the timeline it only runs while the card is open.
+    async function refreshToolStats() {
+      try {
+        const parsed = toToolStats(
+          await safeFetchJson(`${apiBase}/tool-stats/${encodeURIComponent(statsSessionId as string)}?scope=tree`)
+        );
+        if (alive) setToolStats(parsed);
+      } catch {
+        // keep the last table
+      } finally {
+        if (alive) timer = window.setTimeout(refreshToolStats, 5000);
+      }
+    }
+
+    void refreshToolStats();
+    return () => {
+      alive = false;
+      if (timer) window.clearTimeout(timer);
+    };
+  }, [apiBase, statsSessionId, toolStatsOpen]);
+
+  React.useEffect(() => {
+    setSessionTree(null);
+    if (!sessionTreeOpen || !statsSessionId) return;
+    let alive = true;
+    let timer: number | null = null;
+
+    async function refreshSessionTree() {
+      try {
+        const parsed = toSessionTree(await safeFetchJson(`${apiBase}/sessions/${encodeURIComponent(statsSessionId as string)}/tree`));
+        if (alive) setSessionTree(parsed);
+      } catch {
+        // keep the last tree
+      } finally {
+        if (alive) timer = window.setTimeout(refreshSessionTree, 5000);
+      }
+    }
+
+    void refreshSessionTree();
+    return () => {
+      alive = false;
+      if (timer) window.clearTimeout(timer);
+    };
+  }, [apiBase, statsSessionId, sessionTreeOpen]);
+
+  const planCompleted = data.planProgress.completed;
+  React.useEffect(() => {
+    if (!planHistoryOpen) {
+      setPlanHistory({ data: null, failed: false });
+      return;
+    }
+    let alive = true;
+    // Refetched whenever the live count moves, so the chart picks up the flip that just landed.
+    void (async () => {
+      try {
+        const parsed = toPlanHistory(await safeFetchJson(`${apiBase}/plan-history`));
+        if (alive) setPlanHistory({ data: parsed, failed: parsed === null });
+      } catch {
+        if (alive) setPlanHistory((prev) => ({ data: prev.data, failed: prev.data === null }));
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [apiBase, planHistoryOpen, planCompleted]);
+
+  function toggleSessionTreeNode(sessionId: string) {
+    setSessionTreeCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(sessionId)) next.delete(sessionId);
+      else next.add(sessionId);
       return next;
     });
   }
 
-  const isWaitingForUser = React.useCallback((payload: DashboardPayload): boolean => {
-    const status = payload.mainSession.statusPill.toLowerCase();
-    const hasSession = payload.mainSession.session !== "(no session)" && payload.mainSession.session !== "";
-    const idle = status.includes("idle");
-    const noTool = payload.mainSession.currentTool === "-" || payload.mainSession.currentTool === "";
-    return hasSession && idle && noTool;
-  }, []);
+  React.useEffect(() => {
+    setToolCallDetail({ detail: null, failed: false });
+    if (!toolCallTarget) return;
+    let alive = true;
+    let timer: number | null = null;
+    const messageQuery = toolCallTarget.messageId ? `?messageId=${encodeURIComponent(toolCallTarget.messageId)}` : "";
+    const url = `${apiBase}/tool-calls/${encodeURIComponent(toolCallTarget.sessionId)}/${encodeURIComponent(toolCallTarget.callId)}${messageQuery}`;
 
-  const maybePlayDings = React.useCallback((prev: DashboardPayload | null, next: DashboardPayload) => {
-    if (!soundEnabledRef.current) return;
-    if (!hadSuccessRef.current) return;
+    // Re-fetch while the call is still open so a stuck tool shows how long it has been running.
+    async function refreshToolCall() {
+      let keepPolling = false;
+      try {
+        const parsed = toToolCallDetail(await safeFetchJson(url));
+        if (!alive) return;
+        setToolCallDetail({ detail: parsed, failed: parsed === null });
+        keepPolling = parsed !== null && (parsed.status === "pending" || parsed.status === "running");
+      } catch {
+        if (alive) setToolCallDetail((prev) => (prev.detail ? prev : { detail: null, failed: true }));
+      } finally {
+        if (alive && keepPolling) timer = window.setTimeout(refreshToolCall, 3000);
+      }
+    }
 
-    const nowMs = Date.now();
-    const suppressFastIdleRoundTripMs = 20_000;
+    void refreshToolCall();
+    return () => {
+      alive = false;
+      if (timer) window.clearTimeout(timer);
+    };
+  }, [apiBase, toolCallTarget]);
 
-    const waiting = isWaitingForUser(next);
-    const prevWaiting = prevWaitingRef.current;
+  React.useEffect(() => {
+    setToolCallTarget(null);
+  }, [apiBase]);
 
-    const completed = next.planProgress.completed;
-    const total = next.planProgress.total;
-    const prevCompleted = prevPlanCompletedRef.current;
-    const prevTotal = prevPlanTotalRef.current;
+  React.useEffect(() => {
+    const onHashChange = () => {
+      setTranscriptSessionId(readTranscriptHash(window.location.hash));
+      setPlansPageOpen(isPlansHash(window.location.hash));
+    };
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, []);
 
-    const wasComplete = typeof prevCompleted === "number" && typeof prevTotal === "number" && prevTotal > 0 && prevCompleted >= prevTotal;
-    const isComplete = total > 0 && completed >= total;
+  const transcriptsDisabled = serverHealth !== null && !serverHealth.transcripts;
+  React.useEffect(() => {
+    setTranscript({ data: null, failed: false });
+    if (!transcriptSessionId || transcriptsDisabled) return;
+    let alive = true;
+    // Loaded once per visit (or on Refresh): transcripts can be large and are for post-mortems, not live watching.
+    void (async () => {
+      try {
+        const parsed = toSessionTranscript(
+          await safeFetchJson(`${apiBase}/sessions/${encodeURIComponent(transcriptSessionId)}/transcript`)
+        );
+        if (alive) setTranscript({ data: parsed, failed: parsed === null });
+      } catch {
+        if (alive) setTranscript({ data: null, failed: true });
+      }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [apiBase, transcriptSessionId, transcriptsDisabled, transcriptReload]);
 
-    if (!wasComplete && isComplete) {
-      void playDing("all");
-    } else if (typeof prevCompleted === "number" && typeof prevTotal === "number") {
-      const samePlan = total === prevTotal;
-      if (samePlan && completed > prevCompleted) {
-        void playDing("task");
+  function openTranscript(sessionId: string | null) {
+    window.location.hash = sessionId ? transcriptHash(sessionId) : "";
+  }
+
+  React.useEffect(() => {
+    if (!plansPageOpen) return;
+    let alive = true;
+    void (async () => {
+      try {
+        const parsed = toPlanLibrary(await safeFetchJson(`${apiBase}/plans`));
+        if (alive) setPlanLibrary({ data: parsed, failed: parsed === null });
+      } catch {
+        if (alive) setPlanLibrary({ data: null, failed: true });
       }
-    }
+    })();
+    return () => {
+      alive = false;
+    };
+  }, [apiBase, plansPageOpen, planLibraryReload]);
 
-    const tool = String(next.mainSession.currentTool ?? "").trim().toLowerCase();
-    const prevTool = String(prev?.mainSession.currentTool ?? "").trim().toLowerCase();
-    if (tool === "question" && prevTool !== "question") {
-      void playDing("question");
+  function openPlans(open: boolean) {
+    window.location.hash = open ? PLANS_HASH : "";
+  }
+
+  function pinSession(next: string | null) {
+    setPinnedSessionId(next);
+    try {
+      if (next) window.localStorage.setItem("omoDashboardPinnedSessionId", next);
+      else window.localStorage.removeItem("omoDashboardPinnedSessionId");
+    } catch {
+      // ignore
     }
+  }
 
-    const waitingDecision = computeWaitingDing({
-      prev: {
-        prevWaiting,
-        lastLeftWaitingAtMs: lastLeftWaitingAtRef.current,
-      },
-      waiting,
-      nowMs,
-      suppressMs: suppressFastIdleRoundTripMs,
+  function toggleTheme() {
+    setTheme((prev) => {
+      const next = prev === "light" ? "dark" : "light";
+      try {
+        window.localStorage.setItem("omoDashboardTheme", next);
+      } catch {
+        // ignore
+      }
+      return next;
     });
+  }
 
-    if (waitingDecision.play) {
-      void playDing("waiting");
+  // Transitions are detected on the server (plan steps, questions, waiting, ...); the UI only
+  // turns new log entries into dings and notifications (see advanceTransitionCursor).
+  // A pinned session has its own log on the server, so the dings follow the session on screen.
+  const pullTransitionEvents = React.useCallback(async () => {
+    if (eventsPullingRef.current) return;
+    eventsPullingRef.current = true;
+    try {
+      const cursor = eventsCursorRef.current;
+      const page = toTransitionEventPage(
+        await safeFetchJson(
+          withSessionQuery(
+            cursor === null ? `${apiBase}/events/log?limit=1` : `${apiBase}/events/log?since=${cursor.since}`,
+            pinnedSessionId
+          )
+        )
+      );
+      // The log was switched (project or pinned session) while this pull was in flight.
+      if (!page || eventsCursorRef.current !== cursor) return;
+      const next = advanceTransitionCursor(cursor, page);
+      eventsCursorRef.current = next.cursor;
+      if (!soundEnabledRef.current && !notificationsEnabledRef.current) return;
+
+      for (const event of next.events) {
+        const kind = dingKindForEvent(event.type);
+        if (!kind) continue;
+        if (soundEnabledRef.current) void playDing(kind);
+        if (notificationsEnabledRef.current && notificationPrefsRef.current[kind]) {
+          const plan = event.plan ?? { name: "", completed: 0, total: 0 };
+          showNotification(kind, notificationMessage(kind, { planName: plan.name, completed: plan.completed, total: plan.total }));
+        }
+      }
+    } catch {
+      // ignore: older servers have no event log
+    } finally {
+      eventsPullingRef.current = false;
     }
+  }, [apiBase, pinnedSessionId]);
 
-    prevWaitingRef.current = waitingDecision.next.prevWaiting;
-    lastLeftWaitingAtRef.current = waitingDecision.next.lastLeftWaitingAtMs;
-    prevPlanCompletedRef.current = completed;
-    prevPlanTotalRef.current = total;
-  }, [isWaitingForUser]);
+  React.useEffect(() => {
+    // Each project and pinned session has its own log and sequence numbers.
+    eventsCursorRef.current = null;
+  }, [apiBase, pinnedSessionId]);
 
   const planPercent = React.useMemo(() => {
     if (!data.planProgress.total) return 0;
@@ -1113,58 +1897,105 @@ export default function App() {
       sums.cacheWrite += toNonNegativeCount(r?.cacheWrite);
     }
     const total = sums.input + sums.output + sums.reasoning + sums.cacheRead + sums.cacheWrite;
-    return { ...sums, total };
+    return { ...sums, total, cost: base.cost };
   }, [data.tokenUsage]);
 
+  const tokenUsageHasUnpriced = React.useMemo(
+    () => (data.tokenUsage?.rows ?? []).some((r) => r.cost === null),
+    [data.tokenUsage]
+  );
+
   React.useEffect(() => {
     let alive = true;
+    let source: EventSource | null = null;
+    let streamFailedAtMs: number | null = null;
+
+    function applyPayload(json: unknown) {
+      hadSuccessRef.current = true;
+      setConnected(true);
+      setErrorHint(null);
+      setData(toDashboardPayload(json));
+      setLastUpdate(Date.now());
+      void pullTransitionEvents();
+    }
+
+    function applyDisconnected(msg: string) {
+      setConnected(false);
+      setErrorHint(msg);
+      setData((prev) => {
+        if (!hadSuccessRef.current) return FALLBACK_DATA;
+        return {
+          ...prev,
+          raw: {
+            ok: false,
+            disconnected: true,
+            error: msg,
+            note: "Showing last known UI values.",
+          },
+        };
+      });
+    }
+
+    function openStream(): boolean {
+      if (typeof window === "undefined" || typeof window.EventSource !== "function") return false;
+
+      const es = new window.EventSource(withTimeSeriesWindow(withSessionQuery(`${apiBase}/events`, pinnedSessionId), timeSeriesWindow));
+      source = es;
+      es.addEventListener("dashboard", (ev) => {
+        if (!alive || source !== es) return;
+        try {
+          applyPayload(JSON.parse((ev as MessageEvent<string>).data));
+        } catch {
+          // ignore malformed frames; the next push replaces them
+        }
+      });
+      es.onerror = () => {
+        if (!alive || source !== es) return;
+        // EventSource retries on its own, but an old server without an events route would
+        // loop forever; drop to polling and try the stream again later.
+        es.close();
+        source = null;
+        streamFailedAtMs = Date.now();
+        void tick();
+      };
+      return true;
+    }
 
     async function tick() {
       let nextConnected = false;
-        try {
-          const json = await safeFetchJson("/api/dashboard");
-          if (!alive) return;
-          nextConnected = true;
-          hadSuccessRef.current = true;
-          setConnected(true);
-          setErrorHint(null);
-          const next = toDashboardPayload(json);
-          setData((prev) => {
-            maybePlayDings(prev, next);
-            return next;
-          });
-          setLastUpdate(Date.now());
-        } catch (err) {
-          if (!alive) return;
-          nextConnected = false;
-          setConnected(false);
-        const msg = err instanceof Error ? err.message : "disconnected";
-        setErrorHint(msg);
-        setData((prev) => {
-          if (!hadSuccessRef.current) return FALLBACK_DATA;
-          return {
-            ...prev,
-            raw: {
-              ok: false,
-              disconnected: true,
-              error: msg,
-              note: "Showing last known UI values.",
-            },
-          };
-        });
+      try {
+        const json = await safeFetchJson(withTimeSeriesWindow(withSessionQuery(`${apiBase}/dashboard`, pinnedSessionId), timeSeriesWindow));
+        if (!alive) return;
+        nextConnected = true;
+        applyPayload(json);
+      } catch (err) {
+        if (!alive) return;
+        nextConnected = false;
+        applyDisconnected(err instanceof Error ? err.message : "disconnected");
       } finally {
-        const delay = nextConnected ? 2200 : 3600;
-        timerRef.current = window.setTimeout(tick, delay);
+        if (alive) {
+          const retryStream =
+            nextConnected &&
+            (streamFailedAtMs === null || Date.now() - streamFailedAtMs >= STREAM_RETRY_MS);
+          if (!(retryStream && openStream())) {
+            const delay = nextConnected ? 2200 : 3600;
+            timerRef.current = window.setTimeout(tick, delay);
+          }
+        }
       }
     }
 
-    tick();
+    if (!openStream()) {
+      void tick();
+    }
 
     return () => {
       alive = false;
+      source?.close();
+      source = null;
       if (timerRef.current) window.clearTimeout(timerRef.current);
     };
-  }, [maybePlayDings]);
+  }, [apiBase, pullTransitionEvents, pinnedSessionId, timeSeriesWindow]);
 
   async function onCopyRawJson() {
     setCopyState("idle");
@@ -1197,18 +2028,26 @@ export default function App() {
         state: "loading",
         data: prior?.data ?? null,
         lastFetchedAtMs: prior?.lastFetchedAtMs ?? null,
+        older: prior?.older,
       });
       return next;
     });
 
     try {
-      const raw = await safeFetchJson(`/api/tool-calls/${encodeURIComponent(sessionId)}`);
+      const filter = toolCallFiltersRef.current.get(sessionId) ?? EMPTY_TOOL_CALL_FILTER;
+      const raw = await safeFetchJson(`${apiBase}/tool-calls/${encodeURIComponent(sessionId)}${toolCallFilterQuery(filter)}`);
       const parsed = toToolCallsResponse(raw);
       if (!parsed?.ok) throw new Error("tool calls not ok");
       if (toolCallsSeqRef.current.get(sessionId) !== seq) return;
       setToolCallsBySession((prev) => {
         const next = new Map(prev);
-        next.set(sessionId, { state: "ok", data: parsed, lastFetchedAtMs: Date.now() });
+        const prior = next.get(sessionId);
+        // Calls that slid off the refreshed first page stay ahead of the older pages already loaded.
+        const older =
+          prior?.older && prior.data
+            ? { ...prior.older, toolCalls: appendToolCallPage(prior.data.toolCalls, prior.older.toolCalls) }
+            : undefined;
+        next.set(sessionId, { state: "ok", data: parsed, lastFetchedAtMs: Date.now(), older });
         return next;
       });
     } catch {
@@ -1220,11 +2059,62 @@ export default function App() {
           state: "error",
           data: prior?.data ?? null,
           lastFetchedAtMs: prior?.lastFetchedAtMs ?? null,
+          older: prior?.older,
         });
         return next;
       });
     }
-  }, []);
+  }, [apiBase]);
+
+  const loadOlderToolCalls = React.useCallback(async (sessionId: string) => {
+    const existing = toolCallsBySessionRef.current.get(sessionId);
+    const before = existing?.older ? existing.older.nextBefore : existing?.data?.nextBefore;
+    if (!before || existing?.older?.state === "loading") return;
+
+    const filter = toolCallFiltersRef.current.get(sessionId) ?? EMPTY_TOOL_CALL_FILTER;
+    const setOlder = (update: (prior: OlderToolCalls | undefined) => OlderToolCalls) => {
+      // A filter change while the page was in flight drops the older pages; don't resurrect them.
+      if ((toolCallFiltersRef.current.get(sessionId) ?? EMPTY_TOOL_CALL_FILTER) !== filter) return;
+      setToolCallsBySession((prev) => {
+        const prior = prev.get(sessionId);
+        if (!prior) return prev;
+        const next = new Map(prev);
+        next.set(sessionId, { ...prior, older: update(prior.older) });
+        return next;
+      });
+    };
+
+    setOlder((prior) => ({ toolCalls: prior?.toolCalls ?? [], nextBefore: before, state: "loading" }));
+    try {
+      const raw = await safeFetchJson(`${apiBase}/tool-calls/${encodeURIComponent(sessionId)}${toolCallFilterQuery(filter, before)}`);
+      const parsed = toToolCallsResponse(raw);
+      if (!parsed?.ok) throw new Error("tool calls not ok");
+      setOlder((prior) => ({
+        toolCalls: appendToolCallPage(prior?.toolCalls ?? [], parsed.toolCalls),
+        nextBefore: parsed.nextBefore ?? null,
+        state: "idle",
+      }));
+    } catch {
+      setOlder((prior) => ({ toolCalls: prior?.toolCalls ?? [], nextBefore: before, state: "error" }));
+    }
+  }, [apiBase]);
+
+  function setToolCallFilter(sessionId: string, filter: ToolCallFilter) {
+    const next = new Map(toolCallFiltersRef.current);
+    if (isToolCallFilterActive(filter)) next.set(sessionId, filter);
+    else next.delete(sessionId);
+    // The ref is read by fetchToolCalls right below, before React re-renders.
+    toolCallFiltersRef.current = next;
+    setToolCallFilters(next);
+    setToolCallsBySession((prev) => {
+      const prior = prev.get(sessionId);
+      if (!prior?.older) return prev;
+      const map = new Map(prev);
+      map.set(sessionId, { ...prior, older: undefined });
+      return map;
+    });
+    void fetchToolCalls(sessionId, { force: true });
+  }
 
   function toggleBackgroundTaskExpanded(t: BackgroundTask) {
     const nextExpanded = !expandedBgTaskIds.has(t.id);
@@ -1278,6 +2168,26 @@ export default function App() {
     void fetchToolCalls(sessionId, { force: false });
   }
 
+  function planStepTaskLabel(by: PlanStepAttribution): string {
+    if (by.taskId === "main-session") return "main session";
+    const task = data.backgroundTasks.find((t) => t.id === by.taskId);
+    return task ? task.description : `task ${by.taskId}`;
+  }
+
+  // Expands the task's row (the effect below loads its tool calls) and scrolls it into view.
+  function openPlanStepTask(by: PlanStepAttribution) {
+    const setExpanded = by.taskId === "main-session" ? setExpandedMainTaskIds : setExpandedBgTaskIds;
+    setExpanded((prev) => (prev.has(by.taskId) ? prev : new Set(prev).add(by.taskId)));
+    window.requestAnimationFrame(() => {
+      document.getElementById(taskRowDomId(by.taskId))?.scrollIntoView({ behavior: "smooth", block: "center" });
+    });
+  }
+
+  function openPlanStepToolCall(by: PlanStepAttribution) {
+    if (!by.sessionId || !by.toolCall) return;
+    setToolCallTarget({ sessionId: by.sessionId, callId: by.toolCall.callId, tool: by.toolCall.tool, messageId: by.toolCall.messageId });
+  }
+
   React.useEffect(() => {
     if (!connected) return;
 
@@ -1321,7 +2231,7 @@ export default function App() {
             <div className="brandText">
               <h1>{APP_TITLE}</h1>
               <p>
-                Live view (no prompts or tool arguments rendered).
+                {privacyHeaderText(serverHealth)}
                 {!connected && errorHint ? <span className="hint"> - {errorHint}</span> : null}
               </p>
             </div>
@@ -1366,6 +2276,17 @@ export default function App() {
             >
               Sound {soundEnabled ? (soundUnlocked ? "On" : "On") : "Off"}
             </button>
+            {notificationsSupported() ? (
+              <button
+                className="button"
+                type="button"
+                onClick={() => void enableNotifications(!notificationsEnabled)}
+                aria-pressed={notificationsEnabled}
+                title={notificationsEnabled ? "Disable desktop notifications" : "Enable desktop notifications"}
+              >
+                Notify {notificationsEnabled ? "On" : "Off"}
+              </button>
+            ) : null}
             <button
               className="button"
               type="button"
@@ -1379,10 +2300,207 @@ export default function App() {
               {copyState === "ok" ? "Copied" : copyState === "err" ? "Copy failed" : "Copy raw JSON"}
             </button>
           </div>
+          {notificationsEnabled ? (
+            <div className="notifyPrefs" role="group" aria-label="Notify me about">
+              <span className="muted">Notify me about</span>
+              {NOTIFICATION_KINDS.map(({ kind, label }) => (
+                <button
+                  key={kind}
+                  type="button"
+                  className="button buttonSmall"
+                  aria-pressed={notificationPrefs[kind]}
+                  onClick={() => toggleNotificationKind(kind)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          ) : null}
         </header>
 
-        <main className="stack">
-          <TimeSeriesActivitySection timeSeries={data.timeSeries} />
+        {transcriptSessionId ? (
+          <main className="stack">
+            <section className="card">
+              <div className="cardHeader">
+                <h2>Transcript</h2>
+                <div className="fieldRow">
+                  <button
+                    className="button buttonSmall"
+                    type="button"
+                    onClick={() => setTranscriptReload((n) => n + 1)}
+                    disabled={transcriptsDisabled}
+                  >
+                    Refresh
+                  </button>
+                  <button className="button buttonSmall" type="button" onClick={() => openTranscript(null)}>
+                    Back to dashboard
+                  </button>
+                </div>
+              </div>
+              <div className="mono muted transcriptSession">{transcriptSessionId}</div>
+              {transcriptsDisabled ? (
+                <div className="muted">Transcripts are disabled. Start the server with --transcripts (debug privacy only).</div>
+              ) : transcript.failed ? (
+                <div className="muted">Transcript unavailable.</div>
+              ) : transcript.data ? (
+                <TranscriptView transcript={transcript.data} />
+              ) : (
+                <div className="muted">Loading transcript...</div>
+              )}
+            </section>
+          </main>
+        ) : null}
+
+        {plansPageOpen && transcriptSessionId === null ? (
+          <main className="stack">
+            <section className="card">
+              <div className="cardHeader">
+                <h2>Plans</h2>
+                <div className="fieldRow">
+                  <button
+                    className="button buttonSmall"
+                    type="button"
+                    onClick={() => setPlanLibraryHalfDoneOnly((v) => !v)}
+                    aria-pressed={planLibraryHalfDoneOnly}
+                  >
+                    Half-done only
+                  </button>
+                  <button className="button buttonSmall" type="button" onClick={() => setPlanLibraryReload((n) => n + 1)}>
+                    Refresh
+                  </button>
+                  <button className="button buttonSmall" type="button" onClick={() => openPlans(false)}>
+                    Back to dashboard
+                  </button>
+                </div>
+              </div>
+              {planLibrary.failed ? (
+                <div className="muted">Plans unavailable.</div>
+              ) : planLibrary.data ? (
+                <PlanLibraryTable library={planLibrary.data} halfDoneOnly={planLibraryHalfDoneOnly} />
+              ) : (
+                <div className="muted">Loading plans...</div>
+              )}
+            </section>
+          </main>
+        ) : null}
+
+        <main className="stack" hidden={transcriptSessionId !== null || plansPageOpen}>
+          {projects.length > 1 ? (
+            <section className="card">
+              <div className="cardHeader">
+                <h2>Projects</h2>
+                <span className="badge">{projects.length}</span>
+              </div>
+              <div className="projectGrid">
+                {projects.map((p, idx) => {
+                  const selected = projectId ? projectId === p.id : idx === 0;
+                  return (
+                    <button
+                      key={p.id}
+                      type="button"
+                      className="projectCard"
+                      aria-pressed={selected}
+                      onClick={() => selectProject(p.id)}
+                      title={p.projectRoot}
+                    >
+                      <div className="projectCardHeader">
+                        <span className="taskTitle">{p.label}</span>
+                        <span className={`pill pill-${statusTone(p.mainSession.statusPill)}`}>{p.mainSession.statusPill}</span>
+                      </div>
+                      <div className="taskSub mono">{p.mainSession.session}</div>
+                      <div className="projectCardPlan">
+                        <span className="mono">{p.planProgress.name}</span>
+                        <span className="mono muted">
+                          {p.planProgress.completed}/{p.planProgress.total || "?"}
+                        </span>
+                      </div>
+                      <div className="progressTrack">
+                        <div
+                          className="progressFill"
+                          style={{
+                            width: `${p.planProgress.total ? clampPercent((p.planProgress.completed / p.planProgress.total) * 100) : 0}%`,
+                          }}
+                        />
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            </section>
+          ) : null}
+
+          <TimeSeriesActivitySection
+            timeSeries={data.timeSeries}
+            windowKey={timeSeriesWindow}
+            onWindowChange={selectTimeSeriesWindow}
+          />
+
+          <section className="card">
+            <div className="cardHeader">
+              <h2>Session timeline</h2>
+              <button
+                className="button"
+                type="button"
+                onClick={() => setTimelineOpen((v) => !v)}
+                aria-expanded={timelineOpen}
+              >
+                {timelineOpen ? "Hide timeline" : "Show timeline"}
+              </button>
+            </div>
+            {timelineOpen ? (
+              timeline ? (
+                <SessionTimelineGantt timeline={timeline} />
+              ) : (
+                <div className="muted">Loading timeline...</div>
+              )
+            ) : null}
+          </section>
+
+          <section className="card">
+            <div className="cardHeader">
+              <h2>Tool stats</h2>
+              <button
+                className="button"
+                type="button"
+                onClick={() => setToolStatsOpen((v) => !v)}
+                aria-expanded={toolStatsOpen}
+              >
+                {toolStatsOpen ? "Hide stats" : "Show stats"}
+              </button>
+            </div>
+            {toolStatsOpen ? (
+              !statsSessionId ? (
+                <div className="muted">No session detected yet.</div>
+              ) : toolStats ? (
+                <ToolStatsTable stats={toolStats} sort={toolStatsSort} onSortChange={setToolStatsSort} />
+              ) : (
+                <div className="muted">Loading tool stats...</div>
+              )
+            ) : null}
+          </section>
+
+          <section className="card">
+            <div className="cardHeader">
+              <h2>Sub-agent tree</h2>
+              <button
+                className="button"
+                type="button"
+                onClick={() => setSessionTreeOpen((v) => !v)}
+                aria-expanded={sessionTreeOpen}
+              >
+                {sessionTreeOpen ? "Hide tree" : "Show tree"}
+              </button>
+            </div>
+            {sessionTreeOpen ? (
+              !statsSessionId ? (
+                <div className="muted">No session detected yet.</div>
+              ) : sessionTree ? (
+                <SessionTreeTable tree={sessionTree} collapsed={sessionTreeCollapsed} onToggle={toggleSessionTreeNode} />
+              ) : (
+                <div className="muted">Loading sub-agent tree...</div>
+              )
+            ) : null}
+          </section>
 
           <section className="grid2">
             <article className="card">
@@ -1413,6 +2531,33 @@ export default function App() {
                 <div className="kvKey">SESSION</div>
                 <div className="kvVal mono">{data.mainSession.session}</div>
               </div>
+              <div className="fieldRow" style={{ marginTop: 10 }}>
+                <select
+                  className="field"
+                  value={pinnedSessionId ?? ""}
+                  onChange={(e) => pinSession(toNonEmptyString(e.target.value))}
+                  onFocus={() => void refreshSessions()}
+                  aria-label="Pin session"
+                  title="Pin a session instead of following the latest one"
+                >
+                  <option value="">Auto (latest session)</option>
+                  {pinnedSessionId && !sessionList?.sessions.some((s) => s.id === pinnedSessionId) ? (
+                    <option value={pinnedSessionId}>{pinnedSessionId}</option>
+                  ) : null}
+                  {(sessionList?.sessions ?? []).map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.title} - {s.agent} - {s.statusPill}
+                      {s.id === sessionList?.autoSessionId ? " (auto)" : ""}
+                    </option>
+                  ))}
+                </select>
+                {pinnedSessionId ? <span className="pill pill-sand">pinned</span> : null}
+                {serverHealth?.transcripts && statsSessionId ? (
+                  <button className="button buttonSmall" type="button" onClick={() => openTranscript(statsSessionId)}>
+                    Transcript
+                  </button>
+                ) : null}
+              </div>
             </article>
 
             <article className="card">
@@ -1420,7 +2565,7 @@ export default function App() {
                 <h2>Plan progress</h2>
                 <span className={`pill pill-${statusTone(data.planProgress.statusPill)}`}>{data.planProgress.statusPill}</span>
               </div>
-              <div className="cardHeader" style={{ marginTop: 8 }}>
+              <div className="fieldRow" style={{ marginTop: 8, marginBottom: 12 }}>
                 <button
                   className="button"
                   type="button"
@@ -1429,6 +2574,17 @@ export default function App() {
                 >
                   {planOpen ? "Hide steps" : "Show steps"}
                 </button>
+                <button
+                  className="button"
+                  type="button"
+                  onClick={() => setPlanHistoryOpen((v) => !v)}
+                  aria-expanded={planHistoryOpen}
+                >
+                  {planHistoryOpen ? "Hide history" : "History"}
+                </button>
+                <button className="button" type="button" onClick={() => openPlans(true)}>
+                  All plans
+                </button>
               </div>
               <div className="kv">
                 <div className="kvRow">
@@ -1444,18 +2600,53 @@ export default function App() {
                     <span className="muted"> - {Math.round(planPercent)}%</span>
                   </div>
                 </div>
+                {data.planProgress.forecast ? (
+                  <div className="kvRow">
+                    <div className="kvKey">ETA</div>
+                    <div className="kvVal">
+                      <PlanEta forecast={data.planProgress.forecast} />
+                    </div>
+                  </div>
+                ) : null}
               </div>
               {planOpen ? (
                 <div className="divider" />
               ) : null}
               {planOpen ? (
-                <div className="mono" style={{ fontSize: 12, lineHeight: 1.5 }}>
-                  {(data.planProgress.steps ?? []).length > 0
-                    ? (data.planProgress.steps ?? []).map((s, idx) => (
-                        <div key={`${idx}-${s.checked ? "x" : "_"}-${s.text}`}>[{s.checked ? "x" : " "}] {s.text || "(empty)"}</div>
-                      ))
-                    : "(no steps detected)"}
-                </div>
+                (data.planProgress.outline ?? []).length > 0 ? (
+                  <PlanOutline
+                    sections={data.planProgress.outline ?? []}
+                    taskLabel={planStepTaskLabel}
+                    onOpenTask={openPlanStepTask}
+                    onOpenToolCall={openPlanStepToolCall}
+                  />
+                ) : (
+                  <div className="mono" style={{ fontSize: 12, lineHeight: 1.5 }}>
+                    {(data.planProgress.steps ?? []).length > 0
+                      ? (data.planProgress.steps ?? []).map((s, idx) => (
+                          <div key={`${idx}-${s.checked ? "x" : "_"}-${s.text}`}>
+                            [{s.checked ? "x" : " "}] {s.text || "(empty)"}
+                            <StepCompletedAt ms={s.completedAtMs} />
+                            <StepCompletedBy
+                              by={s.completedBy}
+                              taskLabel={planStepTaskLabel}
+                              onOpenTask={openPlanStepTask}
+                              onOpenToolCall={openPlanStepToolCall}
+                            />
+                          </div>
+                        ))
+                      : "(no steps detected)"}
+                  </div>
+                )
+              ) : null}
+              {planHistoryOpen ? (
+                planHistory.failed ? (
+                  <div className="muted">Plan history unavailable.</div>
+                ) : planHistory.data ? (
+                  <PlanBurnupChart history={planHistory.data} />
+                ) : (
+                  <div className="muted">Loading plan history...</div>
+                )
               ) : null}
               <div className="progressWrap">
                 <div className="progressTrack">
@@ -1482,6 +2673,7 @@ export default function App() {
                     <th>REASONING</th>
                     <th>CACHE.READ</th>
                     <th>CACHE.WRITE</th>
+                    <th>COST</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -1492,11 +2684,18 @@ export default function App() {
                     <td className="mono">{formatTokenCount(tokenUsageTotalsForUi.reasoning)}</td>
                     <td className="mono">{formatTokenCount(tokenUsageTotalsForUi.cacheRead)}</td>
                     <td className="mono">{formatTokenCount(tokenUsageTotalsForUi.cacheWrite)}</td>
+                    <td
+                      className="mono"
+                      title={tokenUsageHasUnpriced ? "Some models have no price; add them to prices.json" : "Estimated from the price table"}
+                    >
+                      {formatCost(tokenUsageTotalsForUi.cost)}
+                      {tokenUsageHasUnpriced ? "+" : ""}
+                    </td>
                   </tr>
 
                   {tokenUsageRowsSorted.length === 0 ? (
                     <tr>
-                      <td colSpan={6} className="muted" style={{ padding: 16 }}>
+                      <td colSpan={7} className="muted" style={{ padding: 16 }}>
                         No token usage detected yet.
                       </td>
                     </tr>
@@ -1505,6 +2704,8 @@ export default function App() {
               </table>
             </div>
 
+            {tokenHistory ? <TokenUsageHistoryChart history={tokenHistory} /> : null}
+
             {tokenUsageRowsSorted.length > 0 ? (
               <details className="details">
                 <summary className="detailsSummary">
@@ -1522,6 +2723,7 @@ export default function App() {
                           <th>REASONING</th>
                           <th>CACHE.READ</th>
                           <th>CACHE.WRITE</th>
+                          <th>COST</th>
                         </tr>
                       </thead>
                       <tbody>
@@ -1535,6 +2737,7 @@ export default function App() {
                             <td className="mono">{formatTokenCount(r.reasoning)}</td>
                             <td className="mono">{formatTokenCount(r.cacheRead)}</td>
                             <td className="mono">{formatTokenCount(r.cacheWrite)}</td>
+                            <td className="mono">{formatCost(r.cost)}</td>
                           </tr>
                         ))}
                       </tbody>
@@ -1561,13 +2764,15 @@ export default function App() {
                     <th>STATUS</th>
                     <th>TOOL CALLS</th>
                     <th>LAST TOOL</th>
+                    <th>TOKENS</th>
+                    <th>COST</th>
                     <th>TIMELINE</th>
                   </tr>
                 </thead>
                 <tbody>
                   {data.mainSessionTasks.length === 0 ? (
                     <tr>
-                      <td colSpan={7} className="muted" style={{ padding: 16 }}>
+                      <td colSpan={9} className="muted" style={{ padding: 16 }}>
                         No main session tasks detected yet.
                       </td>
                     </tr>
@@ -1577,16 +2782,24 @@ export default function App() {
                     const sessionId = toNonEmptyString(t.sessionId);
                     const detailId = `main-toolcalls-${t.id}`;
                     const entry = sessionId ? toolCallsBySession.get(sessionId) : null;
-                    const toolCalls = entry?.data?.ok ? entry.data.toolCalls : [];
-                    const showCapped = Boolean(entry?.data?.truncated);
+                    const older = entry?.older;
+                    const toolCalls = entry?.data?.ok
+                      ? older
+                        ? appendToolCallPage(entry.data.toolCalls, older.toolCalls)
+                        : entry.data.toolCalls
+                      : [];
+                    const nextBefore = older ? older.nextBefore : (entry?.data?.nextBefore ?? null);
+                    const showCapped = Boolean(entry?.data?.truncated) && !nextBefore;
                     const caps = entry?.data?.caps;
                     const showLoading = entry?.state === "loading";
                     const showError = entry?.state === "error" && !entry?.data?.ok;
                     const empty = sessionId ? toolCalls.length === 0 && !showLoading && !showError : true;
+                    const toolCallFilter = (sessionId ? toolCallFilters.get(sessionId) : null) ?? EMPTY_TOOL_CALL_FILTER;
+                    const filterActive = isToolCallFilterActive(toolCallFilter);
 
                     return (
                       <React.Fragment key={t.id}>
-                        <tr>
+                        <tr id={taskRowDomId(t.id)}>
                           <td>
                             <div className="bgTaskRowTitleWrap">
                               <button
@@ -1611,13 +2824,21 @@ export default function App() {
                           </td>
                           <td className="mono">{t.toolCalls}</td>
                           <td className="mono">{t.lastTool}</td>
+                          <td className="mono">{t.tokenUsage ? formatTokenCount(t.tokenUsage.totals.total) : "-"}</td>
+                          <td className="mono">{formatCost(tokenUsageCost(t.tokenUsage))}</td>
                           <td className="mono muted">{formatBackgroundTaskTimelineCell(t.status, t.timeline)}</td>
                         </tr>
 
                         {expanded ? (
                           <tr>
-                            <td colSpan={7} className="bgTaskDetailCell">
+                            <td colSpan={9} className="bgTaskDetailCell">
                               <section id={detailId} aria-label="Tool calls" className="bgTaskDetail">
+                                {t.tokenUsage && t.tokenUsage.rows.length > 0 ? (
+                                  <div className="bgTaskTokenUsage">
+                                    <div className="mono muted bgTaskDetailHeader">Token usage</div>
+                                    <TokenUsageUi tokenUsage={t.tokenUsage} expanded />
+                                  </div>
+                                ) : null}
                                 <div className="mono muted bgTaskDetailHeader">
                                   Tool calls (metadata only){showLoading && toolCalls.length > 0 ? " - refreshing" : ""}
                                   {showCapped
@@ -1625,6 +2846,24 @@ export default function App() {
                                     : ""}
                                 </div>
 
+                                {sessionId && serverHealth?.transcripts ? (
+                                  <button
+                                    type="button"
+                                    className="button buttonSmall bgTaskTranscriptOpen"
+                                    onClick={() => openTranscript(sessionId)}
+                                  >
+                                    Open transcript
+                                  </button>
+                                ) : null}
+
+                                {sessionId && !showError ? (
+                                  <ToolCallFilterBar
+                                    filter={toolCallFilter}
+                                    facets={entry?.data?.facets}
+                                    onChange={(next) => setToolCallFilter(sessionId, next)}
+                                  />
+                                ) : null}
+
                                 {!sessionId ? (
                                   <div className="muted bgTaskDetailEmpty">No session id available for this task.</div>
                                 ) : showError ? (
@@ -1632,7 +2871,9 @@ export default function App() {
                                 ) : showLoading && toolCalls.length === 0 ? (
                                   <div className="muted bgTaskDetailEmpty">Loading tool calls...</div>
                                 ) : empty ? (
-                                  <div className="muted bgTaskDetailEmpty">No tool calls recorded.</div>
+                                  <div className="muted bgTaskDetailEmpty">
+                                    {filterActive ? "No tool calls match the filters." : "No tool calls recorded."}
+                                  </div>
                                 ) : (
                                   <div className="bgTaskToolCallsGrid">
                                     {toolCalls.map((c) => (
@@ -1644,6 +2885,14 @@ export default function App() {
                                           <div className="mono muted bgTaskToolCallStatus" title={c.status}>
                                             {c.status}
                                           </div>
+                                          <button
+                                            type="button"
+                                            className="button buttonSmall bgTaskToolCallOpen"
+                                            onClick={() => setToolCallTarget({ sessionId, callId: c.callId, tool: c.tool, messageId: c.messageId })}
+                                            aria-label={`Show details for ${c.tool} call ${c.callId}`}
+                                          >
+                                            Details
+                                          </button>
                                         </div>
                                         <div className="mono muted bgTaskToolCallTime">{formatTime(c.createdAtMs)}</div>
                                         <div className="mono muted bgTaskToolCallId" title={c.callId}>
@@ -1669,6 +2918,19 @@ export default function App() {
                                     ))}
                                   </div>
                                 )}
+                                {sessionId && !showError && nextBefore ? (
+                                  <div className="toolCallsLoadOlder">
+                                    <button
+                                      type="button"
+                                      className="button buttonSmall"
+                                      disabled={older?.state === "loading"}
+                                      onClick={() => void loadOlderToolCalls(sessionId)}
+                                    >
+                                      {older?.state === "loading" ? "Loading older..." : "Load older"}
+                                    </button>
+                                    {older?.state === "error" ? <span className="muted">Older tool calls unavailable.</span> : null}
+                                  </div>
+                                ) : null}
                               </section>
                             </td>
                           </tr>
@@ -1698,13 +2960,15 @@ export default function App() {
                     <th>STATUS</th>
                     <th>TOOL CALLS</th>
                     <th>LAST TOOL</th>
+                    <th>TOKENS</th>
+                    <th>COST</th>
                     <th>TIMELINE</th>
                   </tr>
                 </thead>
                 <tbody>
                   {data.backgroundTasks.length === 0 ? (
                     <tr>
-                      <td colSpan={7} className="muted" style={{ padding: 16 }}>
+                      <td colSpan={9} className="muted" style={{ padding: 16 }}>
                         No background tasks detected yet. When you run background agents, they will appear here.
                       </td>
                     </tr>
@@ -1714,16 +2978,24 @@ export default function App() {
                     const sessionId = toNonEmptyString(t.sessionId);
                     const detailId = `bg-toolcalls-${t.id}`;
                     const entry = sessionId ? toolCallsBySession.get(sessionId) : null;
-                    const toolCalls = entry?.data?.ok ? entry.data.toolCalls : [];
-                    const showCapped = Boolean(entry?.data?.truncated);
+                    const older = entry?.older;
+                    const toolCalls = entry?.data?.ok
+                      ? older
+                        ? appendToolCallPage(entry.data.toolCalls, older.toolCalls)
+                        : entry.data.toolCalls
+                      : [];
+                    const nextBefore = older ? older.nextBefore : (entry?.data?.nextBefore ?? null);
+                    const showCapped = Boolean(entry?.data?.truncated) && !nextBefore;
                     const caps = entry?.data?.caps;
                     const showLoading = entry?.state === "loading";
                     const showError = entry?.state === "error" && !entry?.data?.ok;
                     const empty = sessionId ? toolCalls.length === 0 && !showLoading && !showError : true;
+                    const toolCallFilter = (sessionId ? toolCallFilters.get(sessionId) : null) ?? EMPTY_TOOL_CALL_FILTER;
+                    const filterActive = isToolCallFilterActive(toolCallFilter);
 
                     return (
                       <React.Fragment key={t.id}>
-                        <tr>
+                        <tr id={taskRowDomId(t.id)}>
                           <td>
                             <div className="bgTaskRowTitleWrap">
                               <button
@@ -1748,13 +3020,21 @@ export default function App() {
                           </td>
                           <td className="mono">{t.toolCalls}</td>
                           <td className="mono">{t.lastTool}</td>
+                          <td className="mono">{t.tokenUsage ? formatTokenCount(t.tokenUsage.totals.total) : "-"}</td>
+                          <td className="mono">{formatCost(tokenUsageCost(t.tokenUsage))}</td>
                           <td className="mono muted">{formatBackgroundTaskTimelineCell(t.status, t.timeline)}</td>
                         </tr>
 
                         {expanded ? (
                           <tr>
-                            <td colSpan={7} className="bgTaskDetailCell">
+                            <td colSpan={9} className="bgTaskDetailCell">
                               <section id={detailId} aria-label="Tool calls" className="bgTaskDetail">
+                                {t.tokenUsage && t.tokenUsage.rows.length > 0 ? (
+                                  <div className="bgTaskTokenUsage">
+                                    <div className="mono muted bgTaskDetailHeader">Token usage</div>
+                                    <TokenUsageUi tokenUsage={t.tokenUsage} expanded />
+                                  </div>
+                                ) : null}
                                 <div className="mono muted bgTaskDetailHeader">
                                   Tool calls (metadata only){showLoading && toolCalls.length > 0 ? " - refreshing" : ""}
                                   {showCapped
@@ -1762,6 +3042,24 @@ export default function App() {
                                     : ""}
                                 </div>
 
+                                {sessionId && serverHealth?.transcripts ? (
+                                  <button
+                                    type="button"
+                                    className="button buttonSmall bgTaskTranscriptOpen"
+                                    onClick={() => openTranscript(sessionId)}
+                                  >
+                                    Open transcript
+                                  </button>
+                                ) : null}
+
+                                {sessionId && !showError ? (
+                                  <ToolCallFilterBar
+                                    filter={toolCallFilter}
+                                    facets={entry?.data?.facets}
+                                    onChange={(next) => setToolCallFilter(sessionId, next)}
+                                  />
+                                ) : null}
+
                                 {!sessionId ? (
                                   <div className="muted bgTaskDetailEmpty">
                                     No session id available for this task.
@@ -1776,7 +3074,7 @@ export default function App() {
                                   </div>
                                 ) : empty ? (
                                   <div className="muted bgTaskDetailEmpty">
-                                    No tool calls recorded.
+                                    {filterActive ? "No tool calls match the filters." : "No tool calls recorded."}
                                   </div>
                                 ) : (
                                   <div className="bgTaskToolCallsGrid">
@@ -1789,6 +3087,14 @@ export default function App() {
                                           <div className="mono muted bgTaskToolCallStatus" title={c.status}>
                                             {c.status}
                                           </div>
+                                          <button
+                                            type="button"
+                                            className="button buttonSmall bgTaskToolCallOpen"
+                                            onClick={() => setToolCallTarget({ sessionId, callId: c.callId, tool: c.tool, messageId: c.messageId })}
+                                            aria-label={`Show details for ${c.tool} call ${c.callId}`}
+                                          >
+                                            Details
+                                          </button>
                                         </div>
                                         <div className="mono muted bgTaskToolCallTime">{formatTime(c.createdAtMs)}</div>
                                         <div className="mono muted bgTaskToolCallId" title={c.callId}>
@@ -1814,6 +3120,19 @@ export default function App() {
                                     ))}
                                   </div>
                                 )}
+                                {sessionId && !showError && nextBefore ? (
+                                  <div className="toolCallsLoadOlder">
+                                    <button
+                                      type="button"
+                                      className="button buttonSmall"
+                                      disabled={older?.state === "loading"}
+                                      onClick={() => void loadOlderToolCalls(sessionId)}
+                                    >
+                                      {older?.state === "loading" ? "Loading older..." : "Load older"}
+                                    </button>
+                                    {older?.state === "error" ? <span className="muted">Older tool calls unavailable.</span> : null}
+                                  </div>
+                                ) : null}
                               </section>
                             </td>
                           </tr>
@@ -1848,6 +3167,17 @@ export default function App() {
           </div>
         </footer>
       </div>
+
+      {toolCallTarget ? (
+        <ToolCallDrawer
+          target={toolCallTarget}
+          detail={toolCallDetail.detail}
+          loading={!toolCallDetail.detail && !toolCallDetail.failed}
+          failed={toolCallDetail.failed}
+          nowMs={Date.now()}
+          onClose={() => setToolCallTarget(null)}
+        />
+      ) : null}
     </div>
   );
 }
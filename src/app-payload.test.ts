@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest"
-import { toDashboardPayload } from "./App"
+import { advanceTransitionCursor, toDashboardPayload, toTransitionEventPage } from "./App"
 
 describe('toDashboardPayload', () => {
   it('should preserve planProgress.steps from server JSON', () => {
@@ -367,4 +367,92 @@ describe('toDashboardPayload', () => {
       ],
     })
   })
+
+  it('should keep cost estimates and per-task token usage', () => {
+    // #given: server JSON priced with a table that lacks one model
+    const priced = {
+      totals: { input: 1, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 1, cost: 1.5 },
+      rows: [{ model: "openai/gpt-5.2", input: 1, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 1, cost: 1.5 }],
+    }
+    const serverJson = {
+      mainSessionTasks: [{ id: "main-session", description: "Main session", tokenUsage: priced }],
+      backgroundTasks: [{ id: "task-1", description: "no usage yet" }],
+      tokenUsage: {
+        totals: { input: 1, output: 1, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 2, cost: 1.5 },
+        rows: [
+          priced.rows[0],
+          { model: "local/llama", input: 0, output: 1, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 1, cost: null },
+        ],
+      },
+    }
+
+    // #when
+    const payload = toDashboardPayload(serverJson)
+
+    // #then: numbers are kept, explicit nulls mean "unpriced"
+    expect(payload.mainSessionTasks[0]?.tokenUsage).toEqual(priced)
+    expect(payload.backgroundTasks[0]?.tokenUsage).toBeUndefined()
+    expect(payload.tokenUsage.totals.cost).toBe(1.5)
+    expect(payload.tokenUsage.rows.map((r) => r.cost)).toEqual([1.5, null])
+  })
+})
+
+describe('toTransitionEventPage', () => {
+  it('should keep well-formed events and fall back to latestSeq for the cursor', () => {
+    // #given
+    const serverJson: unknown = {
+      ok: true,
+      latestSeq: 7,
+      events: [
+        { seq: 6, type: "plan.step_completed", atMs: 10, sessionId: "ses_main", plan: { name: "refactor", completed: 2, total: 5 } },
+        { seq: "x", type: "session.waiting" },
+        { seq: 7, type: "session.waiting", atMs: 11, sessionId: null },
+      ],
+    }
+
+    // #when
+    const page = toTransitionEventPage(serverJson)
+
+    // #then
+    expect(page?.events.map((e) => e.seq)).toEqual([6, 7])
+    expect(page?.events[0]?.plan).toEqual({ name: "refactor", completed: 2, total: 5 })
+    expect(page?.events[1]?.plan).toBeUndefined()
+    expect(page?.nextSince).toBe(7)
+    expect(toTransitionEventPage({ ok: false, error: "event log unavailable" })).toBeNull()
+  })
+})
+
+describe('advanceTransitionCursor', () => {
+  const event = { seq: 1, type: "session.waiting", atMs: 5, sessionId: null }
+
+  it('should only find its place on the first page and then hand over new events', () => {
+    // #given
+    const page = { epoch: "boot-1", events: [{ ...event, seq: 9 }], latestSeq: 9, nextSince: 9 }
+
+    // #when
+    const first = advanceTransitionCursor(null, page)
+    const next = advanceTransitionCursor(first.cursor, { ...page, events: [{ ...event, seq: 10 }], nextSince: 10 })
+
+    // #then
+    expect(first).toEqual({ cursor: { epoch: "boot-1", since: 9 }, events: [] })
+    expect(next.events.map((e) => e.seq)).toEqual([10])
+    expect(next.cursor).toEqual({ epoch: "boot-1", since: 10 })
+  })
+
+  it('should start over from the beginning of a restarted server log', () => {
+    // #given: read with since=40 from the old log; the new one only has events 1 and 2
+    const cursor = { epoch: "boot-1", since: 40 }
+    const stale = { epoch: "boot-2", events: [], latestSeq: 2, nextSince: 2 }
+
+    // #when
+    const restarted = advanceTransitionCursor(cursor, stale)
+    const caughtUp = advanceTransitionCursor(restarted.cursor, {
+      ...stale,
+      events: [event, { ...event, seq: 2 }],
+    })
+
+    // #then
+    expect(restarted).toEqual({ cursor: { epoch: "boot-2", since: 0 }, events: [] })
+    expect(caughtUp.events.map((e) => e.seq)).toEqual([1, 2])
+  })
 })
@@ -5,20 +5,28 @@ import { cwd, exit } from 'node:process';
 import { findAvailablePort } from './ports';
 
 interface CliArgs {
-  project: string;
+  projects: string[];
   port: number;
+  webhooks: string[];
+  revealToolInputs: boolean;
+  transcripts: boolean;
+  privacy: string | null;
 }
 
 function parseArgs(): CliArgs {
   const args = process.argv.slice(2);
-  let project: string | undefined;
+  const projects: string[] = [];
+  const webhooks: string[] = [];
   let port = 51234; // Default port
+  let revealToolInputs = false;
+  let transcripts = false;
+  let privacy: string | null = null;
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     
     if (arg === '--project' && i + 1 < args.length) {
-      project = args[i + 1];
+      projects.push(args[i + 1]);
       i++; // Skip next argument
     } else if (arg === '--port' && i + 1 < args.length) {
       const portStr = args[i + 1];
@@ -29,14 +37,24 @@ function parseArgs(): CliArgs {
       }
       port = parsedPort;
       i++; // Skip next argument
+    } else if (arg === '--webhook' && i + 1 < args.length) {
+      webhooks.push(args[i + 1]);
+      i++; // Skip next argument
+    } else if (arg === '--reveal-tool-inputs') {
+      revealToolInputs = true;
+    } else if (arg === '--transcripts') {
+      transcripts = true;
+    } else if (arg === '--privacy' && i + 1 < args.length) {
+      privacy = args[i + 1];
+      i++; // Skip next argument
     }
   }
 
-  return { project: project ?? cwd(), port };
+  return { projects: projects.length > 0 ? projects : [cwd()], port, webhooks, revealToolInputs, transcripts, privacy };
 }
 
 async function main() {
-  const { project, port } = parseArgs();
+  const { projects, port, webhooks, revealToolInputs, transcripts, privacy } = parseArgs();
 
   const host = '127.0.0.1';
   const resolvedPort = await findAvailablePort({ host, preferredPort: port });
@@ -44,10 +62,10 @@ async function main() {
     console.log(`Port ${port} is busy; using ${resolvedPort} instead`);
   }
   
-  console.log(`Starting dev servers for project: ${project}`);
+  console.log(`Starting dev servers for project${projects.length > 1 ? 's' : ''}: ${projects.join(', ')}`);
   console.log(`API port: ${resolvedPort}`);
 
-  const apiArgs = ['run', 'src/server/dev.ts', '--', '--project', project, '--port', resolvedPort.toString()];
+  const apiArgs = ['run', 'src/server/dev.ts', '--', ...projects.flatMap((p) => ['--project', p]), ...webhooks.flatMap((w) => ['--webhook', w]), ...(revealToolInputs ? ['--reveal-tool-inputs'] : []), ...(transcripts ? ['--transcripts'] : []), ...(privacy ? ['--privacy', privacy] : []), '--port', resolvedPort.toString()];
   const uiArgs = ['run', 'dev:ui'];
 
   const apiServer = spawn('bun', apiArgs, {
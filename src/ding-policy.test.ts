@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest"
 
-import { computeWaitingDing } from "./ding-policy"
+import { computeWaitingDing, dingKindForEvent } from "./ding-policy"
 
 describe("computeWaitingDing", () => {
   it("dings on first observation when waiting", () => {
@@ -46,3 +46,14 @@ describe("computeWaitingDing", () => {
     expect(back.next.lastLeftWaitingAtMs).toBe(null)
   })
 })
+
+describe("dingKindForEvent", () => {
+  it("maps server transitions to the existing ding tones", () => {
+    expect(dingKindForEvent("plan.completed")).toBe("all")
+    expect(dingKindForEvent("plan.step_completed")).toBe("task")
+    expect(dingKindForEvent("session.question")).toBe("question")
+    expect(dingKindForEvent("session.waiting")).toBe("waiting")
+    expect(dingKindForEvent("task.started")).toBeNull()
+    expect(dingKindForEvent("toString")).toBeNull()
+  })
+})
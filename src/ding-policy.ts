@@ -1,3 +1,5 @@
+import type { DingKind } from "./sound"
+
 export type WaitingDingState = {
   prevWaiting: boolean | null
   lastLeftWaitingAtMs: number | null
@@ -37,3 +39,15 @@ export function computeWaitingDing(opts: {
     },
   }
 }
+
+// Server transition events (see server/transitions.ts) that have a ding; task.* events stay silent.
+const DING_BY_EVENT: Record<string, DingKind> = {
+  "plan.completed": "all",
+  "plan.step_completed": "task",
+  "session.question": "question",
+  "session.waiting": "waiting",
+}
+
+export function dingKindForEvent(type: string): DingKind | null {
+  return Object.prototype.hasOwnProperty.call(DING_BY_EVENT, type) ? DING_BY_EVENT[type] : null
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+
+import { formatCost } from "./format-cost";
+
+describe("formatCost", () => {
+  it("formats dollars with cents and flags sub-cent spend", () => {
+    expect(formatCost(0)).toBe("$0.00");
+    expect(formatCost(0.004)).toBe("<$0.01");
+    expect(formatCost(1234.5)).toBe("$1,234.50");
+  });
+
+  it("renders a dash when no estimate is available", () => {
+    expect(formatCost(null)).toBe("-");
+    expect(formatCost(undefined)).toBe("-");
+    expect(formatCost(Number.NaN)).toBe("-");
+  });
+});
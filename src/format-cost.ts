@@ -0,0 +1,13 @@
+const COST_FORMATTER = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "USD",
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+// Estimated USD; "-" when the server sent no estimate (no price table or unpriced model).
+export function formatCost(value: unknown): string {
+  if (typeof value !== "number" || !Number.isFinite(value)) return "-";
+  if (value > 0 && value < 0.01) return "<$0.01";
+  return COST_FORMATTER.format(Math.max(0, value));
+}
@@ -112,11 +112,15 @@ describe("deriveBackgroundTasks", () => {
     expect(rows[0].toolCalls).toBe(1)
     expect(rows[0].lastTool).toBe("grep")
     expect(rows[0].timeline).toBe("1970-01-01T00:00:01Z: 2s")
+    expect(rows[0].startedAt).toBe(1000)
+    expect(rows[0].endedAt).toBeNull()
 
     const completed = deriveBackgroundTasks({ storage, mainSessionId, nowMs: 20_000 })
     expect(completed.length).toBe(1)
     expect(completed[0].status).toBe("completed")
     expect(completed[0].timeline).toBe("1970-01-01T00:00:01Z: 1s")
+    expect(completed[0].startedAt).toBe(1000)
+    expect(completed[0].endedAt).toBe(2000)
 
     // Ensure no sensitive keys leak
     expect((rows[0] as unknown as Record<string, unknown>).prompt).toBeUndefined()
@@ -202,6 +206,49 @@ describe("deriveBackgroundTasks", () => {
     expect(rows[0].agent).toBe("explore")
   })
 
+  it("marks a delegation whose tool call failed as error and ended", () => {
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const mainSessionId = "ses_main"
+
+    // #given
+    const msgDir = path.join(storage.message, mainSessionId)
+    fs.mkdirSync(msgDir, { recursive: true })
+    const messageID = "msg_1"
+    fs.writeFileSync(
+      path.join(msgDir, `${messageID}.json`),
+      JSON.stringify({ id: messageID, sessionID: mainSessionId, role: "assistant", time: { created: 1000 } }),
+      "utf8"
+    )
+    const partDir = path.join(storage.part, messageID)
+    fs.mkdirSync(partDir, { recursive: true })
+    fs.writeFileSync(
+      path.join(partDir, "part_1.json"),
+      JSON.stringify({
+        id: "part_1",
+        sessionID: mainSessionId,
+        messageID,
+        type: "tool",
+        callID: "call_err",
+        tool: "delegate_task",
+        state: {
+          status: "error",
+          input: { run_in_background: true, description: "Broken task", subagent_type: "oracle" },
+          error: "subagent crashed",
+        },
+      }),
+      "utf8"
+    )
+
+    // #when
+    const rows = deriveBackgroundTasks({ storage, mainSessionId, nowMs: 5000 })
+
+    // #then
+    expect(rows.length).toBe(1)
+    expect(rows[0].status).toBe("error")
+    expect(rows[0].endedAt).toBe(1000)
+  })
+
   it("includes sync delegate_task rows when run_in_background is false", () => {
     const storageRoot = mkStorageRoot()
     const storage = getStorageRoots(storageRoot)
@@ -15,6 +15,10 @@ export type BackgroundTaskRow = {
   lastTool: string | null
   lastModel: string | null
   timeline: string
+  // Epoch ms; `endedAt` stays null while the task is queued, running or unknown.
+  // Failed delegations ("error") count as ended.
+  startedAt: number | null
+  endedAt: number | null
   sessionId: string | null
 }
 
@@ -213,6 +217,65 @@ function formatTimeline(startAt: number | null, endAtMs: number): string {
   return `${start}: ${elapsed}`
 }
 
+type DelegateTaskInput = {
+  description: string
+  agent: string
+  runInBackground: boolean
+  resume: string | null
+}
+
+function readDelegateTaskInput(part: StoredToolPart): DelegateTaskInput | null {
+  if (part.tool !== "delegate_task") return null
+  if (!part.state || typeof part.state !== "object") return null
+
+  const input = part.state.input ?? {}
+  if (typeof input !== "object" || input === null) return null
+
+  const runInBackground = (input as Record<string, unknown>).run_in_background
+  if (runInBackground !== true && runInBackground !== false) return null
+
+  const description = clampString((input as Record<string, unknown>).description, DESCRIPTION_MAX)
+  if (!description) return null
+
+  const subagentType = clampString((input as Record<string, unknown>).subagent_type, AGENT_MAX)
+  const category = clampString((input as Record<string, unknown>).category, AGENT_MAX)
+  const agent = subagentType ?? (category ? `sisyphus-junior (${category})` : "unknown")
+  const resume = (input as Record<string, unknown>).resume
+  return {
+    description,
+    agent,
+    runInBackground,
+    resume: typeof resume === "string" && resume.trim() !== "" ? resume.trim() : null,
+  }
+}
+
+function resolveDelegatedSessionId(opts: {
+  storage: OpenCodeStorageRoots
+  allSessionMetas: SessionMetadata[]
+  parentSessionId: string
+  input: DelegateTaskInput
+  startedAt: number
+  fsLike: FsLike
+}): string | null {
+  const match = {
+    allSessionMetas: opts.allSessionMetas,
+    parentSessionId: opts.parentSessionId,
+    description: opts.input.description,
+    startedAt: opts.startedAt,
+  }
+  if (opts.input.runInBackground) return findBackgroundSessionId(match)
+
+  // For sync tasks, check if resume is specified
+  if (opts.input.resume) {
+    // Check if resumed session exists (has readable messages dir)
+    const resumeMessageDir = getMessageDir(opts.storage.message, opts.input.resume)
+    if (opts.fsLike.existsSync(resumeMessageDir) && opts.fsLike.readdirSync(resumeMessageDir).length > 0) {
+      return opts.input.resume
+    }
+  }
+  return findBackgroundSessionId(match) ?? findTaskSessionId(match)
+}
+
 export function deriveBackgroundTasks(opts: {
   storage: OpenCodeStorageRoots
   mainSessionId: string
@@ -264,60 +327,18 @@ export function deriveBackgroundTasks(opts: {
 
     const parts = readToolPartsForMessage(opts.storage, meta.id, fsLike)
     for (const part of parts) {
-      if (part.tool !== "delegate_task") continue
-      if (!part.state || typeof part.state !== "object") continue
-
-      const input = part.state.input ?? {}
-      if (typeof input !== "object" || input === null) continue
-
-      const runInBackground = (input as Record<string, unknown>).run_in_background
-      if (runInBackground !== true && runInBackground !== false) continue
-
-      const description = clampString((input as Record<string, unknown>).description, DESCRIPTION_MAX)
-      if (!description) continue
-
-      const subagentType = clampString((input as Record<string, unknown>).subagent_type, AGENT_MAX)
-      const category = clampString((input as Record<string, unknown>).category, AGENT_MAX)
-      const agent = subagentType ?? (category ? `sisyphus-junior (${category})` : "unknown")
-
-      let backgroundSessionId: string | null = null
-      
-      if (runInBackground) {
-        backgroundSessionId = findBackgroundSessionId({
-          allSessionMetas,
-          parentSessionId: opts.mainSessionId,
-          description,
-          startedAt,
-        })
-      } else {
-        // For sync tasks, check if resume is specified
-        const resume = (input as Record<string, unknown>).resume
-        if (typeof resume === "string" && resume.trim() !== "") {
-          // Check if resumed session exists (has readable messages dir)
-          const resumeMessageDir = getMessageDir(opts.storage.message, resume.trim())
-          if (fsLike.existsSync(resumeMessageDir) && fsLike.readdirSync(resumeMessageDir).length > 0) {
-            backgroundSessionId = resume.trim()
-          }
-        }
-        
-        if (!backgroundSessionId) {
-          backgroundSessionId = findBackgroundSessionId({
-            allSessionMetas,
-            parentSessionId: opts.mainSessionId,
-            description,
-            startedAt,
-          })
-          
-          if (!backgroundSessionId) {
-            backgroundSessionId = findTaskSessionId({
-              allSessionMetas,
-              parentSessionId: opts.mainSessionId,
-              description,
-              startedAt,
-            })
-          }
-        }
-      }
+      const input = readDelegateTaskInput(part)
+      if (!input) continue
+      const { description, agent } = input
+
+      const backgroundSessionId = resolveDelegatedSessionId({
+        storage: opts.storage,
+        allSessionMetas,
+        parentSessionId: opts.mainSessionId,
+        input,
+        startedAt,
+        fsLike,
+      })
 
       const stats = backgroundSessionId
         ? readBackgroundStats(backgroundSessionId)
@@ -333,8 +354,13 @@ export function deriveBackgroundTasks(opts: {
       } else if (stats.toolCalls > 0) {
         status = "completed"
       }
+      // The delegating tool call itself failed (e.g. the subagent crashed or was rejected).
+      if (part.state?.status === "error") {
+        status = "error"
+      }
+      const ended = status === "completed" || status === "error"
 
-      const timelineEndMs = status === "completed" ? (stats.lastUpdateAt ?? nowMs) : nowMs
+      const timelineEndMs = ended ? (stats.lastUpdateAt ?? nowMs) : nowMs
 
       rows.push({
         id: part.callID,
@@ -345,6 +371,8 @@ export function deriveBackgroundTasks(opts: {
         lastTool: stats.lastTool,
         lastModel,
         timeline: status === "unknown" ? "" : formatTimeline(startedAt, timelineEndMs),
+        startedAt,
+        endedAt: ended ? timelineEndMs : null,
         sessionId: backgroundSessionId,
       })
     }
@@ -354,3 +382,55 @@ export function deriveBackgroundTasks(opts: {
 
   return rows
 }
+
+export type DelegationLink = {
+  callId: string
+  parentSessionId: string
+  // null until the delegated session shows up in storage.
+  sessionId: string | null
+  description: string
+  agent: string
+  startedAt: number
+  // The delegate_task call itself errored.
+  failed: boolean
+}
+
+// Every delegate_task call in one session's recent messages, matched to the session it spawned
+// (or resumed) the same way background task rows are.
+export function deriveDelegationLinks(opts: {
+  storage: OpenCodeStorageRoots
+  sessionId: string
+  allSessionMetas?: SessionMetadata[]
+  fs?: FsLike
+}): DelegationLink[] {
+  const fsLike: FsLike = opts.fs ?? fs
+  const allSessionMetas = opts.allSessionMetas ?? readAllSessionMetas(opts.storage.session, fsLike)
+  const metas = readRecentMessageMetas(getMessageDir(opts.storage.message, opts.sessionId), 200, fsLike)
+
+  const links: DelegationLink[] = []
+  for (const meta of metas) {
+    const startedAt = meta.time?.created
+    if (typeof startedAt !== "number") continue
+    for (const part of readToolPartsForMessage(opts.storage, meta.id, fsLike)) {
+      const input = readDelegateTaskInput(part)
+      if (!input) continue
+      links.push({
+        callId: part.callID,
+        parentSessionId: opts.sessionId,
+        sessionId: resolveDelegatedSessionId({
+          storage: opts.storage,
+          allSessionMetas,
+          parentSessionId: opts.sessionId,
+          input,
+          startedAt,
+          fsLike,
+        }),
+        description: input.description,
+        agent: input.agent,
+        startedAt,
+        failed: part.state?.status === "error",
+      })
+    }
+  }
+  return links.sort((a, b) => a.startedAt - b.startedAt || a.callId.localeCompare(b.callId))
+}
@@ -2,7 +2,7 @@ import * as fs from "node:fs"
 import * as os from "node:os"
 import * as path from "node:path"
 import { describe, expect, it } from "vitest"
-import { readBoulderState, readPlanProgress } from "./boulder"
+import { getPlanOutlineFromMarkdown, getPlanStepsFromMarkdown, readBoulderState, readPlanProgress } from "./boulder"
 
 function mkProjectRoot(): string {
   const root = fs.mkdtempSync(path.join(os.tmpdir(), "omo-project-"))
@@ -64,6 +64,17 @@ describe("readPlanProgress", () => {
     expect(progress.isComplete).toBe(true)
   })
 
+  it("counts indented sub-tasks", () => {
+    const projectRoot = mkProjectRoot()
+    const planPath = path.join(projectRoot, ".sisyphus", "plans", "nested.md")
+    fs.mkdirSync(path.dirname(planPath), { recursive: true })
+    fs.writeFileSync(planPath, ["- [ ] Task 1", "  - [x] Sub 1a", "\t- [ ] Sub 1b"].join("\n"), "utf8")
+
+    const progress = readPlanProgress(projectRoot, planPath)
+    expect(progress.total).toBe(3)
+    expect(progress.completed).toBe(1)
+  })
+
   it("rejects active_plan paths outside projectRoot", () => {
     const projectRoot = mkProjectRoot()
     const outside = fs.mkdtempSync(path.join(os.tmpdir(), "omo-outside-"))
@@ -75,3 +86,64 @@ describe("readPlanProgress", () => {
     expect(progress.isComplete).toBe(false)
   })
 })
+
+describe("getPlanOutlineFromMarkdown", () => {
+  it("nests tasks under headings and sub-tasks under tasks with per-section progress", () => {
+    // #given
+    const content = [
+      "# Refactor plan",
+      "## Context",
+      "Nothing to do here.",
+      "## Phase 1: Setup",
+      "- [x] Install deps",
+      "- [ ] Wire config",
+      "  - [x] Read env",
+      "    - [ ] Validate env",
+      "  - [ ] Write defaults",
+      "## Phase 2: Ship",
+      "### Release",
+      "* [X] Tag",
+    ].join("\n")
+
+    // #when
+    const outline = getPlanOutlineFromMarkdown(content)
+
+    // #then
+    expect(outline).toHaveLength(1)
+    const root = outline[0]
+    expect(root).toMatchObject({ title: "Refactor plan", level: 1, completed: 3, total: 6 })
+    expect(root.sections.map((s) => s.title)).toEqual(["Phase 1: Setup", "Phase 2: Ship"])
+
+    const phase1 = root.sections[0]
+    expect(phase1).toMatchObject({ line: 4, completed: 2, total: 5 })
+    expect(phase1.tasks.map((t) => t.text)).toEqual(["Install deps", "Wire config"])
+    const wire = phase1.tasks[1]
+    expect(wire.children.map((t) => [t.text, t.checked])).toEqual([
+      ["Read env", true],
+      ["Write defaults", false],
+    ])
+    expect(wire.children[0].children).toEqual([{ checked: false, text: "Validate env", line: 8, children: [] }])
+
+    const phase2 = root.sections[1]
+    expect(phase2).toMatchObject({ completed: 1, total: 1 })
+    expect(phase2.sections[0]).toMatchObject({ title: "Release", level: 3, tasks: [{ text: "Tag", checked: true }] })
+  })
+
+  it("keeps tasks above the first heading in an untitled section", () => {
+    const outline = getPlanOutlineFromMarkdown(["- [ ] Loose", "## Later", "- [x] Done"].join("\n"))
+
+    expect(outline.map((s) => [s.title, s.level, s.completed, s.total])).toEqual([
+      [null, 0, 0, 1],
+      ["Later", 2, 1, 1],
+    ])
+  })
+
+  it("ignores checkboxes inside fenced code blocks", () => {
+    const content = ["## Steps", "- [ ] Real", "```md", "- [x] Example", "```", "- [x] Also real"].join("\n")
+
+    expect(getPlanStepsFromMarkdown(content)).toEqual([
+      { checked: false, text: "Real" },
+      { checked: true, text: "Also real" },
+    ])
+  })
+})
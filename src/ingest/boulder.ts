@@ -16,9 +16,44 @@ export type PlanProgress = {
   missing: boolean
 }
 
+// Who was working when a step flipped to checked.
+export type PlanStepAttribution = {
+  // "main-session" or a background task row id, matching the dashboard task tables.
+  taskId: string
+  sessionId: string | null
+  // The edit that changed the plan file, when one could be found in that session.
+  toolCall: { callId: string; messageId: string; tool: string } | null
+}
+
 export type PlanStep = {
   checked: boolean
   text: string
+  // Set by the dashboard from the plan history log, never by the markdown parser.
+  completedAtMs?: number | null
+  completedBy?: PlanStepAttribution | null
+}
+
+export type PlanOutlineTask = {
+  checked: boolean
+  text: string
+  // 1-based line in the plan file.
+  line: number
+  completedAtMs?: number | null
+  completedBy?: PlanStepAttribution | null
+  children: PlanOutlineTask[]
+}
+
+export type PlanOutlineSection = {
+  // null for tasks that appear before the first heading.
+  title: string | null
+  // Markdown heading level (1-6); 0 for the untitled leading section.
+  level: number
+  line: number
+  // Every checkbox in the section: nested sub-tasks and sub-sections included.
+  completed: number
+  total: number
+  tasks: PlanOutlineTask[]
+  sections: PlanOutlineSection[]
 }
 
 export function readBoulderState(projectRoot: string): BoulderState | null {
@@ -37,12 +72,130 @@ export function readBoulderState(projectRoot: string): BoulderState | null {
   }
 }
 
-export function getPlanProgressFromMarkdown(content: string): Omit<PlanProgress, "missing"> {
-  const uncheckedMatches = content.match(/^[-*]\s*\[\s*\]/gm) || []
-  const checkedMatches = content.match(/^[-*]\s*\[[xX]\]/gm) || []
+const HEADING_RE = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/
+const CHECKBOX_RE = /^([ \t]*)[-*]\s*\[(\s|x|X)\]\s*(.*)$/
+const FENCE_RE = /^\s*(```|~~~)/
+
+function indentWidth(indent: string): number {
+  let width = 0
+  for (const ch of indent) width += ch === "\t" ? 4 : 1
+  return width
+}
+
+function countTasks(tasks: PlanOutlineTask[]): { completed: number; total: number } {
+  let completed = 0
+  let total = 0
+  for (const task of tasks) {
+    const nested = countTasks(task.children)
+    completed += nested.completed + (task.checked ? 1 : 0)
+    total += nested.total + 1
+  }
+  return { completed, total }
+}
+
+// Fills in the roll-up counts and drops sections (e.g. "Context", "References") without checkboxes.
+function finishSections(sections: PlanOutlineSection[]): PlanOutlineSection[] {
+  const kept: PlanOutlineSection[] = []
+  for (const section of sections) {
+    section.sections = finishSections(section.sections)
+    const own = countTasks(section.tasks)
+    section.completed = own.completed + section.sections.reduce((sum, s) => sum + s.completed, 0)
+    section.total = own.total + section.sections.reduce((sum, s) => sum + s.total, 0)
+    if (section.total > 0) kept.push(section)
+  }
+  return kept
+}
+
+// Headings nest by level, checkboxes nest by indentation under the nearest less-indented checkbox.
+// Checkboxes inside fenced code blocks are examples, not steps, so they are skipped.
+export function getPlanOutlineFromMarkdown(content: string): PlanOutlineSection[] {
+  const roots: PlanOutlineSection[] = []
+  const sectionStack: PlanOutlineSection[] = []
+  let taskStack: Array<{ indent: number; task: PlanOutlineTask }> = []
+  let leading: PlanOutlineSection | null = null
+  let fence: string | null = null
+
+  const lines = content.split(/\r?\n/)
+  for (let i = 0; i < lines.length; i++) {
+    const raw = lines[i]
+    const fenceMatch = raw.match(FENCE_RE)
+    if (fenceMatch) {
+      if (fence === null) fence = fenceMatch[1]
+      else if (fenceMatch[1] === fence) fence = null
+      continue
+    }
+    if (fence !== null) continue
+
+    const heading = raw.match(HEADING_RE)
+    if (heading) {
+      const level = heading[1].length
+      const section: PlanOutlineSection = {
+        title: heading[2].trim(),
+        level,
+        line: i + 1,
+        completed: 0,
+        total: 0,
+        tasks: [],
+        sections: [],
+      }
+      while (sectionStack.length > 0 && sectionStack[sectionStack.length - 1].level >= level) sectionStack.pop()
+      const parent = sectionStack[sectionStack.length - 1]
+      if (parent) parent.sections.push(section)
+      else roots.push(section)
+      sectionStack.push(section)
+      taskStack = []
+      continue
+    }
+
+    const box = raw.match(CHECKBOX_RE)
+    if (!box) continue
+    const indent = indentWidth(box[1])
+    const task: PlanOutlineTask = {
+      checked: box[2] === "x" || box[2] === "X",
+      text: (box[3] ?? "").trim(),
+      line: i + 1,
+      children: [],
+    }
+    while (taskStack.length > 0 && taskStack[taskStack.length - 1].indent >= indent) taskStack.pop()
+    const parentTask = taskStack[taskStack.length - 1]
+    if (parentTask) {
+      parentTask.task.children.push(task)
+    } else {
+      let section = sectionStack[sectionStack.length - 1]
+      if (!section) {
+        if (!leading) {
+          leading = { title: null, level: 0, line: i + 1, completed: 0, total: 0, tasks: [], sections: [] }
+          roots.unshift(leading)
+        }
+        section = leading
+      }
+      section.tasks.push(task)
+    }
+    taskStack.push({ indent, task })
+  }
+
+  return finishSections(roots)
+}
+
+// Depth-first, so the flat list keeps document order.
+function flattenOutlineTasks(tasks: PlanOutlineTask[], out: PlanStep[]): void {
+  for (const task of tasks) {
+    out.push({ checked: task.checked, text: task.text })
+    flattenOutlineTasks(task.children, out)
+  }
+}
 
-  const total = uncheckedMatches.length + checkedMatches.length
-  const completed = checkedMatches.length
+function flattenOutline(sections: PlanOutlineSection[], out: PlanStep[]): void {
+  for (const section of sections) {
+    flattenOutlineTasks(section.tasks, out)
+    flattenOutline(section.sections, out)
+  }
+}
+
+export function getPlanProgressFromMarkdown(content: string): Omit<PlanProgress, "missing"> {
+  const outline = getPlanOutlineFromMarkdown(content)
+  const total = outline.reduce((sum, s) => sum + s.total, 0)
+  const completed = outline.reduce((sum, s) => sum + s.completed, 0)
 
   return {
     total,
@@ -52,18 +205,8 @@ export function getPlanProgressFromMarkdown(content: string): Omit<PlanProgress,
 }
 
 export function getPlanStepsFromMarkdown(content: string): PlanStep[] {
-  const lines = content.split(/\r?\n/)
   const steps: PlanStep[] = []
-
-  for (const raw of lines) {
-    const line = raw.trim()
-    const m = line.match(/^[-*]\s*\[(\s|x|X)\]\s*(.*)$/)
-    if (!m) continue
-    const checked = m[1] === "x" || m[1] === "X"
-    const text = (m[2] ?? "").trim()
-    steps.push({ checked, text })
-  }
-
+  flattenOutline(getPlanOutlineFromMarkdown(content), steps)
   return steps
 }
 
@@ -113,3 +256,29 @@ export function readPlanSteps(projectRoot: string, planPath: string): { missing:
     return { missing: true, steps: [] }
   }
 }
+
+export function readPlanOutline(
+  projectRoot: string,
+  planPath: string
+): { missing: boolean; sections: PlanOutlineSection[] } {
+  let planReal: string
+  try {
+    planReal = assertAllowedPath({
+      candidatePath: planPath,
+      allowedRoots: [projectRoot],
+    })
+  } catch {
+    return { missing: true, sections: [] }
+  }
+
+  if (!fs.existsSync(planReal)) {
+    return { missing: true, sections: [] }
+  }
+
+  try {
+    const content = fs.readFileSync(planReal, "utf8")
+    return { missing: false, sections: getPlanOutlineFromMarkdown(content) }
+  } catch {
+    return { missing: true, sections: [] }
+  }
+}
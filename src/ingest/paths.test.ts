@@ -2,7 +2,7 @@ import * as fs from "node:fs"
 import * as os from "node:os"
 import * as path from "node:path"
 import { describe, expect, it } from "vitest"
-import { assertAllowedPath, getOpenCodeStorageDir } from "./paths"
+import { assertAllowedPath, getDashboardDataDir, getOpenCodeStorageDir } from "./paths"
 
 describe("getOpenCodeStorageDir", () => {
   it("uses XDG_DATA_HOME when set", () => {
@@ -16,6 +16,13 @@ describe("getOpenCodeStorageDir", () => {
   })
 })
 
+describe("getDashboardDataDir", () => {
+  it("lives beside OpenCode under the XDG data dir", () => {
+    expect(getDashboardDataDir({ XDG_DATA_HOME: "/tmp/xdg" }, "/home/test")).toBe("/tmp/xdg/oh-my-opencode-dashboard")
+    expect(getDashboardDataDir({}, "/home/test")).toBe("/home/test/.local/share/oh-my-opencode-dashboard")
+  })
+})
+
 describe("assertAllowedPath", () => {
   it("allows paths inside allowed roots", () => {
     const base = fs.mkdtempSync(path.join(os.tmpdir(), "omo-dashboard-"))
@@ -14,6 +14,11 @@ export function getOpenCodeStorageDir(env: Env = process.env, homedir: string =
   return path.join(getDataDir(env, homedir), "opencode", "storage")
 }
 
+// Dashboard-owned state (history ledgers, logs) lives next to OpenCode's data, never inside it.
+export function getDashboardDataDir(env: Env = process.env, homedir: string = os.homedir()): string {
+  return path.join(getDataDir(env, homedir), "oh-my-opencode-dashboard")
+}
+
 export function realpathSafe(p: string): string | null {
   try {
     return fs.realpathSync(p)
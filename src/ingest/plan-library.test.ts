@@ -0,0 +1,69 @@
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { describe, expect, it } from "vitest"
+import { MAX_PLAN_LIBRARY_ENTRIES, readPlanLibrary } from "./plan-library"
+
+function mkProjectRoot(): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "omo-project-"))
+  fs.mkdirSync(path.join(root, ".sisyphus", "plans"), { recursive: true })
+  return root
+}
+
+function writePlan(projectRoot: string, rel: string, content: string, mtimeMs: number): void {
+  const filePath = path.join(projectRoot, ".sisyphus", rel)
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(filePath, content, "utf8")
+  fs.utimesSync(filePath, mtimeMs / 1000, mtimeMs / 1000)
+}
+
+describe("readPlanLibrary", () => {
+  it("lists plans and drafts with progress, active plan first then newest", () => {
+    // #given
+    const projectRoot = mkProjectRoot()
+    writePlan(projectRoot, "plans/done.md", "- [x] a\n  - [x] b", 3_000_000)
+    writePlan(projectRoot, "plans/active.md", "# Phase\n- [ ] a\n- [x] b", 1_000_000)
+    writePlan(projectRoot, "plans/fresh.md", "- [ ] a", 4_000_000)
+    writePlan(projectRoot, "drafts/idea.md", "Just notes", 2_000_000)
+    writePlan(projectRoot, "plans/notes.txt", "- [ ] not a plan", 5_000_000)
+    fs.writeFileSync(
+      path.join(projectRoot, ".sisyphus", "boulder.json"),
+      JSON.stringify({ active_plan: ".sisyphus/plans/active.md", session_ids: [], plan_name: "active" }),
+      "utf8"
+    )
+
+    // #when
+    const library = readPlanLibrary(projectRoot)
+
+    // #then
+    expect(library.truncated).toBe(false)
+    expect(library.plans.map((p) => [p.relativePath, p.statusPill, p.isActive])).toEqual([
+      [path.join(".sisyphus", "plans", "active.md"), "in progress", true],
+      [path.join(".sisyphus", "plans", "fresh.md"), "not started", false],
+      [path.join(".sisyphus", "plans", "done.md"), "complete", false],
+      [path.join(".sisyphus", "drafts", "idea.md"), "no steps", false],
+    ])
+    expect(library.plans[2]).toMatchObject({ name: "done", kind: "plan", completed: 2, total: 2, mtimeMs: 3_000_000 })
+    expect(library.plans[3].kind).toBe("draft")
+  })
+
+  it("skips plans that link outside the project", () => {
+    const projectRoot = mkProjectRoot()
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), "omo-outside-"))
+    fs.writeFileSync(path.join(outside, "secret.md"), "- [ ] outside", "utf8")
+    fs.symlinkSync(path.join(outside, "secret.md"), path.join(projectRoot, ".sisyphus", "plans", "link.md"))
+
+    expect(readPlanLibrary(projectRoot).plans).toEqual([])
+  })
+
+  it("caps the number of entries", () => {
+    const projectRoot = mkProjectRoot()
+    for (let i = 0; i <= MAX_PLAN_LIBRARY_ENTRIES; i++) {
+      fs.writeFileSync(path.join(projectRoot, ".sisyphus", "plans", `p${i}.md`), "- [ ] a", "utf8")
+    }
+
+    const library = readPlanLibrary(projectRoot)
+    expect(library.plans).toHaveLength(MAX_PLAN_LIBRARY_ENTRIES)
+    expect(library.truncated).toBe(true)
+  })
+})
@@ -0,0 +1,113 @@
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { getPlanProgressFromMarkdown, readBoulderState } from "./boulder"
+import { assertAllowedPath, realpathSafe } from "./paths"
+
+export type PlanLibraryKind = "plan" | "draft"
+
+export type PlanLibraryEntry = {
+  name: string
+  kind: PlanLibraryKind
+  path: string
+  // Relative to the project root, e.g. ".sisyphus/plans/refactor.md".
+  relativePath: string
+  mtimeMs: number | null
+  completed: number
+  total: number
+  isComplete: boolean
+  statusPill: string
+  // This file is `boulder.active_plan`.
+  isActive: boolean
+}
+
+export type PlanLibrary = {
+  activePlanPath: string | null
+  plans: PlanLibraryEntry[]
+  // True when there were more than MAX_PLAN_LIBRARY_ENTRIES markdown files.
+  truncated: boolean
+}
+
+export const MAX_PLAN_LIBRARY_ENTRIES = 200
+
+// Prometheus writes finished plans to `.sisyphus/plans` and work in progress to `.sisyphus/drafts`.
+const PLAN_DIRS: Array<{ dir: string; kind: PlanLibraryKind }> = [
+  { dir: "plans", kind: "plan" },
+  { dir: "drafts", kind: "draft" },
+]
+
+function listMarkdownFiles(dir: string): string[] {
+  try {
+    return fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => entry.isFile() && entry.name.toLowerCase().endsWith(".md"))
+      .map((entry) => entry.name)
+  } catch {
+    return []
+  }
+}
+
+function libraryStatusPill(progress: { completed: number; total: number; isComplete: boolean }): string {
+  if (progress.total === 0) return "no steps"
+  if (progress.isComplete) return "complete"
+  return progress.completed > 0 ? "in progress" : "not started"
+}
+
+// Active plan first, then most recently edited, so the half-done backlog sits near the top.
+export function readPlanLibrary(projectRoot: string): PlanLibrary {
+  const boulder = readBoulderState(projectRoot)
+  const activeReal =
+    boulder && typeof boulder.active_plan === "string" && boulder.active_plan
+      ? realpathSafe(path.resolve(projectRoot, boulder.active_plan))
+      : null
+
+  const plans: PlanLibraryEntry[] = []
+  let truncated = false
+  for (const { dir, kind } of PLAN_DIRS) {
+    const dirPath = path.join(projectRoot, ".sisyphus", dir)
+    for (const file of listMarkdownFiles(dirPath).sort()) {
+      if (plans.length >= MAX_PLAN_LIBRARY_ENTRIES) {
+        truncated = true
+        break
+      }
+
+      let fileReal: string
+      try {
+        // Symlinks out of the project are skipped rather than followed.
+        fileReal = assertAllowedPath({ candidatePath: path.join(dirPath, file), allowedRoots: [projectRoot] })
+      } catch {
+        continue
+      }
+
+      let content: string
+      let mtimeMs: number | null
+      try {
+        content = fs.readFileSync(fileReal, "utf8")
+        mtimeMs = fs.statSync(fileReal).mtimeMs
+      } catch {
+        continue
+      }
+
+      const progress = getPlanProgressFromMarkdown(content)
+      plans.push({
+        name: file.replace(/\.md$/i, ""),
+        kind,
+        path: path.join(dirPath, file),
+        relativePath: path.join(".sisyphus", dir, file),
+        mtimeMs: Number.isFinite(mtimeMs) ? Math.floor(mtimeMs) : null,
+        ...progress,
+        statusPill: libraryStatusPill(progress),
+        isActive: activeReal !== null && fileReal === activeReal,
+      })
+    }
+  }
+
+  plans.sort((a, b) => {
+    if (a.isActive !== b.isActive) return a.isActive ? -1 : 1
+    const at = a.mtimeMs ?? 0
+    const bt = b.mtimeMs ?? 0
+    if (at !== bt) return bt - at
+    return a.relativePath.localeCompare(b.relativePath)
+  })
+
+  return { activePlanPath: boulder?.active_plan ?? null, plans, truncated }
+}
@@ -0,0 +1,82 @@
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { describe, expect, it } from "vitest"
+import { DEFAULT_PRICE_TABLE, estimateCost, loadPriceTable, parsePriceTable, resolveModelPrice } from "./pricing"
+
+describe("resolveModelPrice", () => {
+  it("prefers exact keys, then the longest wildcard prefix", () => {
+    // #given
+    const table = {
+      "openai/gpt-5*": { input: 1, output: 1 },
+      "openai/gpt-5-mini*": { input: 2, output: 2 },
+      "openai/gpt-5-mini-2025": { input: 3, output: 3 },
+    }
+
+    // #when / #then
+    expect(resolveModelPrice(table, "openai/gpt-5-mini-2025")?.input).toBe(3)
+    expect(resolveModelPrice(table, "openai/gpt-5-mini-2026")?.input).toBe(2)
+    expect(resolveModelPrice(table, "openai/gpt-5.2")?.input).toBe(1)
+    expect(resolveModelPrice(table, "anthropic/claude-opus-4-5")).toBeNull()
+  })
+
+  it("ships defaults for common provider/model strings", () => {
+    expect(resolveModelPrice(DEFAULT_PRICE_TABLE, "anthropic/claude-opus-4-5")).not.toBeNull()
+    expect(resolveModelPrice(DEFAULT_PRICE_TABLE, "openai/gpt-5.2")).not.toBeNull()
+  })
+})
+
+describe("estimateCost", () => {
+  it("prices each token class per million and bills reasoning at the output rate by default", () => {
+    // #given
+    const price = { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 }
+
+    // #when
+    const cost = estimateCost(price, {
+      input: 1_000_000,
+      output: 100_000,
+      reasoning: 100_000,
+      cacheRead: 1_000_000,
+      cacheWrite: 0,
+    })
+
+    // #then
+    expect(cost).toBe(3 + 1.5 + 1.5 + 0.3)
+  })
+})
+
+describe("loadPriceTable", () => {
+  it("merges a user override file over the shipped defaults", () => {
+    // #given
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "omo-prices-"))
+    const filePath = path.join(dir, "prices.json")
+    fs.writeFileSync(
+      filePath,
+      JSON.stringify({
+        "anthropic/claude-opus-4-5*": { input: 1, output: 2 },
+        "github-copilot/claude-sonnet-4.5": { input: 0, output: 0 },
+        "broken/model": { input: "free" },
+      }),
+      "utf8"
+    )
+
+    // #when
+    const table = loadPriceTable({ filePath })
+
+    // #then
+    expect(table["anthropic/claude-opus-4-5*"]).toMatchObject({ input: 1, output: 2 })
+    expect(table["github-copilot/claude-sonnet-4.5"]).toMatchObject({ input: 0, output: 0 })
+    expect(table["broken/model"]).toBeUndefined()
+    expect(table["openai/gpt-5.2*"]).toEqual(DEFAULT_PRICE_TABLE["openai/gpt-5.2*"])
+  })
+
+  it("falls back to defaults when the file is missing or invalid", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "omo-prices-"))
+    const invalid = path.join(dir, "prices.json")
+    fs.writeFileSync(invalid, "{not json", "utf8")
+
+    expect(loadPriceTable({ filePath: path.join(dir, "missing.json") })).toEqual(DEFAULT_PRICE_TABLE)
+    expect(loadPriceTable({ filePath: invalid })).toEqual(DEFAULT_PRICE_TABLE)
+    expect(parsePriceTable([1, 2])).toEqual({})
+  })
+})
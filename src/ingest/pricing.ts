@@ -0,0 +1,109 @@
+import * as fs from "node:fs"
+
+// USD per 1M tokens. `reasoning` defaults to the output rate when omitted.
+export type ModelPrice = {
+  input: number
+  output: number
+  reasoning?: number
+  cacheRead?: number
+  cacheWrite?: number
+}
+
+// Keys use the `provider/model` format produced by extractModelString. A trailing `*`
+// matches by prefix (longest prefix wins), which covers dated model variants.
+export type PriceTable = Record<string, ModelPrice>
+
+export const PRICE_TABLE_FILE = "prices.json"
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  "anthropic/claude-opus-4-5*": { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  "anthropic/claude-opus-4-1*": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  "anthropic/claude-opus-4-0*": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  "anthropic/claude-opus-4-2*": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  "anthropic/claude-sonnet-4*": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "anthropic/claude-haiku-4-5*": { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  "anthropic/claude-3-5-haiku*": { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  "openai/gpt-5.2*": { input: 1.75, output: 14, cacheRead: 0.175 },
+  "openai/gpt-5.1*": { input: 1.25, output: 10, cacheRead: 0.125 },
+  "openai/gpt-5-mini*": { input: 0.25, output: 2, cacheRead: 0.025 },
+  "openai/gpt-5-nano*": { input: 0.05, output: 0.4, cacheRead: 0.005 },
+  "openai/gpt-5": { input: 1.25, output: 10, cacheRead: 0.125 },
+  "openai/gpt-5-codex*": { input: 1.25, output: 10, cacheRead: 0.125 },
+  "openai/gpt-4.1*": { input: 2, output: 8, cacheRead: 0.5 },
+  "google/gemini-2.5-pro*": { input: 1.25, output: 10, cacheRead: 0.31 },
+  "google/gemini-2.5-flash*": { input: 0.3, output: 2.5, cacheRead: 0.075 },
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null
+}
+
+function readRate(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : undefined
+}
+
+function readModelPrice(value: unknown): ModelPrice | null {
+  if (!isRecord(value)) return null
+  const input = readRate(value.input)
+  const output = readRate(value.output)
+  if (input === undefined || output === undefined) return null
+  return {
+    input,
+    output,
+    reasoning: readRate(value.reasoning),
+    cacheRead: readRate(value.cacheRead ?? value.cache_read),
+    cacheWrite: readRate(value.cacheWrite ?? value.cache_write),
+  }
+}
+
+export function parsePriceTable(value: unknown): PriceTable {
+  const table: PriceTable = {}
+  if (!isRecord(value)) return table
+  for (const [key, raw] of Object.entries(value)) {
+    const trimmed = key.trim()
+    const price = readModelPrice(raw)
+    if (trimmed && price) table[trimmed] = price
+  }
+  return table
+}
+
+// User entries override shipped defaults key by key; a missing or invalid file keeps the defaults.
+export function loadPriceTable(opts: { filePath?: string | null; defaults?: PriceTable }): PriceTable {
+  const defaults = opts.defaults ?? DEFAULT_PRICE_TABLE
+  if (!opts.filePath) return { ...defaults }
+  try {
+    if (!fs.existsSync(opts.filePath)) return { ...defaults }
+    const content = fs.readFileSync(opts.filePath, "utf8")
+    return { ...defaults, ...parsePriceTable(JSON.parse(content)) }
+  } catch {
+    return { ...defaults }
+  }
+}
+
+export function resolveModelPrice(table: PriceTable, model: string): ModelPrice | null {
+  const exact = table[model]
+  if (exact) return exact
+
+  let best: { length: number; price: ModelPrice } | null = null
+  for (const [key, price] of Object.entries(table)) {
+    if (!key.endsWith("*")) continue
+    const prefix = key.slice(0, -1)
+    if (!model.startsWith(prefix)) continue
+    if (!best || prefix.length > best.length) best = { length: prefix.length, price }
+  }
+  return best?.price ?? null
+}
+
+export function estimateCost(
+  price: ModelPrice,
+  tokens: { input: number; output: number; reasoning: number; cacheRead: number; cacheWrite: number }
+): number {
+  const usd =
+    tokens.input * price.input +
+    tokens.output * price.output +
+    tokens.reasoning * (price.reasoning ?? price.output) +
+    tokens.cacheRead * (price.cacheRead ?? price.input) +
+    tokens.cacheWrite * (price.cacheWrite ?? price.input)
+  // Round to micro-dollars so JSON payloads don't carry float noise.
+  return Math.round(usd) / 1_000_000
+}
@@ -2,7 +2,14 @@ import * as fs from "node:fs"
 import * as os from "node:os"
 import * as path from "node:path"
 import { describe, expect, it } from "vitest"
-import { deriveTimeSeriesActivity } from "./timeseries"
+import {
+  agentTone,
+  deriveTimeSeriesActivity,
+  MAX_AGENT_SERIES,
+  messageScanCap,
+  pickBucketMs,
+  TIME_SERIES_WINDOWS,
+} from "./timeseries"
 import { getStorageRoots } from "./session"
 
 function mkStorageRoot(): string {
@@ -42,8 +49,12 @@ function getSeries(result: ReturnType<typeof deriveTimeSeriesActivity>, id: stri
   return match!
 }
 
+function agentSeriesIds(result: ReturnType<typeof deriveTimeSeriesActivity>): string[] {
+  return result.series.map((series) => series.id).filter((id) => id.startsWith("agent:"))
+}
+
 describe("deriveTimeSeriesActivity", () => {
-  it("returns fixed series metadata and zero-filled arrays when no session exists", () => {
+  it("returns only the overall and background series when no session exists", () => {
     const storageRoot = mkStorageRoot()
     const storage = getStorageRoots(storageRoot)
 
@@ -60,27 +71,9 @@ describe("deriveTimeSeriesActivity", () => {
     expect(result.serverNowMs).toBe(nowMs)
     expect(result.anchorMs).toBe(Math.floor(nowMs / 2_000) * 2_000)
 
-    expect(result.series.map((series) => series.id)).toEqual([
-      "overall-main",
-      "agent:sisyphus",
-      "agent:prometheus",
-      "agent:atlas",
-      "background-total",
-    ])
-    expect(result.series.map((series) => series.label)).toEqual([
-      "Overall",
-      "Sisyphus",
-      "Prometheus",
-      "Atlas",
-      "Background tasks (total)",
-    ])
-    expect(result.series.map((series) => series.tone)).toEqual([
-      "muted",
-      "teal",
-      "red",
-      "green",
-      "muted",
-    ])
+    expect(result.series.map((series) => series.id)).toEqual(["overall-main", "background-total"])
+    expect(result.series.map((series) => series.label)).toEqual(["Overall", "Background tasks (total)"])
+    expect(result.series.map((series) => series.tone)).toEqual(["muted", "muted"])
 
     for (const series of result.series) {
       expect(series.values.length).toBe(result.buckets)
@@ -219,6 +212,8 @@ describe("deriveTimeSeriesActivity", () => {
     expect(prometheus.values).toEqual([1, 0, 0, 0, 0])
     expect(atlas.values).toEqual([0, 1, 0, 0, 0])
     expect(background.values).toEqual([0, 0, 0, 0, 0])
+    expect(agentSeriesIds(result)).toEqual(["agent:sisyphus", "agent:prometheus", "agent:atlas"])
+    expect([sisyphus.tone, prometheus.tone, atlas.tone]).toEqual(["teal", "red", "green"])
   })
 
   it("counts background task tool parts across child sessions", () => {
@@ -373,12 +368,11 @@ describe("deriveTimeSeriesActivity", () => {
 
     // #then
     const overall = getSeries(result, "overall-main")
-    const sisyphus = getSeries(result, "agent:sisyphus")
     const atlas = getSeries(result, "agent:atlas")
     const background = getSeries(result, "background-total")
 
     expect(overall.values).toEqual([1, 0, 2, 0, 0])
-    expect(sisyphus.values).toEqual([0, 0, 0, 0, 0])
+    expect(agentSeriesIds(result)).toEqual(["agent:atlas"])
     expect(atlas.values).toEqual([1, 0, 0, 0, 0])
     expect(background.values).toEqual([0, 0, 2, 0, 0])
   })
@@ -433,8 +427,7 @@ describe("deriveTimeSeriesActivity", () => {
     })
 
     // #then
-    const sisyphus = getSeries(result, "agent:sisyphus")
-    expect(sisyphus.values).toEqual([0, 0, 0, 0, 0])
+    expect(agentSeriesIds(result)).not.toContain("agent:sisyphus")
   })
 
   it("does not attribute child session activity to Prometheus/Atlas series", () => {
@@ -483,9 +476,139 @@ describe("deriveTimeSeriesActivity", () => {
     })
 
     // #then
-    const prometheus = getSeries(result, "agent:prometheus")
-    const atlas = getSeries(result, "agent:atlas")
-    expect(prometheus.values.every((v) => v === 0)).toBe(true)
-    expect(atlas.values.every((v) => v === 0)).toBe(true)
+    expect(agentSeriesIds(result)).toEqual([])
+  })
+
+  it("emits one series per custom agent with its own tone", () => {
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const mainSessionId = "ses_main"
+    const messageDir = path.join(storage.message, mainSessionId)
+
+    // #given
+    const agents = ["Oracle", "librarian", "Sisyphus", "oracle"]
+    agents.forEach((agent, idx) => {
+      const messageId = `msg_${idx}`
+      writeMessageMeta({
+        messageDir,
+        messageId,
+        meta: { sessionID: mainSessionId, agent, time: { created: 1_000 + idx * 2_000 } },
+      })
+      writePartJson({
+        partDir: path.join(storage.part, messageId),
+        fileName: "part_1.json",
+        value: { type: "tool", tool: "read", state: { status: "completed", input: {} } },
+      })
+    })
+
+    // #when
+    const result = deriveTimeSeriesActivity({
+      storage,
+      mainSessionId,
+      nowMs: 10_000,
+      windowMs: 10_000,
+      bucketMs: 2_000,
+    })
+
+    // #then
+    expect(agentSeriesIds(result)).toEqual(["agent:sisyphus", "agent:librarian", "agent:oracle"])
+    expect(getSeries(result, "agent:oracle").values).toEqual([1, 0, 0, 1, 0])
+    expect(getSeries(result, "agent:librarian").label).toBe("librarian")
+    expect(getSeries(result, "agent:librarian").tone).toBe("blue")
+    expect(getSeries(result, "agent:oracle").tone).toBe("violet")
+    expect(["teal", "red", "green", "sand", "muted"]).not.toContain(agentTone("oracle"))
+  })
+
+  it("caps the number of agent series and keeps the busiest agents", () => {
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const mainSessionId = "ses_main"
+    const messageDir = path.join(storage.message, mainSessionId)
+
+    // #given: agent_0 is the quietest with a single tool call
+    for (let i = 0; i <= MAX_AGENT_SERIES; i++) {
+      const messageId = `msg_${i}`
+      writeMessageMeta({
+        messageDir,
+        messageId,
+        meta: { sessionID: mainSessionId, agent: `agent_${i}`, time: { created: 1_000 + i } },
+      })
+      for (let p = 0; p <= Math.min(i, 2); p++) {
+        writePartJson({
+          partDir: path.join(storage.part, messageId),
+          fileName: `part_${p}.json`,
+          value: { type: "tool", tool: "read", state: { status: "completed", input: {} } },
+        })
+      }
+    }
+
+    // #when
+    const result = deriveTimeSeriesActivity({
+      storage,
+      mainSessionId,
+      nowMs: 10_000,
+      windowMs: 10_000,
+      bucketMs: 2_000,
+    })
+
+    // #then
+    const ids = agentSeriesIds(result)
+    expect(ids).toHaveLength(MAX_AGENT_SERIES)
+    expect(ids).not.toContain("agent:agent_0")
+    const tones = result.series.filter((series) => series.id.startsWith("agent:")).map((series) => series.tone)
+    expect(new Set(tones).size).toBe(MAX_AGENT_SERIES)
+    expect(getSeries(result, "overall-main").values[0]).toBeGreaterThan(0)
+  })
+})
+
+describe("time-series windows", () => {
+  it("picks round bucket sizes that keep each preset near 150 buckets", () => {
+    // #given / #when
+    const buckets = Object.entries(TIME_SERIES_WINDOWS).map(([key, windowMs]) => [key, pickBucketMs(windowMs)])
+
+    // #then
+    expect(buckets).toEqual([
+      ["5m", 2_000],
+      ["30m", 15_000],
+      ["2h", 60_000],
+      ["24h", 600_000],
+    ])
+  })
+
+  it("scales the per-session message scan cap with the window", () => {
+    expect(messageScanCap(TIME_SERIES_WINDOWS["5m"])).toBe(200)
+    expect(messageScanCap(TIME_SERIES_WINDOWS["30m"])).toBe(1_200)
+    expect(messageScanCap(TIME_SERIES_WINDOWS["24h"])).toBe(5_000)
+  })
+
+  it("counts activity older than 5 minutes when given a wider window", () => {
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+
+    // #given: one tool call 20 minutes ago
+    const nowMs = 10_000_000
+    const mainSessionId = "ses_main"
+    writeMessageMeta({
+      messageDir: path.join(storage.message, mainSessionId),
+      messageId: "msg_old",
+      meta: { sessionID: mainSessionId, agent: "sisyphus", time: { created: nowMs - 20 * 60_000 } },
+    })
+    writePartJson({
+      partDir: path.join(storage.part, "msg_old"),
+      fileName: "part_1.json",
+      value: { type: "tool", tool: "grep" },
+    })
+
+    // #when
+    const short = deriveTimeSeriesActivity({ storage, mainSessionId, nowMs })
+    const wide = deriveTimeSeriesActivity({ storage, mainSessionId, nowMs, windowMs: TIME_SERIES_WINDOWS["30m"] })
+
+    // #then
+    const sum = (values: number[]) => values.reduce((a, b) => a + b, 0)
+    expect(sum(getSeries(short, "overall-main").values)).toBe(0)
+    expect(wide.bucketMs).toBe(15_000)
+    expect(wide.buckets).toBe(120)
+    expect(sum(getSeries(wide, "overall-main").values)).toBe(1)
+    expect(sum(getSeries(wide, "agent:sisyphus").values)).toBe(1)
   })
 })
@@ -4,7 +4,20 @@ import type { OpenCodeStorageRoots, StoredMessageMeta } from "./session"
 import { getMessageDir } from "./session"
 import { readAllSessionMetas } from "./background-tasks"
 
-export type TimeSeriesTone = "muted" | "teal" | "red" | "green"
+export type AgentTone =
+  | "teal"
+  | "red"
+  | "green"
+  | "blue"
+  | "violet"
+  | "amber"
+  | "rose"
+  | "slate"
+  | "orange"
+  | "olive"
+  | "indigo"
+
+export type TimeSeriesTone = "muted" | "sand" | AgentTone
 
 export type TimeSeriesSeries = {
   id: string
@@ -22,15 +35,47 @@ export type TimeSeriesPayload = {
   series: TimeSeriesSeries[]
 }
 
-type CanonicalAgent = "sisyphus" | "prometheus" | "atlas" | "other"
+export type TimeSeriesWindowKey = "5m" | "30m" | "2h" | "24h"
+
+export const TIME_SERIES_WINDOWS: Record<TimeSeriesWindowKey, number> = {
+  "5m": 300_000,
+  "30m": 1_800_000,
+  "2h": 7_200_000,
+  "24h": 86_400_000,
+}
+
+const BUCKET_STEPS_MS = [2_000, 5_000, 10_000, 15_000, 30_000, 60_000, 120_000, 300_000, 600_000, 900_000, 1_800_000, 3_600_000]
+const TARGET_BUCKETS = 150
+
+// Smallest "round" bucket that keeps the chart at or under ~150 bars (5m -> 2s, 24h -> 10m).
+export function pickBucketMs(windowMs: number): number {
+  return BUCKET_STEPS_MS.find((step) => windowMs / step <= TARGET_BUCKETS) ?? BUCKET_STEPS_MS[BUCKET_STEPS_MS.length - 1]
+}
+
+const BASE_MESSAGE_SCAN = 200
+const MAX_MESSAGE_SCAN = 5_000
+
+// The 5-minute window historically scanned the newest 200 messages per session; longer
+// windows scale that up so older activity isn't silently cut off.
+export function messageScanCap(windowMs: number): number {
+  return Math.min(MAX_MESSAGE_SCAN, Math.max(BASE_MESSAGE_SCAN, Math.ceil(windowMs / 300_000) * BASE_MESSAGE_SCAN))
+}
+
+const OVERALL_SERIES = { id: "overall-main", label: "Overall", tone: "muted" } as const
+const BACKGROUND_SERIES = { id: "background-total", label: "Background tasks (total)", tone: "muted" } as const
 
-const SERIES_ORDER: Array<Pick<TimeSeriesSeries, "id" | "label" | "tone">> = [
-  { id: "overall-main", label: "Overall", tone: "muted" },
-  { id: "agent:sisyphus", label: "Sisyphus", tone: "teal" },
-  { id: "agent:prometheus", label: "Prometheus", tone: "red" },
-  { id: "agent:atlas", label: "Atlas", tone: "green" },
-  { id: "background-total", label: "Background tasks (total)", tone: "muted" },
+// The bundled agents keep their historical colors and stack order. Other agents take the
+// remaining palette in stack order, which is as wide as MAX_AGENT_SERIES so the series shown
+// never share a color. "sand" stays reserved for the UI's derived "other" segment.
+const BUILTIN_AGENTS: Array<{ key: string; label: string; tone: AgentTone }> = [
+  { key: "sisyphus", label: "Sisyphus", tone: "teal" },
+  { key: "prometheus", label: "Prometheus", tone: "red" },
+  { key: "atlas", label: "Atlas", tone: "green" },
 ]
+const CUSTOM_AGENT_TONES: AgentTone[] = ["blue", "violet", "amber", "rose", "slate", "orange", "olive", "indigo"]
+
+// Beyond this many agents the quietest ones fall back into the UI's "other" segment.
+export const MAX_AGENT_SERIES = 8
 
 function zeroBuckets(size: number): number[] {
   return Array.from({ length: size }, () => 0)
@@ -90,16 +135,52 @@ function countToolParts(partStorage: string, messageId: string): number {
   return count
 }
 
-function canonicalizeAgent(agent: unknown): CanonicalAgent {
-  if (typeof agent !== "string") return "other"
+type AgentBuckets = Map<string, { label: string; values: number[] }>
+
+// Bundled agents are matched by prefix ("Sisyphus v2", "sisyphus-junior"); custom agents are
+// keyed by their lowercased name. Missing or "unknown" agents only count towards "other".
+export function canonicalizeAgent(agent: unknown): { key: string; label: string } | null {
+  if (typeof agent !== "string") return null
   const trimmed = agent.trim()
-  if (!trimmed) return "other"
+  if (!trimmed) return null
   const lowered = trimmed.toLowerCase()
-  if (lowered.startsWith("sisyphus-junior")) return "sisyphus"
-  if (lowered.startsWith("sisyphus")) return "sisyphus"
-  if (lowered.startsWith("prometheus")) return "prometheus"
-  if (lowered.startsWith("atlas")) return "atlas"
-  return "other"
+  if (lowered === "unknown") return null
+  const builtin = BUILTIN_AGENTS.find((b) => lowered.startsWith(b.key))
+  if (builtin) return { key: builtin.key, label: builtin.label }
+  return { key: lowered, label: trimmed }
+}
+
+// A fixed color per agent key: the bundled agents' own, a hashed one for anything else.
+export function agentTone(key: string): AgentTone {
+  const builtin = BUILTIN_AGENTS.find((b) => b.key === key)
+  if (builtin) return builtin.tone
+  let hash = 0
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) >>> 0
+  }
+  return CUSTOM_AGENT_TONES[hash % CUSTOM_AGENT_TONES.length]
+}
+
+function agentSeries(perAgent: AgentBuckets): TimeSeriesSeries[] {
+  const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0)
+  const builtinRank = (key: string) => {
+    const idx = BUILTIN_AGENTS.findIndex((b) => b.key === key)
+    return idx === -1 ? BUILTIN_AGENTS.length : idx
+  }
+
+  const kept = [...perAgent.entries()]
+    .filter(([, entry]) => sum(entry.values) > 0)
+    .sort((a, b) => sum(b[1].values) - sum(a[1].values) || a[0].localeCompare(b[0]))
+    .slice(0, MAX_AGENT_SERIES)
+    // Stack order is stable: bundled agents at the bottom, the rest alphabetical.
+    .sort((a, b) => builtinRank(a[0]) - builtinRank(b[0]) || a[0].localeCompare(b[0]))
+  const builtinCount = kept.filter(([key]) => builtinRank(key) < BUILTIN_AGENTS.length).length
+  return kept.map(([key, entry], idx) => ({
+    id: `agent:${key}`,
+    label: entry.label,
+    tone: CUSTOM_AGENT_TONES[idx - builtinCount] ?? agentTone(key),
+    values: entry.values,
+  }))
 }
 
 function addToBucket(values: number[], bucketIndex: number, count: number): void {
@@ -118,10 +199,11 @@ function bucketMessageTools(opts: {
   startMs: number
   anchorMs: number
   bucketMs: number
+  maxMessages: number
   overall: number[]
-  perAgent?: Record<Exclude<CanonicalAgent, "other">, number[]>
+  perAgent?: AgentBuckets
 }): void {
-  const metas = readRecentMessageMetas(opts.messageDir, 200)
+  const metas = readRecentMessageMetas(opts.messageDir, opts.maxMessages)
   const ordered = [...metas].sort((a, b) => {
     const at = getCreated(a)
     const bt = getCreated(b)
@@ -142,8 +224,13 @@ function bucketMessageTools(opts: {
     const perAgent = opts.perAgent
     if (perAgent) {
       const agent = canonicalizeAgent(meta.agent)
-      if (agent === "sisyphus" || agent === "prometheus" || agent === "atlas") {
-        addToBucket(perAgent[agent], bucketIndex, toolCount)
+      if (agent) {
+        let entry = perAgent.get(agent.key)
+        if (!entry) {
+          entry = { label: agent.label, values: zeroBuckets(opts.overall.length) }
+          perAgent.set(agent.key, entry)
+        }
+        addToBucket(entry.values, bucketIndex, toolCount)
       }
     }
   }
@@ -155,11 +242,12 @@ function bucketBackgroundTools(opts: {
   startMs: number
   anchorMs: number
   bucketMs: number
+  maxMessages: number
   output: number[]
 }): void {
   for (const sessionId of opts.sessionIds) {
     const messageDir = getMessageDir(opts.storage.message, sessionId)
-    const metas = readRecentMessageMetas(messageDir, 200)
+    const metas = readRecentMessageMetas(messageDir, opts.maxMessages)
     const ordered = [...metas].sort((a, b) => {
       const at = getCreated(a)
       const bt = getCreated(b)
@@ -186,8 +274,8 @@ function bucketSessionAgents(opts: {
   startMs: number
   anchorMs: number
   bucketMs: number
+  maxMessages: number
   overall: number[]
-  perAgent: Record<Exclude<CanonicalAgent, "other">, number[]>
 }): void {
   for (const sessionId of opts.sessionIds) {
     const messageDir = getMessageDir(opts.storage.message, sessionId)
@@ -198,8 +286,9 @@ function bucketSessionAgents(opts: {
       startMs: opts.startMs,
       anchorMs: opts.anchorMs,
       bucketMs: opts.bucketMs,
+      maxMessages: opts.maxMessages,
       overall: opts.overall,
-      // Background sessions are owned by Sisyphus; don't smear activity into Prometheus/Atlas.
+      // Background sessions already have their own row; keep them out of the per-agent stack.
       perAgent: undefined,
     })
   }
@@ -211,18 +300,18 @@ export function deriveTimeSeriesActivity(opts: {
   nowMs?: number
   windowMs?: number
   bucketMs?: number
+  maxMessages?: number
 }): TimeSeriesPayload {
-  const windowMs = opts.windowMs ?? 300_000
-  const bucketMs = opts.bucketMs ?? 2_000
+  const windowMs = opts.windowMs ?? TIME_SERIES_WINDOWS["5m"]
+  const bucketMs = opts.bucketMs ?? pickBucketMs(windowMs)
+  const maxMessages = opts.maxMessages ?? messageScanCap(windowMs)
   const buckets = Math.floor(windowMs / bucketMs)
   const nowMs = opts.nowMs ?? Date.now()
   const anchorMs = Math.floor(nowMs / bucketMs) * bucketMs
   const startMs = anchorMs - windowMs
 
   const overall = zeroBuckets(buckets)
-  const sisyphus = zeroBuckets(buckets)
-  const prometheus = zeroBuckets(buckets)
-  const atlas = zeroBuckets(buckets)
+  const perAgent: AgentBuckets = new Map()
   const background = zeroBuckets(buckets)
 
   const mainSessionId = opts.mainSessionId
@@ -235,8 +324,9 @@ export function deriveTimeSeriesActivity(opts: {
         startMs,
         anchorMs,
         bucketMs,
+        maxMessages,
         overall,
-        perAgent: { sisyphus, prometheus, atlas },
+        perAgent,
       })
     }
 
@@ -258,6 +348,7 @@ export function deriveTimeSeriesActivity(opts: {
         startMs,
         anchorMs,
         bucketMs,
+        maxMessages,
         output: background,
       })
       bucketSessionAgents({
@@ -266,8 +357,8 @@ export function deriveTimeSeriesActivity(opts: {
         startMs,
         anchorMs,
         bucketMs,
+        maxMessages,
         overall,
-        perAgent: { sisyphus, prometheus, atlas },
       })
     }
   }
@@ -279,11 +370,9 @@ export function deriveTimeSeriesActivity(opts: {
     anchorMs,
     serverNowMs: nowMs,
     series: [
-      { ...SERIES_ORDER[0], values: overall },
-      { ...SERIES_ORDER[1], values: sisyphus },
-      { ...SERIES_ORDER[2], values: prometheus },
-      { ...SERIES_ORDER[3], values: atlas },
-      { ...SERIES_ORDER[4], values: background },
+      { ...OVERALL_SERIES, values: overall },
+      ...agentSeries(perAgent),
+      { ...BACKGROUND_SERIES, values: background },
     ],
   }
 }
@@ -203,3 +203,43 @@ describe("token usage aggregateTokenUsage", () => {
     })
   })
 })
+
+describe("token usage cost estimation", () => {
+  it("adds per-row and total cost when a price table is supplied", () => {
+    // #given
+    const metas = [
+      {
+        id: "msg_1",
+        role: "assistant",
+        providerID: "openai",
+        modelID: "gpt-5.2",
+        tokens: { input: 1_000_000, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+      },
+      {
+        id: "msg_2",
+        role: "assistant",
+        providerID: "local",
+        modelID: "llama",
+        tokens: { input: 10, output: 10, reasoning: 0, cache: { read: 0, write: 0 } },
+      },
+    ]
+    const prices = { "openai/gpt-5.2*": { input: 2, output: 8 } }
+
+    // #when
+    const result = aggregateTokenUsage(metas, { prices })
+
+    // #then
+    expect(result.rows.find((r) => r.model === "openai/gpt-5.2")?.cost).toBe(2)
+    expect(result.rows.find((r) => r.model === "local/llama")?.cost).toBeNull()
+    expect(result.totals.cost).toBe(2)
+  })
+
+  it("omits cost fields without a price table", () => {
+    const result = aggregateTokenUsage([
+      { id: "msg_1", role: "assistant", providerID: "openai", modelID: "gpt-5.2", tokens: { input: 1 } },
+    ])
+
+    expect(result.rows[0]).not.toHaveProperty("cost")
+    expect(result.totals).not.toHaveProperty("cost")
+  })
+})
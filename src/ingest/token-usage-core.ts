@@ -1,4 +1,5 @@
 import { extractModelString } from "./model"
+import { estimateCost, resolveModelPrice, type PriceTable } from "./pricing"
 
 export type TokenUsageRow = {
   model: string
@@ -8,6 +9,8 @@ export type TokenUsageRow = {
   cacheRead: number
   cacheWrite: number
   total: number
+  // USD estimate; only present when a price table was supplied, null when the model is unpriced.
+  cost?: number | null
 }
 
 export type TokenUsageTotals = {
@@ -17,6 +20,22 @@ export type TokenUsageTotals = {
   cacheRead: number
   cacheWrite: number
   total: number
+  // Sum over priced rows only.
+  cost?: number
+}
+
+export type TokenUsageEntry = {
+  messageId: string
+  sessionId: string | null
+  model: string
+  createdAt: number | null
+  completedAt: number | null
+  input: number
+  output: number
+  reasoning: number
+  cacheRead: number
+  cacheWrite: number
+  total: number
 }
 
 export interface TokenUsagePayload {
@@ -51,46 +70,71 @@ function blankRow(model: string): TokenUsageRow {
   return { model, input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 0 }
 }
 
-export function aggregateTokenUsage(metas: unknown[]): TokenUsagePayload {
+function readTime(value: unknown, key: "created" | "completed"): number | null {
+  if (!isRecord(value)) return null
+  const ts = value[key]
+  return typeof ts === "number" && Number.isFinite(ts) ? ts : null
+}
+
+// Token counts for one assistant message; null for anything aggregateTokenUsage would skip.
+export function readTokenUsageEntry(metaUnknown: unknown): (Omit<TokenUsageEntry, "messageId"> & { messageId: string | null }) | null {
+  if (!isRecord(metaUnknown)) return null
+  const role = readString(metaUnknown.role)
+  if (role !== "assistant") return null
+
+  const model = extractModelString(metaUnknown) ?? "unknown/unknown"
+  const tokens = isRecord(metaUnknown.tokens) ? metaUnknown.tokens : null
+  const cache = tokens && isRecord(tokens.cache) ? tokens.cache : null
+  const input = clampToken(tokens?.input)
+  const output = clampToken(tokens?.output)
+  const reasoning = clampToken(tokens?.reasoning)
+  const cacheRead = clampToken(cache?.read)
+  const cacheWrite = clampToken(cache?.write)
+
+  return {
+    messageId: readString(metaUnknown.id),
+    sessionId: readString(metaUnknown.sessionID),
+    model,
+    createdAt: readTime(metaUnknown.time, "created"),
+    completedAt: readTime(metaUnknown.time, "completed"),
+    input,
+    output,
+    reasoning,
+    cacheRead,
+    cacheWrite,
+    total: input + output + reasoning + cacheRead + cacheWrite,
+  }
+}
+
+export function aggregateTokenUsage(metas: unknown[], opts?: { prices?: PriceTable }): TokenUsagePayload {
   const rowsByModel = new Map<string, TokenUsageRow>()
   const seenMessageIds = new Set<string>()
 
   for (const metaUnknown of metas) {
-    if (!isRecord(metaUnknown)) continue
-    const role = readString(metaUnknown.role)
-    if (role !== "assistant") continue
+    const entry = readTokenUsageEntry(metaUnknown)
+    if (!entry) continue
 
-    const id = readString(metaUnknown.id)
+    const id = entry.messageId
     if (id) {
       if (seenMessageIds.has(id)) continue
       seenMessageIds.add(id)
     }
 
-    const model = extractModelString(metaUnknown) ?? "unknown/unknown"
-    const tokens = isRecord(metaUnknown.tokens) ? metaUnknown.tokens : null
-    const cache = tokens && isRecord(tokens.cache) ? tokens.cache : null
-    const input = clampToken(tokens?.input)
-    const output = clampToken(tokens?.output)
-    const reasoning = clampToken(tokens?.reasoning)
-    const cacheRead = clampToken(cache?.read)
-    const cacheWrite = clampToken(cache?.write)
-    const total = input + output + reasoning + cacheRead + cacheWrite
-
-    const row = rowsByModel.get(model) ?? blankRow(model)
-    row.input += input
-    row.output += output
-    row.reasoning += reasoning
-    row.cacheRead += cacheRead
-    row.cacheWrite += cacheWrite
-    row.total += total
-    rowsByModel.set(model, row)
+    const row = rowsByModel.get(entry.model) ?? blankRow(entry.model)
+    row.input += entry.input
+    row.output += entry.output
+    row.reasoning += entry.reasoning
+    row.cacheRead += entry.cacheRead
+    row.cacheWrite += entry.cacheWrite
+    row.total += entry.total
+    rowsByModel.set(entry.model, row)
   }
 
   const rows = Array.from(rowsByModel.values()).sort((a, b) => {
     if (b.total !== a.total) return b.total - a.total
     return a.model.localeCompare(b.model)
   })
-  const totals = rows.reduce(
+  const totals: TokenUsageTotals = rows.reduce(
     (acc, row) => ({
       input: acc.input + row.input,
       output: acc.output + row.output,
@@ -102,6 +146,17 @@ export function aggregateTokenUsage(metas: unknown[]): TokenUsagePayload {
     { ...EMPTY_TOTALS }
   )
 
+  const prices = opts?.prices
+  if (prices) {
+    let cost = 0
+    for (const row of rows) {
+      const price = resolveModelPrice(prices, row.model)
+      row.cost = price ? estimateCost(price, row) : null
+      cost += row.cost ?? 0
+    }
+    totals.cost = Math.round(cost * 1_000_000) / 1_000_000
+  }
+
   return { rows, totals }
 }
 
@@ -2,7 +2,8 @@ import * as fs from "node:fs"
 import * as os from "node:os"
 import * as path from "node:path"
 import { describe, expect, it } from "vitest"
-import { deriveTokenUsage } from "./token-usage"
+import { backfillTokenUsage, deriveTokenUsage } from "./token-usage"
+import type { TokenUsageEntry } from "./token-usage-core"
 import { getStorageRoots } from "./session"
 
 function mkStorageRoot(): string {
@@ -152,3 +153,58 @@ describe("deriveTokenUsage token usage", () => {
     expect(result.totals.input).toBe(4)
   })
 })
+
+describe("token usage sink", () => {
+  it("hands per-message entries to the sink and backfills recent sessions", () => {
+    // #given
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    writeMessageMeta({
+      messageDir: path.join(storage.message, "ses_main"),
+      messageId: "msg_main",
+      meta: {
+        sessionID: "ses_main",
+        providerID: "openai",
+        modelID: "gpt-5.2",
+        time: { created: 1000, completed: 2000 },
+        tokens: { input: 2, output: 1, reasoning: 0, cache: { read: 0, write: 0 } },
+      },
+    })
+    writeMessageMeta({
+      messageDir: path.join(storage.message, "ses_old"),
+      messageId: "msg_old",
+      meta: { sessionID: "ses_old", tokens: { input: 7 } },
+    })
+    const recorded: TokenUsageEntry[] = []
+    const sink = { record: (entries: TokenUsageEntry[]) => recorded.push(...entries) }
+
+    // #when
+    deriveTokenUsage({ storage, mainSessionId: "ses_main", sink })
+    const sessions = backfillTokenUsage({
+      storage,
+      sessionMetas: [
+        { id: "ses_old", projectID: "p", directory: "/x", time: { created: 0, updated: 10 } },
+        { id: "ses_main", projectID: "p", directory: "/x", time: { created: 0, updated: 5000 } },
+      ],
+      sink,
+      sinceMs: 1000,
+    })
+
+    // #then
+    expect(sessions).toBe(1)
+    expect(recorded.map((e) => e.messageId)).toEqual(["msg_main", "msg_main"])
+    expect(recorded[0]).toEqual({
+      messageId: "msg_main",
+      sessionId: "ses_main",
+      model: "openai/gpt-5.2",
+      createdAt: 1000,
+      completedAt: 2000,
+      input: 2,
+      output: 1,
+      reasoning: 0,
+      cacheRead: 0,
+      cacheWrite: 0,
+      total: 3,
+    })
+  })
+})
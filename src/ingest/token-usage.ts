@@ -1,8 +1,14 @@
 import * as fs from "node:fs"
 import * as path from "node:path"
-import type { OpenCodeStorageRoots } from "./session"
+import type { OpenCodeStorageRoots, SessionMetadata } from "./session"
 import { getMessageDir } from "./session"
-import { aggregateTokenUsage } from "./token-usage-core"
+import type { PriceTable } from "./pricing"
+import { aggregateTokenUsage, readTokenUsageEntry, type TokenUsageEntry, type TokenUsagePayload } from "./token-usage-core"
+
+// Receives the per-message entries behind each aggregate (e.g. the persistent history ledger).
+export type TokenUsageSink = {
+  record: (entries: TokenUsageEntry[]) => void
+}
 
 function listJsonFiles(dir: string): string[] {
   try {
@@ -38,29 +44,80 @@ function readSessionMetas(messageDir: string): unknown[] {
   return metas
 }
 
-export function deriveTokenUsage(opts: {
-  storage: OpenCodeStorageRoots
-  mainSessionId: string | null
-  backgroundSessionIds?: Array<string | null | undefined>
-}): ReturnType<typeof aggregateTokenUsage> {
+function normalizeSessionIds(values: Array<string | null | undefined>): string[] {
   const sessionIds: string[] = []
   const seen = new Set<string>()
-  const push = (value: unknown): void => {
+  for (const value of values) {
     const id = normalizeSessionId(value)
-    if (!id || seen.has(id)) return
+    if (!id || seen.has(id)) continue
     seen.add(id)
     sessionIds.push(id)
   }
+  return sessionIds
+}
 
-  push(opts.mainSessionId)
-  for (const id of opts.backgroundSessionIds ?? []) push(id)
-
+// Reads each session's messages once and returns both the combined aggregate and one
+// aggregate per session (used for per-task cost).
+export function deriveTokenUsageBySession(opts: {
+  storage: OpenCodeStorageRoots
+  sessionIds: Array<string | null | undefined>
+  sink?: TokenUsageSink
+  prices?: PriceTable
+}): { total: TokenUsagePayload; bySession: Map<string, TokenUsagePayload> } {
   const metas: unknown[] = []
-  for (const sessionId of sessionIds) {
+  const bySession = new Map<string, TokenUsagePayload>()
+  for (const sessionId of normalizeSessionIds(opts.sessionIds)) {
     const messageDir = getMessageDir(opts.storage.message, sessionId)
     if (!messageDir) continue
-    metas.push(...readSessionMetas(messageDir))
+    const sessionMetas = readSessionMetas(messageDir)
+    bySession.set(sessionId, aggregateTokenUsage(sessionMetas, { prices: opts.prices }))
+    metas.push(...sessionMetas)
+  }
+
+  if (opts.sink) recordEntries(opts.sink, metas)
+
+  return { total: aggregateTokenUsage(metas, { prices: opts.prices }), bySession }
+}
+
+export function deriveTokenUsage(opts: {
+  storage: OpenCodeStorageRoots
+  mainSessionId: string | null
+  backgroundSessionIds?: Array<string | null | undefined>
+  sink?: TokenUsageSink
+  prices?: PriceTable
+}): ReturnType<typeof aggregateTokenUsage> {
+  return deriveTokenUsageBySession({
+    storage: opts.storage,
+    sessionIds: [opts.mainSessionId, ...(opts.backgroundSessionIds ?? [])],
+    sink: opts.sink,
+    prices: opts.prices,
+  }).total
+}
+
+function recordEntries(sink: TokenUsageSink, metas: unknown[]): void {
+  const entries: TokenUsageEntry[] = []
+  for (const meta of metas) {
+    const entry = readTokenUsageEntry(meta)
+    if (entry?.messageId) entries.push({ ...entry, messageId: entry.messageId })
   }
+  if (entries.length > 0) sink.record(entries)
+}
 
-  return aggregateTokenUsage(metas)
+// One-shot scan so history covers sessions the dashboard never displayed.
+export function backfillTokenUsage(opts: {
+  storage: OpenCodeStorageRoots
+  sessionMetas: SessionMetadata[]
+  sink: TokenUsageSink
+  sinceMs: number
+}): number {
+  let sessions = 0
+  for (const meta of opts.sessionMetas) {
+    const updated = meta.time?.updated
+    if (typeof updated !== "number" || updated < opts.sinceMs) continue
+    const messageDir = getMessageDir(opts.storage.message, meta.id)
+    if (!messageDir) continue
+    recordEntries(opts.sink, readSessionMetas(messageDir))
+    sessions += 1
+  }
+  return sessions
 }
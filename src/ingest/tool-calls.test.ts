@@ -2,7 +2,14 @@ import * as os from "node:os"
 import * as path from "node:path"
 import * as fs from "node:fs"
 import { describe, expect, it } from "vitest"
-import { deriveToolCalls, MAX_TOOL_CALL_MESSAGES, MAX_TOOL_CALLS } from "./tool-calls"
+import {
+  deriveToolCallDetail,
+  deriveToolCalls,
+  findFileEditCall,
+  MAX_TOOL_CALL_MESSAGES,
+  MAX_TOOL_CALLS,
+  parseToolCallCursor,
+} from "./tool-calls"
 import { getStorageRoots } from "./session"
 
 function mkStorageRoot(): string {
@@ -132,6 +139,103 @@ describe("deriveToolCalls", () => {
     }
   })
 
+  it("pages older calls with a cursor past the message scan cap", () => {
+    // #given
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const sessionId = "ses_main"
+    const totalMessages = MAX_TOOL_CALL_MESSAGES + 10
+    for (let i = 0; i < totalMessages; i += 1) {
+      const suffix = String(i).padStart(3, "0")
+      writeMessageMeta({ storageRoot, sessionId, messageId: `msg_${suffix}`, created: i })
+      writeToolPart({ storageRoot, sessionId, messageId: `msg_${suffix}`, callId: `call_${suffix}_a`, tool: "bash" })
+      writeToolPart({ storageRoot, sessionId, messageId: `msg_${suffix}`, callId: `call_${suffix}_b`, tool: "read" })
+    }
+    writeMessageMeta({ storageRoot, sessionId, messageId: "msg_undated" })
+    writeToolPart({ storageRoot, sessionId, messageId: "msg_undated", callId: "call_undated", tool: "bash" })
+
+    // #when
+    const first = deriveToolCalls({ storage, sessionId, limit: 51 })
+    const seen = first.toolCalls.map((c) => c.callId)
+    let cursor = first.nextBefore
+    let pages = 1
+    while (cursor) {
+      const before = parseToolCallCursor(cursor)
+      expect(before).not.toBeNull()
+      const page = deriveToolCalls({ storage, sessionId, before: before ?? undefined, limit: 51 })
+      seen.push(...page.toolCalls.map((c) => c.callId))
+      cursor = page.nextBefore
+      pages += 1
+    }
+
+    // #then
+    expect(first.toolCalls.length).toBe(50)
+    expect(first.toolCalls[0].callId).toBe("call_209_a")
+    expect(first.nextBefore).toBe("185,msg_185")
+    expect(first.truncated).toBe(true)
+    expect(pages).toBe(9)
+    expect(new Set(seen).size).toBe(totalMessages * 2 + 1)
+    expect(seen[seen.length - 1]).toBe("call_undated")
+  })
+
+  it("leaves a message rewritten late to a later page, so it can't hide others", () => {
+    // #given: the oldest message was written last
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const sessionId = "ses_main"
+    const totalMessages = MAX_TOOL_CALL_MESSAGES + 5
+    for (let i = 0; i < totalMessages; i += 1) {
+      const suffix = String(i).padStart(3, "0")
+      writeMessageMeta({ storageRoot, sessionId, messageId: `msg_${suffix}`, created: i })
+      writeToolPart({ storageRoot, sessionId, messageId: `msg_${suffix}`, callId: `call_${suffix}`, tool: "bash" })
+    }
+    const later = new Date(Date.now() + 60_000)
+    fs.utimesSync(path.join(storage.message, sessionId, "msg_000.json"), later, later)
+
+    // #when
+    const first = deriveToolCalls({ storage, sessionId })
+    const seen = first.toolCalls.map((c) => c.callId)
+    let cursor = first.nextBefore
+    while (cursor) {
+      const page = deriveToolCalls({ storage, sessionId, before: parseToolCallCursor(cursor) ?? undefined })
+      seen.push(...page.toolCalls.map((c) => c.callId))
+      cursor = page.nextBefore
+    }
+
+    // #then
+    expect(first.toolCalls.map((c) => c.callId)).not.toContain("call_000")
+    expect(new Set(seen).size).toBe(totalMessages)
+  })
+
+  it("continues inside a message that has more calls than the page size", () => {
+    // #given
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const sessionId = "ses_main"
+    writeMessageMeta({ storageRoot, sessionId, messageId: "msg_new", created: 2 })
+    for (let i = 0; i < 5; i += 1) {
+      writeToolPart({ storageRoot, sessionId, messageId: "msg_new", callId: `call_${i}`, tool: "read" })
+    }
+    writeMessageMeta({ storageRoot, sessionId, messageId: "msg_old", created: 1 })
+    writeToolPart({ storageRoot, sessionId, messageId: "msg_old", callId: "call_old", tool: "bash" })
+
+    // #when
+    const pages = [deriveToolCalls({ storage, sessionId, limit: 2 })]
+    while (pages[pages.length - 1].nextBefore) {
+      const before = parseToolCallCursor(pages[pages.length - 1].nextBefore ?? "") ?? undefined
+      pages.push(deriveToolCalls({ storage, sessionId, before, limit: 2 }))
+    }
+
+    // #then
+    expect(pages[0].nextBefore).toBe("2,msg_new,call_1")
+    expect(pages.map((page) => page.toolCalls.map((c) => c.callId))).toEqual([
+      ["call_0", "call_1"],
+      ["call_2", "call_3"],
+      ["call_4", "call_old"],
+    ])
+    expect(pages[2].truncated).toBe(false)
+  })
+
   it("redacts input/prompt but exposes output/error", () => {
     const storageRoot = mkStorageRoot()
     const storage = getStorageRoots(storageRoot)
@@ -163,3 +267,246 @@ describe("deriveToolCalls", () => {
     expect(result.toolCalls[0].error).toBe("NOPE")
   })
 })
+
+describe("deriveToolCalls filtering", () => {
+  it("filters before capping and reports facets over everything scanned", () => {
+    // #given
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const sessionId = "ses_main"
+    writeMessageMeta({ storageRoot, sessionId, messageId: "msg_old", created: 1 })
+    writeMessageMeta({ storageRoot, sessionId, messageId: "msg_new", created: 2 })
+    for (let i = 0; i < MAX_TOOL_CALLS + 10; i += 1) {
+      writeToolPart({ storageRoot, sessionId, messageId: "msg_new", callId: `call_${String(i).padStart(3, "0")}`, tool: "read" })
+    }
+    writeToolPart({
+      storageRoot,
+      sessionId,
+      messageId: "msg_old",
+      callId: "call_err",
+      tool: "bash",
+      state: { status: "error", error: "connection timeout" },
+    })
+
+    // #when
+    const errors = deriveToolCalls({ storage, sessionId, filter: { statuses: ["error"] } })
+
+    // #then
+    expect(errors.toolCalls.map((c) => c.callId)).toEqual(["call_err"])
+    expect(errors.truncated).toBe(false)
+    expect(errors.facets.statuses).toMatchObject({ completed: MAX_TOOL_CALLS + 10, error: 1 })
+    expect(errors.facets.tools).toEqual([
+      { tool: "read", count: MAX_TOOL_CALLS + 10 },
+      { tool: "bash", count: 1 },
+    ])
+  })
+
+  it("only searches output and errors when allowed to", () => {
+    // #given
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const sessionId = "ses_main"
+    writeMessageMeta({ storageRoot, sessionId, messageId: "msg_1", created: 1 })
+    writeToolPart({ storageRoot, sessionId, messageId: "msg_1", callId: "call_1", tool: "webfetch" })
+    writeToolPart({
+      storageRoot,
+      sessionId,
+      messageId: "msg_1",
+      callId: "call_2",
+      tool: "bash",
+      state: { status: "error", error: { message: "Connection TIMEOUT" } },
+    })
+
+    // #when
+    const byName = deriveToolCalls({ storage, sessionId, filter: { query: "WEB" } })
+    const hidden = deriveToolCalls({ storage, sessionId, filter: { query: "timeout" } })
+    const searched = deriveToolCalls({ storage, sessionId, filter: { query: "timeout", searchOutput: true } })
+    const byTool = deriveToolCalls({ storage, sessionId, filter: { tools: ["bash"] } })
+
+    // #then
+    expect(byName.toolCalls.map((c) => c.callId)).toEqual(["call_1"])
+    expect(hidden.toolCalls).toEqual([])
+    expect(searched.toolCalls.map((c) => c.callId)).toEqual(["call_2"])
+    expect(byTool.toolCalls.map((c) => c.callId)).toEqual(["call_2"])
+  })
+
+  it("searches output as redacted when given a redact function", () => {
+    // #given
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const sessionId = "ses_main"
+    writeMessageMeta({ storageRoot, sessionId, messageId: "msg_1", created: 1 })
+    writeToolPart({
+      storageRoot,
+      sessionId,
+      messageId: "msg_1",
+      callId: "call_1",
+      tool: "bash",
+      state: { status: "completed", output: "token=hunter2hunter2" },
+    })
+    const redact = (value: unknown) => (typeof value === "string" ? value.replace(/hunter2/g, "***") : value)
+
+    // #when
+    const raw = deriveToolCalls({ storage, sessionId, filter: { query: "hunter2", searchOutput: true } })
+    const redacted = deriveToolCalls({ storage, sessionId, filter: { query: "hunter2", searchOutput: true, redact } })
+    const visible = deriveToolCalls({ storage, sessionId, filter: { query: "token=***", searchOutput: true, redact } })
+
+    // #then
+    expect(raw.toolCalls.map((c) => c.callId)).toEqual(["call_1"])
+    expect(redacted.toolCalls).toEqual([])
+    expect(visible.toolCalls.map((c) => c.callId)).toEqual(["call_1"])
+  })
+})
+
+describe("deriveToolCallDetail", () => {
+  it("returns timing and output, and input only when asked to", () => {
+    // #given
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const sessionId = "ses_main"
+    writeMessageMeta({ storageRoot, sessionId, messageId: "msg_1", created: 1000 })
+    writeToolPart({
+      storageRoot,
+      sessionId,
+      messageId: "msg_1",
+      callId: "call_1",
+      tool: "bash",
+      state: {
+        status: "completed",
+        input: { command: "ls" },
+        output: "a.txt",
+        time: { start: 1_200, end: 3_700 },
+      },
+    })
+
+    // #when
+    const hidden = deriveToolCallDetail({ storage, sessionId, callId: "call_1" })
+    const revealed = deriveToolCallDetail({ storage, sessionId, callId: "call_1", includeInput: true })
+
+    // #then
+    expect(hidden).toEqual({
+      sessionId,
+      messageId: "msg_1",
+      callId: "call_1",
+      tool: "bash",
+      status: "completed",
+      createdAtMs: 1000,
+      startedAtMs: 1_200,
+      endedAtMs: 3_700,
+      durationMs: 2_500,
+      output: "a.txt",
+      error: undefined,
+    })
+    expect(hasBannedKeys(hidden, new Set(["input", "state"]))).toBe(false)
+    expect(revealed?.input).toEqual({ command: "ls" })
+  })
+
+  it("leaves timing null for calls that have not finished and misses unknown ids", () => {
+    // #given
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const sessionId = "ses_main"
+    writeMessageMeta({ storageRoot, sessionId, messageId: "msg_1", created: 1000 })
+    writeToolPart({
+      storageRoot,
+      sessionId,
+      messageId: "msg_1",
+      callId: "call_stuck",
+      tool: "webfetch",
+      state: { status: "running", input: {}, time: { start: 1_500 } },
+    })
+
+    // #when
+    const stuck = deriveToolCallDetail({ storage, sessionId, callId: "call_stuck" })
+    const missing = deriveToolCallDetail({ storage, sessionId, callId: "call_nope" })
+
+    // #then
+    expect(stuck).toMatchObject({ status: "running", startedAtMs: 1_500, endedAtMs: null, durationMs: null })
+    expect(missing).toBeNull()
+  })
+})
+
+describe("findFileEditCall", () => {
+  it("returns the newest successful edit of the file since the cutoff, without its input", () => {
+    // #given
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const sessionId = "ses_main"
+    const projectRoot = "/repo"
+    const planFile = "/repo/.sisyphus/plans/p.md"
+    writeMessageMeta({ storageRoot, sessionId, messageId: "msg_1", created: 1_000 })
+    writeToolPart({
+      storageRoot,
+      sessionId,
+      messageId: "msg_1",
+      callId: "call_old",
+      tool: "edit",
+      state: { status: "completed", input: { filePath: planFile }, time: { start: 1_000, end: 1_100 } },
+    })
+    writeMessageMeta({ storageRoot, sessionId, messageId: "msg_2", created: 5_000 })
+    writeToolPart({
+      storageRoot,
+      sessionId,
+      messageId: "msg_2",
+      callId: "call_new",
+      tool: "edit",
+      state: { status: "completed", input: { filePath: ".sisyphus/plans/p.md" }, time: { start: 5_000, end: 5_200 } },
+    })
+    writeToolPart({
+      storageRoot,
+      sessionId,
+      messageId: "msg_2",
+      callId: "call_failed",
+      tool: "write",
+      state: { status: "error", input: { filePath: planFile }, time: { start: 5_300, end: 5_400 } },
+    })
+    writeToolPart({
+      storageRoot,
+      sessionId,
+      messageId: "msg_2",
+      callId: "call_other",
+      tool: "edit",
+      state: { status: "completed", input: { filePath: "/repo/src/a.ts" }, time: { start: 5_500, end: 5_600 } },
+    })
+
+    // #when
+    const found = findFileEditCall({ storage, sessionId, filePath: planFile, projectRoot, sinceMs: 2_000 })
+    const tooOld = findFileEditCall({ storage, sessionId, filePath: planFile, projectRoot, sinceMs: 6_000 })
+
+    // #then
+    expect(found).toEqual({ sessionId, messageId: "msg_2", callId: "call_new", tool: "edit", atMs: 5_200 })
+    expect(tooOld).toBeNull()
+  })
+
+  it("matches patch tools by the file named in the patch text", () => {
+    // #given
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const sessionId = "ses_task"
+    writeMessageMeta({ storageRoot, sessionId, messageId: "msg_1", created: 1_000 })
+    writeToolPart({
+      storageRoot,
+      sessionId,
+      messageId: "msg_1",
+      callId: "call_patch",
+      tool: "apply_patch",
+      state: {
+        status: "completed",
+        input: { patchText: "*** Update File: .sisyphus/plans/p.md\n-- [ ] a\n+- [x] a" },
+        time: { start: 1_000, end: 1_050 },
+      },
+    })
+
+    // #when
+    const found = findFileEditCall({
+      storage,
+      sessionId,
+      filePath: "/repo/.sisyphus/plans/p.md",
+      projectRoot: "/repo",
+      sinceMs: 0,
+    })
+
+    // #then
+    expect(found?.callId).toBe("call_patch")
+  })
+})
@@ -16,20 +16,54 @@ export type ToolCallSummary = {
   tool: string
   status: "pending" | "running" | "completed" | "error" | "unknown"
   createdAtMs: number | null
+  // From `state.time.start/end`; null until the call has both.
+  durationMs: number | null
   output?: unknown
   error?: unknown
 }
 
+export type ToolCallFilter = {
+  statuses?: ToolCallSummary["status"][]
+  tools?: string[]
+  // Case-insensitive substring over the tool name, and over output/error when `searchOutput` is set.
+  query?: string
+  searchOutput?: boolean
+  // Applied to output/error before they are searched, so a match can't reveal text the response hides.
+  redact?: (value: unknown) => unknown
+}
+
+export type ToolCallFacets = {
+  statuses: Record<ToolCallSummary["status"], number>
+  tools: Array<{ tool: string; count: number }>
+}
+
 export type ToolCallSummaryResult = {
   toolCalls: ToolCallSummary[]
   truncated: boolean
+  // Cursor for the next (older) page, or null when this page reaches the oldest message.
+  nextBefore: string | null
+  // Counts over every scanned call, before the filter is applied.
+  facets: ToolCallFacets
 }
 
-type StoredToolPartMeta = {
+export type ToolCallDetail = ToolCallSummary & {
+  // Only present when the caller opted in to revealing tool arguments.
+  input?: unknown
+  startedAtMs: number | null
+  endedAtMs: number | null
+}
+
+export type StoredToolPartMeta = {
   type?: string
   callID?: string
   tool?: string
-  state?: { status?: string; output?: unknown; error?: unknown }
+  state?: {
+    status?: string
+    input?: unknown
+    output?: unknown
+    error?: unknown
+    time?: { start?: unknown; end?: unknown }
+  }
 }
 
 function readJsonFile<T>(filePath: string, fsLike: FsLike): T | null {
@@ -49,30 +83,33 @@ function listJsonFiles(dir: string, fsLike: FsLike): string[] {
   }
 }
 
-function readRecentMessageMetas(
-  messageDir: string,
-  maxMessages: number,
-  fsLike: FsLike
-): { metas: StoredMessageMeta[]; totalMessages: number } {
-  if (!messageDir || !fsLike.existsSync(messageDir)) return { metas: [], totalMessages: 0 }
-  const files = listJsonFiles(messageDir, fsLike)
-  const ranked = files
+function listJsonFilesByMtime(dir: string, fsLike: FsLike): string[] {
+  return listJsonFiles(dir, fsLike)
     .map((f) => ({
       f,
       mtime: (() => {
         try {
-          return fsLike.statSync(path.join(messageDir, f)).mtimeMs
+          return fsLike.statSync(path.join(dir, f)).mtimeMs
         } catch {
           return 0
         }
       })(),
     }))
     .sort((a, b) => b.mtime - a.mtime)
-    .slice(0, maxMessages)
+    .map((item) => item.f)
+}
 
+// Most recently written first: right for "what just changed", not on its own for paging (see below).
+function readRecentMessageMetas(
+  messageDir: string,
+  maxMessages: number,
+  fsLike: FsLike
+): { metas: StoredMessageMeta[]; totalMessages: number } {
+  if (!messageDir || !fsLike.existsSync(messageDir)) return { metas: [], totalMessages: 0 }
+  const files = listJsonFilesByMtime(messageDir, fsLike)
   const metas: StoredMessageMeta[] = []
-  for (const item of ranked) {
-    const meta = readJsonFile<StoredMessageMeta>(path.join(messageDir, item.f), fsLike)
+  for (const file of files.slice(0, maxMessages)) {
+    const meta = readJsonFile<StoredMessageMeta>(path.join(messageDir, file), fsLike)
     if (meta && typeof meta.id === "string") metas.push(meta)
   }
   return { metas, totalMessages: files.length }
@@ -101,7 +138,7 @@ function readToolPartsForMessage(
   return parts
 }
 
-function readStatus(value: StoredToolPartMeta["state"]): ToolCallSummary["status"] {
+export function readToolCallStatus(value: StoredToolPartMeta["state"]): ToolCallSummary["status"] {
   const status = value?.status
   if (status === "pending" || status === "running" || status === "completed" || status === "error") {
     return status
@@ -109,9 +146,147 @@ function readStatus(value: StoredToolPartMeta["state"]): ToolCallSummary["status
   return "unknown"
 }
 
+// Position in newest-first order: `createdAtMs` descending, then `messageId` ascending. `callId`
+// is only set when a page stopped inside a message; its calls after `callId` (ascending) come next.
+export type ToolCallCursor = {
+  createdAtMs: number | null
+  messageId: string
+  callId?: string
+}
+
+const CURSOR_PATTERN = /^(\d{1,15}|null),([A-Za-z0-9_-]{1,128})(?:,([A-Za-z0-9_-]{1,128}))?$/
+
+export function parseToolCallCursor(value: string): ToolCallCursor | null {
+  const match = CURSOR_PATTERN.exec(value.trim())
+  if (!match) return null
+  const cursor: ToolCallCursor = { createdAtMs: match[1] === "null" ? null : Number(match[1]), messageId: match[2] }
+  if (match[3]) cursor.callId = match[3]
+  return cursor
+}
+
+export function formatToolCallCursor(cursor: ToolCallCursor): string {
+  const base = `${cursor.createdAtMs ?? "null"},${cursor.messageId}`
+  return cursor.callId ? `${base},${cursor.callId}` : base
+}
+
+function readCreatedAtMs(meta: StoredMessageMeta): number | null {
+  return typeof meta.time?.created === "number" ? meta.time.created : null
+}
+
+function compareMessagesNewestFirst(a: StoredMessageMeta, b: StoredMessageMeta): number {
+  const at = readCreatedAtMs(a) ?? -Infinity
+  const bt = readCreatedAtMs(b) ?? -Infinity
+  if (at !== bt) return bt - at
+  return String(a.id).localeCompare(String(b.id))
+}
+
+function isOlderThanCursor(meta: StoredMessageMeta, cursor: ToolCallCursor): boolean {
+  if (cursor.callId && meta.id === cursor.messageId) return true
+  const key = readCreatedAtMs(meta) ?? -Infinity
+  const cursorKey = cursor.createdAtMs ?? -Infinity
+  if (key !== cursorKey) return key < cursorKey
+  return String(meta.id).localeCompare(cursor.messageId) > 0
+}
+
+function readMessageMeta(messageDir: string, messageId: string, fsLike: FsLike): StoredMessageMeta[] {
+  if (!messageDir) return []
+  const meta = readJsonFile<StoredMessageMeta>(path.join(messageDir, `${messageId}.json`), fsLike)
+  return meta && meta.id === messageId ? [meta] : []
+}
+
+// Both reads stay bounded by walking files newest-written first. The first page parses the
+// `maxMessages` newest and orders them by creation time, the order cursors follow; a message
+// created before the oldest-written one there was rewritten late and is left to a later page, or
+// its cursor would skip everything created in between. Cursor pages parse until `maxMessages + 1`
+// messages older than the cursor have turned up.
+function readPageMessageMetas(
+  messageDir: string,
+  maxMessages: number,
+  fsLike: FsLike,
+  cursor?: ToolCallCursor
+): { metas: StoredMessageMeta[]; hasOlderMessages: boolean } {
+  if (!messageDir || !fsLike.existsSync(messageDir)) return { metas: [], hasOlderMessages: false }
+  const files = listJsonFilesByMtime(messageDir, fsLike)
+
+  if (!cursor) {
+    const { metas } = readRecentMessageMetas(messageDir, maxMessages, fsLike)
+    if (files.length <= maxMessages) return { metas: metas.sort(compareMessagesNewestFirst), hasOlderMessages: false }
+    const oldestWritten = metas[metas.length - 1]
+    const inOrder = oldestWritten
+      ? metas.filter((meta) => compareMessagesNewestFirst(meta, oldestWritten) <= 0)
+      : metas
+    return { metas: inOrder.sort(compareMessagesNewestFirst), hasOlderMessages: true }
+  }
+
+  const older: StoredMessageMeta[] = []
+  for (const file of files) {
+    const meta = readJsonFile<StoredMessageMeta>(path.join(messageDir, file), fsLike)
+    if (meta && typeof meta.id === "string" && isOlderThanCursor(meta, cursor)) older.push(meta)
+    if (older.length > maxMessages) break
+  }
+  older.sort(compareMessagesNewestFirst)
+  return { metas: older.slice(0, maxMessages), hasOlderMessages: older.length > maxMessages }
+}
+
+function readTimeMs(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null
+}
+
+export function readToolCallDurationMs(state: StoredToolPartMeta["state"]): number | null {
+  const start = readTimeMs(state?.time?.start)
+  const end = readTimeMs(state?.time?.end)
+  return start !== null && end !== null ? Math.max(0, end - start) : null
+}
+
+function searchableText(value: unknown): string {
+  if (value === undefined || value === null) return ""
+  if (typeof value === "string") return value
+  try {
+    return JSON.stringify(value)
+  } catch {
+    return ""
+  }
+}
+
+export function matchesToolCallFilter(call: ToolCallSummary, filter: ToolCallFilter | undefined): boolean {
+  if (!filter) return true
+  if (filter.statuses && filter.statuses.length > 0 && !filter.statuses.includes(call.status)) return false
+  if (filter.tools && filter.tools.length > 0 && !filter.tools.includes(call.tool)) return false
+  const query = filter.query?.trim().toLowerCase()
+  if (!query) return true
+  if (call.tool.toLowerCase().includes(query)) return true
+  if (!filter.searchOutput) return false
+  const redact = filter.redact ?? ((value: unknown) => value)
+  return (
+    searchableText(redact(call.output)).toLowerCase().includes(query) ||
+    searchableText(redact(call.error)).toLowerCase().includes(query)
+  )
+}
+
+function buildFacets(calls: ToolCallSummary[]): ToolCallFacets {
+  const statuses: ToolCallFacets["statuses"] = { pending: 0, running: 0, completed: 0, error: 0, unknown: 0 }
+  const tools = new Map<string, number>()
+  for (const call of calls) {
+    statuses[call.status] += 1
+    tools.set(call.tool, (tools.get(call.tool) ?? 0) + 1)
+  }
+  return {
+    statuses,
+    tools: Array.from(tools, ([tool, count]) => ({ tool, count })).sort(
+      (a, b) => b.count - a.count || a.tool.localeCompare(b.tool)
+    ),
+  }
+}
+
 export function deriveToolCalls(opts: {
   storage: OpenCodeStorageRoots
   sessionId: string
+  // Applied before MAX_TOOL_CALLS so the cap counts matching calls only.
+  filter?: ToolCallFilter
+  // Only messages strictly older than this cursor (see ToolCallCursor).
+  before?: ToolCallCursor
+  // Page size, clamped to 1..MAX_TOOL_CALLS.
+  limit?: number
   fs?: FsLike
   allowedRoots?: string[]
 }): ToolCallSummaryResult {
@@ -120,42 +295,170 @@ export function deriveToolCalls(opts: {
   if (messageDir && opts.allowedRoots && opts.allowedRoots.length > 0) {
     assertAllowedPath({ candidatePath: messageDir, allowedRoots: opts.allowedRoots })
   }
-  const { metas, totalMessages } = readRecentMessageMetas(messageDir, MAX_TOOL_CALL_MESSAGES, fsLike)
-  const truncatedByMessages = totalMessages > MAX_TOOL_CALL_MESSAGES
+  const limit = Math.min(MAX_TOOL_CALLS, Math.max(1, Math.floor(opts.limit ?? MAX_TOOL_CALLS)))
+  const { metas, hasOlderMessages } = readPageMessageMetas(messageDir, MAX_TOOL_CALL_MESSAGES, fsLike, opts.before)
 
-  const calls: Array<ToolCallSummary & { createdSortKey: number }> = []
+  const scanned: ToolCallSummary[] = []
+  const toolCalls: ToolCallSummary[] = []
+  let lastIncluded: ToolCallCursor | null = null
+  let pageFull = false
   for (const meta of metas) {
-    const createdAtMs = typeof meta.time?.created === "number" ? meta.time.created : null
-    const createdSortKey = createdAtMs ?? -Infinity
-    const parts = readToolPartsForMessage(opts.storage.part, meta.id, fsLike, opts.allowedRoots)
-    for (const part of parts) {
-      calls.push({
-        sessionId: opts.sessionId,
-        messageId: meta.id,
-        callId: part.callID ?? "",
-        tool: part.tool ?? "",
-        status: readStatus(part.state),
-        createdAtMs,
-        createdSortKey,
-        output: part.state?.output,
-        error: part.state?.error,
-      })
+    const createdAtMs = readCreatedAtMs(meta)
+    const resumeAfter = opts.before?.messageId === meta.id ? opts.before.callId : undefined
+    const rows = readToolPartsForMessage(opts.storage.part, meta.id, fsLike, opts.allowedRoots)
+      .sort((a, b) => String(a.callID).localeCompare(String(b.callID)))
+      .filter((part) => !resumeAfter || String(part.callID).localeCompare(resumeAfter) > 0)
+      .map(
+        (part): ToolCallSummary => ({
+          sessionId: opts.sessionId,
+          messageId: meta.id,
+          callId: part.callID ?? "",
+          tool: part.tool ?? "",
+          status: readToolCallStatus(part.state),
+          createdAtMs,
+          durationMs: readToolCallDurationMs(part.state),
+          output: part.state?.output,
+          error: part.state?.error,
+        })
+      )
+    scanned.push(...rows)
+    if (pageFull) continue
+
+    // Pages end on message boundaries; only a single message with more than `limit` matches is
+    // split, and the cursor then carries the last call returned.
+    const matching = rows.filter((call) => matchesToolCallFilter(call, opts.filter))
+    if (toolCalls.length > 0 && toolCalls.length + matching.length > limit) {
+      pageFull = true
+      continue
     }
+    if (matching.length > limit) {
+      toolCalls.push(...matching.slice(0, limit))
+      lastIncluded = { createdAtMs, messageId: meta.id, callId: matching[limit - 1].callId }
+      pageFull = true
+      continue
+    }
+    toolCalls.push(...matching)
+    lastIncluded = { createdAtMs, messageId: meta.id }
   }
 
-  const truncatedByCalls = calls.length > MAX_TOOL_CALLS
-  const toolCalls = calls
-    .sort((a, b) => {
-      if (a.createdSortKey !== b.createdSortKey) return b.createdSortKey - a.createdSortKey
-      const messageCompare = String(a.messageId).localeCompare(String(b.messageId))
-      if (messageCompare !== 0) return messageCompare
-      return String(a.callId).localeCompare(String(b.callId))
-    })
-    .slice(0, MAX_TOOL_CALLS)
-    .map(({ createdSortKey, ...row }) => row)
-
+  const hasMore = pageFull || hasOlderMessages
   return {
     toolCalls,
-    truncated: truncatedByMessages || truncatedByCalls,
+    truncated: hasMore,
+    facets: buildFacets(scanned),
+    nextBefore: hasMore && lastIncluded ? formatToolCallCursor(lastIncluded) : null,
+  }
+}
+
+// Looks up one call among the same recent messages the list scans, so anything the grid shows
+// can be opened. `state.input` is only copied when `includeInput` is set.
+export function deriveToolCallDetail(opts: {
+  storage: OpenCodeStorageRoots
+  sessionId: string
+  callId: string
+  // Known owning message (e.g. from an older page); skips the recent-messages scan.
+  messageId?: string
+  includeInput?: boolean
+  fs?: FsLike
+  allowedRoots?: string[]
+}): ToolCallDetail | null {
+  const fsLike: FsLike = opts.fs ?? fs
+  const messageDir = getMessageDir(opts.storage.message, opts.sessionId)
+  if (messageDir && opts.allowedRoots && opts.allowedRoots.length > 0) {
+    assertAllowedPath({ candidatePath: messageDir, allowedRoots: opts.allowedRoots })
+  }
+  const metas = opts.messageId
+    ? readMessageMeta(messageDir, opts.messageId, fsLike)
+    : readRecentMessageMetas(messageDir, MAX_TOOL_CALL_MESSAGES, fsLike).metas
+
+  for (const meta of metas) {
+    const parts = readToolPartsForMessage(opts.storage.part, meta.id, fsLike, opts.allowedRoots)
+    const part = parts.find((p) => p.callID === opts.callId)
+    if (!part) continue
+
+    const detail: ToolCallDetail = {
+      sessionId: opts.sessionId,
+      messageId: meta.id,
+      callId: opts.callId,
+      tool: part.tool ?? "",
+      status: readToolCallStatus(part.state),
+      createdAtMs: typeof meta.time?.created === "number" ? meta.time.created : null,
+      startedAtMs: readTimeMs(part.state?.time?.start),
+      endedAtMs: readTimeMs(part.state?.time?.end),
+      durationMs: readToolCallDurationMs(part.state),
+      output: part.state?.output,
+      error: part.state?.error,
+    }
+    if (opts.includeInput) detail.input = part.state?.input
+    return detail
+  }
+  return null
+}
+
+export type FileEditCall = {
+  sessionId: string
+  messageId: string
+  callId: string
+  tool: string
+  // When the edit finished, or started / the message was created if it has no end time yet.
+  atMs: number
+}
+
+// Only the newest few messages are read; this runs on every snapshot that notices a plan flip.
+export const MAX_FILE_EDIT_MESSAGES = 30
+
+const FILE_EDIT_TOOLS = new Set(["edit", "write", "multiedit", "patch", "apply_patch"])
+const FILE_PATH_KEYS = ["filePath", "file_path", "path"]
+
+function editTouchesFile(input: unknown, filePath: string, projectRoot: string | undefined): boolean {
+  if (!input || typeof input !== "object") return false
+  const rec = input as Record<string, unknown>
+  for (const key of FILE_PATH_KEYS) {
+    const value = rec[key]
+    if (typeof value !== "string" || !value) continue
+    const resolved = projectRoot ? path.resolve(projectRoot, value) : path.resolve(value)
+    if (resolved === filePath) return true
+  }
+  // Patch tools name their files inside the patch text rather than in a path argument.
+  for (const value of Object.values(rec)) {
+    if (typeof value !== "string") continue
+    if (value.includes(filePath)) return true
+    if (projectRoot && value.includes(path.relative(projectRoot, filePath))) return true
+  }
+  return false
+}
+
+// Newest edit-type call in the session that wrote `filePath` at or after `sinceMs`. Tool inputs
+// are only inspected here, never returned.
+export function findFileEditCall(opts: {
+  storage: OpenCodeStorageRoots
+  sessionId: string
+  // Absolute; relative paths in tool inputs are resolved against `projectRoot`.
+  filePath: string
+  projectRoot?: string
+  sinceMs: number
+  fs?: FsLike
+  allowedRoots?: string[]
+}): FileEditCall | null {
+  const fsLike: FsLike = opts.fs ?? fs
+  const messageDir = getMessageDir(opts.storage.message, opts.sessionId)
+  if (messageDir && opts.allowedRoots && opts.allowedRoots.length > 0) {
+    assertAllowedPath({ candidatePath: messageDir, allowedRoots: opts.allowedRoots })
+  }
+  const { metas } = readRecentMessageMetas(messageDir, MAX_FILE_EDIT_MESSAGES, fsLike)
+
+  let best: FileEditCall | null = null
+  for (const meta of metas) {
+    for (const part of readToolPartsForMessage(opts.storage.part, meta.id, fsLike, opts.allowedRoots)) {
+      if (!FILE_EDIT_TOOLS.has((part.tool ?? "").toLowerCase())) continue
+      if (readToolCallStatus(part.state) === "error") continue
+      const atMs =
+        readTimeMs(part.state?.time?.end) ?? readTimeMs(part.state?.time?.start) ?? readCreatedAtMs(meta)
+      if (atMs === null || atMs < opts.sinceMs) continue
+      if (best && best.atMs >= atMs) continue
+      if (!editTouchesFile(part.state?.input, opts.filePath, opts.projectRoot)) continue
+      best = { sessionId: opts.sessionId, messageId: meta.id, callId: part.callID ?? "", tool: part.tool ?? "", atMs }
+    }
   }
+  return best
 }
@@ -0,0 +1,82 @@
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { describe, expect, it } from "vitest"
+import { getStorageRoots } from "./session"
+import { deriveSessionTranscript, MAX_TRANSCRIPT_MESSAGES } from "./transcript"
+
+function mkStorageRoot(): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "omo-transcript-"))
+  fs.mkdirSync(path.join(root, "session"), { recursive: true })
+  fs.mkdirSync(path.join(root, "message"), { recursive: true })
+  fs.mkdirSync(path.join(root, "part"), { recursive: true })
+  return root
+}
+
+function writeMessage(storageRoot: string, sessionId: string, meta: Record<string, unknown>): void {
+  const dir = path.join(storageRoot, "message", sessionId)
+  fs.mkdirSync(dir, { recursive: true })
+  fs.writeFileSync(path.join(dir, `${meta.id}.json`), JSON.stringify({ sessionID: sessionId, ...meta }), "utf8")
+}
+
+function writePart(storageRoot: string, messageId: string, part: Record<string, unknown>): void {
+  const dir = path.join(storageRoot, "part", messageId)
+  fs.mkdirSync(dir, { recursive: true })
+  fs.writeFileSync(path.join(dir, `${part.id}.json`), JSON.stringify({ messageID: messageId, ...part }), "utf8")
+}
+
+describe("deriveSessionTranscript", () => {
+  it("orders messages by creation and interleaves text, reasoning and tool parts", () => {
+    // #given
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    writeMessage(storageRoot, "ses_1", { id: "msg_b", role: "assistant", agent: "sisyphus", time: { created: 2_000 } })
+    writeMessage(storageRoot, "ses_1", { id: "msg_a", role: "user", time: { created: 1_000 } })
+    writePart(storageRoot, "msg_a", { id: "prt_01", type: "text", text: "Fix the build" })
+    writePart(storageRoot, "msg_b", { id: "prt_01", type: "reasoning", text: "Check the logs first." })
+    writePart(storageRoot, "msg_b", { id: "prt_02", type: "step-start" })
+    writePart(storageRoot, "msg_b", {
+      id: "prt_03",
+      type: "tool",
+      callID: "call_1",
+      tool: "bash",
+      state: { status: "completed", input: { command: "bun run build" }, output: "ok", time: { start: 2_100, end: 2_600 } },
+    })
+    writePart(storageRoot, "msg_b", { id: "prt_04", type: "text", text: "  " })
+    writePart(storageRoot, "msg_b", { id: "prt_05", type: "text", text: "Build is green." })
+
+    // #when
+    const transcript = deriveSessionTranscript({ storage, sessionId: "ses_1" })
+    const withInputs = deriveSessionTranscript({ storage, sessionId: "ses_1", includeToolInputs: true })
+
+    // #then
+    expect(transcript.truncated).toBe(false)
+    expect(transcript.messages.map((m) => [m.id, m.role, m.agent])).toEqual([
+      ["msg_a", "user", null],
+      ["msg_b", "assistant", "sisyphus"],
+    ])
+    expect(transcript.messages[1].parts).toEqual([
+      { kind: "reasoning", id: "prt_01", text: "Check the logs first." },
+      { kind: "tool", id: "prt_03", callId: "call_1", tool: "bash", status: "completed", durationMs: 500, output: "ok", error: undefined },
+      { kind: "text", id: "prt_05", text: "Build is green." },
+    ])
+    expect(withInputs.messages[1].parts[1]).toMatchObject({ input: { command: "bun run build" } })
+  })
+
+  it("keeps only the newest messages past the cap", () => {
+    // #given
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    for (let i = 0; i < MAX_TRANSCRIPT_MESSAGES + 2; i += 1) {
+      writeMessage(storageRoot, "ses_long", { id: `msg_${String(i).padStart(4, "0")}`, role: "user", time: { created: i } })
+    }
+
+    // #when
+    const transcript = deriveSessionTranscript({ storage, sessionId: "ses_long" })
+
+    // #then
+    expect(transcript.truncated).toBe(true)
+    expect(transcript.messages.length).toBe(MAX_TRANSCRIPT_MESSAGES)
+    expect(transcript.messages[0].id).toBe("msg_0002")
+  })
+})
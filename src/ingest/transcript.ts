@@ -0,0 +1,147 @@
+import * as fs from "node:fs"
+import * as path from "node:path"
+import type { OpenCodeStorageRoots, StoredMessageMeta } from "./session"
+import { getMessageDir } from "./session"
+import { assertAllowedPath } from "./paths"
+import {
+  readToolCallDurationMs,
+  readToolCallStatus,
+  type StoredToolPartMeta,
+  type ToolCallSummary,
+} from "./tool-calls"
+
+type FsLike = Pick<typeof fs, "readFileSync" | "readdirSync" | "existsSync" | "statSync">
+
+export const MAX_TRANSCRIPT_MESSAGES = 500
+
+export type TranscriptPart =
+  | { kind: "text"; id: string; text: string }
+  | { kind: "reasoning"; id: string; text: string }
+  | {
+      kind: "tool"
+      id: string
+      callId: string
+      tool: string
+      status: ToolCallSummary["status"]
+      durationMs: number | null
+      // Only present when the caller opted in to revealing tool arguments.
+      input?: unknown
+      output?: unknown
+      error?: unknown
+    }
+
+export type TranscriptMessage = {
+  id: string
+  role: string
+  agent: string | null
+  createdAtMs: number | null
+  parts: TranscriptPart[]
+}
+
+export type SessionTranscript = {
+  sessionId: string
+  messages: TranscriptMessage[]
+  // True when the session has more than MAX_TRANSCRIPT_MESSAGES; the oldest ones are dropped.
+  truncated: boolean
+}
+
+type StoredPartMeta = StoredToolPartMeta & {
+  id?: string
+  text?: unknown
+}
+
+function readJsonFile<T>(filePath: string, fsLike: FsLike): T | null {
+  try {
+    return JSON.parse(fsLike.readFileSync(filePath, "utf8")) as T
+  } catch {
+    return null
+  }
+}
+
+function listJsonFiles(dir: string, fsLike: FsLike): string[] {
+  try {
+    return fsLike.readdirSync(dir).filter((f) => f.endsWith(".json"))
+  } catch {
+    return []
+  }
+}
+
+function readCreatedAtMs(meta: StoredMessageMeta): number | null {
+  return typeof meta.time?.created === "number" ? meta.time.created : null
+}
+
+function toTranscriptPart(part: StoredPartMeta, fallbackId: string, includeToolInputs: boolean): TranscriptPart | null {
+  const id = typeof part.id === "string" ? part.id : fallbackId
+  if (part.type === "text" || part.type === "reasoning") {
+    if (typeof part.text !== "string" || !part.text.trim()) return null
+    return { kind: part.type, id, text: part.text }
+  }
+  if (part.type === "tool" && typeof part.tool === "string" && typeof part.callID === "string") {
+    const tool: TranscriptPart = {
+      kind: "tool",
+      id,
+      callId: part.callID,
+      tool: part.tool,
+      status: readToolCallStatus(part.state),
+      durationMs: readToolCallDurationMs(part.state),
+      output: part.state?.output,
+      error: part.state?.error,
+    }
+    if (includeToolInputs) tool.input = part.state?.input
+    return tool
+  }
+  // Step markers, patches, snapshots etc. carry no conversation content.
+  return null
+}
+
+// Messages oldest first by `time.created`; parts in storage order (part ids sort by creation).
+export function deriveSessionTranscript(opts: {
+  storage: OpenCodeStorageRoots
+  sessionId: string
+  includeToolInputs?: boolean
+  fs?: FsLike
+  allowedRoots?: string[]
+}): SessionTranscript {
+  const fsLike: FsLike = opts.fs ?? fs
+  const messageDir = getMessageDir(opts.storage.message, opts.sessionId)
+  if (messageDir && opts.allowedRoots && opts.allowedRoots.length > 0) {
+    assertAllowedPath({ candidatePath: messageDir, allowedRoots: opts.allowedRoots })
+  }
+  if (!messageDir || !fsLike.existsSync(messageDir)) {
+    return { sessionId: opts.sessionId, messages: [], truncated: false }
+  }
+
+  const metas: StoredMessageMeta[] = []
+  for (const file of listJsonFiles(messageDir, fsLike)) {
+    const meta = readJsonFile<StoredMessageMeta>(path.join(messageDir, file), fsLike)
+    if (meta && typeof meta.id === "string") metas.push(meta)
+  }
+  metas.sort((a, b) => {
+    const at = readCreatedAtMs(a) ?? 0
+    const bt = readCreatedAtMs(b) ?? 0
+    return at !== bt ? at - bt : a.id.localeCompare(b.id)
+  })
+  const kept = metas.slice(-MAX_TRANSCRIPT_MESSAGES)
+
+  const messages = kept.map((meta): TranscriptMessage => {
+    const partDir = path.join(opts.storage.part, meta.id)
+    if (opts.allowedRoots && opts.allowedRoots.length > 0) {
+      assertAllowedPath({ candidatePath: partDir, allowedRoots: opts.allowedRoots })
+    }
+    const parts: TranscriptPart[] = []
+    for (const file of listJsonFiles(partDir, fsLike).sort()) {
+      const part = readJsonFile<StoredPartMeta>(path.join(partDir, file), fsLike)
+      const row = part ? toTranscriptPart(part, file.replace(/\.json$/, ""), opts.includeToolInputs === true) : null
+      if (row) parts.push(row)
+    }
+    return {
+      id: meta.id,
+      role: typeof meta.role === "string" ? meta.role : "unknown",
+      agent: typeof meta.agent === "string" ? meta.agent : null,
+      createdAtMs: readCreatedAtMs(meta),
+      parts,
+    }
+  })
+
+  return { sessionId: opts.sessionId, messages, truncated: metas.length > kept.length }
+}
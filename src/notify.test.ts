@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import {
+  DEFAULT_NOTIFICATION_PREFS,
+  notificationMessage,
+  parseNotificationPrefs,
+  requestNotificationPermission,
+  showNotification,
+} from "./notify"
+
+describe("parseNotificationPrefs", () => {
+  it("defaults every event to on and keeps valid stored toggles", () => {
+    expect(parseNotificationPrefs(null)).toEqual(DEFAULT_NOTIFICATION_PREFS)
+    expect(parseNotificationPrefs("{not json")).toEqual(DEFAULT_NOTIFICATION_PREFS)
+    expect(parseNotificationPrefs(JSON.stringify({ task: false, waiting: "no", extra: true }))).toEqual({
+      all: true,
+      task: false,
+      question: true,
+      waiting: true,
+    })
+  })
+})
+
+describe("notificationMessage", () => {
+  it("names the plan for plan events", () => {
+    const ctx = { planName: "agent-dashboard", completed: 3, total: 7 }
+
+    expect(notificationMessage("all", ctx).title).toBe("Plan complete: agent-dashboard")
+    expect(notificationMessage("task", ctx).body).toBe("3 of 7 steps done.")
+    expect(notificationMessage("waiting", ctx).title).toBe("Agent is waiting for you")
+  })
+})
+
+describe("desktop notifications", () => {
+  const prevWindow = (globalThis as unknown as { window?: unknown }).window
+
+  afterEach(() => {
+    ;(globalThis as unknown as { window?: unknown }).window = prevWindow
+  })
+
+  function installNotification(permission: NotificationPermission, requested: NotificationPermission = permission) {
+    const created: Array<{ title: string; options?: NotificationOptions }> = []
+    class FakeNotification {
+      static permission = permission
+      static requestPermission = vi.fn(async () => requested)
+      constructor(title: string, options?: NotificationOptions) {
+        created.push({ title, options })
+      }
+    }
+    ;(globalThis as unknown as { window?: unknown }).window = { Notification: FakeNotification }
+    return { created, FakeNotification }
+  }
+
+  it("shows a tagged notification once permission is granted", () => {
+    // #given
+    const { created } = installNotification("granted")
+
+    // #when
+    showNotification("question", { title: "Agent has a question", body: "..." })
+
+    // #then
+    expect(created).toEqual([{ title: "Agent has a question", options: { body: "...", tag: "omo-dashboard-question" } }])
+  })
+
+  it("does nothing without permission", () => {
+    // #given
+    const { created } = installNotification("default")
+
+    // #when
+    showNotification("waiting", { title: "t", body: "b" })
+
+    // #then
+    expect(created).toEqual([])
+  })
+
+  it("asks for permission only when it has not been decided", async () => {
+    const pending = installNotification("default", "granted")
+    expect(await requestNotificationPermission()).toBe(true)
+    expect(pending.FakeNotification.requestPermission).toHaveBeenCalledTimes(1)
+
+    const denied = installNotification("denied")
+    expect(await requestNotificationPermission()).toBe(false)
+    expect(denied.FakeNotification.requestPermission).not.toHaveBeenCalled()
+  })
+
+  it("reports no support outside the browser", async () => {
+    ;(globalThis as unknown as { window?: unknown }).window = undefined
+    expect(await requestNotificationPermission()).toBe(false)
+  })
+})
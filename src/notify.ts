@@ -0,0 +1,80 @@
+import type { DingKind } from "./sound"
+
+export type NotificationPrefs = Record<DingKind, boolean>
+
+export const NOTIFICATION_KINDS: Array<{ kind: DingKind; label: string }> = [
+  { kind: "all", label: "Plan complete" },
+  { kind: "task", label: "Plan step" },
+  { kind: "question", label: "Question" },
+  { kind: "waiting", label: "Waiting" },
+]
+
+export const DEFAULT_NOTIFICATION_PREFS: NotificationPrefs = {
+  all: true,
+  task: true,
+  question: true,
+  waiting: true,
+}
+
+// Stored as JSON next to omoDashboardSoundEnabled; unknown or malformed entries keep the defaults.
+export function parseNotificationPrefs(raw: string | null): NotificationPrefs {
+  const prefs = { ...DEFAULT_NOTIFICATION_PREFS }
+  if (!raw) return prefs
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    if (!parsed || typeof parsed !== "object") return prefs
+    for (const { kind } of NOTIFICATION_KINDS) {
+      const value = (parsed as Record<string, unknown>)[kind]
+      if (typeof value === "boolean") prefs[kind] = value
+    }
+  } catch {
+    // ignore
+  }
+  return prefs
+}
+
+export function notificationMessage(kind: DingKind, ctx: { planName: string; completed: number; total: number }): {
+  title: string
+  body: string
+} {
+  const planName = ctx.planName.trim() || "plan"
+  if (kind === "all") return { title: `Plan complete: ${planName}`, body: `All ${ctx.total} steps are checked off.` }
+  if (kind === "task") {
+    return { title: `Plan step completed: ${planName}`, body: `${ctx.completed} of ${ctx.total} steps done.` }
+  }
+  if (kind === "question") return { title: "Agent has a question", body: "The main session is asking for your input." }
+  return { title: "Agent is waiting for you", body: "The main session went idle." }
+}
+
+function getNotificationApi(): typeof Notification | null {
+  if (typeof window === "undefined") return null
+  const api = (window as { Notification?: typeof Notification }).Notification
+  return api ?? null
+}
+
+export function notificationsSupported(): boolean {
+  return getNotificationApi() !== null
+}
+
+export async function requestNotificationPermission(): Promise<boolean> {
+  const api = getNotificationApi()
+  if (!api) return false
+  if (api.permission === "granted") return true
+  if (api.permission === "denied") return false
+  try {
+    return (await api.requestPermission()) === "granted"
+  } catch {
+    return false
+  }
+}
+
+export function showNotification(kind: DingKind, message: { title: string; body: string }): void {
+  const api = getNotificationApi()
+  if (!api || api.permission !== "granted") return
+  try {
+    // One tag per event kind so a burst of plan steps replaces itself instead of stacking up.
+    new api(message.title, { body: message.body, tag: `omo-dashboard-${kind}` })
+  } catch {
+    // ignore
+  }
+}
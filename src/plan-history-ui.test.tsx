@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import * as React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { formatStepGap, PlanBurnupChart, PlanEta, toPlanForecast, toPlanHistory } from "./plan-history-ui";
+
+const payload = {
+  ok: true,
+  completed: 2,
+  total: 4,
+  events: [
+    { kind: "completed", text: "Install deps", atMs: 1_000, sessionId: "ses_1" },
+    { kind: "completed", text: "Wire config", atMs: 3_601_000, sessionId: "ses_1" },
+    { kind: "reopened", text: "Install deps", atMs: 3_611_000, sessionId: null },
+    { kind: "renamed", text: "x", atMs: 5 },
+  ],
+  points: [
+    { atMs: 1_000, completed: 0 },
+    { atMs: 1_000, completed: 1 },
+    { atMs: 3_601_000, completed: 2 },
+    { atMs: 3_611_000, completed: 1 },
+    { atMs: 4_000_000, completed: 2 },
+    { completed: 3 },
+  ],
+};
+
+describe("toPlanHistory", () => {
+  it("drops unknown event kinds and points without a time", () => {
+    const history = toPlanHistory(payload);
+
+    expect(history?.events.map((e) => e.kind)).toEqual(["completed", "completed", "reopened"]);
+    expect(history?.points).toHaveLength(5);
+    expect(toPlanHistory({ ok: false })).toBe(null);
+  });
+});
+
+describe("formatStepGap", () => {
+  it("scales from seconds to hours", () => {
+    expect(formatStepGap(4_400)).toBe("4s");
+    expect(formatStepGap(125_000)).toBe("2m");
+    expect(formatStepGap(3_600_000 + 5 * 60_000)).toBe("1h 5m");
+  });
+});
+
+describe("PlanBurnupChart", () => {
+  it("renders the burnup path and the newest flips with the time since the previous one", () => {
+    // #given
+    const history = toPlanHistory(payload);
+    if (!history) throw new Error("expected history");
+
+    // #when
+    const html = renderToStaticMarkup(<PlanBurnupChart history={history} />);
+
+    // #then
+    expect(html).toContain("2 completions logged - 2 remaining");
+    expect(html).toContain('class="planBurnupLine" d="M 0 60 H 0 V 45.5 H 270.1 V 31 H 270.8 V 45.5 H 300 V 31"');
+    expect(html.indexOf("reopened")).toBeLessThan(html.indexOf("Wire config"));
+    expect(html).toContain("(+1h 0m)");
+  });
+
+  it("explains an empty log", () => {
+    const html = renderToStaticMarkup(<PlanBurnupChart history={{ completed: 0, total: 3, events: [], points: [] }} />);
+
+    expect(html).toContain("No step completions recorded yet");
+  });
+});
+
+describe("PlanEta", () => {
+  it("shows the estimate with its range and hides a range that rounds to the estimate", () => {
+    // #given
+    const forecast = toPlanForecast({ remainingSteps: 3, etaMs: 45 * 60_000, etaLowMs: 30 * 60_000, etaHighMs: 70 * 60_000, msPerStep: 15 * 60_000, samples: 4 });
+    const tight = toPlanForecast({ etaMs: 45 * 60_000 });
+    if (!forecast || !tight) throw new Error("expected forecasts");
+
+    // #when
+    const html = renderToStaticMarkup(<PlanEta forecast={forecast} />);
+
+    // #then
+    expect(html).toContain("ETA ~45m");
+    expect(html).toContain("(30m - 1h 10m)");
+    expect(html).toContain("3 steps left at ~15m per step (from the last 4 completions)");
+    expect(renderToStaticMarkup(<PlanEta forecast={tight} />)).not.toContain("muted");
+    expect(toPlanForecast(null)).toBe(null);
+  });
+});
@@ -0,0 +1,166 @@
+import * as React from "react";
+
+import { formatStepCompletedAt } from "./plan-outline-ui";
+
+export type PlanHistoryEvent = {
+  kind: "completed" | "reopened";
+  text: string;
+  atMs: number;
+  sessionId: string | null;
+};
+
+export type PlanBurnupPoint = {
+  atMs: number;
+  completed: number;
+};
+
+export type PlanHistory = {
+  completed: number;
+  total: number;
+  events: PlanHistoryEvent[];
+  points: PlanBurnupPoint[];
+};
+
+export type PlanForecast = {
+  remainingSteps: number;
+  etaMs: number;
+  etaLowMs: number;
+  etaHighMs: number;
+  msPerStep: number;
+  samples: number;
+};
+
+const MAX_LISTED_EVENTS = 20;
+
+function toCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : 0;
+}
+
+function toTime(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+export function toPlanHistory(value: unknown): PlanHistory | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  if (rec.ok !== true || !Array.isArray(rec.events) || !Array.isArray(rec.points)) return null;
+
+  const events = rec.events
+    .map((e): PlanHistoryEvent | null => {
+      if (!e || typeof e !== "object") return null;
+      const r = e as Record<string, unknown>;
+      const atMs = toTime(r.atMs);
+      if ((r.kind !== "completed" && r.kind !== "reopened") || typeof r.text !== "string" || atMs === null) return null;
+      return { kind: r.kind, text: r.text, atMs, sessionId: typeof r.sessionId === "string" ? r.sessionId : null };
+    })
+    .filter((e): e is PlanHistoryEvent => e !== null);
+
+  const points = rec.points
+    .map((p): PlanBurnupPoint | null => {
+      if (!p || typeof p !== "object") return null;
+      const r = p as Record<string, unknown>;
+      const atMs = toTime(r.atMs);
+      return atMs === null ? null : { atMs, completed: toCount(r.completed) };
+    })
+    .filter((p): p is PlanBurnupPoint => p !== null);
+
+  return { completed: toCount(rec.completed), total: toCount(rec.total), events, points };
+}
+
+export function formatStepGap(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${minutes % 60}m`;
+}
+
+export function toPlanForecast(value: unknown): PlanForecast | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  const etaMs = toTime(rec.etaMs);
+  if (etaMs === null) return null;
+  return {
+    remainingSteps: toCount(rec.remainingSteps),
+    etaMs: Math.max(0, etaMs),
+    etaLowMs: Math.max(0, toTime(rec.etaLowMs) ?? etaMs),
+    etaHighMs: Math.max(0, toTime(rec.etaHighMs) ?? etaMs),
+    msPerStep: Math.max(0, toTime(rec.msPerStep) ?? 0),
+    samples: toCount(rec.samples),
+  };
+}
+
+export function PlanEta(props: { forecast: PlanForecast }) {
+  const { forecast } = props;
+  const sameRange = formatStepGap(forecast.etaLowMs) === formatStepGap(forecast.etaHighMs);
+  return (
+    <span
+      title={`${forecast.remainingSteps} steps left at ~${formatStepGap(forecast.msPerStep)} per step (from the last ${forecast.samples} completions)`}
+    >
+      <span className="mono">ETA ~{formatStepGap(forecast.etaMs)}</span>
+      {sameRange ? null : (
+        <span className="muted">
+          {" "}
+          ({formatStepGap(forecast.etaLowMs)} - {formatStepGap(forecast.etaHighMs)})
+        </span>
+      )}
+    </span>
+  );
+}
+
+// Step-after path: each count holds until the next point, like the checkbox it counts.
+function burnupPath(points: PlanBurnupPoint[], x: (ms: number) => number, y: (n: number) => number): string {
+  return points
+    .map((p, i) => (i === 0 ? `M ${x(p.atMs)} ${y(p.completed)}` : `H ${x(p.atMs)} V ${y(p.completed)}`))
+    .join(" ");
+}
+
+export function PlanBurnupChart(props: { history: PlanHistory }) {
+  const { history } = props;
+  const W = 300;
+  const H = 60;
+  const completions = history.events.filter((e) => e.kind === "completed").length;
+
+  if (history.events.length === 0) {
+    return <div className="muted">No step completions recorded yet. Flips are logged while the dashboard is running.</div>;
+  }
+
+  const fromMs = history.points[0]?.atMs ?? 0;
+  const toMs = history.points[history.points.length - 1]?.atMs ?? fromMs;
+  const span = Math.max(1, toMs - fromMs);
+  const max = Math.max(1, history.total, ...history.points.map((p) => p.completed));
+  const x = (ms: number) => Math.round(((ms - fromMs) / span) * W * 10) / 10;
+  const y = (n: number) => Math.round((H - (n / max) * (H - 2)) * 10) / 10;
+
+  // Newest first; each row shows how long it took since the previous flip.
+  const rows = history.events
+    .map((event, i) => ({ event, gapMs: i > 0 ? event.atMs - history.events[i - 1].atMs : null }))
+    .reverse()
+    .slice(0, MAX_LISTED_EVENTS);
+
+  return (
+    <div className="planBurnup" data-testid="plan-burnup">
+      <div className="mono muted planBurnupHeader">
+        {completions} completion{completions === 1 ? "" : "s"} logged - {Math.max(0, history.total - history.completed)} remaining
+      </div>
+      <svg className="planBurnupSvg" viewBox={`0 0 ${W} ${H}`} preserveAspectRatio="none" aria-hidden="true">
+        <line className="planBurnupTotal" x1={0} x2={W} y1={y(history.total)} y2={y(history.total)} />
+        <path className="planBurnupLine" d={burnupPath(history.points, x, y)} />
+      </svg>
+      <div className="planBurnupAxis mono muted">
+        <span>{formatStepCompletedAt(fromMs)}</span>
+        <span>{formatStepCompletedAt(toMs)}</span>
+      </div>
+      <div className="planBurnupEvents mono">
+        {rows.map(({ event, gapMs }, idx) => (
+          <div key={`${event.atMs}-${idx}`} className={event.kind === "reopened" ? "planBurnupReopened" : undefined}>
+            <span className="muted">{formatStepCompletedAt(event.atMs)}</span> {event.kind === "reopened" ? "reopened" : "done"}{" "}
+            {event.text}
+            {gapMs !== null ? <span className="muted"> (+{formatStepGap(gapMs)})</span> : null}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import * as React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { isPlansHash, PlanLibraryTable, toPlanLibrary } from "./plan-library-ui";
+
+const payload = {
+  ok: true,
+  truncated: false,
+  plans: [
+    {
+      name: "refactor",
+      kind: "plan",
+      relativePath: ".sisyphus/plans/refactor.md",
+      mtimeMs: 1_700_000_000_000,
+      completed: 3,
+      total: 4,
+      statusPill: "in progress",
+      isActive: true,
+    },
+    { name: "old", kind: "plan", relativePath: ".sisyphus/plans/old.md", completed: 9, total: 2, statusPill: "complete" },
+    { name: "broken" },
+  ],
+};
+
+describe("toPlanLibrary", () => {
+  it("parses entries, clamps progress and drops malformed rows", () => {
+    const library = toPlanLibrary(payload);
+
+    expect(library?.plans.map((p) => p.name)).toEqual(["refactor", "old"]);
+    expect(library?.plans[1]).toMatchObject({ completed: 2, total: 2, mtimeMs: null, isActive: false });
+    expect(toPlanLibrary({ ok: false })).toBe(null);
+  });
+
+  it("recognizes the plans page hash", () => {
+    expect(isPlansHash("#/plans")).toBe(true);
+    expect(isPlansHash("#/transcript/ses_1")).toBe(false);
+  });
+});
+
+describe("PlanLibraryTable", () => {
+  it("marks the active plan and filters to half-done plans", () => {
+    // #given
+    const library = toPlanLibrary(payload);
+    if (!library) throw new Error("expected library");
+
+    // #when
+    const all = renderToStaticMarkup(<PlanLibraryTable library={library} halfDoneOnly={false} />);
+    const halfDone = renderToStaticMarkup(<PlanLibraryTable library={library} halfDoneOnly={true} />);
+
+    // #then
+    expect(all).toContain("active</span>");
+    expect(all).toContain("3/4");
+    expect(all).toContain(".sisyphus/plans/old.md");
+    expect(halfDone).toContain("refactor");
+    expect(halfDone).not.toContain(".sisyphus/plans/old.md");
+  });
+});
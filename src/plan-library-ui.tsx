@@ -0,0 +1,120 @@
+import * as React from "react";
+
+export type PlanLibraryEntry = {
+  name: string;
+  kind: string;
+  relativePath: string;
+  mtimeMs: number | null;
+  completed: number;
+  total: number;
+  statusPill: string;
+  isActive: boolean;
+};
+
+export type PlanLibrary = {
+  plans: PlanLibraryEntry[];
+  truncated: boolean;
+};
+
+export const PLANS_HASH = "#/plans";
+
+export function isPlansHash(hash: string): boolean {
+  return hash === PLANS_HASH;
+}
+
+function toCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : 0;
+}
+
+function toEntry(value: unknown): PlanLibraryEntry | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  if (typeof rec.name !== "string" || typeof rec.relativePath !== "string") return null;
+  const total = toCount(rec.total);
+  return {
+    name: rec.name,
+    kind: typeof rec.kind === "string" ? rec.kind : "plan",
+    relativePath: rec.relativePath,
+    mtimeMs: typeof rec.mtimeMs === "number" && Number.isFinite(rec.mtimeMs) ? rec.mtimeMs : null,
+    completed: Math.min(toCount(rec.completed), total),
+    total,
+    statusPill: typeof rec.statusPill === "string" ? rec.statusPill : "unknown",
+    isActive: rec.isActive === true,
+  };
+}
+
+export function toPlanLibrary(value: unknown): PlanLibrary | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  if (rec.ok !== true || !Array.isArray(rec.plans)) return null;
+  return {
+    plans: rec.plans.map(toEntry).filter((p): p is PlanLibraryEntry => p !== null),
+    truncated: rec.truncated === true,
+  };
+}
+
+// Same tones as the Plan progress card: only work in flight is highlighted.
+function statusTone(statusPill: string): "teal" | "sand" {
+  return statusPill === "in progress" ? "teal" : "sand";
+}
+
+function formatModified(ms: number | null): string {
+  if (ms === null) return "-";
+  return new Date(ms).toLocaleString();
+}
+
+export function PlanLibraryTable(props: { library: PlanLibrary; halfDoneOnly: boolean }) {
+  const { library } = props;
+  const plans = props.halfDoneOnly ? library.plans.filter((p) => p.statusPill === "in progress") : library.plans;
+
+  if (plans.length === 0) {
+    return <div className="muted">{props.halfDoneOnly ? "No half-done plans." : "No plans under .sisyphus/plans or .sisyphus/drafts."}</div>;
+  }
+
+  return (
+    <div className="tableWrap" data-testid="plan-library">
+      {library.truncated ? <div className="mono muted toolStatsSummary">Showing the first {library.plans.length} plans.</div> : null}
+      <table className="table">
+        <thead>
+          <tr>
+            <th>PLAN</th>
+            <th>KIND</th>
+            <th>STATUS</th>
+            <th>PROGRESS</th>
+            <th>MODIFIED</th>
+          </tr>
+        </thead>
+        <tbody>
+          {plans.map((plan) => {
+            const percent = plan.total > 0 ? (plan.completed / plan.total) * 100 : 0;
+            return (
+              <tr key={plan.relativePath}>
+                <td>
+                  <div className="taskTitle">
+                    {plan.name}
+                    {plan.isActive ? <span className="pill pill-sand planLibraryActive">active</span> : null}
+                  </div>
+                  <div className="taskSub mono">{plan.relativePath}</div>
+                </td>
+                <td className="mono">{plan.kind}</td>
+                <td>
+                  <span className={`pill pill-${statusTone(plan.statusPill)}`}>{plan.statusPill}</span>
+                </td>
+                <td>
+                  <div className="mono">
+                    {plan.completed}/{plan.total}
+                    <span className="muted"> - {Math.round(percent)}%</span>
+                  </div>
+                  <div className="progressTrack planLibraryProgress">
+                    <div className="progressFill" style={{ width: `${percent}%` }} />
+                  </div>
+                </td>
+                <td className="mono muted">{formatModified(plan.mtimeMs)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
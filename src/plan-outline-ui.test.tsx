@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import * as React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { formatStepCompletedAt, PlanOutline, StepCompletedBy, toPlanOutline, toPlanStepAttribution } from "./plan-outline-ui";
+
+const outline = [
+  { title: null, level: 0, completed: 0, total: 1, tasks: [{ checked: false, text: "Loose", line: 1, children: [] }], sections: [] },
+  {
+    title: "Phase 1",
+    level: 2,
+    completed: 2,
+    total: 2,
+    tasks: [
+      {
+        checked: true,
+        text: "Setup",
+        line: 3,
+        completedAtMs: new Date(2026, 0, 5, 9, 30).getTime(),
+        completedBy: { taskId: "call_task", sessionId: "ses_task", toolCall: { callId: "call_edit", messageId: "msg_1", tool: "edit" } },
+        children: [{ checked: true, text: "Deps", line: 4, children: [] }],
+      },
+    ],
+    sections: [],
+  },
+  {
+    title: "Phase 2",
+    level: 2,
+    completed: 0,
+    total: 1,
+    tasks: [{ checked: false, text: "Ship", line: 6, children: [{ text: 42 }] }],
+    sections: [{ title: "Notes", level: 3, completed: 0, total: 0, tasks: "bad", sections: null }],
+  },
+];
+
+describe("toPlanOutline", () => {
+  it("parses nested sections and tasks and drops malformed entries", () => {
+    // #when
+    const sections = toPlanOutline(outline);
+
+    // #then
+    expect(sections.map((s) => s.title)).toEqual([null, "Phase 1", "Phase 2"]);
+    expect(sections[1].tasks[0].children).toEqual([{ checked: true, text: "Deps", line: 4, completedAtMs: null, completedBy: null, children: [] }]);
+    expect(sections[2].tasks[0].children).toEqual([]);
+    expect(sections[2].sections[0]).toMatchObject({ title: "Notes", tasks: [], sections: [] });
+    expect(toPlanOutline(undefined)).toEqual([]);
+  });
+});
+
+describe("toPlanStepAttribution", () => {
+  it("keeps the task and drops an incomplete tool call", () => {
+    expect(toPlanStepAttribution({ taskId: "main-session", sessionId: "ses_1", toolCall: { callId: "call_1", tool: "edit" } })).toEqual({
+      taskId: "main-session",
+      sessionId: "ses_1",
+      toolCall: null,
+    });
+    expect(toPlanStepAttribution({ taskId: "", sessionId: "ses_1" })).toBeNull();
+    expect(toPlanStepAttribution(null)).toBeNull();
+  });
+});
+
+describe("formatStepCompletedAt", () => {
+  it("shows only the time for steps completed today", () => {
+    const at = new Date(2026, 0, 5, 9, 30).getTime();
+
+    expect(formatStepCompletedAt(at, new Date(2026, 0, 5, 18).getTime())).not.toContain(new Date(at).toLocaleDateString());
+    expect(formatStepCompletedAt(at, new Date(2026, 0, 6, 18).getTime())).toContain(new Date(at).toLocaleDateString());
+  });
+});
+
+describe("PlanOutline", () => {
+  it("renders sections with progress and collapses finished ones", () => {
+    // #given
+    const sections = toPlanOutline(outline);
+
+    // #when
+    const html = renderToStaticMarkup(<PlanOutline sections={sections} />);
+
+    // #then
+    expect(html).toContain("[ ] Loose");
+    expect(html).toContain("[x] Deps");
+    expect(html).toContain("2/2");
+    expect(html).toContain(`title="${new Date(2026, 0, 5, 9, 30).toLocaleString()}"`);
+    expect(html).toContain('<details class="planOutlineSection"><summary>Phase 1');
+    expect(html).toContain('<details class="planOutlineSection" open=""><summary>Phase 2');
+  });
+});
+
+describe("StepCompletedBy", () => {
+  it("links to the task row and the edit call when handlers are given", () => {
+    // #given
+    const by = toPlanStepAttribution({
+      taskId: "call_task",
+      sessionId: "ses_task",
+      toolCall: { callId: "call_edit", messageId: "msg_1", tool: "edit" },
+    });
+    const noop = () => undefined;
+
+    // #when
+    const plain = renderToStaticMarkup(<StepCompletedBy by={by} />);
+    const linked = renderToStaticMarkup(
+      <StepCompletedBy by={by} taskLabel={() => "plan worker"} onOpenTask={noop} onOpenToolCall={noop} />
+    );
+    const main = renderToStaticMarkup(<StepCompletedBy by={{ taskId: "main-session", sessionId: null, toolCall: null }} />);
+
+    // #then
+    expect(plain).toContain("by call_task (edit)");
+    expect(plain).not.toContain("<button");
+    expect(linked).toContain('title="Show this task">plan worker</button>');
+    expect(linked).toContain('title="Open the edit call that checked this step">edit</button>');
+    expect(main).toContain("by main session");
+    expect(main).not.toContain("(");
+    expect(renderToStaticMarkup(<StepCompletedBy by={null} />)).toBe("");
+  });
+
+  it("is rendered next to attributed outline tasks", () => {
+    const html = renderToStaticMarkup(<PlanOutline sections={toPlanOutline(outline)} taskLabel={() => "plan worker"} />);
+
+    expect(html).toContain("by plan worker");
+  });
+});
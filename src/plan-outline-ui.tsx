@@ -0,0 +1,201 @@
+import * as React from "react";
+
+export type PlanStepAttribution = {
+  // "main-session" or a background task row id.
+  taskId: string;
+  sessionId: string | null;
+  toolCall: { callId: string; messageId: string; tool: string } | null;
+};
+
+export type PlanOutlineTask = {
+  checked: boolean;
+  text: string;
+  line: number | null;
+  completedAtMs: number | null;
+  completedBy: PlanStepAttribution | null;
+  children: PlanOutlineTask[];
+};
+
+// Label and click handlers for "by <task>" links; without them the attribution renders as plain text.
+export type StepAttributionHandlers = {
+  taskLabel?: (by: PlanStepAttribution) => string;
+  onOpenTask?: (by: PlanStepAttribution) => void;
+  onOpenToolCall?: (by: PlanStepAttribution) => void;
+};
+
+export type PlanOutlineSection = {
+  title: string | null;
+  level: number;
+  completed: number;
+  total: number;
+  tasks: PlanOutlineTask[];
+  sections: PlanOutlineSection[];
+};
+
+function toCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : 0;
+}
+
+function toNonEmptyString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value : null;
+}
+
+export function toPlanStepAttribution(value: unknown): PlanStepAttribution | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  const taskId = toNonEmptyString(rec.taskId);
+  if (!taskId) return null;
+  const call = rec.toolCall && typeof rec.toolCall === "object" ? (rec.toolCall as Record<string, unknown>) : null;
+  const callId = toNonEmptyString(call?.callId);
+  const messageId = toNonEmptyString(call?.messageId);
+  const tool = toNonEmptyString(call?.tool);
+  return {
+    taskId,
+    sessionId: toNonEmptyString(rec.sessionId),
+    toolCall: callId && messageId && tool ? { callId, messageId, tool } : null,
+  };
+}
+
+function toTask(value: unknown): PlanOutlineTask | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  if (typeof rec.text !== "string") return null;
+  return {
+    checked: rec.checked === true,
+    text: rec.text,
+    line: typeof rec.line === "number" && Number.isFinite(rec.line) ? rec.line : null,
+    completedAtMs: typeof rec.completedAtMs === "number" && Number.isFinite(rec.completedAtMs) ? rec.completedAtMs : null,
+    completedBy: toPlanStepAttribution(rec.completedBy),
+    children: Array.isArray(rec.children) ? rec.children.map(toTask).filter((t): t is PlanOutlineTask => t !== null) : [],
+  };
+}
+
+function toSection(value: unknown): PlanOutlineSection | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  const total = toCount(rec.total);
+  return {
+    title: typeof rec.title === "string" && rec.title.trim() ? rec.title : null,
+    level: toCount(rec.level),
+    completed: Math.min(toCount(rec.completed), total),
+    total,
+    tasks: Array.isArray(rec.tasks) ? rec.tasks.map(toTask).filter((t): t is PlanOutlineTask => t !== null) : [],
+    sections: toPlanOutline(rec.sections),
+  };
+}
+
+// Older servers do not send `planProgress.outline`; an empty result makes the card fall back to the flat steps.
+export function toPlanOutline(value: unknown): PlanOutlineSection[] {
+  if (!Array.isArray(value)) return [];
+  return value.map(toSection).filter((s): s is PlanOutlineSection => s !== null);
+}
+
+// Time only for today, date and time otherwise; the full timestamp goes in the title.
+export function formatStepCompletedAt(ms: number, nowMs: number = Date.now()): string {
+  const at = new Date(ms);
+  const time = at.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  return at.toDateString() === new Date(nowMs).toDateString() ? time : `${at.toLocaleDateString()} ${time}`;
+}
+
+export function StepCompletedAt(props: { ms: number | null | undefined }) {
+  if (typeof props.ms !== "number") return null;
+  return (
+    <span className="muted planStepAt" title={new Date(props.ms).toLocaleString()}>
+      {" "}
+      - {formatStepCompletedAt(props.ms)}
+    </span>
+  );
+}
+
+export function defaultStepTaskLabel(by: PlanStepAttribution): string {
+  return by.taskId === "main-session" ? "main session" : by.taskId;
+}
+
+export function StepCompletedBy(props: { by: PlanStepAttribution | null | undefined } & StepAttributionHandlers) {
+  const { by, onOpenTask, onOpenToolCall } = props;
+  if (!by) return null;
+  const label = (props.taskLabel ?? defaultStepTaskLabel)(by);
+  const toolCall = by.toolCall;
+  return (
+    <span className="muted planStepBy">
+      {" "}
+      by{" "}
+      {onOpenTask ? (
+        <button type="button" className="planStepLink" onClick={() => onOpenTask(by)} title="Show this task">
+          {label}
+        </button>
+      ) : (
+        label
+      )}
+      {toolCall ? (
+        <>
+          {" "}
+          (
+          {onOpenToolCall ? (
+            <button
+              type="button"
+              className="planStepLink"
+              onClick={() => onOpenToolCall(by)}
+              title={`Open the ${toolCall.tool} call that checked this step`}
+            >
+              {toolCall.tool}
+            </button>
+          ) : (
+            toolCall.tool
+          )}
+          )
+        </>
+      ) : null}
+    </span>
+  );
+}
+
+function PlanOutlineTasks(props: { tasks: PlanOutlineTask[] } & StepAttributionHandlers) {
+  const { tasks, ...handlers } = props;
+  return (
+    <ul className="planOutlineTasks">
+      {tasks.map((task, idx) => (
+        <li key={`${task.line ?? idx}-${task.text}`} className={task.checked ? "planOutlineDone" : undefined}>
+          [{task.checked ? "x" : " "}] {task.text || "(empty)"}
+          <StepCompletedAt ms={task.completedAtMs} />
+          <StepCompletedBy by={task.completedBy} {...handlers} />
+          {task.children.length > 0 ? <PlanOutlineTasks tasks={task.children} {...handlers} /> : null}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function PlanOutlineSectionView(props: { section: PlanOutlineSection } & StepAttributionHandlers) {
+  const { section, ...handlers } = props;
+  const done = section.total > 0 && section.completed === section.total;
+  // Tasks above the first heading have nothing to collapse under.
+  if (section.title === null) return <PlanOutlineTasks tasks={section.tasks} {...handlers} />;
+  return (
+    <details className="planOutlineSection" open={!done}>
+      <summary>
+        {section.title}
+        <span className={done ? "planOutlineDone" : "muted"}>
+          {" "}
+          {section.completed}/{section.total}
+        </span>
+      </summary>
+      {section.tasks.length > 0 ? <PlanOutlineTasks tasks={section.tasks} {...handlers} /> : null}
+      {section.sections.map((child, idx) => (
+        <PlanOutlineSectionView key={`${idx}-${child.title ?? ""}`} section={child} {...handlers} />
+      ))}
+    </details>
+  );
+}
+
+// Finished sections start collapsed so the phase in progress stays in view.
+export function PlanOutline(props: { sections: PlanOutlineSection[] } & StepAttributionHandlers) {
+  const { sections, ...handlers } = props;
+  return (
+    <div className="mono planOutline" data-testid="plan-outline">
+      {sections.map((section, idx) => (
+        <PlanOutlineSectionView key={`${idx}-${section.title ?? ""}`} section={section} {...handlers} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { privacyHeaderText, toServerHealth } from "./App";
+
+describe("privacyHeaderText", () => {
+  it("describes the mode the server reports", () => {
+    // #given
+    const strict = toServerHealth({ ok: true, privacy: "strict", revealToolInputs: false });
+    const debug = toServerHealth({ ok: true, privacy: "debug", revealToolInputs: false });
+    const revealing = toServerHealth({ ok: true, privacy: "debug", revealToolInputs: true });
+
+    // #when / #then
+    expect(privacyHeaderText(strict)).toContain("metadata only");
+    expect(privacyHeaderText(debug)).toContain("tool output and errors shown");
+    expect(privacyHeaderText(debug)).toContain("no prompts or tool arguments");
+    expect(privacyHeaderText(revealing)).toContain("tool arguments, output and errors shown");
+  });
+
+  it("mentions transcripts when the server serves them", () => {
+    const health = toServerHealth({ ok: true, privacy: "debug", revealToolInputs: false, transcripts: true });
+
+    expect(health?.transcripts).toBe(true);
+    expect(privacyHeaderText(health)).toContain("redacted transcripts");
+    expect(privacyHeaderText(health)).toContain("no tool arguments");
+  });
+
+  it("keeps the original wording when the server does not report a mode", () => {
+    expect(privacyHeaderText(toServerHealth({ ok: true }))).toBe("Live view (no prompts or tool arguments rendered).");
+    expect(privacyHeaderText(null)).toBe("Live view (no prompts or tool arguments rendered).");
+  });
+});
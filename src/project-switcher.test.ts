@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest"
+import { projectApiBase, toProjectList } from "./App"
+
+describe('toProjectList', () => {
+  it('should parse project summaries with defensive defaults', () => {
+    // #given: one complete project and one with missing fields
+    const serverJson: unknown = {
+      ok: true,
+      projects: [
+        {
+          id: "app",
+          label: "app",
+          projectRoot: "/work/app",
+          mainSession: { agent: "sisyphus", session: "Build", statusPill: "busy" },
+          planProgress: { name: "plan", completed: 2, total: 5, statusPill: "in progress" },
+        },
+        { id: "bare" },
+        { label: "no id" },
+      ],
+    }
+
+    // #when
+    const projects = toProjectList(serverJson)
+
+    // #then
+    expect(projects).toEqual([
+      {
+        id: "app",
+        label: "app",
+        projectRoot: "/work/app",
+        mainSession: { agent: "sisyphus", session: "Build", statusPill: "busy" },
+        planProgress: { name: "plan", completed: 2, total: 5, statusPill: "in progress" },
+      },
+      {
+        id: "bare",
+        label: "bare",
+        projectRoot: "",
+        mainSession: { agent: "unknown", session: "(no session)", statusPill: "unknown" },
+        planProgress: { name: "(no active plan)", completed: 0, total: 0, statusPill: "not started" },
+      },
+    ])
+  })
+
+  it('should reject non-ok responses', () => {
+    expect(toProjectList({ ok: false })).toBeNull()
+  })
+})
+
+describe('projectApiBase', () => {
+  it('should route to the default project or a project-scoped base', () => {
+    expect(projectApiBase(null)).toBe("/api")
+    expect(projectApiBase("app-2")).toBe("/api/projects/app-2")
+  })
+})
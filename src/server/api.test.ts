@@ -3,9 +3,15 @@ import * as os from "node:os"
 import * as path from "node:path"
 import { describe, it, expect } from "vitest"
 import { createApi } from "./api"
+import { buildDashboardPayload } from "./dashboard"
+import { createEventLog } from "./event-log"
+import { createPlanHistory } from "./plan-history"
+import { createRedactor } from "./redaction"
+import { createTokenLedger } from "./token-ledger"
 import type { DashboardPayload, DashboardStore } from "./dashboard"
 import type { PlanStep } from "../ingest/boulder"
 import type { TimeSeriesPayload } from "../ingest/timeseries"
+import { getStorageRoots } from "../ingest/session"
 
 function mkStorageRoot(): string {
   const root = fs.mkdtempSync(path.join(os.tmpdir(), "omo-dashboard-storage-"))
@@ -63,6 +69,31 @@ function writeToolPart(opts: {
   )
 }
 
+function writeSessionMeta(opts: {
+  storageRoot: string
+  projectRoot: string
+  sessionId: string
+  title?: string
+  parentID?: string
+  created: number
+  updated: number
+}): void {
+  const sessionDir = path.join(opts.storageRoot, "session", "proj_1")
+  fs.mkdirSync(sessionDir, { recursive: true })
+  fs.writeFileSync(
+    path.join(sessionDir, `${opts.sessionId}.json`),
+    JSON.stringify({
+      id: opts.sessionId,
+      projectID: "proj_1",
+      directory: opts.projectRoot,
+      title: opts.title,
+      parentID: opts.parentID,
+      time: { created: opts.created, updated: opts.updated },
+    }),
+    "utf8"
+  )
+}
+
 const sensitiveKeys = ["prompt", "input", "state"]
 
 function hasSensitiveKeys(value: unknown): boolean {
@@ -88,7 +119,7 @@ const createStore = (): DashboardStore => ({
       sessionId: null,
       statusPill: "idle",
     },
-    planProgress: { name: "p", completed: 0, total: 0, path: "", statusPill: "not started", steps: [] as PlanStep[] },
+    planProgress: { name: "p", completed: 0, total: 0, path: "", statusPill: "not started", steps: [] as PlanStep[], outline: [], forecast: null },
     backgroundTasks: [],
     mainSessionTasks: [],
     timeSeries: {
@@ -112,7 +143,70 @@ describe('API Routes', () => {
 
     const res = await api.request("/health")
     expect(res.status).toBe(200)
-    expect(await res.json()).toEqual({ ok: true })
+    expect(await res.json()).toEqual({ ok: true, privacy: "debug", revealToolInputs: false, transcripts: false })
+  })
+
+  it('should strip tool output, errors and inputs in strict privacy mode', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    writeMessageMeta({ storageRoot, sessionId: "ses_strict", messageId: "msg_1", created: 1000 })
+    writeToolPart({
+      storageRoot,
+      sessionId: "ses_strict",
+      messageId: "msg_1",
+      callId: "call_1",
+      tool: "bash",
+      state: { status: "error", input: { command: "ls" }, output: "OUT", error: "ERR" },
+    })
+    fs.mkdirSync(path.join(storageRoot, "session", "proj_1"), { recursive: true })
+    fs.writeFileSync(
+      path.join(storageRoot, "session", "proj_1", "ses_strict.json"),
+      JSON.stringify({ id: "ses_strict", projectID: "proj_1", directory: projectRoot, time: { created: 1000, updated: 1000 } }),
+      "utf8"
+    )
+    fs.writeFileSync(
+      path.join(storageRoot, "message", "ses_strict", "msg_2.json"),
+      JSON.stringify({
+        id: "msg_2",
+        sessionID: "ses_strict",
+        role: "assistant",
+        providerID: "openai",
+        modelID: "gpt-5.2",
+        tokens: { input: 100, output: 50, reasoning: 0, cache: { read: 0, write: 0 } },
+        time: { created: 1100 },
+      }),
+      "utf8"
+    )
+    const store: DashboardStore = {
+      getSnapshot: () => buildDashboardPayload({ projectRoot, storage: getStorageRoots(storageRoot), nowMs: 2000 }),
+    }
+    const api = createApi({ store, storageRoot, projectRoot, privacy: "strict", revealToolInputs: true, transcripts: true })
+
+    expect(await (await api.request("/health")).json()).toEqual({ ok: true, privacy: "strict", revealToolInputs: false, transcripts: false })
+
+    const list = await (await api.request("/tool-calls/ses_strict")).json()
+    expect(list.toolCalls[0]).toEqual({
+      sessionId: "ses_strict",
+      messageId: "msg_1",
+      callId: "call_1",
+      tool: "bash",
+      status: "error",
+      createdAtMs: 1000,
+      durationMs: null,
+    })
+
+    const detail = await (await api.request("/tool-calls/ses_strict/call_1")).json()
+    expect(detail).toMatchObject({ privacy: "strict", revealInput: false })
+    expect(hasSensitiveKeys(detail)).toBe(false)
+    expect(detail.toolCall).not.toHaveProperty("output")
+
+    // Token counts share the `input`/`output` key names but are not tool data.
+    const snapshot = await (await api.request("/dashboard")).json()
+    const rawUsage = snapshot.raw.mainSessionTasks[0].tokenUsage
+    expect(snapshot.raw.mainSessionTasks[0].sessionId).toBe("ses_strict")
+    expect(rawUsage.totals).toMatchObject({ input: 100, output: 50 })
+    expect(rawUsage.rows[0]).toMatchObject({ input: 100, output: 50 })
+    expect(snapshot.raw).toEqual(JSON.parse(JSON.stringify(store.getSnapshot().raw)))
   })
 
   it('should return dashboard data without sensitive keys', async () => {
@@ -209,5 +303,565 @@ describe('API Routes', () => {
     expect(data.toolCalls[0].error).toBe("NOPE")
   })
 
-  // /sessions was intentionally removed along with the manual session picker.
+  it('should serve one tool call with input hidden unless --reveal-tool-inputs is set', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    writeMessageMeta({ storageRoot, sessionId: "ses_detail", messageId: "msg_1", created: 1000 })
+    writeToolPart({
+      storageRoot,
+      sessionId: "ses_detail",
+      messageId: "msg_1",
+      callId: "call_1",
+      tool: "bash",
+      state: { status: "running", input: { command: "sleep 600" }, time: { start: 1_100 } },
+    })
+    const store = createStore()
+    const hidden = createApi({ store, storageRoot, projectRoot })
+    const revealed = createApi({ store, storageRoot, projectRoot, revealToolInputs: true })
+
+    const hiddenRes = await hidden.request("/tool-calls/ses_detail/call_1")
+    expect(hiddenRes.status).toBe(200)
+    const hiddenData = await hiddenRes.json()
+    expect(hiddenData.revealInput).toBe(false)
+    expect(hiddenData.toolCall).toMatchObject({ tool: "bash", status: "running", startedAtMs: 1_100, endedAtMs: null })
+    expect(hasSensitiveKeys(hiddenData)).toBe(false)
+
+    const revealedData = await (await revealed.request("/tool-calls/ses_detail/call_1")).json()
+    expect(revealedData.revealInput).toBe(true)
+    expect(revealedData.toolCall.input).toEqual({ command: "sleep 600" })
+  })
+
+  it('should reject bad tool call ids and 404 unknown ones', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    writeMessageMeta({ storageRoot, sessionId: "ses_detail", messageId: "msg_1", created: 1000 })
+    const store = createStore()
+    const api = createApi({ store, storageRoot, projectRoot })
+
+    expect((await api.request("/tool-calls/ses_detail/call%20bad")).status).toBe(400)
+    expect((await api.request("/tool-calls/ses_missing/call_1")).status).toBe(404)
+    const res = await api.request("/tool-calls/ses_detail/call_1")
+    expect(res.status).toBe(404)
+    expect(await res.json()).toEqual({ ok: false, sessionId: "ses_detail", callId: "call_1" })
+  })
+
+  it('should serve per-tool stats and validate the scope', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    writeMessageMeta({ storageRoot, sessionId: "ses_stats", messageId: "msg_1", created: 1000 })
+    writeToolPart({
+      storageRoot,
+      sessionId: "ses_stats",
+      messageId: "msg_1",
+      callId: "call_1",
+      tool: "webfetch",
+      state: { status: "completed", time: { start: 1_000, end: 9_000 } },
+    })
+    const store = createStore()
+    const api = createApi({ store, storageRoot, projectRoot })
+
+    const res = await api.request("/tool-stats/ses_stats")
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data).toMatchObject({ ok: true, scope: "session", sessionIds: ["ses_stats"], totalCalls: 1 })
+    expect(data.rows[0]).toMatchObject({ tool: "webfetch", calls: 1, medianMs: 8_000 })
+
+    expect((await api.request("/tool-stats/ses_stats?scope=everything")).status).toBe(400)
+    expect((await api.request("/tool-stats/ses_missing")).status).toBe(404)
+  })
+
+  it('should filter tool calls by query params and reject bad ones', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    writeMessageMeta({ storageRoot, sessionId: "ses_filter", messageId: "msg_1", created: 1000 })
+    writeToolPart({ storageRoot, sessionId: "ses_filter", messageId: "msg_1", callId: "call_1", tool: "read" })
+    writeToolPart({
+      storageRoot,
+      sessionId: "ses_filter",
+      messageId: "msg_1",
+      callId: "call_2",
+      tool: "bash",
+      state: { status: "error", output: "permission denied" },
+    })
+    writeToolPart({
+      storageRoot,
+      sessionId: "ses_filter",
+      messageId: "msg_1",
+      callId: "call_3",
+      tool: "bash",
+      state: { status: "completed", output: "Authorization: Bearer abcdefgh12345678" },
+    })
+    const store = createStore()
+    const debug = createApi({ store, storageRoot, projectRoot })
+    const strict = createApi({ store, storageRoot, projectRoot, privacy: "strict" })
+
+    const errorsOnly = await (await debug.request("/tool-calls/ses_filter?errorsOnly=1")).json()
+    expect(errorsOnly.toolCalls.map((c: { callId: string }) => c.callId)).toEqual(["call_2"])
+    expect(errorsOnly.facets.statuses).toMatchObject({ completed: 2, error: 1 })
+
+    const byTool = await (await debug.request("/tool-calls/ses_filter?tool=read&status=completed,error")).json()
+    expect(byTool.toolCalls.map((c: { callId: string }) => c.callId)).toEqual(["call_1"])
+
+    const searched = await (await debug.request("/tool-calls/ses_filter?q=denied")).json()
+    expect(searched.toolCalls.map((c: { callId: string }) => c.callId)).toEqual(["call_2"])
+    const secretSearch = await (await debug.request("/tool-calls/ses_filter?q=abcdefgh")).json()
+    expect(secretSearch.toolCalls).toEqual([])
+    const strictSearch = await (await strict.request("/tool-calls/ses_filter?q=denied")).json()
+    expect(strictSearch.toolCalls).toEqual([])
+
+    expect((await debug.request("/tool-calls/ses_filter?status=stuck")).status).toBe(400)
+    expect((await debug.request("/tool-calls/ses_filter?tool=bad%20name")).status).toBe(400)
+    expect((await debug.request("/tool-calls/ses_filter?errorsOnly=maybe")).status).toBe(400)
+  })
+
+  it('should page tool calls with a before cursor and reject bad cursors', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    for (const [messageId, created] of [["msg_1", 1000], ["msg_2", 2000], ["msg_3", 3000]] as const) {
+      writeMessageMeta({ storageRoot, sessionId: "ses_pages", messageId, created })
+      writeToolPart({ storageRoot, sessionId: "ses_pages", messageId, callId: `call_${messageId}`, tool: "read" })
+    }
+    const store = createStore()
+    const api = createApi({ store, storageRoot, projectRoot })
+
+    const first = await (await api.request("/tool-calls/ses_pages?limit=2")).json()
+    expect(first.toolCalls.map((c: { callId: string }) => c.callId)).toEqual(["call_msg_3", "call_msg_2"])
+    expect(first.nextBefore).toBe("2000,msg_2")
+
+    const older = await (await api.request(`/tool-calls/ses_pages?limit=2&before=${first.nextBefore}`)).json()
+    expect(older.toolCalls.map((c: { callId: string }) => c.callId)).toEqual(["call_msg_1"])
+    expect(older.nextBefore).toBe(null)
+
+    const detail = await api.request("/tool-calls/ses_pages/call_msg_1?messageId=msg_1")
+    expect(detail.status).toBe(200)
+    expect((await api.request("/tool-calls/ses_pages/call_msg_1?messageId=msg_2")).status).toBe(404)
+
+    expect((await api.request("/tool-calls/ses_pages?before=soon")).status).toBe(400)
+    expect((await api.request("/tool-calls/ses_pages?limit=0")).status).toBe(400)
+    expect((await api.request("/tool-calls/ses_pages?limit=301")).status).toBe(400)
+  })
+
+  it('should serve the delegation tree for a session', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    writeSessionMeta({ storageRoot, projectRoot, sessionId: "ses_root", created: 1000, updated: 1000 })
+    writeSessionMeta({ storageRoot, projectRoot, sessionId: "ses_kid", created: 2000, updated: 2000, parentID: "ses_root" })
+    writeMessageMeta({ storageRoot, sessionId: "ses_root", messageId: "msg_1", created: 1000 })
+    const store = createStore()
+    const api = createApi({ store, storageRoot, projectRoot })
+
+    const data = await (await api.request("/sessions/ses_root/tree")).json()
+    expect(data.ok).toBe(true)
+    expect(data.root.sessionId).toBe("ses_root")
+    expect(data.root.children.map((c: { sessionId: string }) => c.sessionId)).toEqual(["ses_kid"])
+    expect(data.root.subtree.sessions).toBe(2)
+    expect((await api.request("/sessions/bad!id/tree")).status).toBe(400)
+  })
+
+  it('should list plans and drafts with progress and the active flag', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    fs.mkdirSync(path.join(projectRoot, ".sisyphus", "plans"), { recursive: true })
+    fs.mkdirSync(path.join(projectRoot, ".sisyphus", "drafts"), { recursive: true })
+    fs.writeFileSync(path.join(projectRoot, ".sisyphus", "plans", "a.md"), "- [x] one\n- [ ] two", "utf8")
+    fs.writeFileSync(path.join(projectRoot, ".sisyphus", "drafts", "b.md"), "- [ ] idea", "utf8")
+    fs.writeFileSync(
+      path.join(projectRoot, ".sisyphus", "boulder.json"),
+      JSON.stringify({ active_plan: path.join(projectRoot, ".sisyphus", "plans", "a.md"), session_ids: [] }),
+      "utf8"
+    )
+    const api = createApi({ store: createStore(), storageRoot, projectRoot })
+
+    const data = await (await api.request("/plans")).json()
+    expect(data.ok).toBe(true)
+    expect(data.plans.map((p: { name: string; kind: string; isActive: boolean }) => [p.name, p.kind, p.isActive])).toEqual([
+      ["a", "plan", true],
+      ["b", "draft", false],
+    ])
+    expect(data.plans[0]).toMatchObject({ completed: 1, total: 2, statusPill: "in progress" })
+  })
+
+  it('should leave project and plan paths unredacted', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    const planFile = path.join(projectRoot, ".sisyphus", "plans", "a.md")
+    fs.mkdirSync(path.dirname(planFile), { recursive: true })
+    fs.writeFileSync(planFile, "- [ ] see ~/notes and ops@example.com", "utf8")
+    fs.writeFileSync(
+      path.join(projectRoot, ".sisyphus", "boulder.json"),
+      JSON.stringify({ active_plan: planFile, session_ids: [] }),
+      "utf8"
+    )
+    // Treat the temp dir as the home directory so every path below would otherwise become "~/...".
+    const redactor = createRedactor({ homeDir: path.dirname(projectRoot) })
+    const api = createApi({ store: createStore(), storageRoot, projectRoot, redactor })
+
+    const projects = await (await api.request("/projects")).json()
+    expect(projects.projects[0].projectRoot).toBe(projectRoot)
+
+    const plans = await (await api.request("/plans")).json()
+    expect(plans.activePlanPath).toBe(planFile)
+    expect(plans.plans[0]).toMatchObject({ path: planFile, relativePath: path.join(".sisyphus", "plans", "a.md") })
+  })
+
+  it('should serve plan history only when a history log is configured', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    const disabled = createApi({ store: createStore(), storageRoot, projectRoot })
+    expect((await disabled.request("/plan-history")).status).toBe(404)
+
+    const planHistory = createPlanHistory({ filePath: path.join(storageRoot, "plan-history.jsonl") })
+    const api = createApi({ store: createStore(), storageRoot, projectRoot, planHistory })
+    const data = await (await api.request("/plan-history")).json()
+    expect(data).toMatchObject({ ok: true, planPath: null, completed: 0, total: 0, events: [] })
+    expect(data.points).toHaveLength(1)
+  })
+
+  it('should serve a redacted transcript only when transcripts are enabled', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    writeMessageMeta({ storageRoot, sessionId: "ses_talk", messageId: "msg_1", created: 1000 })
+    const partDir = path.join(storageRoot, "part", "msg_1")
+    fs.mkdirSync(partDir, { recursive: true })
+    fs.writeFileSync(
+      path.join(partDir, "prt_1.json"),
+      JSON.stringify({ id: "prt_1", type: "text", text: "mail ops@example.com about it" }),
+      "utf8"
+    )
+    const store = createStore()
+    const disabled = createApi({ store, storageRoot, projectRoot })
+    const enabled = createApi({ store, storageRoot, projectRoot, transcripts: true })
+
+    const off = await disabled.request("/sessions/ses_talk/transcript")
+    expect(off.status).toBe(404)
+    expect(await off.json()).toEqual({ ok: false, sessionId: "ses_talk", error: "transcripts are disabled" })
+
+    const data = await (await enabled.request("/sessions/ses_talk/transcript")).json()
+    expect(data.ok).toBe(true)
+    expect(data.messages[0].parts).toEqual([{ kind: "text", id: "prt_1", text: "mail [email] about it" }])
+    expect((await (await enabled.request("/health")).json()).transcripts).toBe(true)
+    expect((await enabled.request("/sessions/bad!id/transcript")).status).toBe(400)
+    expect((await enabled.request("/sessions/ses_missing/transcript")).status).toBe(404)
+  })
+
+  it('should stream dashboard snapshots over SSE and push on store changes', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    const base = createStore()
+    let listener: (() => void) | null = null
+    let snapshots = 0
+    const store: DashboardStore = {
+      getSnapshot: () => {
+        snapshots += 1
+        return base.getSnapshot()
+      },
+      subscribe: (fn) => {
+        listener = fn
+        return () => {
+          listener = null
+        }
+      },
+    }
+    const api = createApi({ store, storageRoot, projectRoot })
+
+    const res = await api.request("/events")
+    expect(res.status).toBe(200)
+    expect(res.headers.get("content-type")).toContain("text/event-stream")
+
+    const reader = res.body!.getReader()
+    const decoder = new TextDecoder()
+    const readEvent = async (): Promise<string> => {
+      const { value } = await reader.read()
+      return decoder.decode(value)
+    }
+
+    const first = await readEvent()
+    expect(first).toContain("event: dashboard")
+    const data = JSON.parse(first.split("data: ")[1])
+    expect(data).toHaveProperty("mainSession")
+    expect(hasSensitiveKeys(data)).toBe(false)
+    expect(listener).not.toBeNull()
+
+    listener!()
+    const second = await readEvent()
+    expect(second).toContain("event: dashboard")
+    expect(snapshots).toBe(2)
+
+    await reader.cancel()
+  })
+
+  it('should redact tool output and SSE snapshots before they leave the API', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    writeMessageMeta({ storageRoot, sessionId: "ses_leak", messageId: "msg_1", created: 1000 })
+    writeToolPart({
+      storageRoot,
+      sessionId: "ses_leak",
+      messageId: "msg_1",
+      callId: "call_1",
+      tool: "bash",
+      state: { status: "error", output: "Authorization: Bearer live_abcdef123456", error: "failed for ops@example.com" },
+    })
+    const base = createStore()
+    const store: DashboardStore = {
+      getSnapshot: () => ({ ...base.getSnapshot(), raw: { note: "key sk-ant-0123456789abcdefXYZ" } }),
+    }
+    const api = createApi({ store, storageRoot, projectRoot, redactor: createRedactor({ homeDir: null }) })
+
+    const toolCalls = await (await api.request("/tool-calls/ses_leak")).json()
+    expect(toolCalls.toolCalls[0].output).toBe("Authorization: Bearer [REDACTED]")
+    expect(toolCalls.toolCalls[0].error).toBe("failed for [email]")
+
+    const snapshot = await (await api.request("/dashboard")).json()
+    expect(snapshot.raw).toEqual({ note: "key [REDACTED:api-key]" })
+
+    const res = await api.request("/events")
+    const reader = res.body!.getReader()
+    const { value } = await reader.read()
+    const streamed = JSON.parse(new TextDecoder().decode(value).split("data: ")[1])
+    expect(streamed.raw).toEqual({ note: "key [REDACTED:api-key]" })
+    await reader.cancel()
+  })
+
+  it('should list root sessions for the project', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    writeSessionMeta({ storageRoot, projectRoot, sessionId: "ses_old", title: "Old", created: 1000, updated: 2000 })
+    writeSessionMeta({ storageRoot, projectRoot, sessionId: "ses_new", title: "New", created: 3000, updated: 4000 })
+    writeMessageMeta({ storageRoot, sessionId: "ses_old", messageId: "msg_1", created: 1500 })
+    writeMessageMeta({ storageRoot, sessionId: "ses_new", messageId: "msg_2", created: 3500 })
+    const store = createStore()
+    const api = createApi({ store, storageRoot, projectRoot })
+
+    const res = await api.request("/sessions")
+    expect(res.status).toBe(200)
+
+    const data = await res.json()
+    expect(data.ok).toBe(true)
+    expect(data.autoSessionId).toBe("ses_new")
+    expect(data.truncated).toBe(false)
+    expect(data.sessions.map((s: { id: string }) => s.id)).toEqual(["ses_new", "ses_old"])
+    expect(data.sessions[1]).toEqual({
+      id: "ses_old",
+      title: "Old",
+      createdAt: 1000,
+      updatedAt: 2000,
+      agent: "unknown",
+      statusPill: "thinking",
+    })
+    expect(hasSensitiveKeys(data)).toBe(false)
+  })
+
+  it('should list projects and serve per-project dashboards', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    const otherRoot = mkProjectRoot()
+    const store = createStore()
+    const otherStore: DashboardStore = {
+      getSnapshot: () => {
+        const snapshot = createStore().getSnapshot() as DashboardPayload
+        return { ...snapshot, mainSession: { ...snapshot.mainSession, statusPill: "busy" } }
+      },
+    }
+    const api = createApi({
+      store,
+      storageRoot,
+      projectRoot,
+      projects: [
+        { id: "main", label: "main", projectRoot, store },
+        { id: "other", label: "other", projectRoot: otherRoot, store: otherStore },
+      ],
+    })
+
+    const res = await api.request("/projects")
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.ok).toBe(true)
+    expect(data.projects.map((p: { id: string }) => p.id)).toEqual(["main", "other"])
+    expect(data.projects[1]).toEqual({
+      id: "other",
+      label: "other",
+      projectRoot: otherRoot,
+      mainSession: { agent: "x", session: "s", statusPill: "busy" },
+      planProgress: { name: "p", completed: 0, total: 0, statusPill: "not started" },
+    })
+
+    const other = await api.request("/projects/other/dashboard")
+    expect(other.status).toBe(200)
+    expect((await other.json()).mainSession.statusPill).toBe("busy")
+
+    const fallback = await api.request("/dashboard")
+    expect((await fallback.json()).mainSession.statusPill).toBe("idle")
+
+    expect((await api.request("/projects/missing/dashboard")).status).toBe(404)
+  })
+
+  it('should serve token usage history from the ledger', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    const store = createStore()
+    const tokenLedger = createTokenLedger({ filePath: path.join(storageRoot, "ledger.jsonl") })
+    tokenLedger.record([
+      {
+        messageId: "msg_1",
+        sessionId: "ses_1",
+        model: "openai/gpt-5.2",
+        createdAt: 5000,
+        completedAt: 6000,
+        input: 1,
+        output: 2,
+        reasoning: 0,
+        cacheRead: 0,
+        cacheWrite: 0,
+        total: 3,
+      },
+    ])
+
+    const disabled = createApi({ store, storageRoot, projectRoot })
+    expect((await disabled.request("/token-usage/history")).status).toBe(404)
+
+    const api = createApi({ store, storageRoot, projectRoot, tokenLedger })
+    const res = await api.request("/token-usage/history?from=0&to=10000&groupBy=model")
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.ok).toBe(true)
+    expect(data.groupBy).toBe("model")
+    expect(data.rows).toEqual([
+      { key: "openai/gpt-5.2", input: 1, output: 2, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 3, messages: 1 },
+    ])
+
+    expect((await api.request("/token-usage/history?groupBy=week")).status).toBe(400)
+    expect((await api.request("/token-usage/history?from=nope")).status).toBe(400)
+    expect((await api.request("/token-usage/history?from=10&to=5")).status).toBe(400)
+  })
+
+  it('should pass the pinned session id to the store and reject invalid ones', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    const base = createStore()
+    const requested: Array<string | null | undefined> = []
+    const store: DashboardStore = {
+      getSnapshot: (opts) => {
+        requested.push(opts?.sessionId)
+        return base.getSnapshot()
+      },
+    }
+    const api = createApi({ store, storageRoot, projectRoot })
+
+    expect((await api.request("/dashboard?sessionId=ses_pinned")).status).toBe(200)
+    expect((await api.request("/dashboard")).status).toBe(200)
+    expect(requested).toEqual(["ses_pinned", null])
+
+    const bad = await api.request("/dashboard?sessionId=not_valid!")
+    expect(bad.status).toBe(400)
+    expect(requested.length).toBe(2)
+  })
+
+  it('should map the time-series window query to the store and reject unknown windows', async () => {
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    const base = createStore()
+    const requested: Array<number | undefined> = []
+    const store: DashboardStore = {
+      getSnapshot: (opts) => {
+        requested.push(opts?.timeSeriesWindowMs)
+        return base.getSnapshot()
+      },
+    }
+    const api = createApi({ store, storageRoot, projectRoot })
+
+    expect((await api.request("/dashboard?window=2h")).status).toBe(200)
+    expect((await api.request("/dashboard")).status).toBe(200)
+    expect(requested).toEqual([7_200_000, undefined])
+
+    expect((await api.request("/dashboard?window=3d")).status).toBe(400)
+    expect((await api.request("/events?window=toString")).status).toBe(400)
+    expect(requested.length).toBe(2)
+  })
+
+  it('should page through the transition event log', async () => {
+    // #given
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    const log = createEventLog()
+    log.append([
+      { type: "task.started", atMs: 1, projectRoot, sessionId: "ses_main" },
+      { type: "plan.step_completed", atMs: 2, projectRoot, sessionId: "ses_main", plan: { name: "p", completed: 1, total: 2 } },
+      { type: "session.waiting", atMs: 3, projectRoot, sessionId: "ses_main" },
+    ])
+    const readFor: Array<string | null | undefined> = []
+    const store: DashboardStore = {
+      ...createStore(),
+      readEvents: (opts) => {
+        readFor.push(opts?.sessionId)
+        return log.list(opts)
+      },
+    }
+    const api = createApi({ store, storageRoot, projectRoot })
+
+    // #when
+    const first = await (await api.request("/events/log?limit=2")).json()
+    const rest = await (await api.request(`/events/log?since=${first.nextSince}`)).json()
+
+    // #then
+    expect(first.events.map((e: { seq: number; type: string }) => [e.seq, e.type])).toEqual([
+      [1, "task.started"],
+      [2, "plan.step_completed"],
+    ])
+    expect(first.latestSeq).toBe(3)
+    expect(rest.events.map((e: { type: string }) => e.type)).toEqual(["session.waiting"])
+    expect(rest.nextSince).toBe(3)
+    expect((await api.request("/events/log?since=-1")).status).toBe(400)
+    expect((await api.request("/events/log?sessionId=../x")).status).toBe(400)
+    await api.request("/events/log?sessionId=ses_pinned")
+    expect(readFor).toEqual([null, null, "ses_pinned"])
+    expect((await createApi({ store: createStore(), storageRoot, projectRoot }).request("/events/log")).status).toBe(404)
+  })
+
+  it('should lay out main session and task lanes on a shared timeline with tool-call ticks', async () => {
+    // #given
+    const storageRoot = mkStorageRoot()
+    const projectRoot = mkProjectRoot()
+    writeMessageMeta({ storageRoot, sessionId: "ses_main", messageId: "msg_main", created: 1_000 })
+    writeToolPart({ storageRoot, sessionId: "ses_main", messageId: "msg_main", callId: "call_1", tool: "delegate_task" })
+    writeMessageMeta({ storageRoot, sessionId: "ses_bg", messageId: "msg_bg", created: 3_000 })
+    writeToolPart({ storageRoot, sessionId: "ses_bg", messageId: "msg_bg", callId: "call_2", tool: "grep" })
+
+    const base = createStore().getSnapshot() as DashboardPayload
+    const row = {
+      agent: "explore",
+      lastModel: null,
+      toolCalls: 1,
+      lastTool: "grep",
+      timeline: "",
+      tokenUsage: { rows: [], totals: { input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 0 } },
+    }
+    const store: DashboardStore = {
+      getSnapshot: () => ({
+        ...base,
+        mainSessionTasks: [{ ...row, id: "main-session", description: "Main session", status: "running", sessionId: "ses_main", startedAt: 500, endedAt: null }],
+        backgroundTasks: [{ ...row, id: "call_1", description: "Scan", status: "completed", sessionId: "ses_bg", startedAt: 2_000, endedAt: 4_000 }],
+      }),
+    }
+    const api = createApi({ store, storageRoot, projectRoot })
+
+    // #when
+    const res = await api.request("/timeline")
+    const data = await res.json()
+
+    // #then
+    expect(res.status).toBe(200)
+    expect(data.ok).toBe(true)
+    expect(data.startMs).toBe(500)
+    expect(data.endMs).toBe(data.nowMs)
+    expect(data.lanes.map((l: { kind: string; sessionId: string }) => [l.kind, l.sessionId])).toEqual([
+      ["main", "ses_main"],
+      ["task", "ses_bg"],
+    ])
+    expect(data.lanes[1].ticks).toEqual([{ atMs: 3_000, tool: "grep", status: "completed" }])
+    expect(hasSensitiveKeys(data)).toBe(false)
+
+    const bad = await api.request("/timeline?sessionId=../x")
+    expect(bad.status).toBe(400)
+  })
 })
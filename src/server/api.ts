@@ -1,25 +1,416 @@
+import * as path from "node:path"
 import { Hono } from "hono"
-import type { DashboardStore } from "./dashboard"
+import { streamSSE } from "hono/streaming"
+import { buildSessionList, type DashboardStore } from "./dashboard"
+import { buildPlanHistoryPayload, type PlanHistory } from "./plan-history"
+import { assignProjectIds, summarizeProject, type DashboardProject } from "./projects"
+import { DEFAULT_PRIVACY_MODE, stripToolOutputs, type PrivacyMode } from "./privacy"
+import { createRedactor, type Redactor } from "./redaction"
+import { buildSessionTree } from "./session-tree"
+import { buildSessionTimeline } from "./timeline"
+import { buildToolStats, type ToolStatsScope } from "./tool-stats"
+import type { TokenHistoryGroupBy, TokenLedger } from "./token-ledger"
 import { assertAllowedPath } from "../ingest/paths"
+import { readPlanLibrary } from "../ingest/plan-library"
 import { getMessageDir, getStorageRoots } from "../ingest/session"
-import { deriveToolCalls, MAX_TOOL_CALL_MESSAGES, MAX_TOOL_CALLS } from "../ingest/tool-calls"
+import { TIME_SERIES_WINDOWS, type TimeSeriesWindowKey } from "../ingest/timeseries"
+import { deriveSessionTranscript, MAX_TRANSCRIPT_MESSAGES } from "../ingest/transcript"
+import {
+  deriveToolCallDetail,
+  deriveToolCalls,
+  MAX_TOOL_CALL_MESSAGES,
+  MAX_TOOL_CALLS,
+  parseToolCallCursor,
+  type ToolCallCursor,
+  type ToolCallFilter,
+  type ToolCallSummary,
+} from "../ingest/tool-calls"
 
 const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/
+const CALL_ID_PATTERN = /^[A-Za-z0-9_.:-]{1,128}$/
+const TOOL_STATS_SCOPES: ToolStatsScope[] = ["session", "tree"]
+const TOOL_CALL_STATUSES: ToolCallSummary["status"][] = ["pending", "running", "completed", "error", "unknown"]
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_.:/-]{1,128}$/
+const MAX_TOOL_CALL_QUERY_LENGTH = 200
 
-export function createApi(opts: { store: DashboardStore; storageRoot: string; projectRoot: string }): Hono {
+// Paths and ids the UI shows, links and matches on. They are structure rather than content, so
+// the home-path rule must not rewrite a project root into "~".
+const STRUCTURAL_KEYS: ReadonlySet<string> = new Set([
+  "projectRoot",
+  "path",
+  "relativePath",
+  "planPath",
+  "activePlanPath",
+  "id",
+  "sessionId",
+  "messageId",
+  "callId",
+])
+
+function readPinnedSessionId(value: string | undefined): { ok: boolean; sessionId: string | null } {
+  const trimmed = typeof value === "string" ? value.trim() : ""
+  if (!trimmed) return { ok: true, sessionId: null }
+  return SESSION_ID_PATTERN.test(trimmed) ? { ok: true, sessionId: trimmed } : { ok: false, sessionId: trimmed }
+}
+
+function readTimeSeriesWindow(value: string | undefined): { ok: boolean; windowMs: number | undefined } {
+  const trimmed = typeof value === "string" ? value.trim() : ""
+  if (!trimmed) return { ok: true, windowMs: undefined }
+  const windowMs = Object.prototype.hasOwnProperty.call(TIME_SERIES_WINDOWS, trimmed)
+    ? TIME_SERIES_WINDOWS[trimmed as TimeSeriesWindowKey]
+    : undefined
+  return { ok: windowMs !== undefined, windowMs }
+}
+
+const TOKEN_HISTORY_DEFAULT_RANGE_MS = 7 * 86_400_000
+const TOKEN_HISTORY_GROUP_BY: TokenHistoryGroupBy[] = ["day", "model", "session"]
+
+function readTimeParam(value: string | undefined): number | null | undefined {
+  const trimmed = typeof value === "string" ? value.trim() : ""
+  if (!trimmed) return undefined
+  const asNumber = Number(trimmed)
+  if (Number.isFinite(asNumber)) return asNumber
+  const parsed = Date.parse(trimmed)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function readCount(value: string | undefined): number | null | undefined {
+  const trimmed = typeof value === "string" ? value.trim() : ""
+  if (!trimmed) return undefined
+  return /^\d{1,15}$/.test(trimmed) ? Number(trimmed) : null
+}
+
+function readList(value: string | undefined): string[] {
+  const trimmed = typeof value === "string" ? value.trim() : ""
+  return trimmed ? trimmed.split(",").map((v) => v.trim()).filter(Boolean) : []
+}
+
+// ?status=error,running&tool=bash&q=timeout&errorsOnly=1; `errorsOnly` wins over `status`.
+function readToolCallFilter(query: (key: string) => string | undefined): ToolCallFilter | null {
+  const statusValues = readList(query("status"))
+  const statuses = statusValues.filter((v): v is ToolCallSummary["status"] =>
+    TOOL_CALL_STATUSES.includes(v as ToolCallSummary["status"])
+  )
+  const tools = readList(query("tool"))
+  const q = (query("q") ?? "").trim()
+  const errorsOnly = (query("errorsOnly") ?? "").trim()
+  if (
+    statuses.length !== statusValues.length ||
+    !tools.every((tool) => TOOL_NAME_PATTERN.test(tool)) ||
+    q.length > MAX_TOOL_CALL_QUERY_LENGTH ||
+    !["", "0", "1", "true", "false"].includes(errorsOnly)
+  ) {
+    return null
+  }
+  return {
+    statuses: errorsOnly === "1" || errorsOnly === "true" ? ["error"] : statuses,
+    tools,
+    query: q,
+  }
+}
+
+// ?before=<createdAtMs|null>,<messageId>&limit=50 for older pages; limit stays within MAX_TOOL_CALLS.
+function readToolCallPage(
+  query: (key: string) => string | undefined
+): { before?: ToolCallCursor; limit?: number } | null {
+  const beforeRaw = (query("before") ?? "").trim()
+  const before = beforeRaw ? parseToolCallCursor(beforeRaw) : undefined
+  const limit = readCount(query("limit"))
+  if (before === null || limit === null || (limit !== undefined && (limit < 1 || limit > MAX_TOOL_CALLS))) {
+    return null
+  }
+  return { before, limit }
+}
+
+const EVENTS_TICK_MS = 500
+const EVENTS_REFRESH_MS = 10_000
+const EVENTS_PING_MS = 5_000
+
+export function createApi(opts: {
+  store: DashboardStore
+  storageRoot: string
+  projectRoot: string
+  // Additional projects served under /projects/:id; the first entry should be the default project.
+  projects?: DashboardProject[]
+  tokenLedger?: TokenLedger
+  planHistory?: PlanHistory
+  eventsRefreshMs?: number
+  // Opt-in (`--reveal-tool-inputs`): include `state.input` in /tool-calls/:sessionId/:callId.
+  revealToolInputs?: boolean
+  // Opt-in (`--transcripts`): serve message text, reasoning and tool parts at /sessions/:sessionId/transcript.
+  transcripts?: boolean
+  // Applied to every JSON body and SSE snapshot this API sends; defaults to the built-in rules.
+  redactor?: Redactor
+  // `--privacy`: "strict" drops tool output/errors (and inputs) from every route.
+  privacy?: PrivacyMode
+}): Hono {
   const api = new Hono()
+  const redactor = opts.redactor ?? createRedactor()
+  const privacy = opts.privacy ?? DEFAULT_PRIVACY_MODE
+  const revealToolInputs = privacy === "debug" && opts.revealToolInputs === true
+  const transcripts = privacy === "debug" && opts.transcripts === true
+
+  // Redacting at the edge keeps ingest code unaware of it and covers routes added later.
+  api.use("*", async (c, next) => {
+    await next()
+    if (!c.res.headers.get("content-type")?.includes("application/json")) return
+    const body = redactor.redactValue(await c.res.json(), { keepKeys: STRUCTURAL_KEYS })
+    const headers = new Headers(c.res.headers)
+    headers.delete("content-length")
+    c.res = new Response(JSON.stringify(body), { status: c.res.status, headers })
+  })
+  const projects: DashboardProject[] = opts.projects && opts.projects.length > 0
+    ? opts.projects
+    : assignProjectIds([opts.projectRoot]).map((ref) => ({ ...ref, store: opts.store }))
 
   api.get("/health", (c) => {
-    return c.json({ ok: true })
+    return c.json({ ok: true, privacy, revealToolInputs, transcripts })
   })
 
+  api.get("/projects", (c) => {
+    return c.json({
+      ok: true,
+      projects: projects.map((project) => summarizeProject(project, project.store.getSnapshot())),
+    })
+  })
+
+  api.get("/token-usage/history", (c) => {
+    if (!opts.tokenLedger) {
+      return c.json({ ok: false, error: "token usage history is disabled" }, 404)
+    }
+
+    const groupByRaw = c.req.query("groupBy") ?? "day"
+    const groupBy = TOKEN_HISTORY_GROUP_BY.find((g) => g === groupByRaw)
+    const to = readTimeParam(c.req.query("to"))
+    const from = readTimeParam(c.req.query("from"))
+    if (!groupBy || to === null || from === null) {
+      return c.json({ ok: false, error: "invalid query" }, 400)
+    }
+
+    const toMs = to ?? Date.now()
+    const fromMs = from ?? toMs - TOKEN_HISTORY_DEFAULT_RANGE_MS
+    if (fromMs > toMs) {
+      return c.json({ ok: false, error: "invalid query" }, 400)
+    }
+
+    return c.json({ ok: true, ...opts.tokenLedger.query({ fromMs, toMs, groupBy }) })
+  })
+
+  for (const project of projects) {
+    api.route(
+      `/projects/${project.id}`,
+      createProjectRoutes({
+        store: project.store,
+        storageRoot: opts.storageRoot,
+        projectRoot: project.projectRoot,
+        planHistory: opts.planHistory,
+        eventsRefreshMs: opts.eventsRefreshMs,
+        revealToolInputs,
+        transcripts,
+        redactor,
+        privacy,
+      })
+    )
+  }
+
+  api.route("/", createProjectRoutes({ ...opts, revealToolInputs, transcripts, redactor, privacy }))
+
+  return api
+}
+
+function createProjectRoutes(opts: {
+  store: DashboardStore
+  storageRoot: string
+  projectRoot: string
+  planHistory?: PlanHistory
+  eventsRefreshMs?: number
+  revealToolInputs: boolean
+  transcripts: boolean
+  redactor: Redactor
+  privacy: PrivacyMode
+}): Hono {
+  const api = new Hono()
+  const eventsRefreshMs = opts.eventsRefreshMs ?? EVENTS_REFRESH_MS
+  const strict = opts.privacy === "strict"
+
+  const readSnapshot = (snapshotOpts: Parameters<DashboardStore["getSnapshot"]>[0]) => {
+    const snapshot = opts.store.getSnapshot(snapshotOpts)
+    return strict ? { ...snapshot, raw: stripToolOutputs(snapshot.raw) } : snapshot
+  }
+
   api.get("/dashboard", (c) => {
-    return c.json(opts.store.getSnapshot())
+    const pinned = readPinnedSessionId(c.req.query("sessionId"))
+    if (!pinned.ok) {
+      return c.json({ ok: false, sessionId: pinned.sessionId }, 400)
+    }
+    const window = readTimeSeriesWindow(c.req.query("window"))
+    if (!window.ok) {
+      return c.json({ ok: false, error: "invalid window" }, 400)
+    }
+    return c.json(readSnapshot({ sessionId: pinned.sessionId, timeSeriesWindowMs: window.windowMs }))
   })
 
-  api.get("/tool-calls/:sessionId", (c) => {
+  api.get("/sessions", (c) => {
+    const storage = getStorageRoots(opts.storageRoot)
+    return c.json({ ok: true, ...buildSessionList({ projectRoot: opts.projectRoot, storage }) })
+  })
+
+  api.get("/plans", (c) => {
+    return c.json({ ok: true, ...readPlanLibrary(opts.projectRoot) })
+  })
+
+  // Step flips of the active plan, plus a burnup series ending at the current count.
+  api.get("/plan-history", (c) => {
+    if (!opts.planHistory) {
+      return c.json({ ok: false, error: "plan history is disabled" }, 404)
+    }
+
+    const { planProgress } = opts.store.getSnapshot()
+    return c.json({
+      ok: true,
+      ...buildPlanHistoryPayload({
+        history: opts.planHistory,
+        projectRoot: opts.projectRoot,
+        planPath: planProgress.path ? path.resolve(opts.projectRoot, planProgress.path) : null,
+        completed: planProgress.completed,
+        total: planProgress.total,
+      }),
+    })
+  })
+
+  api.get("/sessions/:sessionId/tree", (c) => {
     const sessionId = c.req.param("sessionId")
     if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return c.json({ ok: false, sessionId }, 400)
+    }
+
+    const storage = getStorageRoots(opts.storageRoot)
+    const messageDir = getMessageDir(storage.message, sessionId)
+    if (!messageDir) {
+      return c.json({ ok: false, sessionId }, 404)
+    }
+
+    assertAllowedPath({ candidatePath: messageDir, allowedRoots: [opts.storageRoot] })
+
+    return c.json({
+      ok: true,
+      ...buildSessionTree({ storage, rootSessionId: sessionId, allowedRoots: [opts.storageRoot] }),
+    })
+  })
+
+  api.get("/sessions/:sessionId/transcript", (c) => {
+    const sessionId = c.req.param("sessionId")
+    if (!opts.transcripts) {
+      return c.json({ ok: false, sessionId, error: "transcripts are disabled" }, 404)
+    }
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return c.json({ ok: false, sessionId }, 400)
+    }
+
+    const storage = getStorageRoots(opts.storageRoot)
+    const messageDir = getMessageDir(storage.message, sessionId)
+    if (!messageDir) {
+      return c.json({ ok: false, sessionId }, 404)
+    }
+
+    assertAllowedPath({ candidatePath: messageDir, allowedRoots: [opts.storageRoot] })
+
+    // Transcripts are off under --privacy strict, so only the redaction middleware applies here.
+    const transcript = deriveSessionTranscript({
+      storage,
+      sessionId,
+      includeToolInputs: opts.revealToolInputs,
+      allowedRoots: [opts.storageRoot],
+    })
+    return c.json({ ok: true, maxMessages: MAX_TRANSCRIPT_MESSAGES, ...transcript })
+  })
+
+  api.get("/timeline", (c) => {
+    const pinned = readPinnedSessionId(c.req.query("sessionId"))
+    if (!pinned.ok) {
+      return c.json({ ok: false, sessionId: pinned.sessionId }, 400)
+    }
+
+    const timeline = buildSessionTimeline({
+      snapshot: opts.store.getSnapshot({ sessionId: pinned.sessionId }),
+      storage: getStorageRoots(opts.storageRoot),
+      allowedRoots: [opts.storageRoot],
+    })
+    return c.json({ ok: true, ...timeline })
+  })
+
+  api.get("/events", (c) => {
+    const pinned = readPinnedSessionId(c.req.query("sessionId"))
+    if (!pinned.ok) {
+      return c.json({ ok: false, sessionId: pinned.sessionId }, 400)
+    }
+    const window = readTimeSeriesWindow(c.req.query("window"))
+    if (!window.ok) {
+      return c.json({ ok: false, error: "invalid window" }, 400)
+    }
+    const snapshotOpts = { sessionId: pinned.sessionId, timeSeriesWindowMs: window.windowMs }
+
+    return streamSSE(c, async (stream) => {
+      // Watcher notifications only flag a pending push; the loop below does the work so a
+      // burst of fs events never produces more than one snapshot per tick.
+      let pending = false
+      const unsubscribe = opts.store.subscribe?.(() => {
+        pending = true
+      })
+      stream.onAbort(() => {
+        unsubscribe?.()
+      })
+
+      let lastSentAt = 0
+      let lastPingAt = 0
+      const sendSnapshot = async () => {
+        pending = false
+        lastSentAt = Date.now()
+        lastPingAt = lastSentAt
+        const snapshot = opts.redactor.redactValue(readSnapshot(snapshotOpts), { keepKeys: STRUCTURAL_KEYS })
+        await stream.writeSSE({ event: "dashboard", data: JSON.stringify(snapshot) })
+      }
+
+      await sendSnapshot()
+      try {
+        while (!stream.aborted && !stream.closed) {
+          await stream.sleep(EVENTS_TICK_MS)
+          if (stream.aborted || stream.closed) break
+
+          const now = Date.now()
+          // Periodic refresh keeps time-derived fields (busy -> idle, timelines) current
+          // even when nothing on disk changes.
+          if (pending || now - lastSentAt >= eventsRefreshMs) {
+            await sendSnapshot()
+          } else if (now - lastPingAt >= EVENTS_PING_MS) {
+            lastPingAt = now
+            await stream.writeSSE({ event: "ping", data: String(now) })
+          }
+        }
+      } finally {
+        unsubscribe?.()
+      }
+    })
+  })
+
+  api.get("/events/log", (c) => {
+    if (!opts.store.readEvents) {
+      return c.json({ ok: false, error: "event log unavailable" }, 404)
+    }
+    const since = readCount(c.req.query("since"))
+    const limit = readCount(c.req.query("limit"))
+    const pinned = readPinnedSessionId(c.req.query("sessionId"))
+    if (since === null || limit === null || !pinned.ok) {
+      return c.json({ ok: false, error: "invalid query" }, 400)
+    }
+    return c.json({ ok: true, ...opts.store.readEvents({ since, limit, sessionId: pinned.sessionId }) })
+  })
+
+  api.get("/tool-calls/:sessionId", (c) => {
+    const sessionId = c.req.param("sessionId")
+    const filter = readToolCallFilter((key) => c.req.query(key))
+    const page = readToolCallPage((key) => c.req.query(key))
+    if (!SESSION_ID_PATTERN.test(sessionId) || !filter || !page) {
       return c.json({ ok: false, sessionId, toolCalls: [] }, 400)
     }
 
@@ -31,21 +422,94 @@ export function createApi(opts: { store: DashboardStore; storageRoot: string; pr
 
     assertAllowedPath({ candidatePath: messageDir, allowedRoots: [opts.storageRoot] })
 
-    const { toolCalls, truncated } = deriveToolCalls({
+    const { toolCalls, truncated, facets, nextBefore } = deriveToolCalls({
       storage,
       sessionId,
+      // Strict mode never sends output, so it must not be searchable either; otherwise only the
+      // redacted text the response carries is.
+      filter: { ...filter, searchOutput: !strict, redact: opts.redactor.redactValue },
+      before: page.before,
+      limit: page.limit,
       allowedRoots: [opts.storageRoot],
     })
 
     return c.json({
       ok: true,
       sessionId,
-      toolCalls,
+      toolCalls: strict ? stripToolOutputs(toolCalls) : toolCalls,
       caps: {
         maxMessages: MAX_TOOL_CALL_MESSAGES,
         maxToolCalls: MAX_TOOL_CALLS,
       },
       truncated,
+      nextBefore,
+      facets,
+    })
+  })
+
+  api.get("/tool-stats/:sessionId", (c) => {
+    const sessionId = c.req.param("sessionId")
+    const scopeRaw = c.req.query("scope") ?? "session"
+    const scope = TOOL_STATS_SCOPES.find((s) => s === scopeRaw)
+    if (!SESSION_ID_PATTERN.test(sessionId) || !scope) {
+      return c.json({ ok: false, sessionId, error: "invalid query" }, 400)
+    }
+
+    const storage = getStorageRoots(opts.storageRoot)
+    const messageDir = getMessageDir(storage.message, sessionId)
+    if (!messageDir) {
+      return c.json({ ok: false, sessionId, error: "session not found" }, 404)
+    }
+
+    assertAllowedPath({ candidatePath: messageDir, allowedRoots: [opts.storageRoot] })
+
+    return c.json({
+      ok: true,
+      sessionId,
+      ...buildToolStats({ storage, sessionId, scope, allowedRoots: [opts.storageRoot] }),
+    })
+  })
+
+  api.get("/tool-calls/:sessionId/:callId", (c) => {
+    const sessionId = c.req.param("sessionId")
+    const callId = c.req.param("callId")
+    const messageId = (c.req.query("messageId") ?? "").trim()
+    if (
+      !SESSION_ID_PATTERN.test(sessionId) ||
+      !CALL_ID_PATTERN.test(callId) ||
+      (messageId && !SESSION_ID_PATTERN.test(messageId))
+    ) {
+      return c.json({ ok: false, sessionId, callId }, 400)
+    }
+
+    const storage = getStorageRoots(opts.storageRoot)
+    const messageDir = getMessageDir(storage.message, sessionId)
+    if (!messageDir) {
+      return c.json({ ok: false, sessionId, callId }, 404)
+    }
+
+    assertAllowedPath({ candidatePath: messageDir, allowedRoots: [opts.storageRoot] })
+
+    const revealInput = opts.revealToolInputs
+    const toolCall = deriveToolCallDetail({
+      storage,
+      sessionId,
+      callId,
+      messageId: messageId || undefined,
+      includeInput: revealInput,
+      allowedRoots: [opts.storageRoot],
+    })
+    if (!toolCall) {
+      return c.json({ ok: false, sessionId, callId }, 404)
+    }
+
+    return c.json({
+      ok: true,
+      sessionId,
+      callId,
+      privacy: opts.privacy,
+      revealInput,
+      toolCall: strict ? stripToolOutputs(toolCall) : toolCall,
     })
   })
 
@@ -1,8 +1,9 @@
 import * as fs from "node:fs"
 import * as os from "node:os"
 import * as path from "node:path"
-import { describe, expect, it } from "vitest"
-import { buildDashboardPayload } from "./dashboard"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { buildDashboardPayload, createDashboardStore } from "./dashboard"
+import { createPlanHistory, type PlanHistory } from "./plan-history"
 import { getStorageRoots } from "../ingest/session"
 
 function mkStorageRoot(): string {
@@ -93,7 +94,10 @@ describe("buildDashboardPayload", () => {
           toolCalls: 1,
           lastTool: "delegate_task",
           timeline: "1970-01-01T00:00:01Z: 1s",
+          startedAt: 1000,
+          endedAt: null,
           sessionId,
+          tokenUsage: expect.objectContaining({ totals: expect.objectContaining({ total: 0 }) }),
         },
       ])
 
@@ -104,6 +108,44 @@ describe("buildDashboardPayload", () => {
     }
   })
 
+  it("renders a pinned root session instead of the auto-detected one", () => {
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "omo-project-"))
+    const projectID = "proj_1"
+
+    try {
+      const sessionMetaDir = path.join(storage.session, projectID)
+      fs.mkdirSync(sessionMetaDir, { recursive: true })
+      for (const [id, updated] of [["ses_a", 1000], ["ses_b", 2000]] as const) {
+        fs.writeFileSync(
+          path.join(sessionMetaDir, `${id}.json`),
+          JSON.stringify({ id, projectID, directory: projectRoot, title: id, time: { created: updated, updated } }),
+          "utf8"
+        )
+        const messageDir = path.join(storage.message, id)
+        fs.mkdirSync(messageDir, { recursive: true })
+        fs.writeFileSync(
+          path.join(messageDir, "msg_1.json"),
+          JSON.stringify({ id: `msg_${id}`, sessionID: id, role: "assistant", agent: id, time: { created: updated } }),
+          "utf8"
+        )
+      }
+
+      expect(buildDashboardPayload({ projectRoot, storage, nowMs: 60_000 }).mainSession.sessionId).toBe("ses_b")
+
+      const pinned = buildDashboardPayload({ projectRoot, storage, nowMs: 60_000, sessionId: "ses_a" })
+      expect(pinned.mainSession.sessionId).toBe("ses_a")
+      expect(pinned.mainSession.agent).toBe("ses_a")
+
+      const unknown = buildDashboardPayload({ projectRoot, storage, nowMs: 60_000, sessionId: "ses_other" })
+      expect(unknown.mainSession.sessionId).toBe("ses_b")
+    } finally {
+      fs.rmSync(storageRoot, { recursive: true, force: true })
+      fs.rmSync(projectRoot, { recursive: true, force: true })
+    }
+  })
+
   it("includes mainSessionTasks in raw payload when no sessions exist", () => {
     const storageRoot = mkStorageRoot()
     const storage = getStorageRoots(storageRoot)
@@ -456,4 +498,332 @@ describe("buildDashboardPayload", () => {
       fs.rmSync(projectRoot, { recursive: true, force: true })
     }
   })
+
+  it("attaches per-task token usage and cost when a price table is supplied", () => {
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "omo-project-"))
+    const sessionId = "ses_cost_main"
+    const backgroundSessionId = "ses_cost_bg"
+    const projectID = "proj_1"
+
+    try {
+      const sessionMetaDir = path.join(storage.session, projectID)
+      fs.mkdirSync(sessionMetaDir, { recursive: true })
+      fs.writeFileSync(
+        path.join(sessionMetaDir, `${sessionId}.json`),
+        JSON.stringify({ id: sessionId, projectID, directory: projectRoot, time: { created: 1000, updated: 1000 } }),
+        "utf8"
+      )
+      fs.writeFileSync(
+        path.join(sessionMetaDir, `${backgroundSessionId}.json`),
+        JSON.stringify({
+          id: backgroundSessionId,
+          projectID,
+          directory: projectRoot,
+          parentID: sessionId,
+          title: "Background: priced task",
+          time: { created: 1000, updated: 1100 },
+        }),
+        "utf8"
+      )
+
+      const messageDir = path.join(storage.message, sessionId)
+      fs.mkdirSync(messageDir, { recursive: true })
+      fs.writeFileSync(
+        path.join(messageDir, "msg_main.json"),
+        JSON.stringify({
+          id: "msg_main",
+          sessionID: sessionId,
+          role: "assistant",
+          providerID: "openai",
+          modelID: "gpt-5.2",
+          tokens: { input: 1_000_000, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+          time: { created: 1000 },
+        }),
+        "utf8"
+      )
+
+      const partDir = path.join(storage.part, "msg_main")
+      fs.mkdirSync(partDir, { recursive: true })
+      fs.writeFileSync(
+        path.join(partDir, "part_1.json"),
+        JSON.stringify({
+          id: "part_1",
+          sessionID: sessionId,
+          messageID: "msg_main",
+          type: "tool",
+          callID: "call_1",
+          tool: "delegate_task",
+          state: {
+            status: "completed",
+            input: { run_in_background: true, description: "priced task", subagent_type: "explore" },
+          },
+        }),
+        "utf8"
+      )
+
+      const backgroundMessageDir = path.join(storage.message, backgroundSessionId)
+      fs.mkdirSync(backgroundMessageDir, { recursive: true })
+      fs.writeFileSync(
+        path.join(backgroundMessageDir, "msg_bg.json"),
+        JSON.stringify({
+          id: "msg_bg",
+          sessionID: backgroundSessionId,
+          role: "assistant",
+          providerID: "openai",
+          modelID: "gpt-5.2",
+          tokens: { input: 0, output: 1_000_000, reasoning: 0, cache: { read: 0, write: 0 } },
+          time: { created: 1100 },
+        }),
+        "utf8"
+      )
+
+      const payload = buildDashboardPayload({
+        projectRoot,
+        storage,
+        nowMs: 2000,
+        prices: { "openai/gpt-5.2*": { input: 2, output: 10 } },
+      })
+
+      expect(payload.mainSessionTasks[0]?.tokenUsage.totals.cost).toBe(2)
+      expect(payload.backgroundTasks).toHaveLength(1)
+      expect(payload.backgroundTasks[0]?.tokenUsage.totals).toMatchObject({ output: 1_000_000, total: 1_000_000, cost: 10 })
+      expect(payload.backgroundTasks[0]?.tokenUsage.rows.map((r) => r.model)).toEqual(["openai/gpt-5.2"])
+      expect(payload.tokenUsage?.totals.cost).toBe(12)
+    } finally {
+      fs.rmSync(storageRoot, { recursive: true, force: true })
+      fs.rmSync(projectRoot, { recursive: true, force: true })
+    }
+  })
+
+  it("logs plan step completions and reports when each step was checked", () => {
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "omo-project-"))
+    const planPath = path.join(projectRoot, ".sisyphus", "plans", "p.md")
+    const planHistory = createPlanHistory({ filePath: path.join(storageRoot, "plan-history.jsonl") })
+
+    try {
+      fs.mkdirSync(path.dirname(planPath), { recursive: true })
+      fs.writeFileSync(
+        path.join(projectRoot, ".sisyphus", "boulder.json"),
+        JSON.stringify({ active_plan: planPath, session_ids: [], plan_name: "p", started_at: "" }),
+        "utf8"
+      )
+      fs.writeFileSync(planPath, "## Phase\n- [ ] a\n- [ ] b", "utf8")
+      buildDashboardPayload({ projectRoot, storage, nowMs: 1000, planHistory })
+
+      fs.writeFileSync(planPath, "## Phase\n- [x] a\n- [ ] b", "utf8")
+      buildDashboardPayload({ projectRoot, storage, nowMs: 2000, planHistory })
+      const payload = buildDashboardPayload({ projectRoot, storage, nowMs: 3000, planHistory })
+
+      expect(payload.planProgress.steps.map((step) => step.completedAtMs)).toEqual([2000, null])
+      expect(payload.planProgress.outline[0].tasks[0].completedAtMs).toBe(2000)
+      expect(payload.planProgress.forecast).toBe(null)
+      expect(planHistory.list({ projectRoot, planPath })).toMatchObject([{ kind: "completed", text: "a", atMs: 2000 }])
+    } finally {
+      fs.rmSync(storageRoot, { recursive: true, force: true })
+      fs.rmSync(projectRoot, { recursive: true, force: true })
+    }
+  })
+
+  it("dates a step flip by when the plan file was written, not when the snapshot ran", () => {
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "omo-project-"))
+    const planPath = path.join(projectRoot, ".sisyphus", "plans", "p.md")
+    const planHistory = createPlanHistory({ filePath: path.join(storageRoot, "plan-history.jsonl") })
+
+    try {
+      fs.mkdirSync(path.dirname(planPath), { recursive: true })
+      fs.writeFileSync(
+        path.join(projectRoot, ".sisyphus", "boulder.json"),
+        JSON.stringify({ active_plan: planPath, session_ids: [], plan_name: "p", started_at: "" }),
+        "utf8"
+      )
+      fs.writeFileSync(planPath, "- [ ] a", "utf8")
+      buildDashboardPayload({ projectRoot, storage, nowMs: 1_000, planHistory })
+
+      // Checked at 5s, but no snapshot ran until 20 minutes later.
+      fs.writeFileSync(planPath, "- [x] a", "utf8")
+      fs.utimesSync(planPath, new Date(5_000), new Date(5_000))
+      buildDashboardPayload({ projectRoot, storage, nowMs: 20 * 60_000, planHistory })
+
+      expect(planHistory.list({ projectRoot, planPath })).toMatchObject([{ kind: "completed", atMs: 5_000 }])
+    } finally {
+      fs.rmSync(storageRoot, { recursive: true, force: true })
+      fs.rmSync(projectRoot, { recursive: true, force: true })
+    }
+  })
+
+  it("credits a checked step to the background task whose edit changed the plan file", () => {
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "omo-project-"))
+    const planPath = path.join(projectRoot, ".sisyphus", "plans", "p.md")
+    const planHistory = createPlanHistory({ filePath: path.join(storageRoot, "plan-history.jsonl") })
+    const sessionId = "ses_plan_main"
+    const backgroundSessionId = "ses_plan_bg"
+    const projectID = "proj_1"
+    const writeJson = (filePath: string, value: unknown) => {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true })
+      fs.writeFileSync(filePath, JSON.stringify(value), "utf8")
+    }
+
+    try {
+      writeJson(path.join(storage.session, projectID, `${sessionId}.json`), {
+        id: sessionId,
+        projectID,
+        directory: projectRoot,
+        time: { created: 1000, updated: 1000 },
+      })
+      writeJson(path.join(storage.session, projectID, `${backgroundSessionId}.json`), {
+        id: backgroundSessionId,
+        projectID,
+        directory: projectRoot,
+        parentID: sessionId,
+        title: "Background: plan worker",
+        time: { created: 1000, updated: 1900 },
+      })
+      writeJson(path.join(storage.message, sessionId, "msg_main.json"), {
+        id: "msg_main",
+        sessionID: sessionId,
+        role: "assistant",
+        time: { created: 1000 },
+      })
+      writeJson(path.join(storage.part, "msg_main", "part_1.json"), {
+        id: "part_1",
+        sessionID: sessionId,
+        messageID: "msg_main",
+        type: "tool",
+        callID: "call_task",
+        tool: "delegate_task",
+        state: { status: "running", input: { run_in_background: true, description: "plan worker", subagent_type: "explore" } },
+      })
+
+      writeJson(path.join(projectRoot, ".sisyphus", "boulder.json"), {
+        active_plan: planPath,
+        session_ids: [sessionId],
+        plan_name: "p",
+        started_at: "",
+      })
+      fs.mkdirSync(path.dirname(planPath), { recursive: true })
+      fs.writeFileSync(planPath, "- [ ] a\n- [ ] b", "utf8")
+      buildDashboardPayload({ projectRoot, storage, nowMs: 1000, planHistory })
+
+      writeJson(path.join(storage.message, backgroundSessionId, "msg_bg.json"), {
+        id: "msg_bg",
+        sessionID: backgroundSessionId,
+        role: "assistant",
+        time: { created: 1800 },
+      })
+      writeJson(path.join(storage.part, "msg_bg", "part_1.json"), {
+        id: "part_1",
+        sessionID: backgroundSessionId,
+        messageID: "msg_bg",
+        type: "tool",
+        callID: "call_edit",
+        tool: "edit",
+        state: { status: "completed", input: { filePath: planPath }, time: { start: 1800, end: 1900 } },
+      })
+      fs.writeFileSync(planPath, "- [x] a\n- [ ] b", "utf8")
+      const payload = buildDashboardPayload({ projectRoot, storage, nowMs: 2000, planHistory })
+
+      const taskId = payload.backgroundTasks[0]?.id
+      expect(taskId).toBeTruthy()
+      const completedBy = {
+        taskId,
+        sessionId: backgroundSessionId,
+        toolCall: { callId: "call_edit", messageId: "msg_bg", tool: "edit" },
+      }
+      expect(payload.planProgress.steps.map((step) => step.completedBy)).toEqual([completedBy, null])
+      expect(payload.planProgress.outline[0].tasks[0].completedBy).toEqual(completedBy)
+    } finally {
+      fs.rmSync(storageRoot, { recursive: true, force: true })
+      fs.rmSync(projectRoot, { recursive: true, force: true })
+    }
+  })
+})
+
+describe("createDashboardStore", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function mkPlanProject(): { projectRoot: string; planPath: string } {
+    const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "omo-project-"))
+    const planPath = path.join(projectRoot, ".sisyphus", "plans", "p.md")
+    fs.mkdirSync(path.dirname(planPath), { recursive: true })
+    fs.writeFileSync(
+      path.join(projectRoot, ".sisyphus", "boulder.json"),
+      JSON.stringify({ active_plan: planPath, session_ids: [], plan_name: "p", started_at: "" }),
+      "utf8"
+    )
+    fs.writeFileSync(planPath, "- [ ] a\n- [ ] b", "utf8")
+    return { projectRoot, planPath }
+  }
+
+  it("polls for transitions only while webhooks or event log readers consume them", () => {
+    vi.useFakeTimers()
+    const storageRoot = mkStorageRoot()
+    const { projectRoot } = mkPlanProject()
+    const observe = vi.fn(() => [])
+    const planHistory: PlanHistory = { observe, list: () => [], size: () => 0 }
+
+    try {
+      const idle = createDashboardStore({ projectRoot, storageRoot, pollIntervalMs: 100, planHistory })
+      vi.advanceTimersByTime(1_000)
+      expect(observe).not.toHaveBeenCalled()
+
+      idle.readEvents?.()
+      vi.advanceTimersByTime(300)
+      expect(observe).toHaveBeenCalled()
+
+      vi.advanceTimersByTime(61_000)
+      observe.mockClear()
+      vi.advanceTimersByTime(1_000)
+      expect(observe).not.toHaveBeenCalled()
+
+      createDashboardStore({ projectRoot, storageRoot, pollIntervalMs: 100, planHistory, onTransitions: () => {} })
+      vi.advanceTimersByTime(300)
+      expect(observe).toHaveBeenCalled()
+    } finally {
+      fs.rmSync(storageRoot, { recursive: true, force: true })
+      fs.rmSync(projectRoot, { recursive: true, force: true })
+    }
+  })
+
+  it("keeps a separate event log for a pinned session that is being read", () => {
+    vi.useFakeTimers()
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    const { projectRoot, planPath } = mkPlanProject()
+    const onTransitions = vi.fn()
+
+    try {
+      fs.mkdirSync(path.join(storage.session, "proj_1"), { recursive: true })
+      fs.writeFileSync(
+        path.join(storage.session, "proj_1", "ses_pinned.json"),
+        JSON.stringify({ id: "ses_pinned", projectID: "proj_1", directory: projectRoot, time: { created: 1000, updated: 1000 } }),
+        "utf8"
+      )
+      const store = createDashboardStore({ projectRoot, storageRoot, watch: false, onTransitions })
+
+      store.readEvents?.({ sessionId: "ses_pinned" })
+      store.getSnapshot({ sessionId: "ses_pinned" })
+      fs.writeFileSync(planPath, "- [x] a\n- [ ] b", "utf8")
+      vi.advanceTimersByTime(5_000)
+      store.getSnapshot({ sessionId: "ses_pinned" })
+
+      expect(store.readEvents?.({ sessionId: "ses_pinned" }).events.map((e) => [e.type, e.sessionId])).toEqual([
+        ["plan.step_completed", "ses_pinned"],
+      ])
+      expect(store.readEvents?.().events).toEqual([])
+      expect(onTransitions).not.toHaveBeenCalled()
+    } finally {
+      fs.rmSync(storageRoot, { recursive: true, force: true })
+      fs.rmSync(projectRoot, { recursive: true, force: true })
+    }
+  })
 })
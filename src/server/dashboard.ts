@@ -1,11 +1,25 @@
 import * as fs from "node:fs"
 import * as path from "node:path"
-import { readBoulderState, readPlanProgress, readPlanSteps, type PlanStep } from "../ingest/boulder"
-import { deriveBackgroundTasks } from "../ingest/background-tasks"
+import {
+  readBoulderState,
+  readPlanOutline,
+  readPlanProgress,
+  readPlanSteps,
+  type PlanOutlineSection,
+  type PlanStep,
+  type PlanStepAttribution,
+} from "../ingest/boulder"
+import { deriveBackgroundTasks, type BackgroundTaskRow } from "../ingest/background-tasks"
 import { deriveTimeSeriesActivity, type TimeSeriesPayload } from "../ingest/timeseries"
 import { getMainSessionView, getStorageRoots, pickActiveSessionId, readMainSessionMetas, type MainSessionView, type OpenCodeStorageRoots, type SessionMetadata } from "../ingest/session"
-import { deriveToolCalls } from "../ingest/tool-calls"
-import { deriveTokenUsage } from "../ingest/token-usage"
+import { deriveToolCalls, findFileEditCall, type FileEditCall } from "../ingest/tool-calls"
+import type { PriceTable } from "../ingest/pricing"
+import { aggregateTokenUsage, type TokenUsagePayload } from "../ingest/token-usage-core"
+import { deriveTokenUsage, deriveTokenUsageBySession, type TokenUsageSink } from "../ingest/token-usage"
+import { createTransitionDetector, type DashboardEvent, type TransitionDetector } from "./transitions"
+import { createEventLog, type EventLog, type EventLogPage } from "./event-log"
+import { forecastPlanCompletion, type PlanForecast } from "./plan-forecast"
+import { withOutlineCompletions, withStepCompletions, type PlanHistory } from "./plan-history"
 
 export type DashboardPayload = {
   mainSession: {
@@ -24,6 +38,10 @@ export type DashboardPayload = {
     path: string
     statusPill: string
     steps: PlanStep[]
+    // Headings -> tasks -> nested sub-tasks, with per-section progress.
+    outline: PlanOutlineSection[]
+    // null without a plan history log or until enough steps have been completed.
+    forecast: PlanForecast | null
   }
   backgroundTasks: Array<{
     id: string
@@ -34,7 +52,11 @@ export type DashboardPayload = {
     toolCalls: number
     lastTool: string
     timeline: string
+    startedAt: number | null
+    endedAt: number | null
     sessionId: string | null
+    // Usage of this task's own session (cost fields present when the store has a price table).
+    tokenUsage: TokenUsagePayload
   }>
   mainSessionTasks: Array<{
     id: string
@@ -46,7 +68,10 @@ export type DashboardPayload = {
     toolCalls: number
     lastTool: string
     timeline: string
+    startedAt: number | null
+    endedAt: number | null
     sessionId: string | null
+    tokenUsage: TokenUsagePayload
   }>
   timeSeries: TimeSeriesPayload
   tokenUsage?: ReturnType<typeof deriveTokenUsage>
@@ -82,8 +107,32 @@ export type LegacyDashboardPayload = {
   raw: unknown
 }
 
+export type SessionListEntry = {
+  id: string
+  title: string
+  createdAt: number | null
+  updatedAt: number | null
+  agent: string
+  statusPill: string
+}
+
+export type SessionListPayload = {
+  autoSessionId: string | null
+  sessions: SessionListEntry[]
+  truncated: boolean
+}
+
+export const MAX_SESSION_LIST = 30
+
 export type DashboardStore = {
-  getSnapshot: () => DashboardPayload | LegacyDashboardPayload
+  // `sessionId` pins a main session for the project; unknown ids fall back to auto-detection.
+  // `timeSeriesWindowMs` widens the activity chart (defaults to 5 minutes).
+  getSnapshot: (opts?: { sessionId?: string | null; timeSeriesWindowMs?: number }) => DashboardPayload | LegacyDashboardPayload
+  // Optional: stores backed by fs watchers notify listeners when inputs change.
+  subscribe?: (listener: () => void) => () => void
+  // Optional: recent transitions (see transitions.ts), oldest first. Without `sessionId` they are the
+  // auto-detected session's; a pinned session gets its own log, fed while someone reads it.
+  readEvents?: (opts?: { since?: number; limit?: number; sessionId?: string | null }) => EventLogPage
 }
 
 function formatIso(ts: number | null): string {
@@ -135,10 +184,107 @@ function formatTimeline(startAt: number | null, endAtMs: number): string {
   return `${start}: ${elapsed}`
 }
 
+export function buildSessionList(opts: {
+  projectRoot: string
+  storage: OpenCodeStorageRoots
+  nowMs?: number
+}): SessionListPayload {
+  const nowMs = opts.nowMs ?? Date.now()
+  const boulder = readBoulderState(opts.projectRoot)
+  const autoSessionId = pickActiveSessionId({
+    projectRoot: opts.projectRoot,
+    storage: opts.storage,
+    boulderSessionIds: boulder?.session_ids,
+  })
+
+  const metas = readMainSessionMetas(opts.storage.session, opts.projectRoot)
+  const sessions = metas.slice(0, MAX_SESSION_LIST).map((meta): SessionListEntry => {
+    const view = getMainSessionView({
+      projectRoot: opts.projectRoot,
+      sessionId: meta.id,
+      storage: opts.storage,
+      sessionMeta: meta,
+      nowMs,
+    })
+    return {
+      id: meta.id,
+      title: view.sessionLabel,
+      createdAt: typeof meta.time?.created === "number" ? meta.time.created : null,
+      updatedAt: typeof meta.time?.updated === "number" ? meta.time.updated : null,
+      agent: view.agent,
+      statusPill: mainStatusPill(view.status),
+    }
+  })
+
+  return {
+    autoSessionId,
+    sessions,
+    truncated: metas.length > MAX_SESSION_LIST,
+  }
+}
+
+function readMtimeMs(filePath: string): number | null {
+  try {
+    return fs.statSync(filePath).mtimeMs
+  } catch {
+    return null
+  }
+}
+
+// Edits older than this before the plan file was written are not what flipped a step.
+const PLAN_EDIT_WINDOW_MS = 10 * 60_000
+
+// Credits a checked step to the session that most recently edited the plan file: the main
+// session or one of its running (or just finished) background tasks. Without a matching edit
+// call, a lone running task gets the credit, otherwise the main session does.
+function attributePlanEdit(opts: {
+  storage: OpenCodeStorageRoots
+  projectRoot: string
+  planFile: string
+  mainSessionId: string
+  tasks: BackgroundTaskRow[]
+  nowMs: number
+}): PlanStepAttribution {
+  const sinceMs = opts.nowMs - PLAN_EDIT_WINDOW_MS
+  const candidates = [
+    { taskId: "main-session", sessionId: opts.mainSessionId },
+    ...opts.tasks
+      .filter((t) => t.sessionId && (t.status === "running" || (t.endedAt !== null && t.endedAt >= sinceMs)))
+      .map((t) => ({ taskId: t.id, sessionId: t.sessionId as string })),
+  ]
+
+  let best: { taskId: string; call: FileEditCall } | null = null
+  for (const candidate of candidates) {
+    const call = findFileEditCall({
+      storage: opts.storage,
+      sessionId: candidate.sessionId,
+      filePath: opts.planFile,
+      projectRoot: opts.projectRoot,
+      sinceMs,
+    })
+    if (call && (!best || call.atMs > best.call.atMs)) best = { taskId: candidate.taskId, call }
+  }
+  if (best) {
+    const { sessionId, callId, messageId, tool } = best.call
+    return { taskId: best.taskId, sessionId, toolCall: { callId, messageId, tool } }
+  }
+
+  const running = opts.tasks.filter((t) => t.status === "running")
+  return running.length === 1
+    ? { taskId: running[0].id, sessionId: running[0].sessionId, toolCall: null }
+    : { taskId: "main-session", sessionId: opts.mainSessionId, toolCall: null }
+}
+
 export function buildDashboardPayload(opts: {
   projectRoot: string
   storage: OpenCodeStorageRoots
   nowMs?: number
+  sessionId?: string | null
+  timeSeriesWindowMs?: number
+  tokenSink?: TokenUsageSink
+  prices?: PriceTable
+  // Step flips are logged only for the auto-detected session, the one actually working the plan.
+  planHistory?: PlanHistory
 }): DashboardPayload {
   const nowMs = opts.nowMs ?? Date.now()
 
@@ -147,16 +293,24 @@ export function buildDashboardPayload(opts: {
   const planPath = boulder?.active_plan ?? ""
   const plan = boulder ? readPlanProgress(opts.projectRoot, boulder.active_plan) : { total: 0, completed: 0, isComplete: false, missing: true }
   const planSteps = boulder ? readPlanSteps(opts.projectRoot, boulder.active_plan) : { missing: true, steps: [] as PlanStep[] }
+  const planOutline = boulder
+    ? readPlanOutline(opts.projectRoot, boulder.active_plan)
+    : { missing: true, sections: [] as PlanOutlineSection[] }
 
-  const sessionId = pickActiveSessionId({
-    projectRoot: opts.projectRoot,
-    storage: opts.storage,
-    boulderSessionIds: boulder?.session_ids,
-  })
+  const metas = readMainSessionMetas(opts.storage.session, opts.projectRoot)
+  // Only root sessions of this project can be pinned; anything else falls back to auto-detection.
+  const pinnedMeta = opts.sessionId ? metas.find((m) => m.id === opts.sessionId) ?? null : null
+
+  const sessionId = pinnedMeta
+    ? pinnedMeta.id
+    : pickActiveSessionId({
+        projectRoot: opts.projectRoot,
+        storage: opts.storage,
+        boulderSessionIds: boulder?.session_ids,
+      })
 
   let sessionMeta: SessionMetadata | null = null
   if (sessionId) {
-    const metas = readMainSessionMetas(opts.storage.session, opts.projectRoot)
     sessionMeta = metas.find((m) => m.id === sessionId) ?? null
   }
 
@@ -171,10 +325,45 @@ export function buildDashboardPayload(opts: {
     : { agent: "unknown", currentTool: null, lastUpdated: null, sessionLabel: "(no session)", status: "unknown" as const }
 
   const tasks = sessionId ? deriveBackgroundTasks({ storage: opts.storage, mainSessionId: sessionId, nowMs }) : []
+
+  const planFile = boulder?.active_plan ? path.resolve(opts.projectRoot, boulder.active_plan) : null
+  let steps = planSteps.missing ? [] : planSteps.steps
+  let outline = planOutline.missing ? [] : planOutline.sections
+  let forecast: PlanForecast | null = null
+  if (opts.planHistory && planFile) {
+    if (!pinnedMeta && !planSteps.missing) {
+      // Snapshots can be built long after the edit (no tab open, slow polling), so a flip is
+      // dated by when the plan file was written.
+      const observedAtMs = Math.min(nowMs, readMtimeMs(planFile) ?? nowMs)
+      opts.planHistory.observe({
+        projectRoot: opts.projectRoot,
+        planPath: planFile,
+        steps,
+        sessionId: sessionId ?? null,
+        attribute: sessionId
+          ? () =>
+              attributePlanEdit({
+                storage: opts.storage,
+                projectRoot: opts.projectRoot,
+                planFile,
+                mainSessionId: sessionId,
+                tasks,
+                nowMs: observedAtMs,
+              })
+          : undefined,
+        nowMs: observedAtMs,
+      })
+    }
+    const planEvents = opts.planHistory.list({ projectRoot: opts.projectRoot, planPath: planFile })
+    steps = withStepCompletions(steps, planEvents)
+    outline = withOutlineCompletions(outline, planEvents)
+    forecast = forecastPlanCompletion({ events: planEvents, completed: plan.completed, total: plan.total, nowMs })
+  }
   const timeSeries = deriveTimeSeriesActivity({
     storage: opts.storage,
     mainSessionId: sessionId ?? null,
     nowMs,
+    windowMs: opts.timeSeriesWindowMs,
   })
   const mainCurrentModel = "currentModel" in main
     ? (main as MainSessionView).currentModel
@@ -209,16 +398,22 @@ export function buildDashboardPayload(opts: {
         toolCalls: toolCalls.length,
         lastTool: toolCalls[0]?.tool ?? "-",
         timeline: formatTimeline(startAt, endAtMs),
+        startedAt: startAt,
+        endedAt: status === "running" ? null : endAtMs,
         sessionId,
       },
     ]
   })()
 
-  const tokenUsage = deriveTokenUsage({
+  const { total: tokenUsage, bySession: tokenUsageBySession } = deriveTokenUsageBySession({
     storage: opts.storage,
-    mainSessionId: sessionId ?? null,
-    backgroundSessionIds: tasks.map((task) => task.sessionId ?? null),
+    sessionIds: [sessionId, ...tasks.map((task) => task.sessionId)],
+    sink: opts.tokenSink,
+    prices: opts.prices,
   })
+  const emptyTokenUsage = aggregateTokenUsage([], { prices: opts.prices })
+  const tokenUsageFor = (taskSessionId: string | null | undefined): TokenUsagePayload =>
+    (taskSessionId ? tokenUsageBySession.get(taskSessionId) : undefined) ?? emptyTokenUsage
 
   const payload: DashboardPayload = {
     mainSession: {
@@ -236,7 +431,9 @@ export function buildDashboardPayload(opts: {
       total: plan.total,
       path: planPath,
       statusPill: planStatusPill(plan),
-      steps: planSteps.missing ? [] : planSteps.steps,
+      steps,
+      outline,
+      forecast,
     },
     backgroundTasks: tasks.map((t) => ({
       id: t.id,
@@ -247,9 +444,12 @@ export function buildDashboardPayload(opts: {
       toolCalls: t.toolCalls ?? 0,
       lastTool: t.lastTool ?? "-",
       timeline: typeof t.timeline === "string" ? t.timeline : "",
+      startedAt: t.startedAt ?? null,
+      endedAt: t.endedAt ?? null,
       sessionId: t.sessionId ?? null,
+      tokenUsage: tokenUsageFor(t.sessionId),
     })),
-    mainSessionTasks,
+    mainSessionTasks: mainSessionTasks.map((row) => ({ ...row, tokenUsage: tokenUsageFor(row.sessionId) })),
     timeSeries,
     tokenUsage,
     raw: null,
@@ -279,18 +479,44 @@ export function createDashboardStore(opts: {
   storageRoot: string
   pollIntervalMs?: number
   watch?: boolean
+  notifyDebounceMs?: number
+  tokenSink?: TokenUsageSink
+  prices?: PriceTable
+  planHistory?: PlanHistory
+  // Called with the transitions between successive auto-detected snapshots (see transitions.ts).
+  onTransitions?: (events: DashboardEvent[]) => void
 }): DashboardStore {
   const storage = getStorageRoots(opts.storageRoot)
   const pollIntervalMs = opts.pollIntervalMs ?? 2000
+  const notifyDebounceMs = opts.notifyDebounceMs ?? 250
   const watch = opts.watch !== false
 
-  let lastComputedAt = 0
-  let dirty = true
-  let cached: DashboardPayload | null = null
+  // Snapshots are cached per pinned session ("" = auto-detected) and time-series window;
+  // `version` bumps on every watcher event so each entry knows whether it is stale.
+  let version = 0
+  const cache = new Map<string, { payload: DashboardPayload; computedAt: number; version: number }>()
+  const MAX_CACHED_SNAPSHOTS = 8
+
+  const listeners = new Set<() => void>()
+  let notifyTimer: ReturnType<typeof setTimeout> | null = null
+
+  const notify = () => {
+    notifyTimer = null
+    for (const listener of listeners) {
+      try {
+        listener()
+      } catch {
+        // ignore
+      }
+    }
+  }
 
   const watchers: fs.FSWatcher[] = []
   const markDirty = () => {
-    dirty = true
+    version += 1
+    // fs.watch fires in bursts while OpenCode writes a message; coalesce them.
+    if (listeners.size === 0 || notifyTimer) return
+    notifyTimer = setTimeout(notify, notifyDebounceMs)
   }
 
   if (watch) {
@@ -314,15 +540,105 @@ export function createDashboardStore(opts: {
     })
   }
 
-  return {
-    getSnapshot() {
+  // One detector and log per session ("" = auto-detected). Only the auto-detected feed fires
+  // webhooks; pinned feeds exist so a tab viewing a pinned session still gets its dings.
+  type TransitionFeed = { detector: TransitionDetector; log: EventLog; readAt: number }
+  const createFeed = (): TransitionFeed => ({
+    detector: createTransitionDetector({ projectRoot: opts.projectRoot }),
+    log: createEventLog(),
+    readAt: 0,
+  })
+  const autoFeed = createFeed()
+  const pinnedFeeds = new Map<string, TransitionFeed>()
+  const MAX_PINNED_FEEDS = 8
+  // A reader counts as connected for a while after its last read; the UI reads after every push.
+  const READER_TIMEOUT_MS = 60_000
+
+  const getSnapshot: DashboardStore["getSnapshot"] = (snapshotOpts) => {
+    const now = Date.now()
+    const sessionId = snapshotOpts?.sessionId ?? null
+    const timeSeriesWindowMs = snapshotOpts?.timeSeriesWindowMs
+    const key = `${sessionId ?? ""}|${timeSeriesWindowMs ?? ""}`
+    const entry = cache.get(key)
+    if (entry && entry.version === version && now - entry.computedAt <= pollIntervalMs) {
+      return entry.payload
+    }
+
+    const payload = buildDashboardPayload({
+      projectRoot: opts.projectRoot,
+      storage,
+      sessionId,
+      timeSeriesWindowMs,
+      tokenSink: opts.tokenSink,
+      prices: opts.prices,
+      planHistory: opts.planHistory,
+    })
+    cache.delete(key)
+    cache.set(key, { payload, computedAt: now, version })
+    while (cache.size > MAX_CACHED_SNAPSHOTS) {
+      const oldest = cache.keys().next().value
+      if (oldest === undefined) break
+      cache.delete(oldest)
+    }
+
+    // Only snapshots with the default window feed a detector, so a wider chart in one tab
+    // can't produce phantom transitions.
+    const feed = timeSeriesWindowMs !== undefined ? undefined : sessionId === null ? autoFeed : pinnedFeeds.get(sessionId)
+    if (feed) {
+      const events = feed.detector.observe(payload, now)
+      if (events.length > 0) {
+        feed.log.append(events)
+        try {
+          if (feed === autoFeed) opts.onTransitions?.(events)
+        } catch {
+          // ignore
+        }
+      }
+    }
+    return payload
+  }
+
+  const pinnedFeedFor = (sessionId: string): TransitionFeed => {
+    const feed = pinnedFeeds.get(sessionId) ?? createFeed()
+    pinnedFeeds.delete(sessionId)
+    pinnedFeeds.set(sessionId, feed)
+    while (pinnedFeeds.size > MAX_PINNED_FEEDS) {
+      const oldest = pinnedFeeds.keys().next().value
+      if (oldest === undefined) break
+      pinnedFeeds.delete(oldest)
+    }
+    return feed
+  }
+
+  const readEvents: NonNullable<DashboardStore["readEvents"]> = (listOpts) => {
+    const sessionId = listOpts?.sessionId ?? null
+    const feed = sessionId === null ? autoFeed : pinnedFeedFor(sessionId)
+    feed.readAt = Date.now()
+    return feed.log.list(listOpts)
+  }
+
+  if (watch) {
+    // Transitions must be noticed even when no tab is streaming snapshots, but only while
+    // something consumes them: webhooks, or a tab that recently read the event log.
+    const timer = setInterval(() => {
       const now = Date.now()
-      if (!cached || dirty || now - lastComputedAt > pollIntervalMs) {
-        cached = buildDashboardPayload({ projectRoot: opts.projectRoot, storage })
-        lastComputedAt = now
-        dirty = false
+      if (opts.onTransitions || now - autoFeed.readAt <= READER_TIMEOUT_MS) getSnapshot()
+      for (const [sessionId, feed] of pinnedFeeds) {
+        if (now - feed.readAt <= READER_TIMEOUT_MS) getSnapshot({ sessionId })
+        else pinnedFeeds.delete(sessionId)
+      }
+    }, pollIntervalMs)
+    timer.unref?.()
+  }
+
+  return {
+    getSnapshot,
+    readEvents,
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
       }
-      return cached
     },
   }
 }
@@ -1,17 +1,32 @@
 #!/usr/bin/env bun
 import { Hono } from "hono"
+import { join } from "node:path"
 import { createApi } from "./api"
 import { createDashboardStore } from "./dashboard"
-import { getOpenCodeStorageDir } from "../ingest/paths"
+import { assignProjectIds } from "./projects"
+import { createTokenLedger, TOKEN_LEDGER_FILE } from "./token-ledger"
+import { createPlanHistory, PLAN_HISTORY_FILE } from "./plan-history"
+import { getDashboardDataDir, getOpenCodeStorageDir } from "../ingest/paths"
+import { getStorageRoots } from "../ingest/session"
+import { readAllSessionMetas } from "../ingest/background-tasks"
+import { backfillTokenUsage } from "../ingest/token-usage"
+import { loadPriceTable, PRICE_TABLE_FILE } from "../ingest/pricing"
+import { parsePrivacyMode, PRIVACY_MODES } from "./privacy"
+import { createRedactor, loadRedactionConfig, REDACTION_CONFIG_FILE } from "./redaction"
+import { createWebhookNotifier, parseWebhookUrls } from "./webhooks"
 
 const args = process.argv.slice(2)
-let projectPath: string | undefined;
+const projectPaths: string[] = [];
+const webhookArgs: string[] = [];
 let port = 51234;
+let revealToolInputs = false;
+let transcripts = false;
+let privacyArg: string | undefined;
 
 for (let i = 0; i < args.length; i++) {
   const arg = args[i];
   if (arg === '--project' && i + 1 < args.length) {
-    projectPath = args[i + 1];
+    projectPaths.push(args[i + 1]);
     i++;
   } else if (arg === '--port' && i + 1 < args.length) {
     const portValue = parseInt(args[i + 1], 10);
@@ -19,23 +34,69 @@ for (let i = 0; i < args.length; i++) {
       port = portValue;
     }
     i++;
+  } else if (arg === '--webhook' && i + 1 < args.length) {
+    webhookArgs.push(args[i + 1]);
+    i++;
+  } else if (arg === '--reveal-tool-inputs') {
+    revealToolInputs = true;
+  } else if (arg === '--transcripts') {
+    transcripts = true;
+  } else if (arg === '--privacy' && i + 1 < args.length) {
+    privacyArg = args[i + 1];
+    i++;
   }
 }
 
-const resolvedProjectPath = projectPath ?? process.cwd()
+if (projectPaths.length === 0) projectPaths.push(process.cwd())
+
+const privacy = parsePrivacyMode(privacyArg)
+if (!privacy) {
+  console.error(`Error: --privacy must be one of: ${PRIVACY_MODES.join(", ")}`)
+  process.exit(1)
+}
 
 const app = new Hono()
 
 const storageRoot = getOpenCodeStorageDir()
 
-const store = createDashboardStore({
-  projectRoot: resolvedProjectPath,
-  storageRoot,
-  watch: true,
-  pollIntervalMs: 2000,
-})
+const tokenLedger = createTokenLedger({ filePath: join(getDashboardDataDir(), TOKEN_LEDGER_FILE) })
+
+const planHistory = createPlanHistory({ filePath: join(getDashboardDataDir(), PLAN_HISTORY_FILE) })
 
-app.route("/api", createApi({ store, storageRoot, projectRoot: resolvedProjectPath }))
+const prices = loadPriceTable({ filePath: join(getDashboardDataDir(), PRICE_TABLE_FILE) })
+
+const redactor = createRedactor(loadRedactionConfig({ filePath: join(getDashboardDataDir(), REDACTION_CONFIG_FILE) }))
+
+const webhookUrls = parseWebhookUrls(webhookArgs)
+const webhooks = webhookUrls.length > 0 ? createWebhookNotifier({ urls: webhookUrls }) : null
+
+const projects = assignProjectIds(projectPaths).map((ref) => ({
+  ...ref,
+  store: createDashboardStore({
+    projectRoot: ref.projectRoot,
+    storageRoot,
+    watch: true,
+    pollIntervalMs: 2000,
+    tokenSink: tokenLedger,
+    planHistory,
+    prices,
+    onTransitions: webhooks ? (events) => void webhooks.send(redactor.redactValue(events)) : undefined,
+  }),
+}))
+const [defaultProject] = projects
+
+app.route("/api", createApi({
+  store: defaultProject.store,
+  storageRoot,
+  projectRoot: defaultProject.projectRoot,
+  projects,
+  tokenLedger,
+  planHistory,
+  redactor,
+  revealToolInputs,
+  transcripts,
+  privacy,
+}))
 
 Bun.serve({
   fetch: app.fetch,
@@ -44,3 +105,16 @@ Bun.serve({
 })
 
 console.log(`Server running at http://127.0.0.1:${port}`)
+console.log(`Privacy mode: ${privacy}`)
+
+// Backfill recent sessions once the server is listening so history also covers
+// sessions this dashboard never displayed.
+setTimeout(() => {
+  const storage = getStorageRoots(storageRoot)
+  backfillTokenUsage({
+    storage,
+    sessionMetas: readAllSessionMetas(storage.session),
+    sink: tokenLedger,
+    sinceMs: Date.now() - 14 * 86_400_000,
+  })
+}, 0)
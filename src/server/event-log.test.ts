@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest"
+import { createEventLog } from "./event-log"
+import type { DashboardEvent } from "./transitions"
+
+function mkEvents(count: number): DashboardEvent[] {
+  return Array.from({ length: count }, (_, idx) => ({
+    type: "task.started" as const,
+    atMs: idx,
+    projectRoot: "/work/app",
+    sessionId: null,
+  }))
+}
+
+describe("createEventLog", () => {
+  it("keeps only the newest events and reports evicted gaps", () => {
+    // #given
+    const log = createEventLog({ capacity: 3 })
+
+    // #when
+    log.append(mkEvents(5))
+    const page = log.list({ since: 0 })
+
+    // #then
+    expect(page.events.map((e) => e.seq)).toEqual([3, 4, 5])
+    expect(page.truncated).toBe(true)
+    expect(page.latestSeq).toBe(5)
+    expect(log.list({ since: 3 })).toMatchObject({ truncated: false, nextSince: 5 })
+    expect(log.list({ since: 3 }).events.map((e) => e.seq)).toEqual([4, 5])
+  })
+
+  it("hands back the latest sequence when the caller is ahead of the log", () => {
+    // #given
+    const log = createEventLog()
+    log.append(mkEvents(2))
+
+    // #when
+    const page = log.list({ since: 40 })
+
+    // #then
+    expect(page.events).toEqual([])
+    expect(page.nextSince).toBe(2)
+  })
+
+  it("starts every log in a new epoch", () => {
+    // #given: the same events before and after a restart
+    const before = createEventLog()
+    const after = createEventLog()
+    before.append(mkEvents(3))
+    after.append(mkEvents(1))
+
+    // #when
+    const pages = [before.list(), after.list()]
+
+    // #then
+    expect(pages[0].epoch).not.toBe(pages[1].epoch)
+    expect(before.list().epoch).toBe(pages[0].epoch)
+    expect(createEventLog({ epoch: "boot-1" }).list().epoch).toBe("boot-1")
+  })
+})
@@ -0,0 +1,64 @@
+import { randomUUID } from "node:crypto"
+import type { DashboardEvent } from "./transitions"
+
+export type LoggedDashboardEvent = DashboardEvent & { seq: number }
+
+export type EventLogPage = {
+  // Differs between logs, e.g. before and after a server restart; sequence numbers only
+  // compare within one epoch.
+  epoch: string
+  events: LoggedDashboardEvent[]
+  // Highest sequence number handed out so far (0 before the first event).
+  latestSeq: number
+  // What to pass as `since` next time. Drops back to `latestSeq` when the caller is ahead of
+  // the log (a `since` from another epoch).
+  nextSince: number
+  // True when events newer than `since` were already evicted from the buffer.
+  truncated: boolean
+}
+
+export type EventLog = {
+  append: (events: DashboardEvent[]) => LoggedDashboardEvent[]
+  list: (opts?: { since?: number; limit?: number }) => EventLogPage
+}
+
+export const EVENT_LOG_CAPACITY = 200
+export const EVENT_LOG_MAX_PAGE = 100
+
+// Bounded in-memory ring buffer: the newest `capacity` events survive, sequence numbers never repeat.
+export function createEventLog(opts?: { capacity?: number; epoch?: string }): EventLog {
+  const capacity = Math.max(1, opts?.capacity ?? EVENT_LOG_CAPACITY)
+  const epoch = opts?.epoch ?? randomUUID()
+  const buffer: Array<LoggedDashboardEvent | undefined> = new Array(capacity)
+  let latestSeq = 0
+
+  return {
+    append(events) {
+      return events.map((event) => {
+        latestSeq += 1
+        const logged = { ...event, seq: latestSeq }
+        buffer[latestSeq % capacity] = logged
+        return logged
+      })
+    },
+    list(listOpts) {
+      const since = Math.max(0, listOpts?.since ?? 0)
+      const limit = Math.min(EVENT_LOG_MAX_PAGE, Math.max(1, listOpts?.limit ?? EVENT_LOG_MAX_PAGE))
+      const oldestSeq = Math.max(1, latestSeq - capacity + 1)
+      const from = Math.max(since + 1, oldestSeq)
+
+      const events: LoggedDashboardEvent[] = []
+      for (let seq = from; seq <= latestSeq && events.length < limit; seq++) {
+        const event = buffer[seq % capacity]
+        if (event && event.seq === seq) events.push(event)
+      }
+      return {
+        epoch,
+        events,
+        latestSeq,
+        nextSince: events.length > 0 ? events[events.length - 1].seq : latestSeq,
+        truncated: latestSeq > 0 && since + 1 < oldestSeq,
+      }
+    },
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+import { forecastPlanCompletion } from "./plan-forecast"
+import type { PlanStepEvent } from "./plan-history"
+
+const MIN = 60_000
+
+function completion(atMs: number, text = `step at ${atMs}`): PlanStepEvent {
+  return { projectRoot: "/p", planPath: "/p/plan.md", kind: "completed", text, occurrence: 0, atMs, sessionId: null }
+}
+
+describe("forecastPlanCompletion", () => {
+  it("projects the recent pace onto the remaining steps with an interquartile range", () => {
+    // #given: steps took 5m, 10m, 15m and 10m
+    const events = [0, 5, 15, 30, 40].map((m) => completion(m * MIN))
+
+    // #when
+    const forecast = forecastPlanCompletion({ events, completed: 5, total: 8, nowMs: 45 * MIN })
+
+    // #then: 30m of work from the last completion at 40m, 5m of which have passed
+    expect(forecast).toEqual({
+      remainingSteps: 3,
+      etaMs: 25 * MIN,
+      etaLowMs: (3 * 8.75 - 5) * MIN,
+      etaHighMs: (3 * 11.25 - 5) * MIN,
+      finishAtMs: 70 * MIN,
+      msPerStep: 10 * MIN,
+      samples: 4,
+    })
+  })
+
+  it("counts down from the last completion while no step is checked, then gives up", () => {
+    const events = [0, 5, 15, 30, 40].map((m) => completion(m * MIN))
+
+    const stalled = forecastPlanCompletion({ events, completed: 5, total: 8, nowMs: 60 * MIN })
+    const overdue = forecastPlanCompletion({ events, completed: 5, total: 8, nowMs: 90 * MIN })
+    const paused = forecastPlanCompletion({ events, completed: 5, total: 8, nowMs: 3 * 60 * MIN })
+
+    expect(stalled).toMatchObject({ etaMs: 10 * MIN, finishAtMs: 70 * MIN })
+    expect(overdue).toMatchObject({ etaMs: 0, etaLowMs: 0, etaHighMs: 0, finishAtMs: 70 * MIN })
+    expect(paused).toBe(null)
+  })
+
+  it("spreads a gap across steps checked in one edit and skips long pauses", () => {
+    const events = [
+      completion(0),
+      completion(10 * MIN, "a"),
+      completion(10 * MIN, "b"),
+      completion(20 * MIN),
+      completion(5 * 60 * MIN),
+    ]
+
+    const forecast = forecastPlanCompletion({ events, completed: 4, total: 6, nowMs: 5 * 60 * MIN })
+
+    // 20 minutes of work for 3 steps; the overnight gap is ignored.
+    expect(forecast?.samples).toBe(2)
+    expect(forecast?.msPerStep).toBe(Math.round((20 * MIN) / 3))
+    expect(forecast?.etaLowMs).toBeLessThanOrEqual(forecast?.etaMs ?? 0)
+    expect(forecast?.etaHighMs).toBeGreaterThanOrEqual(forecast?.etaMs ?? 0)
+  })
+
+  it("returns null without enough history or when nothing is left", () => {
+    const events = [0, 5, 10].map((m) => completion(m * MIN))
+
+    expect(forecastPlanCompletion({ events: events.slice(0, 2), completed: 2, total: 5, nowMs: 0 })).toBe(null)
+    expect(forecastPlanCompletion({ events, completed: 5, total: 5, nowMs: 0 })).toBe(null)
+    expect(forecastPlanCompletion({ events, completed: 0, total: 0, nowMs: 0 })).toBe(null)
+    expect(
+      forecastPlanCompletion({ events: events.map((e) => ({ ...e, kind: "reopened" as const })), completed: 1, total: 5, nowMs: 0 })
+    ).toBe(null)
+  })
+})
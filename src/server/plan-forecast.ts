@@ -0,0 +1,81 @@
+import type { PlanStepEvent } from "./plan-history"
+
+export type PlanForecast = {
+  remainingSteps: number
+  // Time left from `nowMs`; the clock started at the last completion, so it shrinks while no
+  // step is checked.
+  etaMs: number
+  // Interquartile range of the recent per-step times, scaled to the remaining steps.
+  etaLowMs: number
+  etaHighMs: number
+  finishAtMs: number
+  msPerStep: number
+  // Gaps between completions the estimate is based on.
+  samples: number
+}
+
+// Only the last few completions count, so the estimate follows the current pace.
+export const FORECAST_WINDOW = 10
+export const MIN_FORECAST_SAMPLES = 2
+// Longer gaps are pauses (the agent stopped, someone went home), not the time a step took.
+const PAUSE_MS = 60 * 60_000
+
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 1) return sorted[0]
+  const pos = (sorted.length - 1) * q
+  const lo = Math.floor(pos)
+  const hi = Math.ceil(pos)
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo)
+}
+
+// Flips noticed in the same parse are one edit that checked several steps; the gap before
+// that edit is spread across them. No forecast once the last completion is older than a pause:
+// the old pace says nothing about when work resumes.
+export function forecastPlanCompletion(opts: {
+  events: PlanStepEvent[]
+  completed: number
+  total: number
+  nowMs: number
+}): PlanForecast | null {
+  const remainingSteps = opts.total - opts.completed
+  if (opts.total === 0 || remainingSteps <= 0) return null
+
+  const groups: Array<{ atMs: number; steps: number }> = []
+  for (const event of opts.events) {
+    if (event.kind !== "completed") continue
+    const last = groups[groups.length - 1]
+    if (last && last.atMs === event.atMs) last.steps += 1
+    else groups.push({ atMs: event.atMs, steps: 1 })
+  }
+  const recent = groups.slice(-(FORECAST_WINDOW + 1))
+  const lastCompletionAt = recent[recent.length - 1]?.atMs
+  if (lastCompletionAt === undefined || opts.nowMs - lastCompletionAt > PAUSE_MS) return null
+
+  const perStep: number[] = []
+  let workedMs = 0
+  let workedSteps = 0
+  for (let i = 1; i < recent.length; i++) {
+    const gapMs = recent[i].atMs - recent[i - 1].atMs
+    if (gapMs <= 0 || gapMs > PAUSE_MS) continue
+    perStep.push(gapMs / recent[i].steps)
+    workedMs += gapMs
+    workedSteps += recent[i].steps
+  }
+  if (perStep.length < MIN_FORECAST_SAMPLES) return null
+
+  const msPerStep = workedMs / workedSteps
+  const sorted = [...perStep].sort((a, b) => a - b)
+  const totalMs = Math.round(msPerStep * remainingSteps)
+  const lowMs = Math.min(totalMs, Math.round(quantile(sorted, 0.25) * remainingSteps))
+  const highMs = Math.max(totalMs, Math.round(quantile(sorted, 0.75) * remainingSteps))
+  const left = (ms: number) => Math.max(0, lastCompletionAt + ms - opts.nowMs)
+  return {
+    remainingSteps,
+    etaMs: left(totalMs),
+    etaLowMs: left(lowMs),
+    etaHighMs: left(highMs),
+    finishAtMs: lastCompletionAt + totalMs,
+    msPerStep: Math.round(msPerStep),
+    samples: perStep.length,
+  }
+}
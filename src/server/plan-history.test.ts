@@ -0,0 +1,147 @@
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { describe, expect, it } from "vitest"
+import { buildPlanBurnup, createPlanHistory, withOutlineCompletions, withStepCompletions } from "./plan-history"
+import { getPlanOutlineFromMarkdown } from "../ingest/boulder"
+
+function mkHistoryPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "omo-plan-history-"))
+  return path.join(dir, "nested", "plan-history.jsonl")
+}
+
+const plan = { projectRoot: "/work/app", planPath: "/work/app/.sisyphus/plans/p.md" }
+
+describe("createPlanHistory", () => {
+  it("seeds on the first parse, then logs flips and reloads them from disk", () => {
+    // #given
+    const filePath = mkHistoryPath()
+    const history = createPlanHistory({ filePath })
+
+    // #when
+    history.observe({ ...plan, sessionId: "ses_1", nowMs: 1000, steps: [
+      { checked: true, text: "a" },
+      { checked: false, text: "b" },
+      { checked: false, text: "b" },
+    ] })
+    const flipped = history.observe({ ...plan, sessionId: "ses_1", nowMs: 2000, steps: [
+      { checked: false, text: "a" },
+      { checked: false, text: "b" },
+      { checked: true, text: "b" },
+    ] })
+    history.observe({ ...plan, sessionId: "ses_2", nowMs: 3000, steps: [] })
+    history.observe({ ...plan, sessionId: "ses_2", nowMs: 4000, steps: [
+      { checked: false, text: "a" },
+      { checked: false, text: "b" },
+      { checked: true, text: "b" },
+    ] })
+
+    // #then
+    expect(flipped.map((e) => [e.kind, e.text, e.occurrence, e.atMs, e.sessionId])).toEqual([
+      ["reopened", "a", 0, 2000, "ses_1"],
+      ["completed", "b", 1, 2000, "ses_1"],
+    ])
+    expect(history.size()).toBe(2)
+    expect(fs.readFileSync(filePath, "utf8").trim().split("\n")).toHaveLength(2)
+
+    fs.appendFileSync(filePath, "{torn", "utf8")
+    const reloaded = createPlanHistory({ filePath })
+    expect(reloaded.list(plan).map((e) => e.kind)).toEqual(["reopened", "completed"])
+    expect(reloaded.list({ ...plan, planPath: "/other.md" })).toEqual([])
+  })
+
+  it("credits completions to the attributed task, asking only when a step was checked", () => {
+    // #given
+    const filePath = mkHistoryPath()
+    const history = createPlanHistory({ filePath })
+    const by = { taskId: "call_task", sessionId: "ses_task", toolCall: { callId: "call_edit", messageId: "msg_1", tool: "edit" } }
+    let asked = 0
+    const attribute = () => {
+      asked += 1
+      return by
+    }
+
+    // #when
+    history.observe({ ...plan, sessionId: "ses_1", nowMs: 1000, attribute, steps: [
+      { checked: true, text: "a" },
+      { checked: false, text: "b" },
+      { checked: false, text: "c" },
+    ] })
+    history.observe({ ...plan, sessionId: "ses_1", nowMs: 2000, attribute, steps: [
+      { checked: false, text: "a" },
+      { checked: false, text: "b" },
+      { checked: false, text: "c" },
+    ] })
+    history.observe({ ...plan, sessionId: "ses_1", nowMs: 3000, attribute, steps: [
+      { checked: false, text: "a" },
+      { checked: true, text: "b" },
+      { checked: true, text: "c" },
+    ] })
+    fs.appendFileSync(filePath, JSON.stringify({ ...plan, kind: "completed", text: "a", occurrence: 0, atMs: 4000 }) + "\n")
+    const reloaded = createPlanHistory({ filePath })
+
+    // #then
+    expect(asked).toBe(1)
+    expect(reloaded.list(plan).map((e) => [e.kind, e.text, e.completedBy])).toEqual([
+      ["reopened", "a", null],
+      ["completed", "b", by],
+      ["completed", "c", by],
+      ["completed", "a", undefined],
+    ])
+  })
+})
+
+describe("withStepCompletions", () => {
+  it("attaches the latest completion time to checked steps, in steps and outline alike", () => {
+    // #given
+    const history = createPlanHistory({ filePath: mkHistoryPath() })
+    const after = "## Phase\n- [x] a\n  - [ ] b\n- [x] b"
+    history.observe({ ...plan, sessionId: null, nowMs: 1000, steps: [
+      { checked: false, text: "a" },
+      { checked: false, text: "b" },
+      { checked: false, text: "b" },
+    ] })
+    history.observe({ ...plan, sessionId: null, nowMs: 5000, steps: [
+      { checked: true, text: "a" },
+      { checked: false, text: "b" },
+      { checked: true, text: "b" },
+    ] })
+    const events = history.list(plan)
+
+    // #when
+    const steps = withStepCompletions(
+      [
+        { checked: true, text: "a" },
+        { checked: false, text: "b" },
+        { checked: true, text: "b" },
+      ],
+      events
+    )
+    const outline = withOutlineCompletions(getPlanOutlineFromMarkdown(after), events)
+
+    // #then
+    expect(steps.map((s) => s.completedAtMs)).toEqual([5000, null, 5000])
+    expect(steps.map((s) => s.completedBy)).toEqual([null, null, null])
+    expect(outline[0].tasks[0]).toMatchObject({ completedAtMs: 5000, children: [{ text: "b", completedAtMs: null }] })
+    expect(outline[0].tasks[1].completedAtMs).toBe(5000)
+  })
+})
+
+describe("buildPlanBurnup", () => {
+  it("walks back from the current count into a step-after series", () => {
+    const events = [
+      { ...plan, kind: "completed" as const, text: "a", occurrence: 0, atMs: 1000, sessionId: null },
+      { ...plan, kind: "completed" as const, text: "b", occurrence: 0, atMs: 2000, sessionId: null },
+      { ...plan, kind: "reopened" as const, text: "a", occurrence: 0, atMs: 3000, sessionId: null },
+    ]
+
+    expect(buildPlanBurnup({ events, completed: 2, nowMs: 9000 })).toEqual([
+      { atMs: 1000, completed: 1 },
+      { atMs: 1000, completed: 2 },
+      { atMs: 2000, completed: 3 },
+      { atMs: 3000, completed: 2 },
+      { atMs: 9000, completed: 2 },
+    ])
+    expect(buildPlanBurnup({ events: [], completed: 4, nowMs: 9000 })).toEqual([{ atMs: 9000, completed: 4 }])
+  })
+})
@@ -0,0 +1,280 @@
+import * as fs from "node:fs"
+import * as path from "node:path"
+import type { PlanOutlineSection, PlanOutlineTask, PlanStep, PlanStepAttribution } from "../ingest/boulder"
+
+export type PlanStepEventKind = "completed" | "reopened"
+
+export type PlanStepEvent = {
+  projectRoot: string
+  // Absolute path of the plan file.
+  planPath: string
+  kind: PlanStepEventKind
+  text: string
+  // 0 for the first step with this text in the plan, 1 for the second, ...
+  occurrence: number
+  atMs: number
+  // The auto-detected main session when the flip was noticed.
+  sessionId: string | null
+  // Completions only; null when nothing could be credited, absent in logs written before attribution.
+  completedBy?: PlanStepAttribution | null
+}
+
+export type PlanBurnupPoint = {
+  atMs: number
+  completed: number
+}
+
+export type PlanHistoryPayload = {
+  planPath: string | null
+  completed: number
+  total: number
+  events: Array<Pick<PlanStepEvent, "kind" | "text" | "atMs" | "sessionId"> & { completedBy: PlanStepAttribution | null }>
+  points: PlanBurnupPoint[]
+}
+
+export type PlanHistory = {
+  // Diffs `steps` against the previous call for the same plan and logs the flips.
+  observe: (opts: {
+    projectRoot: string
+    planPath: string
+    steps: PlanStep[]
+    sessionId: string | null
+    // Called at most once, and only when a step was checked in this parse.
+    attribute?: () => PlanStepAttribution | null
+    nowMs?: number
+  }) => PlanStepEvent[]
+  // Oldest first.
+  list: (opts: { projectRoot: string; planPath: string }) => PlanStepEvent[]
+  size: () => number
+}
+
+export const PLAN_HISTORY_FILE = "plan-history.jsonl"
+
+function isPlanStepEvent(value: unknown): value is PlanStepEvent {
+  if (!value || typeof value !== "object") return false
+  const rec = value as Record<string, unknown>
+  return (
+    typeof rec.projectRoot === "string" &&
+    typeof rec.planPath === "string" &&
+    (rec.kind === "completed" || rec.kind === "reopened") &&
+    typeof rec.text === "string" &&
+    typeof rec.occurrence === "number" &&
+    typeof rec.atMs === "number"
+  )
+}
+
+function readAttribution(value: unknown): PlanStepAttribution | null {
+  if (!value || typeof value !== "object") return null
+  const rec = value as Record<string, unknown>
+  if (typeof rec.taskId !== "string" || !rec.taskId) return null
+  const call = rec.toolCall && typeof rec.toolCall === "object" ? (rec.toolCall as Record<string, unknown>) : null
+  const toolCall =
+    call && typeof call.callId === "string" && typeof call.messageId === "string" && typeof call.tool === "string"
+      ? { callId: call.callId, messageId: call.messageId, tool: call.tool }
+      : null
+  return { taskId: rec.taskId, sessionId: typeof rec.sessionId === "string" ? rec.sessionId : null, toolCall }
+}
+
+function readHistoryFile(filePath: string): PlanStepEvent[] {
+  let content: string
+  try {
+    content = fs.readFileSync(filePath, "utf8")
+  } catch {
+    return []
+  }
+
+  const events: PlanStepEvent[] = []
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue
+    try {
+      const parsed = JSON.parse(line) as unknown
+      if (!isPlanStepEvent(parsed)) continue
+      const { completedBy, ...event } = parsed
+      events.push({
+        ...event,
+        sessionId: event.sessionId ?? null,
+        ...(completedBy !== undefined ? { completedBy: readAttribution(completedBy) } : {}),
+      })
+    } catch {
+      // A torn final line from a crash is skipped, not fatal.
+      continue
+    }
+  }
+  return events
+}
+
+function planKey(projectRoot: string, planPath: string): string {
+  return `${projectRoot}\u0000${planPath}`
+}
+
+// Steps have no ids, so they are keyed by text plus how many earlier steps share that text.
+function createStepKeyer(): (text: string) => { key: string; occurrence: number } {
+  const seen = new Map<string, number>()
+  return (text) => {
+    const occurrence = seen.get(text) ?? 0
+    seen.set(text, occurrence + 1)
+    return { key: `${occurrence}:${text}`, occurrence }
+  }
+}
+
+function stepEventKey(event: Pick<PlanStepEvent, "text" | "occurrence">): string {
+  return `${event.occurrence}:${event.text}`
+}
+
+type StepCompletion = { completedAtMs: number | null; completedBy: PlanStepAttribution | null }
+
+const NOT_COMPLETED: StepCompletion = { completedAtMs: null, completedBy: null }
+
+// Latest event per step wins, so a step that was reopened and checked again reports the second time.
+function stepCompletions(events: PlanStepEvent[]): Map<string, StepCompletion> {
+  const completions = new Map<string, StepCompletion>()
+  for (const event of events) {
+    if (event.kind === "completed") {
+      completions.set(stepEventKey(event), { completedAtMs: event.atMs, completedBy: event.completedBy ?? null })
+    } else {
+      completions.delete(stepEventKey(event))
+    }
+  }
+  return completions
+}
+
+export function withStepCompletions(steps: PlanStep[], events: PlanStepEvent[]): PlanStep[] {
+  const completions = stepCompletions(events)
+  const keyer = createStepKeyer()
+  return steps.map((step) => {
+    const { key } = keyer(step.text)
+    return { ...step, ...(step.checked ? completions.get(key) ?? NOT_COMPLETED : NOT_COMPLETED) }
+  })
+}
+
+// Walks the outline in document order, the same order `getPlanStepsFromMarkdown` flattens it in.
+export function withOutlineCompletions(
+  sections: PlanOutlineSection[],
+  events: PlanStepEvent[]
+): PlanOutlineSection[] {
+  const completions = stepCompletions(events)
+  const keyer = createStepKeyer()
+  const mapTasks = (tasks: PlanOutlineTask[]): PlanOutlineTask[] =>
+    tasks.map((task) => {
+      const { key } = keyer(task.text)
+      const completion = task.checked ? completions.get(key) ?? NOT_COMPLETED : NOT_COMPLETED
+      return { ...task, ...completion, children: mapTasks(task.children) }
+    })
+  const mapSections = (list: PlanOutlineSection[]): PlanOutlineSection[] =>
+    list.map((section) => {
+      const tasks = mapTasks(section.tasks)
+      return { ...section, tasks, sections: mapSections(section.sections) }
+    })
+  return mapSections(sections)
+}
+
+// Step-after series (each point holds until the next one). Walks back from the current count,
+// so it needs no stored baseline and ends at "now".
+export function buildPlanBurnup(opts: { events: PlanStepEvent[]; completed: number; nowMs: number }): PlanBurnupPoint[] {
+  const points: PlanBurnupPoint[] = [{ atMs: opts.nowMs, completed: opts.completed }]
+  let completed = opts.completed
+  for (let i = opts.events.length - 1; i >= 0; i--) {
+    const event = opts.events[i]
+    points.push({ atMs: event.atMs, completed })
+    completed = Math.max(0, completed + (event.kind === "completed" ? -1 : 1))
+  }
+  if (opts.events.length > 0) points.push({ atMs: opts.events[0].atMs, completed })
+  return points.reverse()
+}
+
+export function buildPlanHistoryPayload(opts: {
+  history: PlanHistory
+  projectRoot: string
+  planPath: string | null
+  completed: number
+  total: number
+  nowMs?: number
+}): PlanHistoryPayload {
+  const nowMs = opts.nowMs ?? Date.now()
+  const events = opts.planPath ? opts.history.list({ projectRoot: opts.projectRoot, planPath: opts.planPath }) : []
+  return {
+    planPath: opts.planPath,
+    completed: opts.completed,
+    total: opts.total,
+    events: events.map((e) => ({
+      kind: e.kind,
+      text: e.text,
+      atMs: e.atMs,
+      sessionId: e.sessionId,
+      completedBy: e.completedBy ?? null,
+    })),
+    points: buildPlanBurnup({ events, completed: opts.completed, nowMs }),
+  }
+}
+
+// Append-only JSON-lines log of checkbox flips, shared by every project this server watches.
+// The first parse of a plan after startup only seeds state: flips made while the server was
+// down have no reliable timestamp, so they are not logged. Steps whose text changes in the same
+// edit that checks them look like a new step and are not logged either.
+export function createPlanHistory(opts: { filePath: string }): PlanHistory {
+  const eventsByPlan = new Map<string, PlanStepEvent[]>()
+  let count = 0
+  for (const event of readHistoryFile(opts.filePath)) {
+    const key = planKey(event.projectRoot, event.planPath)
+    const list = eventsByPlan.get(key) ?? []
+    list.push(event)
+    eventsByPlan.set(key, list)
+    count += 1
+  }
+  const previousByPlan = new Map<string, Map<string, boolean>>()
+
+  return {
+    observe(observeOpts) {
+      // An empty parse is usually a plan file caught mid-write; keep the last known state.
+      if (observeOpts.steps.length === 0) return []
+
+      const key = planKey(observeOpts.projectRoot, observeOpts.planPath)
+      const keyer = createStepKeyer()
+      const current = new Map<string, boolean>()
+      const fresh: PlanStepEvent[] = []
+      const previous = previousByPlan.get(key)
+      const atMs = observeOpts.nowMs ?? Date.now()
+      let attribution: PlanStepAttribution | null | undefined
+      const completedBy = (): PlanStepAttribution | null => {
+        if (attribution === undefined) attribution = observeOpts.attribute?.() ?? null
+        return attribution
+      }
+      for (const step of observeOpts.steps) {
+        const { key: stepKey, occurrence } = keyer(step.text)
+        current.set(stepKey, step.checked)
+        const before = previous?.get(stepKey)
+        if (before === undefined || before === step.checked) continue
+        fresh.push({
+          projectRoot: observeOpts.projectRoot,
+          planPath: observeOpts.planPath,
+          kind: step.checked ? "completed" : "reopened",
+          text: step.text,
+          occurrence,
+          atMs,
+          sessionId: observeOpts.sessionId,
+          completedBy: step.checked ? completedBy() : null,
+        })
+      }
+      previousByPlan.set(key, current)
+      if (fresh.length === 0) return []
+
+      const list = eventsByPlan.get(key) ?? []
+      list.push(...fresh)
+      eventsByPlan.set(key, list)
+      count += fresh.length
+      try {
+        fs.mkdirSync(path.dirname(opts.filePath), { recursive: true })
+        fs.appendFileSync(opts.filePath, fresh.map((e) => JSON.stringify(e)).join("\n") + "\n", "utf8")
+      } catch {
+        // Best-effort: history stays in memory for this process.
+      }
+      return fresh
+    },
+    list(listOpts) {
+      return [...(eventsByPlan.get(planKey(listOpts.projectRoot, listOpts.planPath)) ?? [])]
+    },
+    size() {
+      return count
+    },
+  }
+}
@@ -0,0 +1,38 @@
+// "debug" is this fork's behaviour (tool output/errors are served); "strict" restores the
+// original dashboard's metadata-only view.
+export type PrivacyMode = "strict" | "debug"
+
+export const PRIVACY_MODES: PrivacyMode[] = ["strict", "debug"]
+export const DEFAULT_PRIVACY_MODE: PrivacyMode = "debug"
+
+const TOOL_OUTPUT_KEYS = new Set(["output", "error", "input"])
+
+export function parsePrivacyMode(value: string | undefined): PrivacyMode | null {
+  const trimmed = typeof value === "string" ? value.trim().toLowerCase() : ""
+  if (!trimmed) return DEFAULT_PRIVACY_MODE
+  return PRIVACY_MODES.find((mode) => mode === trimmed) ?? null
+}
+
+// Tool-call summaries and details (`ToolCallSummary`, `ToolCallDetail`) are the only shapes that
+// carry output, errors or arguments. Other objects keep their `input`/`output` keys, e.g. token counts.
+function isToolCall(rec: Record<string, unknown>): boolean {
+  return typeof rec.callId === "string" && typeof rec.tool === "string"
+}
+
+// Deep copy with output, errors and arguments removed from every tool call, wherever it is nested.
+export function stripToolOutputs<T>(value: T): T {
+  const strip = (v: unknown): unknown => {
+    if (Array.isArray(v)) return v.map(strip)
+    if (v && typeof v === "object") {
+      const rec = v as Record<string, unknown>
+      const toolCall = isToolCall(rec)
+      const out: Record<string, unknown> = {}
+      for (const [key, child] of Object.entries(rec)) {
+        if (!toolCall || !TOOL_OUTPUT_KEYS.has(key)) out[key] = strip(child)
+      }
+      return out
+    }
+    return v
+  }
+  return strip(value) as T
+}
@@ -0,0 +1,21 @@
+import * as path from "node:path"
+import { describe, expect, it } from "vitest"
+import { assignProjectIds } from "./projects"
+
+describe("assignProjectIds", () => {
+  it("derives slug ids from directory names and dedupes collisions", () => {
+    const refs = assignProjectIds(["/work/app", "/tmp/wt/app", "/work/My Service!"])
+
+    expect(refs).toEqual([
+      { id: "app", label: "app", projectRoot: path.resolve("/work/app") },
+      { id: "app-2", label: "app", projectRoot: path.resolve("/tmp/wt/app") },
+      { id: "my-service", label: "My Service!", projectRoot: path.resolve("/work/My Service!") },
+    ])
+  })
+
+  it("drops repeated roots and falls back to a generic id", () => {
+    const refs = assignProjectIds(["/work/app", "/work/app/", "/work/___"])
+
+    expect(refs.map((r) => r.id)).toEqual(["app", "project"])
+  })
+})
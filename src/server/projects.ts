@@ -0,0 +1,82 @@
+import * as path from "node:path"
+import type { DashboardPayload, DashboardStore, LegacyDashboardPayload } from "./dashboard"
+
+export type ProjectRef = {
+  id: string
+  label: string
+  projectRoot: string
+}
+
+export type DashboardProject = ProjectRef & {
+  store: DashboardStore
+}
+
+export type ProjectSummary = ProjectRef & {
+  mainSession: {
+    agent: string
+    session: string
+    statusPill: string
+  }
+  planProgress: {
+    name: string
+    completed: number
+    total: number
+    statusPill: string
+  }
+}
+
+function slugify(value: string): string {
+  const slug = value
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "-")
+    .replace(/^[-_]+|[-_]+$/g, "")
+    .slice(0, 56)
+  return slug || "project"
+}
+
+// Ids are derived from the directory name so URLs stay readable; duplicates (e.g. two
+// worktrees both named "app") get a numeric suffix in flag order.
+export function assignProjectIds(projectRoots: string[]): ProjectRef[] {
+  const refs: ProjectRef[] = []
+  const taken = new Set<string>()
+  const seenRoots = new Set<string>()
+
+  for (const raw of projectRoots) {
+    const projectRoot = path.resolve(raw)
+    if (seenRoots.has(projectRoot)) continue
+    seenRoots.add(projectRoot)
+
+    const label = path.basename(projectRoot) || projectRoot
+    const base = slugify(label)
+    let id = base
+    for (let n = 2; taken.has(id); n++) {
+      id = `${base}-${n}`
+    }
+    taken.add(id)
+    refs.push({ id, label, projectRoot })
+  }
+
+  return refs
+}
+
+export function summarizeProject(
+  project: ProjectRef,
+  snapshot: DashboardPayload | LegacyDashboardPayload
+): ProjectSummary {
+  return {
+    id: project.id,
+    label: project.label,
+    projectRoot: project.projectRoot,
+    mainSession: {
+      agent: snapshot.mainSession.agent,
+      session: snapshot.mainSession.session,
+      statusPill: snapshot.mainSession.statusPill,
+    },
+    planProgress: {
+      name: snapshot.planProgress.name,
+      completed: snapshot.planProgress.completed,
+      total: snapshot.planProgress.total,
+      statusPill: snapshot.planProgress.statusPill,
+    },
+  }
+}
@@ -0,0 +1,136 @@
+import * as fs from "node:fs"
+import * as os from "node:os"
+
+export type RedactionRule = {
+  id: string
+  pattern: RegExp
+  // String replacement; `$1`-style group references are supported.
+  replacement: string
+}
+
+export type RedactionConfig = {
+  rules: RedactionRule[]
+  // Strings longer than this are cut after redaction; 0 disables truncation.
+  maxStringLength: number
+}
+
+export type Redactor = {
+  redactString: (value: string) => string
+  // Returns a redacted deep copy; objects and arrays are never mutated in place. Values under
+  // `keepKeys` (at any depth) are copied as they are.
+  redactValue: <T>(value: T, opts?: { keepKeys?: ReadonlySet<string> }) => T
+}
+
+export const REDACTION_CONFIG_FILE = "redaction.json"
+export const DEFAULT_MAX_STRING_LENGTH = 4000
+
+// Ordered: token-shaped secrets first so the broader assignment/email rules don't split them.
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { id: "private-key", pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g, replacement: "[REDACTED:private-key]" },
+  { id: "bearer", pattern: /\b(Bearer)\s+[A-Za-z0-9._~+/=-]{8,}/gi, replacement: "$1 [REDACTED]" },
+  { id: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g, replacement: "[REDACTED:jwt]" },
+  {
+    id: "api-key",
+    pattern:
+      /\b(?:sk-(?:ant-|proj-)?[A-Za-z0-9_-]{16,}|gh[pousr]_[A-Za-z0-9]{20,}|github_pat_[A-Za-z0-9_]{20,}|AKIA[0-9A-Z]{16}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35}|npm_[A-Za-z0-9]{36})\b/g,
+    replacement: "[REDACTED:api-key]",
+  },
+  {
+    id: "secret-assignment",
+    pattern: /\b([A-Za-z0-9_]*(?:api[_-]?key|secret|token|password|passwd)[A-Za-z0-9_]*["']?\s*[:=]\s*["']?)(?!\d+\b|\[REDACTED)[^\s"',;]{8,}/gi,
+    replacement: "$1[REDACTED]",
+  },
+  { id: "email", pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, replacement: "[email]" },
+  { id: "home-path", pattern: /(?:\/home|\/Users)\/[^/\s"'`:]+/g, replacement: "~" },
+  { id: "home-path-windows", pattern: /\b[A-Za-z]:\\Users\\[^\\\s"'`]+/g, replacement: "~" },
+]
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+// Covers homes outside /home and /Users (e.g. /root or a custom $HOME).
+function homeDirRule(homeDir: string): RedactionRule | null {
+  const trimmed = homeDir.replace(/[\\/]+$/, "")
+  if (trimmed.length < 2) return null
+  return { id: "home-dir", pattern: new RegExp(`${escapeRegExp(trimmed)}(?![A-Za-z0-9_.-])`, "g"), replacement: "~" }
+}
+
+export function createRedactor(opts?: Partial<RedactionConfig> & { homeDir?: string | null }): Redactor {
+  const maxStringLength = Math.max(0, opts?.maxStringLength ?? DEFAULT_MAX_STRING_LENGTH)
+  const rules = [...(opts?.rules ?? DEFAULT_REDACTION_RULES)]
+  const home = homeDirRule(opts?.homeDir === undefined ? os.homedir() : opts.homeDir ?? "")
+  if (home && rules.some((rule) => rule.id === "home-path")) rules.push(home)
+
+  const redactString = (value: string): string => {
+    let out = value
+    for (const rule of rules) {
+      rule.pattern.lastIndex = 0
+      out = out.replace(rule.pattern, rule.replacement)
+    }
+    if (maxStringLength > 0 && out.length > maxStringLength) {
+      out = `${out.slice(0, maxStringLength)}... [truncated ${out.length - maxStringLength} chars]`
+    }
+    return out
+  }
+
+  const redactAny = (value: unknown, keepKeys: ReadonlySet<string> | undefined): unknown => {
+    if (typeof value === "string") return redactString(value)
+    if (Array.isArray(value)) return value.map((item) => redactAny(item, keepKeys))
+    if (value && typeof value === "object") {
+      const out: Record<string, unknown> = {}
+      for (const [key, child] of Object.entries(value)) {
+        out[key] = keepKeys?.has(key) ? child : redactAny(child, keepKeys)
+      }
+      return out
+    }
+    return value
+  }
+
+  return {
+    redactString,
+    redactValue: <T>(value: T, opts?: { keepKeys?: ReadonlySet<string> }) => redactAny(value, opts?.keepKeys) as T,
+  }
+}
+
+// redaction.json: { "maxStringLength": 2000, "disable": ["email"], "rules": [{ "id", "pattern", "flags", "replacement" }] }
+// Custom rules run after the enabled defaults; invalid entries are skipped.
+export function parseRedactionConfig(value: unknown): RedactionConfig {
+  const rec = value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {}
+  const disabled = new Set(Array.isArray(rec.disable) ? rec.disable.filter((id): id is string => typeof id === "string") : [])
+  const rules = DEFAULT_REDACTION_RULES.filter((rule) => !disabled.has(rule.id))
+
+  if (Array.isArray(rec.rules)) {
+    rec.rules.forEach((raw, idx) => {
+      if (!raw || typeof raw !== "object") return
+      const r = raw as Record<string, unknown>
+      if (typeof r.pattern !== "string" || !r.pattern) return
+      const flags = typeof r.flags === "string" ? r.flags : "g"
+      try {
+        rules.push({
+          id: typeof r.id === "string" && r.id ? r.id : `custom-${idx + 1}`,
+          pattern: new RegExp(r.pattern, flags.includes("g") ? flags : `${flags}g`),
+          replacement: typeof r.replacement === "string" ? r.replacement : "[REDACTED]",
+        })
+      } catch {
+        // ignore invalid patterns
+      }
+    })
+  }
+
+  const max = rec.maxStringLength
+  const maxStringLength =
+    typeof max === "number" && Number.isFinite(max) && max >= 0 ? Math.floor(max) : DEFAULT_MAX_STRING_LENGTH
+  return { rules, maxStringLength }
+}
+
+export function loadRedactionConfig(opts: { filePath?: string | null }): RedactionConfig {
+  const defaults = { rules: [...DEFAULT_REDACTION_RULES], maxStringLength: DEFAULT_MAX_STRING_LENGTH }
+  if (!opts.filePath) return defaults
+  try {
+    if (!fs.existsSync(opts.filePath)) return defaults
+    return parseRedactionConfig(JSON.parse(fs.readFileSync(opts.filePath, "utf8")))
+  } catch {
+    return defaults
+  }
+}
@@ -0,0 +1,109 @@
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { describe, expect, it } from "vitest"
+import { getStorageRoots } from "../ingest/session"
+import { buildSessionTree, type SessionTreeNode } from "./session-tree"
+
+function mkStorageRoot(): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "omo-session-tree-"))
+  for (const dir of ["session", "message", "part"]) fs.mkdirSync(path.join(root, dir), { recursive: true })
+  return root
+}
+
+function writeSession(storageRoot: string, meta: { id: string; parentID?: string; title?: string; created: number; updated?: number }): void {
+  const dir = path.join(storageRoot, "session", "proj_1")
+  fs.mkdirSync(dir, { recursive: true })
+  const { created, updated, ...rest } = meta
+  fs.writeFileSync(path.join(dir, `${meta.id}.json`), JSON.stringify({ ...rest, time: { created, updated: updated ?? created } }), "utf8")
+}
+
+function writeCall(
+  storageRoot: string,
+  opts: { sessionId: string; callId: string; tool: string; created: number; state: Record<string, unknown> }
+): void {
+  const messageId = `msg_${opts.callId}`
+  const msgDir = path.join(storageRoot, "message", opts.sessionId)
+  fs.mkdirSync(msgDir, { recursive: true })
+  fs.writeFileSync(
+    path.join(msgDir, `${messageId}.json`),
+    JSON.stringify({ id: messageId, sessionID: opts.sessionId, time: { created: opts.created } }),
+    "utf8"
+  )
+  const partDir = path.join(storageRoot, "part", messageId)
+  fs.mkdirSync(partDir, { recursive: true })
+  fs.writeFileSync(
+    path.join(partDir, `${opts.callId}.json`),
+    JSON.stringify({ type: "tool", callID: opts.callId, tool: opts.tool, state: opts.state }),
+    "utf8"
+  )
+}
+
+function shape(node: SessionTreeNode): unknown {
+  return { id: node.sessionId, children: node.children.map(shape) }
+}
+
+describe("buildSessionTree", () => {
+  it("nests grandchildren and resumed sessions and rolls counts up per subtree", () => {
+    // #given
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    writeSession(storageRoot, { id: "ses_root", created: 1_000 })
+    writeSession(storageRoot, { id: "ses_child", parentID: "ses_root", title: "Background: Fix tests", created: 2_000 })
+    writeSession(storageRoot, { id: "ses_grandchild", parentID: "ses_child", created: 3_000, updated: 99_000 })
+    writeSession(storageRoot, { id: "ses_resumed", parentID: "ses_elsewhere", created: 500 })
+    writeSession(storageRoot, { id: "ses_other", created: 1_500 })
+    writeCall(storageRoot, {
+      sessionId: "ses_root",
+      callId: "call_bg",
+      tool: "delegate_task",
+      created: 1_990,
+      state: { status: "completed", input: { description: "Fix tests", run_in_background: true, category: "quick" } },
+    })
+    writeCall(storageRoot, {
+      sessionId: "ses_root",
+      callId: "call_sync",
+      tool: "delegate_task",
+      created: 4_000,
+      state: { status: "error", input: { description: "Resume review", run_in_background: false, resume: "ses_resumed" } },
+    })
+    writeCall(storageRoot, { sessionId: "ses_resumed", callId: "call_r", tool: "read", created: 4_100, state: { status: "completed" } })
+    writeCall(storageRoot, { sessionId: "ses_grandchild", callId: "call_g1", tool: "bash", created: 3_100, state: { status: "error" } })
+    writeCall(storageRoot, { sessionId: "ses_grandchild", callId: "call_g2", tool: "bash", created: 3_200, state: { status: "running" } })
+
+    // #when
+    const tree = buildSessionTree({ storage, rootSessionId: "ses_root", nowMs: 100_000 })
+
+    // #then
+    expect(shape(tree.root)).toEqual({
+      id: "ses_root",
+      children: [
+        { id: "ses_resumed", children: [] },
+        { id: "ses_child", children: [{ id: "ses_grandchild", children: [] }] },
+      ],
+    })
+    const [resumed, child] = tree.root.children
+    expect(resumed).toMatchObject({ description: "Resume review", agent: "unknown", status: "error", toolCalls: 1 })
+    expect(child).toMatchObject({ description: "Fix tests", agent: "sisyphus-junior (quick)", status: "idle" })
+    expect(child.children[0]).toMatchObject({ status: "running", toolCalls: 2, errors: 1 })
+    expect(child.subtree).toEqual({ sessions: 2, toolCalls: 2, errors: 1, running: 1 })
+    expect(tree.root.subtree).toEqual({ sessions: 4, toolCalls: 5, errors: 2, running: 1 })
+    expect(tree.totalSessions).toBe(4)
+    expect(tree.truncated).toBe(false)
+  })
+
+  it("stops at the session cap", () => {
+    // #given
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    writeSession(storageRoot, { id: "ses_root", created: 1 })
+    for (let i = 0; i < 4; i += 1) writeSession(storageRoot, { id: `ses_c${i}`, parentID: "ses_root", created: 10 + i })
+
+    // #when
+    const tree = buildSessionTree({ storage, rootSessionId: "ses_root", maxSessions: 3 })
+
+    // #then
+    expect(tree.root.children.map((c) => c.sessionId)).toEqual(["ses_c0", "ses_c1"])
+    expect(tree.truncated).toBe(true)
+  })
+})
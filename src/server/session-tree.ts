@@ -0,0 +1,189 @@
+import { deriveDelegationLinks, readAllSessionMetas, type DelegationLink } from "../ingest/background-tasks"
+import type { OpenCodeStorageRoots, SessionMetadata } from "../ingest/session"
+import { deriveToolCalls } from "../ingest/tool-calls"
+
+export type SessionTreeStatus = "running" | "idle" | "error"
+
+export type SessionTreeRollup = {
+  sessions: number
+  toolCalls: number
+  errors: number
+  running: number
+}
+
+export type SessionTreeNode = {
+  sessionId: string
+  parentSessionId: string | null
+  title: string | null
+  // From the delegate_task call that spawned the session; null for the root and unmatched children.
+  description: string | null
+  agent: string | null
+  status: SessionTreeStatus
+  createdAt: number | null
+  updatedAt: number | null
+  toolCalls: number
+  errors: number
+  // The per-session tool call scan hit its cap, so the counts are a floor.
+  toolCallsTruncated: boolean
+  // This node plus every descendant.
+  subtree: SessionTreeRollup
+  children: SessionTreeNode[]
+}
+
+export type SessionTreePayload = {
+  rootSessionId: string
+  root: SessionTreeNode
+  totalSessions: number
+  // True when the tree had more sessions than MAX_SESSION_TREE_SESSIONS.
+  truncated: boolean
+}
+
+export const MAX_SESSION_TREE_SESSIONS = 50
+
+// Same idle window the background task rows use to call a session "running".
+const RUNNING_WINDOW_MS = 15_000
+
+export type SessionTreeWalk = {
+  // Breadth-first, so every session comes after its parent.
+  order: string[]
+  parentOf: Map<string, string | null>
+  // The delegate_task call behind each delegated session, when one was found.
+  linkBySession: Map<string, DelegationLink>
+  metaById: Map<string, SessionMetadata>
+  // True when the tree had more sessions than `maxSessions`.
+  truncated: boolean
+}
+
+// Breadth-first from the root over `parentID` links plus delegate_task calls, so resumed sessions
+// (whose parentID points elsewhere) still hang under the session that delegated to them. Every view
+// of "the session tree" (this card, tool stats) walks it here so they cover the same sessions.
+export function walkSessionTree(opts: {
+  storage: OpenCodeStorageRoots
+  rootSessionId: string
+  maxSessions?: number
+}): SessionTreeWalk {
+  const maxSessions = opts.maxSessions ?? MAX_SESSION_TREE_SESSIONS
+  const allSessionMetas = readAllSessionMetas(opts.storage.session)
+  const metaById = new Map<string, SessionMetadata>()
+  const childrenByParent = new Map<string, string[]>()
+  for (const meta of allSessionMetas) {
+    metaById.set(meta.id, meta)
+    if (!meta.parentID) continue
+    const list = childrenByParent.get(meta.parentID) ?? []
+    list.push(meta.id)
+    childrenByParent.set(meta.parentID, list)
+  }
+
+  const linkBySession = new Map<string, DelegationLink>()
+  const parentOf = new Map<string, string | null>([[opts.rootSessionId, null]])
+  const order: string[] = []
+  const queue = [opts.rootSessionId]
+  let truncated = false
+  while (queue.length > 0) {
+    const id = queue.shift() as string
+    if (order.length >= maxSessions) {
+      truncated = true
+      break
+    }
+    order.push(id)
+
+    const links = deriveDelegationLinks({ storage: opts.storage, sessionId: id, allSessionMetas })
+    const childIds = new Set(childrenByParent.get(id) ?? [])
+    for (const link of links) {
+      if (!link.sessionId) continue
+      childIds.add(link.sessionId)
+      // The newest delegation wins when a session was resumed several times.
+      linkBySession.set(link.sessionId, link)
+    }
+    for (const child of Array.from(childIds).sort(compareByCreated(metaById))) {
+      if (parentOf.has(child)) continue
+      parentOf.set(child, id)
+      queue.push(child)
+    }
+  }
+
+  return { order, parentOf, linkBySession, metaById, truncated }
+}
+
+export function buildSessionTree(opts: {
+  storage: OpenCodeStorageRoots
+  rootSessionId: string
+  nowMs?: number
+  maxSessions?: number
+  allowedRoots?: string[]
+}): SessionTreePayload {
+  const nowMs = opts.nowMs ?? Date.now()
+  const { order, parentOf, linkBySession, metaById, truncated } = walkSessionTree(opts)
+
+  const nodes = new Map<string, SessionTreeNode>()
+  for (const id of order) {
+    const meta = metaById.get(id)
+    const link = linkBySession.get(id)
+    const { toolCalls, truncated: toolCallsTruncated } = deriveToolCalls({
+      storage: opts.storage,
+      sessionId: id,
+      allowedRoots: opts.allowedRoots,
+    })
+    const errors = toolCalls.filter((call) => call.status === "error").length
+    const lastCallAt = toolCalls.reduce<number | null>(
+      (max, call) => (call.createdAtMs !== null && (max === null || call.createdAtMs > max) ? call.createdAtMs : max),
+      null
+    )
+    const updatedAt = maxOrNull(meta?.time?.updated ?? null, lastCallAt)
+    const status: SessionTreeStatus = link?.failed
+      ? "error"
+      : updatedAt !== null && nowMs - updatedAt <= RUNNING_WINDOW_MS
+        ? "running"
+        : "idle"
+
+    nodes.set(id, {
+      sessionId: id,
+      parentSessionId: parentOf.get(id) ?? null,
+      title: meta?.title ?? null,
+      description: link?.description ?? null,
+      agent: link?.agent ?? null,
+      status,
+      createdAt: meta?.time?.created ?? null,
+      updatedAt,
+      toolCalls: toolCalls.length,
+      errors,
+      toolCallsTruncated,
+      subtree: { sessions: 1, toolCalls: toolCalls.length, errors, running: status === "running" ? 1 : 0 },
+      children: [],
+    })
+  }
+
+  // BFS order means every child comes after its parent, so walking it backwards rolls leaves up first.
+  for (let i = order.length - 1; i > 0; i--) {
+    const node = nodes.get(order[i]) as SessionTreeNode
+    const parent = node.parentSessionId ? nodes.get(node.parentSessionId) : undefined
+    if (!parent) continue
+    parent.children.unshift(node)
+    parent.subtree.sessions += node.subtree.sessions
+    parent.subtree.toolCalls += node.subtree.toolCalls
+    parent.subtree.errors += node.subtree.errors
+    parent.subtree.running += node.subtree.running
+  }
+
+  return {
+    rootSessionId: opts.rootSessionId,
+    root: nodes.get(opts.rootSessionId) as SessionTreeNode,
+    totalSessions: order.length,
+    truncated,
+  }
+}
+
+function compareByCreated(metaById: Map<string, SessionMetadata>) {
+  return (a: string, b: string): number => {
+    const at = metaById.get(a)?.time?.created ?? Infinity
+    const bt = metaById.get(b)?.time?.created ?? Infinity
+    if (at !== bt) return at < bt ? -1 : 1
+    return a.localeCompare(b)
+  }
+}
+
+function maxOrNull(a: number | null, b: number | null): number | null {
+  if (a === null) return b
+  if (b === null) return a
+  return Math.max(a, b)
+}
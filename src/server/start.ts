@@ -5,7 +5,17 @@ import { existsSync } from 'node:fs'
 import { parseArgs } from 'util'
 import { createApi } from "./api"
 import { createDashboardStore } from "./dashboard"
-import { getOpenCodeStorageDir } from "../ingest/paths"
+import { assignProjectIds } from "./projects"
+import { createTokenLedger, TOKEN_LEDGER_FILE } from "./token-ledger"
+import { createPlanHistory, PLAN_HISTORY_FILE } from "./plan-history"
+import { getDashboardDataDir, getOpenCodeStorageDir } from "../ingest/paths"
+import { getStorageRoots } from "../ingest/session"
+import { readAllSessionMetas } from "../ingest/background-tasks"
+import { backfillTokenUsage } from "../ingest/token-usage"
+import { loadPriceTable, PRICE_TABLE_FILE } from "../ingest/pricing"
+import { parsePrivacyMode, PRIVACY_MODES } from "./privacy"
+import { createRedactor, loadRedactionConfig, REDACTION_CONFIG_FILE } from "./redaction"
+import { createWebhookNotifier, parseWebhookUrls } from "./webhooks"
 
 // Auto-build if dist folder is missing (for GitHub direct install)
 const distRoot = join(import.meta.dir, '../../dist')
@@ -38,28 +48,68 @@ if (!existsSync(join(distRoot, 'index.html'))) {
 const { values } = parseArgs({
   args: Bun.argv,
   options: {
-    project: { type: 'string' },
+    project: { type: 'string', multiple: true },
     port: { type: 'string' },
+    webhook: { type: 'string', multiple: true },
+    'reveal-tool-inputs': { type: 'boolean' },
+    transcripts: { type: 'boolean' },
+    privacy: { type: 'string' },
   },
   allowPositionals: true,
 })
 
-const project = values.project ?? process.cwd()
+const projectPaths = values.project && values.project.length > 0 ? values.project : [process.cwd()]
 
 const port = parseInt(values.port || '51234')
 
+const privacy = parsePrivacyMode(values.privacy)
+if (!privacy) {
+  console.error(`Error: --privacy must be one of: ${PRIVACY_MODES.join(', ')}`)
+  process.exit(1)
+}
+
 const app = new Hono()
 
 const storageRoot = getOpenCodeStorageDir()
 
-const store = createDashboardStore({
-  projectRoot: project,
-  storageRoot,
-  watch: true,
-  pollIntervalMs: 2000,
-})
+const tokenLedger = createTokenLedger({ filePath: join(getDashboardDataDir(), TOKEN_LEDGER_FILE) })
+
+const planHistory = createPlanHistory({ filePath: join(getDashboardDataDir(), PLAN_HISTORY_FILE) })
+
+const prices = loadPriceTable({ filePath: join(getDashboardDataDir(), PRICE_TABLE_FILE) })
+
+const redactor = createRedactor(loadRedactionConfig({ filePath: join(getDashboardDataDir(), REDACTION_CONFIG_FILE) }))
 
-app.route('/api', createApi({ store, storageRoot, projectRoot: project }))
+const webhookUrls = parseWebhookUrls(values.webhook ?? [])
+const webhooks = webhookUrls.length > 0 ? createWebhookNotifier({ urls: webhookUrls }) : null
+
+const projects = assignProjectIds(projectPaths).map((ref) => ({
+  ...ref,
+  store: createDashboardStore({
+    projectRoot: ref.projectRoot,
+    storageRoot,
+    watch: true,
+    pollIntervalMs: 2000,
+    tokenSink: tokenLedger,
+    planHistory,
+    prices,
+    onTransitions: webhooks ? (events) => void webhooks.send(redactor.redactValue(events)) : undefined,
+  }),
+}))
+const [defaultProject] = projects
+
+app.route('/api', createApi({
+  store: defaultProject.store,
+  storageRoot,
+  projectRoot: defaultProject.projectRoot,
+  projects,
+  tokenLedger,
+  planHistory,
+  redactor,
+  revealToolInputs: values['reveal-tool-inputs'] === true,
+  transcripts: values.transcripts === true,
+  privacy,
+}))
 
 // SPA fallback middleware
 app.use('*', async (c, next) => {
@@ -120,3 +170,21 @@ Bun.serve({
 })
 
 console.log(`Server running on http://127.0.0.1:${port}`)
+console.log(`Privacy mode: ${privacy}`)
+if (projects.length > 1) {
+  for (const p of projects) {
+    console.log(`  project ${p.id}: ${p.projectRoot}`)
+  }
+}
+
+// Backfill recent sessions once the server is listening so history also covers
+// sessions this dashboard never displayed.
+setTimeout(() => {
+  const storage = getStorageRoots(storageRoot)
+  backfillTokenUsage({
+    storage,
+    sessionMetas: readAllSessionMetas(storage.session),
+    sink: tokenLedger,
+    sinceMs: Date.now() - 14 * 86_400_000,
+  })
+}, 0)
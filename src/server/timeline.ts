@@ -0,0 +1,91 @@
+import type { OpenCodeStorageRoots } from "../ingest/session"
+import { deriveToolCalls, type ToolCallSummary, type ToolCallSummaryResult } from "../ingest/tool-calls"
+import type { DashboardPayload, LegacyDashboardPayload } from "./dashboard"
+
+export type SessionTimelineTick = {
+  atMs: number
+  tool: string
+  status: ToolCallSummary["status"]
+}
+
+export type SessionTimelineLane = {
+  id: string
+  kind: "main" | "task"
+  label: string
+  agent: string
+  status: string
+  sessionId: string | null
+  startedAt: number | null
+  // null while the lane is still open; the UI draws it up to `nowMs`.
+  endedAt: number | null
+  ticks: SessionTimelineTick[]
+  ticksTruncated: boolean
+}
+
+export type SessionTimelinePayload = {
+  nowMs: number
+  startMs: number | null
+  endMs: number | null
+  lanes: SessionTimelineLane[]
+}
+
+type TimelineRow = DashboardPayload["backgroundTasks"][number]
+
+// Lanes reuse the snapshot's task rows so the Gantt view and the task tables always agree;
+// only the tool-call ticks are read from storage here.
+export function buildSessionTimeline(opts: {
+  snapshot: DashboardPayload | LegacyDashboardPayload
+  storage: OpenCodeStorageRoots
+  nowMs?: number
+  allowedRoots?: string[]
+}): SessionTimelinePayload {
+  const nowMs = opts.nowMs ?? Date.now()
+  if (!("mainSessionTasks" in opts.snapshot)) {
+    return { nowMs, startMs: null, endMs: null, lanes: [] }
+  }
+
+  const toLane = (row: TimelineRow, kind: SessionTimelineLane["kind"]): SessionTimelineLane => {
+    const { toolCalls, truncated }: Pick<ToolCallSummaryResult, "toolCalls" | "truncated"> = row.sessionId
+      ? deriveToolCalls({ storage: opts.storage, sessionId: row.sessionId, allowedRoots: opts.allowedRoots })
+      : { toolCalls: [], truncated: false }
+    const ticks = toolCalls
+      .filter((call): call is ToolCallSummary & { createdAtMs: number } => typeof call.createdAtMs === "number")
+      .map((call) => ({ atMs: call.createdAtMs, tool: call.tool, status: call.status }))
+      .sort((a, b) => a.atMs - b.atMs)
+
+    return {
+      id: row.id,
+      kind,
+      label: row.description,
+      agent: row.agent,
+      status: row.status,
+      sessionId: row.sessionId,
+      startedAt: row.startedAt,
+      endedAt: row.endedAt,
+      ticks,
+      ticksTruncated: truncated,
+    }
+  }
+
+  const lanes = [
+    ...opts.snapshot.mainSessionTasks.map((row) => toLane(row, "main")),
+    // Oldest delegation first so lanes read top-to-bottom in launch order.
+    ...opts.snapshot.backgroundTasks
+      .slice()
+      .sort((a, b) => (a.startedAt ?? Infinity) - (b.startedAt ?? Infinity))
+      .map((row) => toLane(row, "task")),
+  ]
+
+  let startMs: number | null = null
+  let endMs: number | null = null
+  for (const lane of lanes) {
+    const points = [lane.startedAt, lane.endedAt ?? (lane.startedAt !== null ? nowMs : null), ...lane.ticks.map((t) => t.atMs)]
+    for (const point of points) {
+      if (point === null) continue
+      startMs = startMs === null ? point : Math.min(startMs, point)
+      endMs = endMs === null ? point : Math.max(endMs, point)
+    }
+  }
+
+  return { nowMs, startMs, endMs, lanes }
+}
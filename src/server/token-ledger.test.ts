@@ -0,0 +1,119 @@
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { describe, expect, it } from "vitest"
+import { createTokenLedger } from "./token-ledger"
+import type { TokenUsageEntry } from "../ingest/token-usage-core"
+
+function mkLedgerPath(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "omo-ledger-"))
+  return path.join(dir, "nested", "token-usage.jsonl")
+}
+
+function mkEntry(override: Partial<TokenUsageEntry> & { messageId: string }): TokenUsageEntry {
+  return {
+    sessionId: "ses_1",
+    model: "openai/gpt-5.2",
+    createdAt: new Date(2026, 0, 5, 12).getTime(),
+    completedAt: new Date(2026, 0, 5, 12, 1).getTime(),
+    input: 10,
+    output: 5,
+    reasoning: 0,
+    cacheRead: 0,
+    cacheWrite: 0,
+    total: 15,
+    ...override,
+  }
+}
+
+describe("createTokenLedger", () => {
+  it("records completed messages once and reloads them from disk", () => {
+    // #given
+    const filePath = mkLedgerPath()
+    const ledger = createTokenLedger({ filePath })
+
+    // #when
+    ledger.record([
+      mkEntry({ messageId: "msg_1" }),
+      mkEntry({ messageId: "msg_2", completedAt: null }),
+    ])
+    ledger.record([mkEntry({ messageId: "msg_1", total: 999 })])
+
+    // #then
+    expect(ledger.size()).toBe(1)
+    const lines = fs.readFileSync(filePath, "utf8").trim().split("\n")
+    expect(lines.length).toBe(1)
+    expect(JSON.parse(lines[0]).total).toBe(15)
+
+    fs.appendFileSync(filePath, "{torn", "utf8")
+    const reloaded = createTokenLedger({ filePath, nowMs: new Date(2026, 0, 6).getTime() })
+    expect(reloaded.size()).toBe(1)
+  })
+
+  it("drops entries past the retention window, duplicates and torn lines on load", () => {
+    // #given
+    const filePath = mkLedgerPath()
+    const day = (d: number) => new Date(2026, 0, d, 12).getTime()
+    const lines = [
+      mkEntry({ messageId: "msg_old", createdAt: day(1), completedAt: day(1) }),
+      mkEntry({ messageId: "msg_new", createdAt: day(9), completedAt: day(9) }),
+      mkEntry({ messageId: "msg_new", createdAt: day(9), completedAt: day(9) }),
+    ].map((e) => JSON.stringify(e))
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    fs.writeFileSync(filePath, [...lines, "{torn"].join("\n"), "utf8")
+
+    // #when
+    const ledger = createTokenLedger({ filePath, retentionMs: 5 * 86_400_000, nowMs: day(10) })
+    ledger.record([mkEntry({ messageId: "msg_next", createdAt: day(10), completedAt: day(10) })])
+
+    // #then
+    expect(ledger.size()).toBe(2)
+    const ids = fs.readFileSync(filePath, "utf8").trim().split("\n").map((line) => JSON.parse(line).messageId)
+    expect(ids).toEqual(["msg_new", "msg_next"])
+    expect(createTokenLedger({ filePath, retentionMs: 5 * 86_400_000, nowMs: day(10) }).size()).toBe(2)
+  })
+
+  it("groups history by day with zero-filled gaps", () => {
+    // #given
+    const ledger = createTokenLedger({ filePath: mkLedgerPath() })
+    ledger.record([
+      mkEntry({ messageId: "msg_1" }),
+      mkEntry({ messageId: "msg_2", createdAt: new Date(2026, 0, 7, 9).getTime(), total: 30, input: 30, output: 0 }),
+      mkEntry({ messageId: "msg_3", createdAt: new Date(2026, 0, 20, 9).getTime() }),
+    ])
+
+    // #when
+    const history = ledger.query({
+      fromMs: new Date(2026, 0, 5).getTime(),
+      toMs: new Date(2026, 0, 7, 23).getTime(),
+      groupBy: "day",
+    })
+
+    // #then
+    expect(history.rows.map((r) => [r.key, r.total, r.messages])).toEqual([
+      ["2026-01-05", 15, 1],
+      ["2026-01-06", 0, 0],
+      ["2026-01-07", 30, 1],
+    ])
+    expect(history.totals).toEqual({ input: 40, output: 5, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 45, messages: 2 })
+  })
+
+  it("groups history by model and session, largest first", () => {
+    // #given
+    const ledger = createTokenLedger({ filePath: mkLedgerPath() })
+    ledger.record([
+      mkEntry({ messageId: "msg_1", model: "a/small", sessionId: "ses_a" }),
+      mkEntry({ messageId: "msg_2", model: "b/large", sessionId: "ses_b", total: 100 }),
+      mkEntry({ messageId: "msg_3", model: "b/large", sessionId: "ses_a", total: 100 }),
+    ])
+    const range = { fromMs: 0, toMs: new Date(2027, 0, 1).getTime() }
+
+    // #when
+    const byModel = ledger.query({ ...range, groupBy: "model" })
+    const bySession = ledger.query({ ...range, groupBy: "session" })
+
+    // #then
+    expect(byModel.rows.map((r) => [r.key, r.total])).toEqual([["b/large", 200], ["a/small", 15]])
+    expect(bySession.rows.map((r) => [r.key, r.total])).toEqual([["ses_a", 115], ["ses_b", 100]])
+  })
+})
@@ -0,0 +1,188 @@
+import * as fs from "node:fs"
+import * as path from "node:path"
+import type { TokenUsageEntry, TokenUsageTotals } from "../ingest/token-usage-core"
+import type { TokenUsageSink } from "../ingest/token-usage"
+
+export type TokenHistoryGroupBy = "day" | "model" | "session"
+
+export type TokenHistoryRow = TokenUsageTotals & {
+  key: string
+  messages: number
+}
+
+export type TokenHistoryPayload = {
+  fromMs: number
+  toMs: number
+  groupBy: TokenHistoryGroupBy
+  rows: TokenHistoryRow[]
+  totals: TokenUsageTotals & { messages: number }
+}
+
+export type TokenLedger = TokenUsageSink & {
+  query: (opts: { fromMs: number; toMs: number; groupBy: TokenHistoryGroupBy }) => TokenHistoryPayload
+  size: () => number
+}
+
+const MAX_FILLED_DAYS = 400
+const DAY_MS = 86_400_000
+
+// The longest range the day chart zero-fills; older entries are dropped when the ledger loads.
+export const TOKEN_LEDGER_RETENTION_MS = MAX_FILLED_DAYS * DAY_MS
+
+export const TOKEN_LEDGER_FILE = "token-usage.jsonl"
+
+function isLedgerEntry(value: unknown): value is TokenUsageEntry {
+  if (!value || typeof value !== "object") return false
+  const rec = value as Record<string, unknown>
+  return typeof rec.messageId === "string" && typeof rec.model === "string" && typeof rec.total === "number"
+}
+
+// `lines` counts every non-blank line, including ones that did not parse.
+function readLedgerFile(filePath: string): { entries: TokenUsageEntry[]; lines: number } {
+  let content: string
+  try {
+    content = fs.readFileSync(filePath, "utf8")
+  } catch {
+    return { entries: [], lines: 0 }
+  }
+
+  const entries: TokenUsageEntry[] = []
+  let lines = 0
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue
+    lines += 1
+    try {
+      const parsed = JSON.parse(line) as unknown
+      if (isLedgerEntry(parsed)) entries.push(parsed)
+    } catch {
+      // A torn final line from a crash is skipped, not fatal.
+      continue
+    }
+  }
+  return { entries, lines }
+}
+
+function rewriteLedgerFile(filePath: string, entries: Iterable<TokenUsageEntry>): void {
+  const tmpPath = `${filePath}.tmp`
+  try {
+    const content = Array.from(entries, (e) => JSON.stringify(e) + "\n").join("")
+    fs.writeFileSync(tmpPath, content, "utf8")
+    fs.renameSync(tmpPath, filePath)
+  } catch {
+    // Best-effort: the old file stays and is compacted on a later start.
+  }
+}
+
+function entryTime(entry: TokenUsageEntry): number | null {
+  return entry.createdAt ?? entry.completedAt ?? null
+}
+
+export function formatLocalDay(ms: number): string {
+  const d = new Date(ms)
+  const mm = String(d.getMonth() + 1).padStart(2, "0")
+  const dd = String(d.getDate()).padStart(2, "0")
+  return `${d.getFullYear()}-${mm}-${dd}`
+}
+
+function blankHistoryRow(key: string): TokenHistoryRow {
+  return { key, input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 0, messages: 0 }
+}
+
+function addEntry(row: TokenHistoryRow, entry: TokenUsageEntry): void {
+  row.input += entry.input
+  row.output += entry.output
+  row.reasoning += entry.reasoning
+  row.cacheRead += entry.cacheRead
+  row.cacheWrite += entry.cacheWrite
+  row.total += entry.total
+  row.messages += 1
+}
+
+export function queryTokenHistory(
+  entries: Iterable<TokenUsageEntry>,
+  opts: { fromMs: number; toMs: number; groupBy: TokenHistoryGroupBy }
+): TokenHistoryPayload {
+  const rowsByKey = new Map<string, TokenHistoryRow>()
+  const totals = blankHistoryRow("")
+
+  if (opts.groupBy === "day" && opts.toMs - opts.fromMs <= MAX_FILLED_DAYS * DAY_MS) {
+    // Zero-fill so the chart has one bar per day even when nothing ran.
+    const start = new Date(opts.fromMs)
+    start.setHours(0, 0, 0, 0)
+    for (let d = start; d.getTime() <= opts.toMs; d.setDate(d.getDate() + 1)) {
+      const key = formatLocalDay(d.getTime())
+      rowsByKey.set(key, blankHistoryRow(key))
+    }
+  }
+
+  for (const entry of entries) {
+    const at = entryTime(entry)
+    if (at === null || at < opts.fromMs || at > opts.toMs) continue
+
+    const key = opts.groupBy === "day"
+      ? formatLocalDay(at)
+      : opts.groupBy === "model"
+        ? entry.model
+        : entry.sessionId ?? "unknown"
+    const row = rowsByKey.get(key) ?? blankHistoryRow(key)
+    addEntry(row, entry)
+    rowsByKey.set(key, row)
+    addEntry(totals, entry)
+  }
+
+  const rows = Array.from(rowsByKey.values()).sort((a, b) => {
+    if (opts.groupBy === "day") return a.key.localeCompare(b.key)
+    if (b.total !== a.total) return b.total - a.total
+    return a.key.localeCompare(b.key)
+  })
+
+  const { key: _key, ...totalsOnly } = totals
+  return {
+    fromMs: opts.fromMs,
+    toMs: opts.toMs,
+    groupBy: opts.groupBy,
+    rows,
+    totals: totalsOnly,
+  }
+}
+
+// Append-only JSON-lines ledger: one line per completed assistant message, written once. Loading
+// compacts it: entries past the retention window, duplicates and torn lines are rewritten away.
+export function createTokenLedger(opts: { filePath: string; retentionMs?: number; nowMs?: number }): TokenLedger {
+  const cutoffMs = (opts.nowMs ?? Date.now()) - (opts.retentionMs ?? TOKEN_LEDGER_RETENTION_MS)
+  const stored = readLedgerFile(opts.filePath)
+  const byMessageId = new Map<string, TokenUsageEntry>()
+  for (const entry of stored.entries) {
+    const at = entryTime(entry)
+    if (at === null || at < cutoffMs) continue
+    byMessageId.set(entry.messageId, entry)
+  }
+  if (byMessageId.size < stored.lines) rewriteLedgerFile(opts.filePath, byMessageId.values())
+
+  return {
+    record(entries) {
+      const fresh: TokenUsageEntry[] = []
+      for (const entry of entries) {
+        // Streaming messages keep growing their counts; wait until they complete.
+        if (entry.completedAt === null) continue
+        if (byMessageId.has(entry.messageId)) continue
+        byMessageId.set(entry.messageId, entry)
+        fresh.push(entry)
+      }
+      if (fresh.length === 0) return
+
+      try {
+        fs.mkdirSync(path.dirname(opts.filePath), { recursive: true })
+        fs.appendFileSync(opts.filePath, fresh.map((e) => JSON.stringify(e)).join("\n") + "\n", "utf8")
+      } catch {
+        // Best-effort: history stays in memory for this process.
+      }
+    },
+    query(queryOpts) {
+      return queryTokenHistory(byMessageId.values(), queryOpts)
+    },
+    size() {
+      return byMessageId.size
+    },
+  }
+}
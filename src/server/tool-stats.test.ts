@@ -0,0 +1,102 @@
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { describe, expect, it } from "vitest"
+import { getStorageRoots } from "../ingest/session"
+import { buildToolStats, percentile, summarizeToolCalls } from "./tool-stats"
+
+function mkStorageRoot(): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "omo-tool-stats-"))
+  for (const dir of ["session", "message", "part"]) fs.mkdirSync(path.join(root, dir), { recursive: true })
+  return root
+}
+
+function writeSession(storageRoot: string, id: string, parentID?: string): void {
+  const dir = path.join(storageRoot, "session", "proj_1")
+  fs.mkdirSync(dir, { recursive: true })
+  fs.writeFileSync(path.join(dir, `${id}.json`), JSON.stringify({ id, parentID, time: { created: 1, updated: 1 } }), "utf8")
+}
+
+function writeCall(storageRoot: string, sessionId: string, callId: string, tool: string, state: Record<string, unknown>): void {
+  const messageId = `msg_${callId}`
+  const msgDir = path.join(storageRoot, "message", sessionId)
+  fs.mkdirSync(msgDir, { recursive: true })
+  fs.writeFileSync(path.join(msgDir, `${messageId}.json`), JSON.stringify({ id: messageId, sessionID: sessionId, time: { created: 1 } }), "utf8")
+  const partDir = path.join(storageRoot, "part", messageId)
+  fs.mkdirSync(partDir, { recursive: true })
+  fs.writeFileSync(path.join(partDir, `${callId}.json`), JSON.stringify({ type: "tool", callID: callId, tool, state }), "utf8")
+}
+
+describe("percentile", () => {
+  it("uses the nearest rank", () => {
+    expect(percentile([], 0.5)).toBeNull()
+    expect(percentile([10, 20, 30, 40], 0.5)).toBe(20)
+    expect(percentile([10, 20, 30, 40], 0.95)).toBe(40)
+  })
+})
+
+describe("summarizeToolCalls", () => {
+  it("counts statuses per tool and only times calls with both timestamps", () => {
+    // #given
+    const calls = [
+      { tool: "bash", status: "error" as const, durationMs: 100 },
+      { tool: "bash", status: "completed" as const, durationMs: 300 },
+      { tool: "bash", status: "running" as const, durationMs: null },
+      { tool: "webfetch", status: "pending" as const, durationMs: null },
+    ]
+
+    // #when
+    const rows = summarizeToolCalls(calls)
+
+    // #then
+    expect(rows).toEqual([
+      { tool: "bash", calls: 3, completed: 1, errors: 1, pending: 0, running: 1, errorRate: 1 / 3, timedCalls: 2, medianMs: 100, p95Ms: 300 },
+      { tool: "webfetch", calls: 1, completed: 0, errors: 0, pending: 1, running: 0, errorRate: 0, timedCalls: 0, medianMs: null, p95Ms: null },
+    ])
+  })
+})
+
+describe("buildToolStats", () => {
+  it("aggregates the whole session tree when asked to", () => {
+    // #given
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    writeSession(storageRoot, "ses_root")
+    writeSession(storageRoot, "ses_child", "ses_root")
+    writeSession(storageRoot, "ses_grandchild", "ses_child")
+    writeSession(storageRoot, "ses_other")
+    writeCall(storageRoot, "ses_root", "call_1", "bash", { status: "completed", time: { start: 0, end: 50 } })
+    writeCall(storageRoot, "ses_grandchild", "call_2", "bash", { status: "error", time: { start: 0, end: 150 } })
+    writeCall(storageRoot, "ses_other", "call_3", "bash", { status: "error" })
+
+    // #when
+    const own = buildToolStats({ storage, sessionId: "ses_root", scope: "session" })
+    const tree = buildToolStats({ storage, sessionId: "ses_root", scope: "tree" })
+
+    // #then
+    expect(own.rows[0]).toMatchObject({ tool: "bash", calls: 1, errors: 0 })
+    expect(tree.sessionIds).toEqual(["ses_root", "ses_child", "ses_grandchild"])
+    expect(tree.rows[0]).toMatchObject({ tool: "bash", calls: 2, errors: 1, medianMs: 50, p95Ms: 150 })
+    expect(tree.truncated).toBe(false)
+  })
+
+  it("covers resumed sessions the same way the session tree does", () => {
+    // #given: ses_resumed's parentID points elsewhere; only the delegate_task call links it
+    const storageRoot = mkStorageRoot()
+    const storage = getStorageRoots(storageRoot)
+    writeSession(storageRoot, "ses_root")
+    writeSession(storageRoot, "ses_resumed", "ses_elsewhere")
+    writeCall(storageRoot, "ses_root", "call_1", "delegate_task", {
+      status: "completed",
+      input: { description: "Resume review", run_in_background: false, resume: "ses_resumed" },
+    })
+    writeCall(storageRoot, "ses_resumed", "call_2", "read", { status: "completed" })
+
+    // #when
+    const tree = buildToolStats({ storage, sessionId: "ses_root", scope: "tree" })
+
+    // #then
+    expect(tree.sessionIds).toEqual(["ses_root", "ses_resumed"])
+    expect(tree.rows.map((r) => r.tool)).toEqual(["delegate_task", "read"])
+  })
+})
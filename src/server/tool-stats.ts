@@ -0,0 +1,100 @@
+import type { OpenCodeStorageRoots } from "../ingest/session"
+import { deriveToolCalls, type ToolCallSummary } from "../ingest/tool-calls"
+import { walkSessionTree } from "./session-tree"
+
+export type ToolStatsScope = "session" | "tree"
+
+export type ToolStatsRow = {
+  tool: string
+  calls: number
+  completed: number
+  errors: number
+  pending: number
+  running: number
+  // errors / calls, 0..1
+  errorRate: number
+  // Durations only cover calls whose part recorded both start and end times.
+  timedCalls: number
+  medianMs: number | null
+  p95Ms: number | null
+}
+
+export type ToolStatsPayload = {
+  scope: ToolStatsScope
+  sessionIds: string[]
+  totalCalls: number
+  rows: ToolStatsRow[]
+  // True when a session's call list was capped or the tree had more sessions than we scan.
+  truncated: boolean
+}
+
+export const MAX_TOOL_STATS_SESSIONS = 50
+
+// Nearest-rank percentile over an ascending list.
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null
+  const rank = Math.ceil(p * sorted.length)
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]
+}
+
+export function summarizeToolCalls(calls: Pick<ToolCallSummary, "tool" | "status" | "durationMs">[]): ToolStatsRow[] {
+  const byTool = new Map<string, { row: ToolStatsRow; durations: number[] }>()
+  for (const call of calls) {
+    let entry = byTool.get(call.tool)
+    if (!entry) {
+      entry = {
+        row: { tool: call.tool, calls: 0, completed: 0, errors: 0, pending: 0, running: 0, errorRate: 0, timedCalls: 0, medianMs: null, p95Ms: null },
+        durations: [],
+      }
+      byTool.set(call.tool, entry)
+    }
+    entry.row.calls += 1
+    if (call.status === "completed") entry.row.completed += 1
+    else if (call.status === "error") entry.row.errors += 1
+    else if (call.status === "pending") entry.row.pending += 1
+    else if (call.status === "running") entry.row.running += 1
+    if (typeof call.durationMs === "number") entry.durations.push(call.durationMs)
+  }
+
+  return Array.from(byTool.values())
+    .map(({ row, durations }) => {
+      const sorted = durations.sort((a, b) => a - b)
+      return {
+        ...row,
+        errorRate: row.calls > 0 ? row.errors / row.calls : 0,
+        timedCalls: sorted.length,
+        medianMs: percentile(sorted, 0.5),
+        p95Ms: percentile(sorted, 0.95),
+      }
+    })
+    .sort((a, b) => b.calls - a.calls || a.tool.localeCompare(b.tool))
+}
+
+export function buildToolStats(opts: {
+  storage: OpenCodeStorageRoots
+  sessionId: string
+  scope: ToolStatsScope
+  allowedRoots?: string[]
+}): ToolStatsPayload {
+  const tree = (() => {
+    if (opts.scope !== "tree") return { sessionIds: [opts.sessionId], truncated: false }
+    const walk = walkSessionTree({ storage: opts.storage, rootSessionId: opts.sessionId, maxSessions: MAX_TOOL_STATS_SESSIONS })
+    return { sessionIds: walk.order, truncated: walk.truncated }
+  })()
+
+  const calls: ToolCallSummary[] = []
+  let truncated = tree.truncated
+  for (const sessionId of tree.sessionIds) {
+    const result = deriveToolCalls({ storage: opts.storage, sessionId, allowedRoots: opts.allowedRoots })
+    calls.push(...result.toolCalls)
+    truncated = truncated || result.truncated
+  }
+
+  return {
+    scope: opts.scope,
+    sessionIds: tree.sessionIds,
+    totalCalls: calls.length,
+    rows: summarizeToolCalls(calls),
+    truncated,
+  }
+}
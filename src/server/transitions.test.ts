@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest"
+import type { DashboardPayload } from "./dashboard"
+import { createTransitionDetector } from "./transitions"
+
+function mkPayload(opts: {
+  completed?: number
+  total?: number
+  statusPill?: string
+  currentTool?: string
+  tasks?: Array<{ id: string; status: string }>
+  sessionId?: string
+}): DashboardPayload {
+  return {
+    mainSession: {
+      agent: "sisyphus",
+      currentModel: null,
+      currentTool: opts.currentTool ?? "-",
+      lastUpdatedLabel: "just now",
+      session: "Main",
+      sessionId: opts.sessionId ?? "ses_main",
+      statusPill: opts.statusPill ?? "busy",
+    },
+    planProgress: {
+      name: "refactor",
+      completed: opts.completed ?? 0,
+      total: opts.total ?? 3,
+      path: "/tmp/refactor.md",
+      statusPill: "in progress",
+      steps: [],
+      outline: [],
+      forecast: null,
+    },
+    backgroundTasks: (opts.tasks ?? []).map((t) => ({
+      id: t.id,
+      description: `Task ${t.id}`,
+      agent: "explore",
+      lastModel: null,
+      status: t.status,
+      toolCalls: 0,
+      lastTool: "-",
+      timeline: "",
+      startedAt: null,
+      endedAt: null,
+      sessionId: null,
+      tokenUsage: { totals: { input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 0 }, rows: [] },
+    })),
+    mainSessionTasks: [],
+    timeSeries: { windowMs: 0, bucketMs: 1, buckets: 0, anchorMs: 0, serverNowMs: 0, series: [] },
+    raw: null,
+  }
+}
+
+describe("createTransitionDetector", () => {
+  it("only seeds state from the first snapshot", () => {
+    // #given
+    const detector = createTransitionDetector({ projectRoot: "/work/app" })
+
+    // #when
+    const events = detector.observe(mkPayload({ completed: 3, total: 3, statusPill: "idle" }), 1_000)
+
+    // #then
+    expect(events).toEqual([])
+  })
+
+  it("reports plan steps and plan completion", () => {
+    // #given
+    const detector = createTransitionDetector({ projectRoot: "/work/app" })
+    detector.observe(mkPayload({ completed: 1 }), 1_000)
+
+    // #when
+    const step = detector.observe(mkPayload({ completed: 2 }), 2_000)
+    const done = detector.observe(mkPayload({ completed: 3 }), 3_000)
+    const again = detector.observe(mkPayload({ completed: 3 }), 4_000)
+
+    // #then
+    expect(step).toEqual([
+      {
+        type: "plan.step_completed",
+        atMs: 2_000,
+        projectRoot: "/work/app",
+        sessionId: "ses_main",
+        plan: { name: "refactor", completed: 2, total: 3 },
+      },
+    ])
+    expect(done.map((e) => e.type)).toEqual(["plan.completed"])
+    expect(again).toEqual([])
+  })
+
+  it("reports waiting with the same round-trip suppression as the browser ding", () => {
+    // #given
+    const detector = createTransitionDetector({ projectRoot: "/work/app" })
+    detector.observe(mkPayload({ statusPill: "busy", currentTool: "read" }), 0)
+
+    // #when
+    const idle = detector.observe(mkPayload({ statusPill: "idle" }), 30_000)
+    detector.observe(mkPayload({ statusPill: "busy", currentTool: "read" }), 31_000)
+    const quickIdle = detector.observe(mkPayload({ statusPill: "idle" }), 35_000)
+
+    // #then
+    expect(idle.map((e) => e.type)).toEqual(["session.waiting"])
+    expect(quickIdle).toEqual([])
+  })
+
+  it("reports each background task once when it errors", () => {
+    // #given
+    const detector = createTransitionDetector({ projectRoot: "/work/app" })
+    detector.observe(mkPayload({ tasks: [{ id: "t1", status: "running" }] }), 0)
+
+    // #when
+    const failed = detector.observe(mkPayload({ tasks: [{ id: "t1", status: "error" }] }), 1_000)
+    const still = detector.observe(mkPayload({ tasks: [{ id: "t1", status: "error" }] }), 2_000)
+
+    // #then
+    expect(failed).toHaveLength(1)
+    expect(failed[0]).toMatchObject({
+      type: "task.errored",
+      task: { id: "t1", description: "Task t1", agent: "explore", sessionId: null },
+    })
+    expect(still).toEqual([])
+  })
+
+  it("reports questions and task start/completion", () => {
+    // #given
+    const detector = createTransitionDetector({ projectRoot: "/work/app" })
+    detector.observe(mkPayload({ currentTool: "read", tasks: [{ id: "t1", status: "queued" }] }), 0)
+
+    // #when
+    const started = detector.observe(
+      mkPayload({ currentTool: "question", tasks: [{ id: "t1", status: "running" }, { id: "t2", status: "running" }] }),
+      1_000
+    )
+    const finished = detector.observe(
+      mkPayload({ currentTool: "question", tasks: [{ id: "t1", status: "completed" }, { id: "t2", status: "running" }] }),
+      2_000
+    )
+
+    // #then
+    expect(started.map((e) => [e.type, e.task?.id])).toEqual([
+      ["session.question", undefined],
+      ["task.started", "t1"],
+      ["task.started", "t2"],
+    ])
+    expect(finished.map((e) => [e.type, e.task?.id])).toEqual([["task.completed", "t1"]])
+  })
+
+  it("never reports tasks it has not seen finish, nor anything on a main session switch", () => {
+    // #given
+    const detector = createTransitionDetector({ projectRoot: "/work/app" })
+    detector.observe(mkPayload({ tasks: [{ id: "t1", status: "running" }] }), 0)
+
+    // #when
+    const appeared = detector.observe(
+      mkPayload({ tasks: [{ id: "t1", status: "running" }, { id: "t2", status: "completed" }, { id: "t3", status: "error" }] }),
+      1_000
+    )
+    const switched = detector.observe(
+      mkPayload({
+        sessionId: "ses_other",
+        completed: 2,
+        tasks: [{ id: "t4", status: "running" }, { id: "t5", status: "completed" }],
+      }),
+      2_000
+    )
+    const after = detector.observe(
+      mkPayload({ sessionId: "ses_other", completed: 2, tasks: [{ id: "t4", status: "completed" }, { id: "t5", status: "completed" }] }),
+      3_000
+    )
+
+    // #then
+    expect(appeared).toEqual([])
+    expect(switched).toEqual([])
+    expect(after.map((e) => [e.type, e.task?.id])).toEqual([["task.completed", "t4"]])
+  })
+})
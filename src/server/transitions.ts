@@ -0,0 +1,109 @@
+import { computeWaitingDing, type WaitingDingState } from "../ding-policy"
+import type { DashboardPayload, LegacyDashboardPayload } from "./dashboard"
+
+export type DashboardEventType =
+  | "plan.step_completed"
+  | "plan.completed"
+  | "session.waiting"
+  | "session.question"
+  | "task.started"
+  | "task.completed"
+  | "task.errored"
+
+export type DashboardEvent = {
+  type: DashboardEventType
+  atMs: number
+  projectRoot: string
+  sessionId: string | null
+  plan?: { name: string; completed: number; total: number }
+  task?: { id: string; description: string; agent: string; sessionId: string | null }
+}
+
+export type TransitionDetector = {
+  // Returns the events implied by moving from the previous snapshot to `payload`.
+  observe: (payload: DashboardPayload | LegacyDashboardPayload, nowMs?: number) => DashboardEvent[]
+}
+
+const TASK_EVENT_BY_STATUS: Record<string, DashboardEventType | undefined> = {
+  running: "task.started",
+  completed: "task.completed",
+  error: "task.errored",
+}
+
+export function isWaitingForUser(payload: DashboardPayload): boolean {
+  const idle = payload.mainSession.statusPill.toLowerCase().includes("idle")
+  const noTool = payload.mainSession.currentTool === "-" || payload.mainSession.currentTool === ""
+  return Boolean(payload.mainSession.sessionId) && idle && noTool
+}
+
+// Single source of truth for "something happened": UI dings, desktop notifications and webhooks
+// all consume these events instead of diffing snapshots themselves.
+// The first snapshot only seeds state: restarting the server must not replay "waiting". So does
+// the first snapshot of a different main session, whose tasks were never seen by this detector.
+export function createTransitionDetector(opts: { projectRoot: string; waitingSuppressMs?: number }): TransitionDetector {
+  let prev: DashboardPayload | null = null
+  let waiting: WaitingDingState = { prevWaiting: null, lastLeftWaitingAtMs: null }
+
+  return {
+    observe(payload, nowMs = Date.now()) {
+      if (!("mainSessionTasks" in payload)) return []
+
+      const waitingDecision = computeWaitingDing({
+        prev: waiting,
+        waiting: isWaitingForUser(payload),
+        nowMs,
+        suppressMs: opts.waitingSuppressMs,
+      })
+      waiting = waitingDecision.next
+
+      const before = prev
+      prev = payload
+      if (!before || before.mainSession.sessionId !== payload.mainSession.sessionId) return []
+
+      const base = { atMs: nowMs, projectRoot: opts.projectRoot, sessionId: payload.mainSession.sessionId }
+      const plan = {
+        name: payload.planProgress.name,
+        completed: payload.planProgress.completed,
+        total: payload.planProgress.total,
+      }
+      const events: DashboardEvent[] = []
+
+      const wasComplete = before.planProgress.total > 0 && before.planProgress.completed >= before.planProgress.total
+      const isComplete = plan.total > 0 && plan.completed >= plan.total
+      if (!wasComplete && isComplete) {
+        events.push({ ...base, type: "plan.completed", plan })
+      } else if (plan.total === before.planProgress.total && plan.completed > before.planProgress.completed) {
+        events.push({ ...base, type: "plan.step_completed", plan })
+      }
+
+      const tool = payload.mainSession.currentTool.trim().toLowerCase()
+      const prevTool = before.mainSession.currentTool.trim().toLowerCase()
+      if (tool === "question" && prevTool !== "question") {
+        events.push({ ...base, type: "session.question" })
+      }
+
+      if (waitingDecision.play) {
+        events.push({ ...base, type: "session.waiting" })
+      }
+
+      const statusBefore = new Map(before.backgroundTasks.map((t) => [t.id, t.status]))
+      for (const task of payload.backgroundTasks) {
+        const prevStatus = statusBefore.get(task.id)
+        if (task.status === prevStatus) continue
+        const type = TASK_EVENT_BY_STATUS[task.status]
+        if (!type) continue
+        // A task first seen already finished may have ended long ago; only a new running task is news.
+        if (prevStatus === undefined && type !== "task.started") continue
+        // A task that was already past "running" doesn't start again.
+        if (type === "task.started" && (prevStatus === "completed" || prevStatus === "error")) continue
+        events.push({
+          ...base,
+          type,
+          task: { id: task.id, description: task.description, agent: task.agent, sessionId: task.sessionId },
+        })
+      }
+
+      return events
+    },
+  }
+}
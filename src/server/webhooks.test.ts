@@ -0,0 +1,87 @@
+import * as http from "node:http"
+import type { AddressInfo } from "node:net"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import type { DashboardEvent } from "./transitions"
+import { createWebhookNotifier, parseWebhookUrls } from "./webhooks"
+
+const EVENT: DashboardEvent = {
+  type: "plan.completed",
+  atMs: 1_000,
+  projectRoot: "/work/app",
+  sessionId: "ses_main",
+  plan: { name: "refactor", completed: 3, total: 3 },
+}
+
+async function startStandIn(status = 204): Promise<{ url: string; received: unknown[]; close: () => Promise<void> }> {
+  const received: unknown[] = []
+  const server = http.createServer((req, res) => {
+    let body = ""
+    req.on("data", (chunk) => {
+      body += chunk
+    })
+    req.on("end", () => {
+      received.push({ method: req.method, contentType: req.headers["content-type"], body: JSON.parse(body) })
+      res.statusCode = status
+      res.end()
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()))
+  const { port } = server.address() as AddressInfo
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    received,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  }
+}
+
+describe("parseWebhookUrls", () => {
+  it("accepts repeated and comma-separated http(s) urls once each", () => {
+    expect(
+      parseWebhookUrls(["http://localhost:9000/a, https://chat.example/hook", "ftp://nope", "not a url", "http://localhost:9000/a"])
+    ).toEqual(["http://localhost:9000/a", "https://chat.example/hook"])
+  })
+})
+
+describe("createWebhookNotifier", () => {
+  const closers: Array<() => Promise<void>> = []
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await Promise.all(closers.splice(0).map((close) => close()))
+  })
+
+  it("POSTs each event as JSON to every configured url", async () => {
+    // #given
+    const a = await startStandIn()
+    const b = await startStandIn()
+    closers.push(a.close, b.close)
+    const notifier = createWebhookNotifier({ urls: [a.url, b.url] })
+
+    // #when
+    await notifier.send([EVENT])
+
+    // #then
+    const expected = { method: "POST", contentType: "application/json", body: EVENT }
+    expect(a.received).toEqual([expected])
+    expect(b.received).toEqual([expected])
+  })
+
+  it("keeps going when an endpoint fails or is unreachable", async () => {
+    // #given
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+    const failing = await startStandIn(500)
+    const healthy = await startStandIn()
+    closers.push(failing.close, healthy.close)
+    const notifier = createWebhookNotifier({ urls: [failing.url, "http://127.0.0.1:1/hook/T0SECRET", healthy.url] })
+
+    // #when
+    await notifier.send([EVENT])
+
+    // #then
+    expect(healthy.received).toHaveLength(1)
+    expect(warn).toHaveBeenCalledTimes(2)
+    const logged = warn.mock.calls.map((call) => String(call[0]))
+    expect(logged.join("\n")).toContain(new URL(failing.url).origin)
+    expect(logged.join("\n")).not.toContain("/hook")
+  })
+})
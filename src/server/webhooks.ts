@@ -0,0 +1,64 @@
+import type { DashboardEvent } from "./transitions"
+
+export type WebhookNotifier = {
+  send: (events: DashboardEvent[]) => Promise<void>
+}
+
+type FetchLike = (url: string, init: { method: string; headers: Record<string, string>; body: string; signal?: AbortSignal }) => Promise<{ ok: boolean; status: number }>
+
+export function parseWebhookUrls(values: string[]): string[] {
+  const urls: string[] = []
+  for (const value of values) {
+    for (const candidate of value.split(",")) {
+      const trimmed = candidate.trim()
+      if (!trimmed) continue
+      try {
+        const url = new URL(trimmed)
+        if (url.protocol !== "http:" && url.protocol !== "https:") continue
+        if (!urls.includes(url.toString())) urls.push(url.toString())
+      } catch {
+        // ignore
+      }
+    }
+  }
+  return urls
+}
+
+// Chat webhooks (Slack, Discord, ...) carry their secret in the path, so logs only name the origin.
+function webhookLogLabel(url: string): string {
+  try {
+    return new URL(url).origin
+  } catch {
+    return "(invalid url)"
+  }
+}
+
+// One POST per event and URL, each a self-contained JSON document. Delivery is best-effort:
+// a slow or failing endpoint never blocks the dashboard, it just logs and moves on.
+export function createWebhookNotifier(opts: { urls: string[]; fetchImpl?: FetchLike; timeoutMs?: number }): WebhookNotifier {
+  const fetchImpl: FetchLike = opts.fetchImpl ?? ((url, init) => fetch(url, init))
+  const timeoutMs = opts.timeoutMs ?? 5_000
+
+  return {
+    async send(events) {
+      const deliveries = events.flatMap((event) =>
+        opts.urls.map(async (url) => {
+          const label = webhookLogLabel(url)
+          try {
+            const res = await fetchImpl(url, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify(event),
+              signal: AbortSignal.timeout(timeoutMs),
+            })
+            if (!res.ok) console.warn(`webhook ${label} answered ${res.status} for ${event.type}`)
+          } catch (err) {
+            const message = (err instanceof Error ? err.message : String(err)).split(url).join(label)
+            console.warn(`webhook ${label} failed for ${event.type}: ${message}`)
+          }
+        })
+      )
+      await Promise.all(deliveries)
+    },
+  }
+}
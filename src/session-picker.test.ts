@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest"
+import { toSessionList, withSessionQuery } from "./App"
+
+describe('toSessionList', () => {
+  it('should parse the /api/sessions payload and drop malformed rows', () => {
+    // #given: server JSON with one valid and one malformed session
+    const serverJson: unknown = {
+      ok: true,
+      autoSessionId: "ses_b",
+      truncated: false,
+      sessions: [
+        { id: "ses_b", title: "Build", createdAt: 1000, updatedAt: 2000, agent: "sisyphus", statusPill: "busy" },
+        { title: "missing id" },
+      ],
+    }
+
+    // #when
+    const list = toSessionList(serverJson)
+
+    // #then
+    expect(list).toEqual({
+      autoSessionId: "ses_b",
+      truncated: false,
+      sessions: [
+        { id: "ses_b", title: "Build", createdAt: 1000, updatedAt: 2000, agent: "sisyphus", statusPill: "busy" },
+      ],
+    })
+  })
+
+  it('should reject non-ok responses', () => {
+    expect(toSessionList({ ok: false, sessions: [] })).toBeNull()
+    expect(toSessionList(null)).toBeNull()
+  })
+})
+
+describe('withSessionQuery', () => {
+  it('should append the pinned session id only when set', () => {
+    expect(withSessionQuery("/api/dashboard", null)).toBe("/api/dashboard")
+    expect(withSessionQuery("/api/dashboard", "ses_1")).toBe("/api/dashboard?sessionId=ses_1")
+    expect(withSessionQuery("/api/events?x=1", "ses 2")).toBe("/api/events?x=1&sessionId=ses%202")
+  })
+})
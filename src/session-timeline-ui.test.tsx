@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import * as React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { SessionTimelineGantt, toGanttPercent, toSessionTimeline } from "./session-timeline-ui";
+
+describe("toSessionTimeline", () => {
+  it("parses lanes and drops ticks without timestamps", () => {
+    // #given
+    const json = {
+      ok: true,
+      nowMs: 10_000,
+      startMs: 0,
+      endMs: 10_000,
+      lanes: [
+        {
+          id: "main-session",
+          kind: "main",
+          label: "Main session",
+          agent: "sisyphus",
+          status: "running",
+          sessionId: "ses_main",
+          startedAt: 0,
+          endedAt: null,
+          ticks: [{ atMs: 5_000, tool: "grep", status: "completed" }, { tool: "bash" }],
+        },
+      ],
+    };
+
+    // #when
+    const timeline = toSessionTimeline(json);
+
+    // #then
+    expect(timeline?.lanes).toHaveLength(1);
+    expect(timeline?.lanes[0]?.kind).toBe("main");
+    expect(timeline?.lanes[0]?.endedAt).toBeNull();
+    expect(timeline?.lanes[0]?.ticks).toEqual([{ atMs: 5_000, tool: "grep", status: "completed" }]);
+  });
+
+  it("returns an empty layout when the server has no time range", () => {
+    expect(toSessionTimeline({ ok: true, nowMs: 1, startMs: null, endMs: null, lanes: [] })?.lanes).toEqual([]);
+    expect(toSessionTimeline({ ok: false })).toBeNull();
+  });
+});
+
+describe("SessionTimelineGantt (SSR)", () => {
+  it("positions bars and ticks on the shared axis", () => {
+    // #given
+    const timeline = {
+      nowMs: 10_000,
+      startMs: 0,
+      endMs: 10_000,
+      lanes: [
+        {
+          id: "call_1",
+          kind: "task" as const,
+          label: "Scan repo",
+          agent: "explore",
+          status: "completed",
+          sessionId: "ses_bg",
+          startedAt: 2_000,
+          endedAt: 6_000,
+          ticks: [{ atMs: 5_000, tool: "grep", status: "error" }],
+          ticksTruncated: false,
+        },
+      ],
+    };
+
+    // #when
+    const html = renderToStaticMarkup(<SessionTimelineGantt timeline={timeline} />);
+
+    // #then
+    expect(html).toContain("Scan repo");
+    expect(html).toContain("left:20%;width:40%");
+    expect(html).toContain("ganttTick ganttTick-error");
+    expect(html).toContain("left:50%");
+  });
+
+  it("clamps percentages to the axis", () => {
+    expect(toGanttPercent(-5, 0, 10)).toBe(0);
+    expect(toGanttPercent(15, 0, 10)).toBe(100);
+    expect(toGanttPercent(5, 5, 5)).toBe(0);
+  });
+});
@@ -0,0 +1,154 @@
+import * as React from "react";
+
+export type SessionTimelineTick = {
+  atMs: number;
+  tool: string;
+  status: string;
+};
+
+export type SessionTimelineLane = {
+  id: string;
+  kind: "main" | "task";
+  label: string;
+  agent: string;
+  status: string;
+  sessionId: string | null;
+  startedAt: number | null;
+  endedAt: number | null;
+  ticks: SessionTimelineTick[];
+  ticksTruncated: boolean;
+};
+
+export type SessionTimeline = {
+  nowMs: number;
+  startMs: number;
+  endMs: number;
+  lanes: SessionTimelineLane[];
+};
+
+function toMs(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function toText(value: unknown, fallback: string): string {
+  return typeof value === "string" && value.trim() ? value : fallback;
+}
+
+export function toSessionTimeline(value: unknown): SessionTimeline | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  if (rec.ok !== true || !Array.isArray(rec.lanes)) return null;
+
+  const nowMs = toMs(rec.nowMs) ?? Date.now();
+  const startMs = toMs(rec.startMs);
+  const endMs = toMs(rec.endMs);
+  if (startMs === null || endMs === null) return { nowMs, startMs: nowMs, endMs: nowMs, lanes: [] };
+
+  const lanes = rec.lanes
+    .map((lane, idx): SessionTimelineLane | null => {
+      if (!lane || typeof lane !== "object") return null;
+      const l = lane as Record<string, unknown>;
+      const ticks = Array.isArray(l.ticks)
+        ? l.ticks
+            .map((tick): SessionTimelineTick | null => {
+              if (!tick || typeof tick !== "object") return null;
+              const t = tick as Record<string, unknown>;
+              const atMs = toMs(t.atMs);
+              if (atMs === null) return null;
+              return { atMs, tool: toText(t.tool, "?"), status: toText(t.status, "unknown") };
+            })
+            .filter((t): t is SessionTimelineTick => t !== null)
+        : [];
+      return {
+        id: toText(l.id, `lane-${idx + 1}`),
+        kind: l.kind === "main" ? "main" : "task",
+        label: toText(l.label, "(no description)"),
+        agent: toText(l.agent, "unknown"),
+        status: toText(l.status, "unknown"),
+        sessionId: typeof l.sessionId === "string" && l.sessionId ? l.sessionId : null,
+        startedAt: toMs(l.startedAt),
+        endedAt: toMs(l.endedAt),
+        ticks,
+        ticksTruncated: l.ticksTruncated === true,
+      };
+    })
+    .filter((l): l is SessionTimelineLane => l !== null);
+
+  return { nowMs, startMs, endMs, lanes };
+}
+
+export function toGanttPercent(ms: number, startMs: number, endMs: number): number {
+  const span = endMs - startMs;
+  if (span <= 0) return 0;
+  return Math.max(0, Math.min(100, ((ms - startMs) / span) * 100));
+}
+
+function formatClock(ms: number): string {
+  try {
+    return new Date(ms).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+  } catch {
+    return new Date(ms).toISOString();
+  }
+}
+
+function formatSpan(ms: number): string {
+  const totalMinutes = Math.max(0, Math.round(ms / 60_000));
+  if (totalMinutes < 1) return `${Math.max(0, Math.round(ms / 1000))}s`;
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h${minutes}m` : `${minutes}m`;
+}
+
+export function SessionTimelineGantt(props: { timeline: SessionTimeline }) {
+  const { startMs, endMs, nowMs, lanes } = props.timeline;
+
+  if (lanes.length === 0) {
+    return <div className="muted">No session activity to lay out yet.</div>;
+  }
+
+  return (
+    <div className="gantt" data-testid="session-timeline">
+      <div className="ganttAxis mono muted">
+        <span>{formatClock(startMs)}</span>
+        <span>{formatSpan(endMs - startMs)}</span>
+        <span>{formatClock(endMs)}</span>
+      </div>
+      {lanes.map((lane) => {
+        const laneStart = lane.startedAt ?? lane.ticks[0]?.atMs ?? null;
+        const laneEnd = lane.endedAt ?? nowMs;
+        const left = laneStart === null ? 0 : toGanttPercent(laneStart, startMs, endMs);
+        const right = toGanttPercent(laneEnd, startMs, endMs);
+        const open = lane.endedAt === null;
+
+        return (
+          <div key={`${lane.kind}-${lane.id}`} className="ganttRow">
+            <div className="ganttLabel" title={lane.sessionId ?? undefined}>
+              <div className="taskTitle">{lane.label}</div>
+              <div className="taskSub mono">
+                {lane.agent} - {lane.status}
+                {lane.ticksTruncated ? " - ticks capped" : ""}
+              </div>
+            </div>
+            <div className="ganttTrack">
+              {laneStart !== null ? (
+                <div
+                  className={`ganttBar ganttBar-${lane.kind}${open ? " ganttBarOpen" : ""}`}
+                  style={{ left: `${left}%`, width: `${Math.max(0.5, right - left)}%` }}
+                  title={`${formatClock(laneStart)} - ${open ? "now" : formatClock(laneEnd)}`}
+                />
+              ) : null}
+              {lane.ticks.map((tick, idx) => (
+                <span
+                  key={`${tick.atMs}-${idx}`}
+                  className={`ganttTick${tick.status === "error" ? " ganttTick-error" : ""}`}
+                  style={{ left: `${toGanttPercent(tick.atMs, startMs, endMs)}%` }}
+                  title={`${tick.tool} (${tick.status}) at ${formatClock(tick.atMs)}`}
+                />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import * as React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { flattenSessionTree, SessionTreeTable, toSessionTree } from "./session-tree-ui";
+
+const payload = {
+  ok: true,
+  totalSessions: 3,
+  truncated: false,
+  root: {
+    sessionId: "ses_root",
+    title: "Ship it",
+    status: "idle",
+    toolCalls: 4,
+    errors: 0,
+    subtree: { sessions: 3, toolCalls: 9, errors: 1, running: 1 },
+    children: [
+      {
+        sessionId: "ses_child",
+        description: "Fix tests",
+        agent: "sisyphus-junior (quick)",
+        status: "running",
+        toolCalls: 3,
+        errors: 0,
+        subtree: { sessions: 2, toolCalls: 5, errors: 1, running: 1 },
+        children: [
+          {
+            sessionId: "ses_grandchild",
+            description: "Read logs",
+            status: "error",
+            toolCalls: 2,
+            errors: 1,
+            toolCallsTruncated: true,
+            subtree: { sessions: 1, toolCalls: 2, errors: 1, running: 0 },
+            children: [{ title: "no id" }],
+          },
+        ],
+      },
+    ],
+  },
+};
+
+describe("toSessionTree", () => {
+  it("parses nested nodes and drops ones without a session id", () => {
+    const tree = toSessionTree(payload);
+
+    expect(tree?.root.children[0].children[0]).toMatchObject({ sessionId: "ses_grandchild", toolCallsTruncated: true, children: [] });
+    expect(toSessionTree({ ok: false })).toBe(null);
+  });
+});
+
+describe("flattenSessionTree", () => {
+  it("walks depth-first and skips collapsed subtrees", () => {
+    const tree = toSessionTree(payload)!;
+
+    expect(flattenSessionTree(tree.root, new Set()).map((r) => [r.node.sessionId, r.depth])).toEqual([
+      ["ses_root", 0],
+      ["ses_child", 1],
+      ["ses_grandchild", 2],
+    ]);
+    expect(flattenSessionTree(tree.root, new Set(["ses_child"])).map((r) => r.node.sessionId)).toEqual(["ses_root", "ses_child"]);
+  });
+});
+
+describe("SessionTreeTable", () => {
+  it("indents rows by depth and shows subtree roll-ups", () => {
+    const html = renderToStaticMarkup(
+      <SessionTreeTable tree={toSessionTree(payload)!} collapsed={new Set()} onToggle={() => undefined} />
+    );
+
+    expect(html).toContain("padding-left:36px");
+    expect(html).toContain("Fix tests");
+    expect(html).toContain("2 / 5 / 1 / 1");
+    expect(html).toContain("2+");
+  });
+});
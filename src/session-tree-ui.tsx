@@ -0,0 +1,167 @@
+import * as React from "react";
+
+export type SessionTreeRollup = {
+  sessions: number;
+  toolCalls: number;
+  errors: number;
+  running: number;
+};
+
+export type SessionTreeNode = {
+  sessionId: string;
+  title: string | null;
+  description: string | null;
+  agent: string | null;
+  status: string;
+  toolCalls: number;
+  errors: number;
+  toolCallsTruncated: boolean;
+  subtree: SessionTreeRollup;
+  children: SessionTreeNode[];
+};
+
+export type SessionTree = {
+  root: SessionTreeNode;
+  totalSessions: number;
+  truncated: boolean;
+};
+
+export type SessionTreeRow = {
+  node: SessionTreeNode;
+  depth: number;
+};
+
+function toCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : 0;
+}
+
+function toTextOrNull(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value : null;
+}
+
+function toNode(value: unknown): SessionTreeNode | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  if (typeof rec.sessionId !== "string" || !rec.sessionId) return null;
+  const subtree = rec.subtree && typeof rec.subtree === "object" ? (rec.subtree as Record<string, unknown>) : {};
+  return {
+    sessionId: rec.sessionId,
+    title: toTextOrNull(rec.title),
+    description: toTextOrNull(rec.description),
+    agent: toTextOrNull(rec.agent),
+    status: toTextOrNull(rec.status) ?? "unknown",
+    toolCalls: toCount(rec.toolCalls),
+    errors: toCount(rec.errors),
+    toolCallsTruncated: rec.toolCallsTruncated === true,
+    subtree: {
+      sessions: Math.max(1, toCount(subtree.sessions)),
+      toolCalls: toCount(subtree.toolCalls),
+      errors: toCount(subtree.errors),
+      running: toCount(subtree.running),
+    },
+    children: Array.isArray(rec.children) ? rec.children.map(toNode).filter((n): n is SessionTreeNode => n !== null) : [],
+  };
+}
+
+export function toSessionTree(value: unknown): SessionTree | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  if (rec.ok !== true) return null;
+  const root = toNode(rec.root);
+  if (!root) return null;
+  return { root, totalSessions: toCount(rec.totalSessions), truncated: rec.truncated === true };
+}
+
+// Depth-first rows for the indented table; collapsed nodes hide their descendants.
+export function flattenSessionTree(root: SessionTreeNode, collapsed: ReadonlySet<string>): SessionTreeRow[] {
+  const rows: SessionTreeRow[] = [];
+  const visit = (node: SessionTreeNode, depth: number) => {
+    rows.push({ node, depth });
+    if (collapsed.has(node.sessionId)) return;
+    for (const child of node.children) visit(child, depth + 1);
+  };
+  visit(root, 0);
+  return rows;
+}
+
+function statusTone(status: string): "teal" | "sand" | "red" {
+  if (status === "error") return "red";
+  if (status === "running") return "teal";
+  return "sand";
+}
+
+function nodeLabel(node: SessionTreeNode, depth: number): string {
+  if (depth === 0) return node.title ?? "Main session";
+  return node.description ?? node.title ?? node.sessionId;
+}
+
+export function SessionTreeTable(props: {
+  tree: SessionTree;
+  collapsed: ReadonlySet<string>;
+  onToggle: (sessionId: string) => void;
+}) {
+  const { tree, collapsed } = props;
+  const rows = flattenSessionTree(tree.root, collapsed);
+
+  return (
+    <div className="tableWrap" data-testid="session-tree">
+      <div className="mono muted toolStatsSummary">
+        {tree.totalSessions} session{tree.totalSessions === 1 ? "" : "s"}
+        {tree.truncated ? " - capped" : ""}
+      </div>
+      <table className="table">
+        <thead>
+          <tr>
+            <th>SESSION</th>
+            <th>AGENT</th>
+            <th>STATUS</th>
+            <th>TOOL CALLS</th>
+            <th>ERRORS</th>
+            <th>SUBTREE (SESS / CALLS / ERR / RUN)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ node, depth }) => {
+            const hasChildren = node.children.length > 0;
+            const isCollapsed = collapsed.has(node.sessionId);
+            return (
+              <tr key={node.sessionId}>
+                <td>
+                  <div className="sessionTreeCell" style={{ paddingLeft: depth * 18 }}>
+                    {hasChildren ? (
+                      <button
+                        type="button"
+                        className="bgTaskToggle"
+                        onClick={() => props.onToggle(node.sessionId)}
+                        aria-expanded={!isCollapsed}
+                        aria-label={isCollapsed ? "Expand sub-agents" : "Collapse sub-agents"}
+                      />
+                    ) : (
+                      <span className="sessionTreeLeaf" aria-hidden="true" />
+                    )}
+                    <div className="bgTaskRowTitleText">
+                      <div className="taskTitle">{nodeLabel(node, depth)}</div>
+                      <div className="taskSub mono">{node.sessionId}</div>
+                    </div>
+                  </div>
+                </td>
+                <td className="mono">{node.agent ?? "-"}</td>
+                <td>
+                  <span className={`pill pill-${statusTone(node.status)}`}>{node.status}</span>
+                </td>
+                <td className="mono">
+                  {node.toolCalls}
+                  {node.toolCallsTruncated ? "+" : ""}
+                </td>
+                <td className="mono">{node.errors}</td>
+                <td className="mono muted" title="Sessions / tool calls / errors / running in this subtree">
+                  {node.subtree.sessions} / {node.subtree.toolCalls} / {node.subtree.errors} / {node.subtree.running}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
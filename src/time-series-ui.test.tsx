@@ -6,6 +6,9 @@ import {
   TimeSeriesActivitySection,
   computeMainAgentsScaleMax,
   computeOtherMainAgentsCount,
+  computeTimeSeriesAxis,
+  formatTimeSeriesWindow,
+  withTimeSeriesWindow,
 } from "./App";
 
 type TimeSeriesProps = React.ComponentProps<typeof TimeSeriesActivitySection>;
@@ -66,6 +69,31 @@ describe("TimeSeriesActivitySection (SSR)", () => {
 
     // #then
     expect(html).toContain("timeSeriesBar--sand");
+    expect(html).toContain("Other</li>");
+  });
+
+  it("should stack and label one segment per agent series", () => {
+    // #given
+    const timeSeries = mkTimeSeries({
+      series: [
+        { id: "overall-main", label: "Overall", tone: "muted", values: [6, 0, 0] },
+        { id: "agent:sisyphus", label: "Sisyphus", tone: "teal", values: [1, 0, 0] },
+        { id: "agent:oracle", label: "oracle", tone: "violet", values: [2, 0, 0] },
+        { id: "agent:librarian", label: "librarian", tone: "blue", values: [3, 0, 0] },
+        { id: "background-total", label: "Background", tone: "muted", values: [0, 0, 0] },
+      ],
+    });
+
+    // #when
+    const html = renderToStaticMarkup(<TimeSeriesActivitySection timeSeries={timeSeries} />);
+
+    // #then
+    expect(html).toContain("timeSeriesBar--violet");
+    expect(html).toContain("timeSeriesBar--blue");
+    expect(html).not.toContain("timeSeriesBar--sand");
+    expect(html).toContain("oracle</li>");
+    expect(html).toContain("librarian</li>");
+    expect(html).not.toContain("Other</li>");
   });
 });
 
@@ -75,9 +103,7 @@ describe("time-series helpers", () => {
     const value = computeOtherMainAgentsCount({
       overall: 10,
       background: 3,
-      sisyphus: 2,
-      prometheus: 1,
-      atlas: 0,
+      agents: [2, 1, 0],
     });
 
     // #then
@@ -87,9 +113,7 @@ describe("time-series helpers", () => {
       computeOtherMainAgentsCount({
         overall: NaN,
         background: Infinity,
-        sisyphus: -1,
-        prometheus: 0,
-        atlas: 0,
+        agents: [-1, 0, 0],
       })
     ).toBe(0);
   });
@@ -100,12 +124,50 @@ describe("time-series helpers", () => {
       buckets: 1,
       overallValues: [10],
       backgroundValues: [0],
-      sisyphusValues: [0],
-      prometheusValues: [0],
-      atlasValues: [0],
+      agentValues: [[0], [0], [0]],
     });
 
     // #then
     expect(scaleMax).toBe(10);
+
+    expect(
+      computeMainAgentsScaleMax({
+        buckets: 2,
+        overallValues: [4, 9],
+        backgroundValues: [0, 0],
+        agentValues: [[1, 3], [2, 3], [1, 0], [0, 1]],
+      })
+    ).toBe(9);
+  });
+});
+
+describe("time-series window selector", () => {
+  it("labels the subtitle and bottom axis from the payload window", () => {
+    // #given
+    const timeSeries = mkTimeSeries({ windowMs: 7_200_000, bucketMs: 60_000, buckets: 120 });
+
+    // #when
+    const html = renderToStaticMarkup(
+      <TimeSeriesActivitySection timeSeries={timeSeries} windowKey="2h" onWindowChange={() => {}} />
+    );
+
+    // #then
+    expect(html).toContain("Last 2 hours");
+    expect(html).toContain("-1h30m");
+    expect(html).toContain('aria-pressed="true">2h</button>');
+    expect(html).not.toContain("-4m");
+  });
+
+  it("computeTimeSeriesAxis keeps at most six intervals per preset", () => {
+    expect(computeTimeSeriesAxis(300_000).labels).toEqual(["-5m", "-4m", "-3m", "-2m", "-1m", "Now"]);
+    expect(computeTimeSeriesAxis(1_800_000).labels).toEqual(["-30m", "-25m", "-20m", "-15m", "-10m", "-5m", "Now"]);
+    expect(computeTimeSeriesAxis(86_400_000).labels).toEqual(["-24h", "-18h", "-12h", "-6h", "Now"]);
+    expect(formatTimeSeriesWindow(300_000)).toBe("5 minutes");
+    expect(formatTimeSeriesWindow(86_400_000)).toBe("24 hours");
+  });
+
+  it("withTimeSeriesWindow only adds non-default windows", () => {
+    expect(withTimeSeriesWindow("/api/dashboard", "5m")).toBe("/api/dashboard");
+    expect(withTimeSeriesWindow("/api/dashboard?sessionId=a", "24h")).toBe("/api/dashboard?sessionId=a&window=24h");
   });
 });
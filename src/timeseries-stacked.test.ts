@@ -1,26 +1,43 @@
 import { describe, it, expect } from "vitest";
-import { computeStackedSegments, AgentCounts, StackedSegment } from "./timeseries-stacked";
+import { computeStackedSegments, StackedLayer, StackedSegment } from "./timeseries-stacked";
+
+interface AgentCounts {
+  sisyphus: number;
+  prometheus: number;
+  atlas: number;
+  other: number;
+}
+
+// The dashboard's historical four-tone stack, bottom to top.
+function fourTone(counts: AgentCounts): StackedLayer[] {
+  return [
+    { id: "sisyphus", tone: "teal", value: counts.sisyphus },
+    { id: "prometheus", tone: "red", value: counts.prometheus },
+    { id: "atlas", tone: "green", value: counts.atlas },
+    { id: "other", tone: "sand", value: counts.other },
+  ];
+}
 
 describe("computeStackedSegments", () => {
   describe("Edge cases", () => {
     it("should return empty array when chartHeight <= 0", () => {
       const counts: AgentCounts = { sisyphus: 10, prometheus: 5, atlas: 3, other: 0 };
       
-      expect(computeStackedSegments(counts, 20, 0)).toEqual([]);
-      expect(computeStackedSegments(counts, 20, -5)).toEqual([]);
+      expect(computeStackedSegments(fourTone(counts), 20, 0)).toEqual([]);
+      expect(computeStackedSegments(fourTone(counts), 20, -5)).toEqual([]);
     });
 
     it("should return empty array when scaleMax <= 0", () => {
       const counts: AgentCounts = { sisyphus: 10, prometheus: 5, atlas: 3, other: 0 };
       
-      expect(computeStackedSegments(counts, 0, 100)).toEqual([]);
-      expect(computeStackedSegments(counts, -10, 100)).toEqual([]);
+      expect(computeStackedSegments(fourTone(counts), 0, 100)).toEqual([]);
+      expect(computeStackedSegments(fourTone(counts), -10, 100)).toEqual([]);
     });
 
     it("should return empty array when all counts are zero", () => {
       const counts: AgentCounts = { sisyphus: 0, prometheus: 0, atlas: 0, other: 0 };
       
-      const result = computeStackedSegments(counts, 20, 100);
+      const result = computeStackedSegments(fourTone(counts), 20, 100);
       expect(result).toEqual([]);
     });
 
@@ -32,7 +49,7 @@ describe("computeStackedSegments", () => {
         other: NaN,
       } as unknown as AgentCounts;
       
-      const result = computeStackedSegments(invalidCounts, 20, 100);
+      const result = computeStackedSegments(fourTone(invalidCounts), 20, 100);
       expect(result).toEqual([]);
     });
 
@@ -44,9 +61,10 @@ describe("computeStackedSegments", () => {
         other: Infinity,
       } as unknown as AgentCounts;
       
-      const result = computeStackedSegments(mixedCounts, 20, 100);
+      const result = computeStackedSegments(fourTone(mixedCounts), 20, 100);
       expect(result).toHaveLength(1);
       expect(result[0]).toEqual({
+        id: "sisyphus",
         tone: "teal",
         y: 50,
         height: 50,
@@ -58,9 +76,10 @@ describe("computeStackedSegments", () => {
     it("should return one segment when only sisyphus is non-zero", () => {
       const counts: AgentCounts = { sisyphus: 10, prometheus: 0, atlas: 0, other: 0 };
       
-      const result = computeStackedSegments(counts, 20, 100);
+      const result = computeStackedSegments(fourTone(counts), 20, 100);
       expect(result).toHaveLength(1);
       expect(result[0]).toEqual({
+        id: "sisyphus",
         tone: "teal",
         y: 50,
         height: 50,
@@ -70,9 +89,10 @@ describe("computeStackedSegments", () => {
     it("should return one segment when only prometheus is non-zero", () => {
       const counts: AgentCounts = { sisyphus: 0, prometheus: 15, atlas: 0, other: 0 };
       
-      const result = computeStackedSegments(counts, 30, 120);
+      const result = computeStackedSegments(fourTone(counts), 30, 120);
       expect(result).toHaveLength(1);
       expect(result[0]).toEqual({
+        id: "prometheus",
         tone: "red",
         y: 60,
         height: 60,
@@ -82,9 +102,10 @@ describe("computeStackedSegments", () => {
     it("should return one segment when only atlas is non-zero", () => {
       const counts: AgentCounts = { sisyphus: 0, prometheus: 0, atlas: 8, other: 0 };
       
-      const result = computeStackedSegments(counts, 16, 80);
+      const result = computeStackedSegments(fourTone(counts), 16, 80);
       expect(result).toHaveLength(1);
       expect(result[0]).toEqual({
+        id: "atlas",
         tone: "green",
         y: 40,
         height: 40,
@@ -94,7 +115,7 @@ describe("computeStackedSegments", () => {
     it("should round to at least 1px for non-zero values", () => {
       const counts: AgentCounts = { sisyphus: 1, prometheus: 0, atlas: 0, other: 0 };
       
-      const result = computeStackedSegments(counts, 1000, 100);
+      const result = computeStackedSegments(fourTone(counts), 1000, 100);
       expect(result).toHaveLength(1);
       expect(result[0].height).toBeGreaterThanOrEqual(1);
     });
@@ -104,7 +125,7 @@ describe("computeStackedSegments", () => {
     it("should return multiple segments in correct order (bottom to top)", () => {
       const counts: AgentCounts = { sisyphus: 10, prometheus: 20, atlas: 15, other: 0 };
       
-      const result = computeStackedSegments(counts, 50, 100);
+      const result = computeStackedSegments(fourTone(counts), 50, 100);
       expect(result).toHaveLength(3);
       
       // Check order: teal (sisyphus) -> red (prometheus) -> green (atlas)
@@ -120,7 +141,7 @@ describe("computeStackedSegments", () => {
     it("should correctly calculate heights for all agents", () => {
       const counts: AgentCounts = { sisyphus: 10, prometheus: 20, atlas: 15, other: 0 };
       
-      const result = computeStackedSegments(counts, 50, 100);
+      const result = computeStackedSegments(fourTone(counts), 50, 100);
       const totalHeight = result.reduce((sum, seg) => sum + seg.height, 0);
       
       expect(totalHeight).toBeLessThanOrEqual(100);
@@ -134,7 +155,7 @@ describe("computeStackedSegments", () => {
     it("should handle zero values mixed with non-zero values", () => {
       const counts: AgentCounts = { sisyphus: 10, prometheus: 0, atlas: 15, other: 0 };
       
-      const result = computeStackedSegments(counts, 30, 90);
+      const result = computeStackedSegments(fourTone(counts), 30, 90);
       expect(result).toHaveLength(2);
       
       // Should only have teal (sisyphus) and green (atlas)
@@ -146,7 +167,7 @@ describe("computeStackedSegments", () => {
     });
     it("should include sand segment when other is non-zero", () => {
       const counts: AgentCounts = { sisyphus: 10, prometheus: 20, atlas: 15, other: 5 };
-      const result = computeStackedSegments(counts, 50, 100);
+      const result = computeStackedSegments(fourTone(counts), 50, 100);
       expect(result).toHaveLength(4);
 
       expect(result[0].tone).toBe("teal");
@@ -160,7 +181,7 @@ describe("computeStackedSegments", () => {
     it("should ensure sum of heights never exceeds chartHeight", () => {
       const counts: AgentCounts = { sisyphus: 100, prometheus: 100, atlas: 100, other: 100 };
       
-      const result = computeStackedSegments(counts, 100, 50); // Should overflow
+      const result = computeStackedSegments(fourTone(counts), 100, 50); // Should overflow
       const totalHeight = result.reduce((sum, seg) => sum + seg.height, 0);
       
       expect(totalHeight).toBeLessThanOrEqual(50);
@@ -169,7 +190,7 @@ describe("computeStackedSegments", () => {
     it("should preserve at least 1px for non-zero agents when possible", () => {
       const counts: AgentCounts = { sisyphus: 1, prometheus: 1, atlas: 1, other: 1 };
       
-      const result = computeStackedSegments(counts, 100, 10);
+      const result = computeStackedSegments(fourTone(counts), 100, 10);
       
       // All agents should be visible with at least 1px each
       expect(result).toHaveLength(4);
@@ -179,7 +200,7 @@ describe("computeStackedSegments", () => {
     it("should distribute overflow reduction fairly", () => {
       const counts: AgentCounts = { sisyphus: 40, prometheus: 35, atlas: 25, other: 10 };
       
-      const result = computeStackedSegments(counts, 100, 80);
+      const result = computeStackedSegments(fourTone(counts), 100, 80);
       const totalHeight = result.reduce((sum, seg) => sum + seg.height, 0);
       
       expect(totalHeight).toBeLessThanOrEqual(80);
@@ -192,7 +213,7 @@ describe("computeStackedSegments", () => {
     it("should handle extreme overflow gracefully", () => {
       const counts: AgentCounts = { sisyphus: 1000, prometheus: 1000, atlas: 1000, other: 1000 };
       
-      const result = computeStackedSegments(counts, 100, 5);
+      const result = computeStackedSegments(fourTone(counts), 100, 5);
       const totalHeight = result.reduce((sum, seg) => sum + seg.height, 0);
       
       expect(totalHeight).toBeLessThanOrEqual(5);
@@ -205,8 +226,8 @@ describe("computeStackedSegments", () => {
     it("should produce identical results for identical inputs", () => {
       const counts: AgentCounts = { sisyphus: 15, prometheus: 25, atlas: 10, other: 0 };
       
-      const result1 = computeStackedSegments(counts, 60, 100);
-      const result2 = computeStackedSegments(counts, 60, 100);
+      const result1 = computeStackedSegments(fourTone(counts), 60, 100);
+      const result2 = computeStackedSegments(fourTone(counts), 60, 100);
       
       expect(result1).toEqual(result2);
     });
@@ -220,7 +241,7 @@ describe("computeStackedSegments", () => {
       ] as AgentCounts[];
       
       testCases.forEach(counts => {
-        const result = computeStackedSegments(counts, 100, 100);
+        const result = computeStackedSegments(fourTone(counts), 100, 100);
         const tones = result.map(seg => seg.tone);
         
         if (result.length === 3) {
@@ -244,7 +265,7 @@ describe("computeStackedSegments", () => {
     it("should handle very small chartHeight", () => {
       const counts: AgentCounts = { sisyphus: 10, prometheus: 5, atlas: 3, other: 0 };
       
-      const result = computeStackedSegments(counts, 20, 1);
+      const result = computeStackedSegments(fourTone(counts), 20, 1);
       const totalHeight = result.reduce((sum, seg) => sum + seg.height, 0);
       
       expect(totalHeight).toBeLessThanOrEqual(1);
@@ -253,7 +274,7 @@ describe("computeStackedSegments", () => {
     it("should handle very large scaleMax", () => {
       const counts: AgentCounts = { sisyphus: 10, prometheus: 5, atlas: 3, other: 0 };
       
-      const result = computeStackedSegments(counts, 1000000, 100);
+      const result = computeStackedSegments(fourTone(counts), 1000000, 100);
       
       // Should produce very small but non-zero heights
       expect(result.length).toBeGreaterThan(0);
@@ -263,11 +284,36 @@ describe("computeStackedSegments", () => {
     it("should handle fractional results correctly", () => {
       const counts: AgentCounts = { sisyphus: 1, prometheus: 1, atlas: 1, other: 1 };
       
-      const result = computeStackedSegments(counts, 3, 10);
+      const result = computeStackedSegments(fourTone(counts), 3, 10);
       
       // All heights should be integers
       expect(result.every(seg => Number.isInteger(seg.height))).toBe(true);
       expect(result.every(seg => Number.isInteger(seg.y))).toBe(true);
     });
   });
+
+  describe("Arbitrary layers", () => {
+    it("should stack any number of layers in the given order", () => {
+      const layers: StackedLayer[] = [
+        { id: "agent:sisyphus", tone: "teal", value: 2 },
+        { id: "agent:librarian", tone: "blue", value: 1 },
+        { id: "agent:oracle", tone: "violet", value: 3 },
+        { id: "agent:explore", tone: "amber", value: 0 },
+        { id: "agent:reviewer", tone: "rose", value: 2 },
+        { id: "other", tone: "sand", value: 2 },
+      ];
+
+      const result: StackedSegment[] = computeStackedSegments(layers, 10, 100);
+
+      expect(result.map((seg) => seg.id)).toEqual([
+        "agent:sisyphus",
+        "agent:librarian",
+        "agent:oracle",
+        "agent:reviewer",
+        "other",
+      ]);
+      expect(result.map((seg) => seg.height)).toEqual([20, 10, 30, 20, 20]);
+      expect(result[result.length - 1].y).toBe(0);
+    });
+  });
 });
@@ -3,37 +3,33 @@
  * Independent of React/DOM for testability.
  */
 
-export type AgentTone = "teal" | "red" | "green" | "sand";
+export interface StackedLayer {
+  id: string;
+  tone: string;
+  value: number;
+}
 
 export interface StackedSegment {
-  tone: AgentTone;
+  id: string;
+  tone: string;
   y: number;
   height: number;
 }
 
-export interface AgentCounts {
-  sisyphus: number;
-  prometheus: number;
-  atlas: number;
-  other: number;
-}
-
 /**
  * Compute stacked bar segments for a single bucket.
- * 
- * Segment order (bottom to top):
- * 1. Sisyphus (teal) - bottom
- * 2. Prometheus (red) - middle  
- * 3. Atlas (green) - top
- * 4. Other main agents (sand) - top
- * 
- * @param counts - Agent counts for this bucket
+ *
+ * Layers are stacked in the order given: the first layer sits at the bottom
+ * of the bar and each following layer is placed on top of the previous one.
+ * Zero, negative and non-finite values are skipped.
+ *
+ * @param layers - Ordered layer values for this bucket (bottom to top)
  * @param scaleMax - Maximum value for scaling (must be > 0)
  * @param chartHeight - Available height in pixels
  * @returns Ordered segments from bottom to top
  */
 export function computeStackedSegments(
-  counts: AgentCounts,
+  layers: StackedLayer[],
   scaleMax: number,
   chartHeight: number
 ): StackedSegment[] {
@@ -42,74 +38,49 @@ export function computeStackedSegments(
     return [];
   }
 
-  // Validate and sanitize counts
-  const sanitized = {
-    sisyphus: Math.max(0, Number.isFinite(counts.sisyphus) ? counts.sisyphus : 0),
-    prometheus: Math.max(0, Number.isFinite(counts.prometheus) ? counts.prometheus : 0),
-    atlas: Math.max(0, Number.isFinite(counts.atlas) ? counts.atlas : 0),
-    other: Math.max(0, Number.isFinite(counts.other) ? counts.other : 0),
-  };
+  // Validate and sanitize values
+  const sanitized = layers
+    .map((layer) => ({
+      ...layer,
+      value: Math.max(0, Number.isFinite(layer.value) ? layer.value : 0),
+    }))
+    .filter((layer) => layer.value > 0);
 
-  const total = sanitized.sisyphus + sanitized.prometheus + sanitized.atlas + sanitized.other;
-  if (total === 0) {
+  if (sanitized.length === 0) {
     return [];
   }
 
-  // Compute raw heights
-  const rawHeights = {
-    sisyphus: (sanitized.sisyphus / scaleMax) * chartHeight,
-    prometheus: (sanitized.prometheus / scaleMax) * chartHeight,
-    atlas: (sanitized.atlas / scaleMax) * chartHeight,
-    other: (sanitized.other / scaleMax) * chartHeight,
-  };
+  // Round to pixels, keeping every non-zero layer at least 1px tall
+  const heights = sanitized.map((layer) => Math.max(1, Math.round((layer.value / scaleMax) * chartHeight)));
 
-  // Round to pixels, ensuring sum never exceeds chartHeight
-  const roundedHeights = {
-    sisyphus: Math.max(1, Math.round(rawHeights.sisyphus)) * (sanitized.sisyphus > 0 ? 1 : 0),
-    prometheus: Math.max(1, Math.round(rawHeights.prometheus)) * (sanitized.prometheus > 0 ? 1 : 0),
-    atlas: Math.max(1, Math.round(rawHeights.atlas)) * (sanitized.atlas > 0 ? 1 : 0),
-    other: Math.max(1, Math.round(rawHeights.other)) * (sanitized.other > 0 ? 1 : 0),
-  };
+  let totalRounded = heights.reduce((sum, h) => sum + h, 0);
 
-  // Ensure non-zero agents remain visible when possible
-  let totalRounded = roundedHeights.sisyphus + roundedHeights.prometheus + roundedHeights.atlas + roundedHeights.other;
-  
   // Distribute any overflow reduction fairly
   if (totalRounded > chartHeight) {
     const excess = totalRounded - chartHeight;
-    const weights = [
-      { key: 'sisyphus' as keyof typeof roundedHeights, height: roundedHeights.sisyphus },
-      { key: 'prometheus' as keyof typeof roundedHeights, height: roundedHeights.prometheus },
-      { key: 'atlas' as keyof typeof roundedHeights, height: roundedHeights.atlas },
-      { key: 'other' as keyof typeof roundedHeights, height: roundedHeights.other },
-    ].filter(w => w.height > 0);
+    const totalWeight = totalRounded;
+    let remainingExcess = excess;
+
+    for (let i = 0; i < heights.length; i++) {
+      if (remainingExcess <= 0) break;
+      const reduction = Math.min(
+        Math.max(1, heights[i] - 1), // Keep at least 1px for non-zero layers
+        Math.round((heights[i] / totalWeight) * excess)
+      );
+      heights[i] -= reduction;
+      remainingExcess -= reduction;
+    }
 
-    if (weights.length > 0) {
-      let remainingExcess = excess;
-      const totalWeight = weights.reduce((sum, w) => sum + w.height, 0);
-      
-      for (const weight of weights) {
-        if (remainingExcess <= 0) break;
-        const reduction = Math.min(
-          Math.max(1, weight.height - 1), // Keep at least 1px for non-zero agents
-          Math.round((weight.height / totalWeight) * excess)
-        );
-        roundedHeights[weight.key] -= reduction;
-        remainingExcess -= reduction;
-      }
-      
-      // If still over, trim from largest segments
-      totalRounded = roundedHeights.sisyphus + roundedHeights.prometheus + roundedHeights.atlas + roundedHeights.other;
-      while (totalRounded > chartHeight) {
-        const sortedWeights = weights
-          .map(w => ({ ...w, height: roundedHeights[w.key] }))
-          .filter(w => w.height > 1) // Only trim segments > 1px
-          .sort((a, b) => b.height - a.height);
-        
-        if (sortedWeights.length === 0) break;
-        roundedHeights[sortedWeights[0].key]--;
-        totalRounded--;
+    // If still over, trim from largest segments
+    totalRounded = heights.reduce((sum, h) => sum + h, 0);
+    while (totalRounded > chartHeight) {
+      let largest = -1;
+      for (let i = 0; i < heights.length; i++) {
+        if (heights[i] > 1 && (largest === -1 || heights[i] > heights[largest])) largest = i;
       }
+      if (largest === -1) break;
+      heights[largest]--;
+      totalRounded--;
     }
   }
 
@@ -117,45 +88,11 @@ export function computeStackedSegments(
   const segments: StackedSegment[] = [];
   let currentY = chartHeight; // Start from bottom
 
-  // Sisyphus (teal) - bottom
-  if (roundedHeights.sisyphus > 0) {
-    currentY -= roundedHeights.sisyphus;
-    segments.push({
-      tone: "teal",
-      y: currentY,
-      height: roundedHeights.sisyphus,
-    });
-  }
-
-  // Prometheus (red) - middle
-  if (roundedHeights.prometheus > 0) {
-    currentY -= roundedHeights.prometheus;
-    segments.push({
-      tone: "red",
-      y: currentY,
-      height: roundedHeights.prometheus,
-    });
-  }
-
-  // Atlas (green) - top
-  if (roundedHeights.atlas > 0) {
-    currentY -= roundedHeights.atlas;
-    segments.push({
-      tone: "green",
-      y: currentY,
-      height: roundedHeights.atlas,
-    });
-  }
-
-  // Other main agents (sand) - top
-  if (roundedHeights.other > 0) {
-    currentY -= roundedHeights.other;
-    segments.push({
-      tone: "sand",
-      y: currentY,
-      height: roundedHeights.other,
-    });
-  }
+  sanitized.forEach((layer, i) => {
+    if (heights[i] <= 0) return;
+    currentY -= heights[i];
+    segments.push({ id: layer.id, tone: layer.tone, y: currentY, height: heights[i] });
+  });
 
   return segments;
 }
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import * as React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { TokenUsageHistoryChart, toTokenUsageHistory } from "./token-usage-history-ui";
+
+describe("toTokenUsageHistory", () => {
+  it("should parse rows and totals from the history route", () => {
+    // #given
+    const json = {
+      ok: true,
+      fromMs: 0,
+      toMs: 10,
+      groupBy: "day",
+      rows: [{ key: "2026-01-05", total: 1200, messages: 3 }, { total: 5 }],
+      totals: { total: 1200, messages: 3 },
+    };
+
+    // #when
+    const history = toTokenUsageHistory(json);
+
+    // #then
+    expect(history).toEqual({
+      fromMs: 0,
+      toMs: 10,
+      rows: [{ key: "2026-01-05", total: 1200, messages: 3 }],
+      total: 1200,
+      messages: 3,
+    });
+    expect(toTokenUsageHistory({ ok: false })).toBeNull();
+  });
+});
+
+describe("TokenUsageHistoryChart (SSR)", () => {
+  it("should render one bar per non-empty day with day labels", () => {
+    // #given
+    const history = {
+      fromMs: 0,
+      toMs: 0,
+      rows: [
+        { key: "2026-01-05", total: 1200, messages: 3 },
+        { key: "2026-01-06", total: 0, messages: 0 },
+      ],
+      total: 1200,
+      messages: 3,
+    };
+
+    // #when
+    const html = renderToStaticMarkup(<TokenUsageHistoryChart history={history} />);
+
+    // #then
+    expect(html).toContain("1,200 tokens");
+    expect(html.match(/tokenHistoryBar/g)?.length).toBe(1);
+    expect(html).toContain("01-06");
+  });
+});
@@ -0,0 +1,79 @@
+import * as React from "react";
+
+import { formatTokenCount } from "./format-token-count";
+
+export type TokenUsageHistoryRow = {
+  key: string;
+  total: number;
+  messages: number;
+};
+
+export type TokenUsageHistory = {
+  fromMs: number;
+  toMs: number;
+  rows: TokenUsageHistoryRow[];
+  total: number;
+  messages: number;
+};
+
+function toCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : 0;
+}
+
+export function toTokenUsageHistory(value: unknown): TokenUsageHistory | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  if (rec.ok !== true || !Array.isArray(rec.rows)) return null;
+
+  const rows = rec.rows
+    .map((row): TokenUsageHistoryRow | null => {
+      if (!row || typeof row !== "object") return null;
+      const r = row as Record<string, unknown>;
+      if (typeof r.key !== "string" || !r.key) return null;
+      return { key: r.key, total: toCount(r.total), messages: toCount(r.messages) };
+    })
+    .filter((r): r is TokenUsageHistoryRow => r !== null);
+
+  const totals = rec.totals && typeof rec.totals === "object" ? (rec.totals as Record<string, unknown>) : {};
+  return {
+    fromMs: toCount(rec.fromMs),
+    toMs: toCount(rec.toMs),
+    rows,
+    total: toCount(totals.total),
+    messages: toCount(totals.messages),
+  };
+}
+
+export function TokenUsageHistoryChart(props: { history: TokenUsageHistory }) {
+  const { rows } = props.history;
+  const H = 40;
+  const max = rows.reduce((m, r) => Math.max(m, r.total), 0);
+
+  return (
+    <div className="tokenHistory" data-testid="token-usage-history">
+      <div className="tokenHistoryHeader mono muted">
+        Last {rows.length} days: {formatTokenCount(props.history.total)} tokens / {formatTokenCount(props.history.messages)} messages
+      </div>
+      {rows.length === 0 ? (
+        <div className="muted">No history recorded yet.</div>
+      ) : (
+        <>
+          <svg className="tokenHistorySvg" viewBox={`0 0 ${rows.length} ${H}`} preserveAspectRatio="none" aria-hidden="true">
+            {rows.map((r, i) => {
+              if (!max || r.total <= 0) return null;
+              const h = Math.max(1, Math.round((r.total / max) * (H - 2)));
+              return <rect key={r.key} className="tokenHistoryBar" x={i + 0.1} y={H - h} width={0.8} height={h} />;
+            })}
+          </svg>
+          <div className="tokenHistoryLabels mono muted">
+            {rows.map((r) => (
+              <span key={r.key} title={`${r.key}: ${formatTokenCount(r.total)} tokens`}>
+                {r.key.slice(5)}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { describe, expect, it } from "vitest";
 import * as React from "react";
 import { renderToStaticMarkup } from "react-dom/server";
-import { TokenUsageUi, TokenUsage } from "./token-usage-ui";
+import { TokenUsageUi, TokenUsage, tokenUsageCost } from "./token-usage-ui";
 
 
 
@@ -92,4 +92,38 @@ describe("TokenUsageUi (SSR)", () => {
     // #then
     expect(html).toContain("1,200");
   });
+
+  it("should render cost cells only when the server sent estimates", () => {
+    // #given
+    const priced = mkTokenUsage({
+      totals: { input: 100, output: 50, reasoning: 25, cacheRead: 10, cacheWrite: 5, total: 190, cost: 1.25 },
+      rows: [
+        { model: "anthropic/claude-opus-4-5", input: 60, output: 30, reasoning: 15, cacheRead: 5, cacheWrite: 2, total: 112, cost: 1.25 },
+      ],
+    });
+
+    // #when
+    const htmlPriced = renderToStaticMarkup(<TokenUsageUi tokenUsage={priced} expanded={true} />);
+    const htmlUnpriced = renderToStaticMarkup(<TokenUsageUi tokenUsage={mkTokenUsage()} expanded={true} />);
+
+    // #then
+    expect(htmlPriced).toContain("$1.25");
+    expect(htmlUnpriced).not.toContain("$");
+  });
+});
+
+describe("tokenUsageCost", () => {
+  it("returns null when any model is unpriced", () => {
+    const usage = mkTokenUsage({
+      totals: { input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 0, cost: 2 },
+      rows: [
+        { model: "a/priced", input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 0, cost: 2 },
+        { model: "b/unpriced", input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 0, cost: null },
+      ],
+    });
+
+    expect(tokenUsageCost(usage)).toBeNull();
+    expect(tokenUsageCost({ ...usage, rows: usage.rows.slice(0, 1) })).toBe(2);
+    expect(tokenUsageCost(undefined)).toBeUndefined();
+  });
 });
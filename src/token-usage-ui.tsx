@@ -1,5 +1,6 @@
 import * as React from "react";
 
+import { formatCost } from "./format-cost";
 import { formatTokenCount } from "./format-token-count";
 
 export type TokenUsageRow = {
@@ -10,6 +11,7 @@ export type TokenUsageRow = {
   cacheRead: number;
   cacheWrite: number;
   total: number;
+  cost?: number | null;
 };
 
 export type TokenUsageTotals = {
@@ -19,6 +21,7 @@ export type TokenUsageTotals = {
   cacheRead: number;
   cacheWrite: number;
   total: number;
+  cost?: number;
 };
 
 export type TokenUsage = {
@@ -26,11 +29,19 @@ export type TokenUsage = {
   rows: TokenUsageRow[];
 };
 
+// null when any model in the usage is unpriced, undefined when the server sent no estimate.
+export function tokenUsageCost(tokenUsage: TokenUsage | undefined): number | null | undefined {
+  if (!tokenUsage) return undefined;
+  if (tokenUsage.rows.some((row) => row.cost === null)) return null;
+  return tokenUsage.totals.cost;
+}
+
 export function TokenUsageUi(props: { tokenUsage?: TokenUsage; expanded: boolean }) {
   const { tokenUsage, expanded } = props;
   
   const totals = tokenUsage?.totals || { input: 0, output: 0, reasoning: 0, cacheRead: 0, cacheWrite: 0, total: 0 };
   const rows = tokenUsage?.rows || [];
+  const showCost = typeof totals.cost === "number";
 
   return React.createElement("div", { "data-testid": "token-usage-ui" },
     React.createElement("table", { className: "table" },
@@ -41,11 +52,12 @@ export function TokenUsageUi(props: { tokenUsage?: TokenUsage; expanded: boolean
           React.createElement("td", { className: "mono" }, formatTokenCount(totals.output)),
           React.createElement("td", { className: "mono" }, formatTokenCount(totals.reasoning)),
           React.createElement("td", { className: "mono" }, formatTokenCount(totals.cacheRead)),
-          React.createElement("td", { className: "mono" }, formatTokenCount(totals.cacheWrite))
+          React.createElement("td", { className: "mono" }, formatTokenCount(totals.cacheWrite)),
+          showCost ? React.createElement("td", { className: "mono" }, formatCost(tokenUsageCost(tokenUsage))) : null
         ),
         expanded && rows.length === 0 ? 
           React.createElement("tr", null,
-            React.createElement("td", { colSpan: 6, className: "muted", style: { padding: 16 } },
+            React.createElement("td", { colSpan: showCost ? 7 : 6, className: "muted", style: { padding: 16 } },
               "No token usage detected yet."
             )
           ) : null,
@@ -56,7 +68,8 @@ export function TokenUsageUi(props: { tokenUsage?: TokenUsage; expanded: boolean
             React.createElement("td", { className: "mono" }, formatTokenCount(row.output)),
             React.createElement("td", { className: "mono" }, formatTokenCount(row.reasoning)),
             React.createElement("td", { className: "mono" }, formatTokenCount(row.cacheRead)),
-            React.createElement("td", { className: "mono" }, formatTokenCount(row.cacheWrite))
+            React.createElement("td", { className: "mono" }, formatTokenCount(row.cacheWrite)),
+            showCost ? React.createElement("td", { className: "mono" }, formatCost(row.cost)) : null
           )
         ) : null
       )
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import * as React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { formatToolCallDuration, ToolCallDrawer, toToolCallDetail } from "./tool-call-drawer";
+
+const TARGET = { sessionId: "ses_1", callId: "call_1", tool: "bash" };
+
+function mkResponse(revealInput: boolean, toolCall: Record<string, unknown> = {}, privacy = "debug") {
+  return {
+    ok: true,
+    sessionId: "ses_1",
+    callId: "call_1",
+    privacy,
+    revealInput,
+    toolCall: {
+      sessionId: "ses_1",
+      messageId: "msg_1",
+      callId: "call_1",
+      tool: "bash",
+      status: "completed",
+      createdAtMs: 1_000,
+      startedAtMs: 1_000,
+      endedAtMs: 3_500,
+      durationMs: 2_500,
+      input: { command: "ls" },
+      output: "a.txt",
+      ...toolCall,
+    },
+  };
+}
+
+describe("toToolCallDetail", () => {
+  it("drops input the server did not mean to reveal", () => {
+    // #given
+    const json = mkResponse(false);
+
+    // #when
+    const detail = toToolCallDetail(json);
+
+    // #then
+    expect(detail?.inputRevealed).toBe(false);
+    expect(detail?.input).toBeUndefined();
+    expect(detail?.durationMs).toBe(2_500);
+  });
+
+  it("rejects error responses", () => {
+    expect(toToolCallDetail({ ok: false, sessionId: "ses_1", callId: "call_1" })).toBeNull();
+  });
+});
+
+describe("formatToolCallDuration", () => {
+  it("scales from milliseconds to minutes", () => {
+    expect(formatToolCallDuration(null)).toBe("-");
+    expect(formatToolCallDuration(420)).toBe("420ms");
+    expect(formatToolCallDuration(2_500)).toBe("2.5s");
+    expect(formatToolCallDuration(125_000)).toBe("2m5s");
+  });
+});
+
+describe("ToolCallDrawer", () => {
+  it("explains how to reveal hidden input", () => {
+    // #given
+    const detail = toToolCallDetail(mkResponse(false));
+
+    // #when
+    const html = renderToStaticMarkup(
+      <ToolCallDrawer target={TARGET} detail={detail} loading={false} failed={false} nowMs={5_000} onClose={() => {}} />
+    );
+
+    // #then
+    expect(html).toContain("--reveal-tool-inputs");
+    expect(html).not.toContain("command");
+    expect(html).toContain("a.txt");
+  });
+
+  it("says when strict privacy mode withholds output", () => {
+    // #given
+    const detail = toToolCallDetail(mkResponse(false, { output: undefined }, "strict"));
+
+    // #when
+    const html = renderToStaticMarkup(
+      <ToolCallDrawer target={TARGET} detail={detail} loading={false} failed={false} nowMs={5_000} onClose={() => {}} />
+    );
+
+    // #then
+    expect(detail?.outputHidden).toBe(true);
+    expect(html).toContain("--privacy debug");
+    expect(html).not.toContain("--reveal-tool-inputs");
+  });
+
+  it("shows revealed input and how long an open call has been running", () => {
+    // #given
+    const detail = toToolCallDetail(mkResponse(true, { status: "running", endedAtMs: null, durationMs: null }));
+
+    // #when
+    const html = renderToStaticMarkup(
+      <ToolCallDrawer target={TARGET} detail={detail} loading={false} failed={false} nowMs={61_000} onClose={() => {}} />
+    );
+
+    // #then
+    expect(html).toContain("&quot;command&quot;: &quot;ls&quot;");
+    expect(html).toContain("running for 1m0s");
+  });
+});
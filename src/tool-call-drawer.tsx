@@ -0,0 +1,196 @@
+import * as React from "react";
+
+export type ToolCallDetail = {
+  sessionId: string;
+  messageId: string;
+  callId: string;
+  tool: string;
+  status: string;
+  createdAtMs: number | null;
+  startedAtMs: number | null;
+  endedAtMs: number | null;
+  durationMs: number | null;
+  // False when the server runs without --reveal-tool-inputs; `input` is then always undefined.
+  inputRevealed: boolean;
+  // True under `--privacy strict`, where the server never sends output or errors.
+  outputHidden: boolean;
+  input?: unknown;
+  output?: unknown;
+  error?: unknown;
+};
+
+export type ToolCallDrawerTarget = {
+  sessionId: string;
+  callId: string;
+  tool: string;
+  // Lets the server find calls from older pages, outside its recent-messages scan.
+  messageId?: string;
+};
+
+function toMs(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function toText(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value : null;
+}
+
+export function toToolCallDetail(value: unknown): ToolCallDetail | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  if (rec.ok !== true || !rec.toolCall || typeof rec.toolCall !== "object") return null;
+  const call = rec.toolCall as Record<string, unknown>;
+
+  const sessionId = toText(call.sessionId);
+  const messageId = toText(call.messageId);
+  const callId = toText(call.callId);
+  const tool = toText(call.tool);
+  if (!sessionId || !messageId || !callId || !tool) return null;
+
+  const inputRevealed = rec.revealInput === true;
+  return {
+    sessionId,
+    messageId,
+    callId,
+    tool,
+    status: toText(call.status) ?? "unknown",
+    createdAtMs: toMs(call.createdAtMs),
+    startedAtMs: toMs(call.startedAtMs),
+    endedAtMs: toMs(call.endedAtMs),
+    durationMs: toMs(call.durationMs),
+    inputRevealed,
+    outputHidden: rec.privacy === "strict",
+    input: inputRevealed ? call.input : undefined,
+    output: call.output,
+    error: call.error,
+  };
+}
+
+export function formatToolCallDuration(ms: number | null): string {
+  if (ms === null) return "-";
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m${Math.round(seconds % 60)}s`;
+}
+
+function formatClock(ms: number | null): string {
+  if (ms === null) return "-";
+  try {
+    return new Date(ms).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+  } catch {
+    return new Date(ms).toISOString();
+  }
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+export function ToolCallDrawer(props: {
+  target: ToolCallDrawerTarget;
+  detail: ToolCallDetail | null;
+  loading: boolean;
+  failed: boolean;
+  nowMs: number;
+  onClose: () => void;
+}) {
+  const { target, detail, loading, failed } = props;
+  const closeRef = React.useRef<HTMLButtonElement | null>(null);
+
+  React.useEffect(() => {
+    closeRef.current?.focus();
+  }, [target.callId]);
+
+  const runningFor =
+    detail && detail.startedAtMs !== null && detail.endedAtMs === null
+      ? Math.max(0, props.nowMs - detail.startedAtMs)
+      : null;
+
+  return (
+    <aside
+      className="toolCallDrawer"
+      role="dialog"
+      aria-label={`Tool call ${target.callId}`}
+      data-testid="tool-call-drawer"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") props.onClose();
+      }}
+    >
+      <div className="toolCallDrawerHeader">
+        <div>
+          <div className="mono toolCallDrawerTool">{target.tool}</div>
+          <div className="mono muted toolCallDrawerId" title={target.callId}>
+            {target.callId}
+          </div>
+        </div>
+        <button ref={closeRef} type="button" className="button buttonSmall" onClick={props.onClose} aria-label="Close tool call details">
+          Close
+        </button>
+      </div>
+
+      {failed ? (
+        <div className="muted">Tool call details unavailable.</div>
+      ) : !detail ? (
+        <div className="muted">{loading ? "Loading tool call..." : "No details."}</div>
+      ) : (
+        <div className="toolCallDrawerBody">
+          <dl className="toolCallDrawerFacts mono">
+            <dt>Status</dt>
+            <dd>{detail.status}</dd>
+            <dt>Started</dt>
+            <dd>{formatClock(detail.startedAtMs ?? detail.createdAtMs)}</dd>
+            <dt>Ended</dt>
+            <dd>{formatClock(detail.endedAtMs)}</dd>
+            <dt>Duration</dt>
+            <dd>
+              {runningFor !== null ? `running for ${formatToolCallDuration(runningFor)}` : formatToolCallDuration(detail.durationMs)}
+            </dd>
+          </dl>
+
+          <div className="mono muted bgTaskDetailHeader">Input</div>
+          {detail.inputRevealed ? (
+            detail.input === undefined ? (
+              <div className="muted">No input recorded.</div>
+            ) : (
+              <pre className="code toolCallOutputPre">
+                <code>{formatValue(detail.input)}</code>
+              </pre>
+            )
+          ) : detail.outputHidden ? (
+            <div className="muted">Hidden in strict privacy mode.</div>
+          ) : (
+            <div className="muted">
+              Hidden. Start the dashboard with <span className="mono">--reveal-tool-inputs</span> to show tool arguments.
+            </div>
+          )}
+
+          <div className="mono muted bgTaskDetailHeader">Output</div>
+          {detail.outputHidden ? (
+            <div className="muted">
+              Hidden in strict privacy mode. Restart with <span className="mono">--privacy debug</span> to show output and errors.
+            </div>
+          ) : detail.output === undefined ? (
+            <div className="muted">No output recorded.</div>
+          ) : (
+            <pre className="code toolCallOutputPre">
+              <code>{formatValue(detail.output)}</code>
+            </pre>
+          )}
+
+          {detail.error !== undefined ? (
+            <>
+              <div className="mono bgTaskDetailHeader" style={{ color: "var(--red-9)" }}>
+                Error
+              </div>
+              <pre className="code toolCallErrorPre">
+                <code>{formatValue(detail.error)}</code>
+              </pre>
+            </>
+          ) : null}
+        </div>
+      )}
+    </aside>
+  );
+}
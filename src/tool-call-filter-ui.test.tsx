@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import * as React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import {
+  appendToolCallPage,
+  EMPTY_TOOL_CALL_FILTER,
+  ToolCallFilterBar,
+  toggleToolCallStatus,
+  toolCallFilterQuery,
+  toToolCallFacets,
+} from "./tool-call-filter-ui";
+
+describe("toolCallFilterQuery", () => {
+  it("is empty for the default filter and encodes every active field", () => {
+    expect(toolCallFilterQuery(EMPTY_TOOL_CALL_FILTER)).toBe("");
+    expect(toolCallFilterQuery({ statuses: ["running", "error"], tool: "bash", query: " time out ", errorsOnly: false })).toBe(
+      "?status=running%2Cerror&tool=bash&q=time+out"
+    );
+  });
+
+  it("sends errorsOnly instead of the status chips", () => {
+    expect(toolCallFilterQuery({ ...EMPTY_TOOL_CALL_FILTER, statuses: ["running"], errorsOnly: true })).toBe("?errorsOnly=1");
+  });
+
+  it("adds the page cursor when loading older calls", () => {
+    expect(toolCallFilterQuery({ ...EMPTY_TOOL_CALL_FILTER, tool: "read" }, "1000,msg_1")).toBe("?before=1000%2Cmsg_1&tool=read");
+    expect(toolCallFilterQuery(EMPTY_TOOL_CALL_FILTER, null)).toBe("");
+  });
+});
+
+describe("appendToolCallPage", () => {
+  it("appends only calls that are not loaded yet", () => {
+    const loaded = [{ callId: "c3", status: "running" }, { callId: "c2", status: "completed" }];
+    const page = [{ callId: "c2", status: "error" }, { callId: "c1", status: "completed" }];
+
+    expect(appendToolCallPage(loaded, page)).toEqual([
+      { callId: "c3", status: "running" },
+      { callId: "c2", status: "completed" },
+      { callId: "c1", status: "completed" },
+    ]);
+  });
+});
+
+describe("toggleToolCallStatus", () => {
+  it("keeps chips in display order and clears errors-only", () => {
+    // #given
+    const filter = { ...EMPTY_TOOL_CALL_FILTER, statuses: ["error" as const], errorsOnly: true };
+
+    // #when
+    const added = toggleToolCallStatus(filter, "pending");
+    const removed = toggleToolCallStatus(added, "error");
+
+    // #then
+    expect(added).toMatchObject({ statuses: ["pending", "error"], errorsOnly: false });
+    expect(removed.statuses).toEqual(["pending"]);
+  });
+});
+
+describe("ToolCallFilterBar", () => {
+  it("shows facet counts on the chips and the tool picker", () => {
+    // #given
+    const facets = toToolCallFacets({
+      statuses: { pending: 0, running: 1, completed: 7, error: 2, unknown: 0 },
+      tools: [{ tool: "read", count: 6 }, { tool: "bash", count: 4 }],
+    });
+
+    // #when
+    const html = renderToStaticMarkup(
+      <ToolCallFilterBar filter={{ ...EMPTY_TOOL_CALL_FILTER, statuses: ["error"] }} facets={facets} onChange={() => {}} />
+    );
+
+    // #then
+    expect(html).toContain('aria-pressed="true"');
+    expect(html).toContain("bash (4)");
+    expect(html).toContain("Clear");
+  });
+});
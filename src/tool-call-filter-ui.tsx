@@ -0,0 +1,156 @@
+import * as React from "react";
+
+export const TOOL_CALL_STATUS_CHIPS = ["pending", "running", "completed", "error"] as const;
+
+export type ToolCallStatusChip = (typeof TOOL_CALL_STATUS_CHIPS)[number];
+
+export type ToolCallFilter = {
+  statuses: ToolCallStatusChip[];
+  tool: string | null;
+  query: string;
+  errorsOnly: boolean;
+};
+
+export type ToolCallFacets = {
+  statuses: Record<string, number>;
+  tools: Array<{ tool: string; count: number }>;
+};
+
+export const EMPTY_TOOL_CALL_FILTER: ToolCallFilter = { statuses: [], tool: null, query: "", errorsOnly: false };
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function isToolCallFilterActive(filter: ToolCallFilter): boolean {
+  return filter.statuses.length > 0 || filter.tool !== null || filter.query.trim() !== "" || filter.errorsOnly;
+}
+
+// Query string for /api/tool-calls/:sessionId; empty when nothing is filtered so the plain route stays cacheable.
+// `before` is the server's `nextBefore` cursor when loading an older page.
+export function toolCallFilterQuery(filter: ToolCallFilter, before?: string | null): string {
+  const params = new URLSearchParams();
+  if (before) params.set("before", before);
+  if (filter.errorsOnly) params.set("errorsOnly", "1");
+  else if (filter.statuses.length > 0) params.set("status", filter.statuses.join(","));
+  if (filter.tool) params.set("tool", filter.tool);
+  const query = filter.query.trim();
+  if (query) params.set("q", query);
+  const text = params.toString();
+  return text ? `?${text}` : "";
+}
+
+// Older pages end on message boundaries, but a refresh can shift the first page onto calls we
+// already hold; keep the first copy of each call.
+export function appendToolCallPage<T extends { callId: string }>(loaded: T[], page: T[]): T[] {
+  const seen = new Set(loaded.map((c) => c.callId));
+  return loaded.concat(page.filter((c) => !seen.has(c.callId)));
+}
+
+export function toToolCallFacets(value: unknown): ToolCallFacets | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const rec = value as Record<string, unknown>;
+  const statusesRaw = rec.statuses && typeof rec.statuses === "object" ? (rec.statuses as Record<string, unknown>) : {};
+  const statuses: Record<string, number> = {};
+  for (const [key, count] of Object.entries(statusesRaw)) {
+    if (typeof count === "number" && Number.isFinite(count)) statuses[key] = Math.max(0, Math.floor(count));
+  }
+  const tools = Array.isArray(rec.tools)
+    ? rec.tools
+        .map((t): { tool: string; count: number } | null => {
+          if (!t || typeof t !== "object") return null;
+          const r = t as Record<string, unknown>;
+          if (typeof r.tool !== "string" || !r.tool) return null;
+          return { tool: r.tool, count: typeof r.count === "number" && Number.isFinite(r.count) ? Math.max(0, r.count) : 0 };
+        })
+        .filter((t): t is { tool: string; count: number } => t !== null)
+    : [];
+  return { statuses, tools };
+}
+
+export function toggleToolCallStatus(filter: ToolCallFilter, status: ToolCallStatusChip): ToolCallFilter {
+  const statuses = filter.statuses.includes(status)
+    ? filter.statuses.filter((s) => s !== status)
+    : TOOL_CALL_STATUS_CHIPS.filter((s) => s === status || filter.statuses.includes(s));
+  return { ...filter, statuses, errorsOnly: false };
+}
+
+export function ToolCallFilterBar(props: {
+  filter: ToolCallFilter;
+  facets?: ToolCallFacets;
+  onChange: (next: ToolCallFilter) => void;
+}) {
+  const { filter, facets, onChange } = props;
+  const [draftQuery, setDraftQuery] = React.useState(filter.query);
+  const onChangeRef = React.useRef(onChange);
+  const filterRef = React.useRef(filter);
+  onChangeRef.current = onChange;
+  filterRef.current = filter;
+
+  React.useEffect(() => {
+    setDraftQuery(filter.query);
+  }, [filter.query]);
+
+  // Typing only re-queries the server once the search box has been still for a moment.
+  React.useEffect(() => {
+    if (draftQuery === filterRef.current.query) return;
+    const t = window.setTimeout(() => onChangeRef.current({ ...filterRef.current, query: draftQuery }), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(t);
+  }, [draftQuery]);
+
+  const tools = facets?.tools ?? [];
+  const toolOptions = filter.tool && !tools.some((t) => t.tool === filter.tool) ? [{ tool: filter.tool, count: 0 }, ...tools] : tools;
+
+  return (
+    <div className="toolCallFilters" role="group" aria-label="Filter tool calls">
+      {TOOL_CALL_STATUS_CHIPS.map((status) => {
+        const active = filter.errorsOnly ? status === "error" : filter.statuses.includes(status);
+        const count = facets?.statuses[status];
+        return (
+          <button
+            key={status}
+            type="button"
+            className="button buttonSmall"
+            aria-pressed={active}
+            onClick={() => onChange(toggleToolCallStatus(filter, status))}
+          >
+            {status}
+            {typeof count === "number" ? <span className="mono muted"> {count}</span> : null}
+          </button>
+        );
+      })}
+      <label className="toolCallFilterToggle mono">
+        <input
+          type="checkbox"
+          checked={filter.errorsOnly}
+          onChange={(e) => onChange({ ...filter, errorsOnly: e.target.checked, statuses: [] })}
+        />
+        errors only
+      </label>
+      <select
+        className="toolCallFilterSelect mono"
+        aria-label="Tool name"
+        value={filter.tool ?? ""}
+        onChange={(e) => onChange({ ...filter, tool: e.target.value || null })}
+      >
+        <option value="">all tools</option>
+        {toolOptions.map((t) => (
+          <option key={t.tool} value={t.tool}>
+            {t.tool} ({t.count})
+          </option>
+        ))}
+      </select>
+      <input
+        type="search"
+        className="toolCallFilterSearch mono"
+        placeholder="Search tool names and output"
+        aria-label="Search tool calls"
+        value={draftQuery}
+        onChange={(e) => setDraftQuery(e.target.value)}
+      />
+      {isToolCallFilterActive(filter) ? (
+        <button type="button" className="button buttonSmall" onClick={() => onChange(EMPTY_TOOL_CALL_FILTER)}>
+          Clear
+        </button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import * as React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { nextToolStatsSort, sortToolStatsRows, ToolStatsTable, toToolStats } from "./tool-stats-ui";
+
+const JSON_PAYLOAD = {
+  ok: true,
+  sessionIds: ["ses_root", "ses_child"],
+  totalCalls: 6,
+  truncated: false,
+  rows: [
+    { tool: "bash", calls: 4, completed: 2, errors: 2, pending: 0, running: 0, timedCalls: 4, medianMs: 300, p95Ms: 900 },
+    { tool: "webfetch", calls: 1, completed: 1, errors: 0, pending: 0, running: 0, timedCalls: 1, medianMs: 12_000, p95Ms: 12_000 },
+    { tool: "question", calls: 1, completed: 0, errors: 0, pending: 1, running: 0, timedCalls: 0, medianMs: null, p95Ms: null },
+  ],
+};
+
+describe("toToolStats", () => {
+  it("parses rows and derives the error rate", () => {
+    const stats = toToolStats(JSON_PAYLOAD);
+    expect(stats?.rows.map((r) => [r.tool, r.errorRate])).toEqual([
+      ["bash", 0.5],
+      ["webfetch", 0],
+      ["question", 0],
+    ]);
+    expect(toToolStats({ ok: false })).toBeNull();
+  });
+});
+
+describe("sortToolStatsRows", () => {
+  it("sorts by the chosen column and keeps untimed tools last", () => {
+    // #given
+    const rows = toToolStats(JSON_PAYLOAD)?.rows ?? [];
+
+    // #when
+    const slowest = sortToolStatsRows(rows, { key: "p95Ms", dir: "desc" });
+    const fastest = sortToolStatsRows(rows, { key: "p95Ms", dir: "asc" });
+
+    // #then
+    expect(slowest.map((r) => r.tool)).toEqual(["webfetch", "bash", "question"]);
+    expect(fastest.map((r) => r.tool)).toEqual(["bash", "webfetch", "question"]);
+  });
+
+  it("flips direction on the active column and starts numbers descending", () => {
+    expect(nextToolStatsSort({ key: "calls", dir: "desc" }, "calls")).toEqual({ key: "calls", dir: "asc" });
+    expect(nextToolStatsSort({ key: "calls", dir: "desc" }, "errors")).toEqual({ key: "errors", dir: "desc" });
+    expect(nextToolStatsSort({ key: "calls", dir: "desc" }, "tool")).toEqual({ key: "tool", dir: "asc" });
+  });
+});
+
+describe("ToolStatsTable", () => {
+  it("renders one row per tool with formatted durations", () => {
+    // #given
+    const stats = toToolStats(JSON_PAYLOAD)!;
+
+    // #when
+    const html = renderToStaticMarkup(
+      <ToolStatsTable stats={stats} sort={{ key: "errors", dir: "desc" }} onSortChange={() => {}} />
+    );
+
+    // #then
+    expect(html).toContain("6 calls across 2 sessions");
+    expect(html).toContain("50%");
+    expect(html).toContain("12.0s");
+    expect(html).toContain('aria-sort="descending"');
+  });
+});
@@ -0,0 +1,168 @@
+import * as React from "react";
+
+import { formatToolCallDuration } from "./tool-call-drawer";
+
+export type ToolStatsRow = {
+  tool: string;
+  calls: number;
+  completed: number;
+  errors: number;
+  pending: number;
+  running: number;
+  errorRate: number;
+  timedCalls: number;
+  medianMs: number | null;
+  p95Ms: number | null;
+};
+
+export type ToolStats = {
+  sessionIds: string[];
+  totalCalls: number;
+  rows: ToolStatsRow[];
+  truncated: boolean;
+};
+
+export type ToolStatsSortKey = "tool" | "calls" | "errors" | "errorRate" | "open" | "medianMs" | "p95Ms";
+
+export type ToolStatsSort = { key: ToolStatsSortKey; dir: "asc" | "desc" };
+
+const COLUMNS: Array<{ key: ToolStatsSortKey; label: string }> = [
+  { key: "tool", label: "TOOL" },
+  { key: "calls", label: "CALLS" },
+  { key: "errors", label: "ERRORS" },
+  { key: "errorRate", label: "ERROR %" },
+  { key: "open", label: "PENDING / RUNNING" },
+  { key: "medianMs", label: "MEDIAN" },
+  { key: "p95Ms", label: "P95" },
+];
+
+function toCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : 0;
+}
+
+function toMsOrNull(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? Math.max(0, value) : null;
+}
+
+export function toToolStats(value: unknown): ToolStats | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  if (rec.ok !== true || !Array.isArray(rec.rows)) return null;
+
+  const rows = rec.rows
+    .map((row): ToolStatsRow | null => {
+      if (!row || typeof row !== "object") return null;
+      const r = row as Record<string, unknown>;
+      if (typeof r.tool !== "string" || !r.tool) return null;
+      const calls = toCount(r.calls);
+      const errors = toCount(r.errors);
+      return {
+        tool: r.tool,
+        calls,
+        completed: toCount(r.completed),
+        errors,
+        pending: toCount(r.pending),
+        running: toCount(r.running),
+        errorRate: calls > 0 ? errors / calls : 0,
+        timedCalls: toCount(r.timedCalls),
+        medianMs: toMsOrNull(r.medianMs),
+        p95Ms: toMsOrNull(r.p95Ms),
+      };
+    })
+    .filter((r): r is ToolStatsRow => r !== null);
+
+  return {
+    sessionIds: Array.isArray(rec.sessionIds) ? rec.sessionIds.filter((id): id is string => typeof id === "string") : [],
+    totalCalls: toCount(rec.totalCalls),
+    rows,
+    truncated: rec.truncated === true,
+  };
+}
+
+function sortValue(row: ToolStatsRow, key: ToolStatsSortKey): number | string | null {
+  if (key === "open") return row.pending + row.running;
+  return row[key];
+}
+
+// Rows without a value (e.g. no timed calls) always sort last, whichever direction is picked.
+export function sortToolStatsRows(rows: ToolStatsRow[], sort: ToolStatsSort): ToolStatsRow[] {
+  const sign = sort.dir === "asc" ? 1 : -1;
+  return rows.slice().sort((a, b) => {
+    const av = sortValue(a, sort.key);
+    const bv = sortValue(b, sort.key);
+    if (av === null && bv === null) return a.tool.localeCompare(b.tool);
+    if (av === null) return 1;
+    if (bv === null) return -1;
+    const cmp = typeof av === "string" && typeof bv === "string" ? av.localeCompare(bv) : Number(av) - Number(bv);
+    return cmp !== 0 ? cmp * sign : a.tool.localeCompare(b.tool);
+  });
+}
+
+export function nextToolStatsSort(current: ToolStatsSort, key: ToolStatsSortKey): ToolStatsSort {
+  if (current.key === key) return { key, dir: current.dir === "asc" ? "desc" : "asc" };
+  return { key, dir: key === "tool" ? "asc" : "desc" };
+}
+
+export function ToolStatsTable(props: { stats: ToolStats; sort: ToolStatsSort; onSortChange: (next: ToolStatsSort) => void }) {
+  const { stats, sort } = props;
+  const rows = sortToolStatsRows(stats.rows, sort);
+
+  if (rows.length === 0) {
+    return <div className="muted">No tool calls recorded.</div>;
+  }
+
+  return (
+    <div className="tableWrap" data-testid="tool-stats">
+      <div className="mono muted toolStatsSummary">
+        {stats.totalCalls} calls across {stats.sessionIds.length} session{stats.sessionIds.length === 1 ? "" : "s"}
+        {stats.truncated ? " - capped" : ""}
+      </div>
+      <table className="table">
+        <thead>
+          <tr>
+            {COLUMNS.map((col) => {
+              const active = sort.key === col.key;
+              return (
+                <th key={col.key} aria-sort={active ? (sort.dir === "asc" ? "ascending" : "descending") : "none"}>
+                  <button
+                    type="button"
+                    className="toolStatsSort"
+                    onClick={() => props.onSortChange(nextToolStatsSort(sort, col.key))}
+                  >
+                    {col.label}
+                    {active ? (sort.dir === "asc" ? " ^" : " v") : ""}
+                  </button>
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.tool}>
+              <td className="mono">{row.tool}</td>
+              <td className="mono">{row.calls}</td>
+              <td className="mono">{row.errors}</td>
+              <td className="mono">
+                {row.errors > 0 ? (
+                  <span className="pill pill-red">{Math.round(row.errorRate * 100)}%</span>
+                ) : (
+                  "0%"
+                )}
+              </td>
+              <td className="mono">
+                {row.pending} / {row.running}
+              </td>
+              <td className="mono" title={`${row.timedCalls} timed calls`}>
+                {formatToolCallDuration(row.medianMs)}
+              </td>
+              <td className="mono" title={`${row.timedCalls} timed calls`}>
+                {formatToolCallDuration(row.p95Ms)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
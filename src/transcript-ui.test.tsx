@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import * as React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { readTranscriptHash, toSessionTranscript, transcriptHash, TranscriptView } from "./transcript-ui";
+
+describe("transcript hash", () => {
+  it("round-trips a session id and ignores other hashes", () => {
+    expect(readTranscriptHash(transcriptHash("ses_1"))).toBe("ses_1");
+    expect(readTranscriptHash("#/transcript/")).toBe(null);
+    expect(readTranscriptHash("#other")).toBe(null);
+    expect(readTranscriptHash("#/transcript/%E0%A4%A")).toBe(null);
+  });
+});
+
+describe("toSessionTranscript", () => {
+  it("keeps known parts and drops malformed ones", () => {
+    // #given
+    const raw = {
+      ok: true,
+      sessionId: "ses_1",
+      truncated: true,
+      maxMessages: 500,
+      messages: [
+        {
+          id: "msg_1",
+          role: "assistant",
+          agent: "sisyphus",
+          createdAtMs: 1_000,
+          parts: [
+            { kind: "text", id: "prt_1", text: "Done." },
+            { kind: "tool", id: "prt_2", callId: "call_1", tool: "bash", status: "error", durationMs: 1_500, error: "boom" },
+            { kind: "patch", id: "prt_3" },
+          ],
+        },
+        { role: "user" },
+      ],
+    };
+
+    // #when
+    const transcript = toSessionTranscript(raw);
+
+    // #then
+    expect(transcript?.truncated).toBe(true);
+    expect(transcript?.messages).toHaveLength(1);
+    expect(transcript?.messages[0].parts).toEqual([
+      { kind: "text", id: "prt_1", text: "Done." },
+      { kind: "tool", id: "prt_2", callId: "call_1", tool: "bash", status: "error", durationMs: 1_500, error: "boom" },
+    ]);
+    expect(toSessionTranscript({ ok: false, sessionId: "ses_1", error: "transcripts are disabled" })).toBe(null);
+  });
+});
+
+describe("TranscriptView", () => {
+  it("renders text inline and tool calls collapsed", () => {
+    // #given
+    const transcript = toSessionTranscript({
+      ok: true,
+      sessionId: "ses_1",
+      messages: [
+        { id: "msg_1", role: "user", createdAtMs: null, parts: [{ kind: "text", id: "p1", text: "Fix the build" }] },
+        {
+          id: "msg_2",
+          role: "assistant",
+          createdAtMs: null,
+          parts: [{ kind: "tool", id: "p2", callId: "call_1", tool: "bash", status: "completed", durationMs: 250, output: "ok" }],
+        },
+      ],
+    });
+
+    // #when
+    const html = renderToStaticMarkup(<TranscriptView transcript={transcript!} />);
+
+    // #then
+    expect(html).toContain("Fix the build");
+    expect(html).toContain('<details class="transcriptTool">');
+    expect(html).toContain("250ms");
+    expect(html).not.toContain("<details class=\"transcriptTool\" open");
+  });
+});
@@ -0,0 +1,182 @@
+import * as React from "react";
+
+import { formatToolCallDuration } from "./tool-call-drawer";
+
+export type TranscriptPart =
+  | { kind: "text"; id: string; text: string }
+  | { kind: "reasoning"; id: string; text: string }
+  | {
+      kind: "tool";
+      id: string;
+      callId: string;
+      tool: string;
+      status: string;
+      durationMs: number | null;
+      input?: unknown;
+      output?: unknown;
+      error?: unknown;
+    };
+
+export type TranscriptMessage = {
+  id: string;
+  role: string;
+  agent: string | null;
+  createdAtMs: number | null;
+  parts: TranscriptPart[];
+};
+
+export type SessionTranscript = {
+  sessionId: string;
+  messages: TranscriptMessage[];
+  truncated: boolean;
+  maxMessages: number | null;
+};
+
+const TRANSCRIPT_HASH_PREFIX = "#/transcript/";
+
+// The transcript page lives behind the URL hash so it can be bookmarked without server-side routes.
+export function transcriptHash(sessionId: string): string {
+  return `${TRANSCRIPT_HASH_PREFIX}${encodeURIComponent(sessionId)}`;
+}
+
+export function readTranscriptHash(hash: string): string | null {
+  if (!hash.startsWith(TRANSCRIPT_HASH_PREFIX)) return null;
+  try {
+    const id = decodeURIComponent(hash.slice(TRANSCRIPT_HASH_PREFIX.length)).trim();
+    return id || null;
+  } catch {
+    return null;
+  }
+}
+
+function toPart(value: unknown): TranscriptPart | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  const id = typeof rec.id === "string" ? rec.id : "";
+  if ((rec.kind === "text" || rec.kind === "reasoning") && typeof rec.text === "string") {
+    return { kind: rec.kind, id, text: rec.text };
+  }
+  if (rec.kind === "tool" && typeof rec.tool === "string" && typeof rec.callId === "string") {
+    const part: TranscriptPart = {
+      kind: "tool",
+      id,
+      callId: rec.callId,
+      tool: rec.tool,
+      status: typeof rec.status === "string" ? rec.status : "unknown",
+      durationMs: typeof rec.durationMs === "number" && Number.isFinite(rec.durationMs) ? Math.max(0, rec.durationMs) : null,
+    };
+    if ("input" in rec) part.input = rec.input;
+    if ("output" in rec) part.output = rec.output;
+    if ("error" in rec) part.error = rec.error;
+    return part;
+  }
+  return null;
+}
+
+export function toSessionTranscript(value: unknown): SessionTranscript | null {
+  if (!value || typeof value !== "object") return null;
+  const rec = value as Record<string, unknown>;
+  if (rec.ok !== true || typeof rec.sessionId !== "string" || !Array.isArray(rec.messages)) return null;
+
+  const messages = rec.messages
+    .map((m): TranscriptMessage | null => {
+      if (!m || typeof m !== "object") return null;
+      const r = m as Record<string, unknown>;
+      if (typeof r.id !== "string") return null;
+      return {
+        id: r.id,
+        role: typeof r.role === "string" ? r.role : "unknown",
+        agent: typeof r.agent === "string" && r.agent ? r.agent : null,
+        createdAtMs: typeof r.createdAtMs === "number" && Number.isFinite(r.createdAtMs) ? r.createdAtMs : null,
+        parts: Array.isArray(r.parts) ? r.parts.map(toPart).filter((p): p is TranscriptPart => p !== null) : [],
+      };
+    })
+    .filter((m): m is TranscriptMessage => m !== null);
+
+  return {
+    sessionId: rec.sessionId,
+    messages,
+    truncated: rec.truncated === true,
+    maxMessages: typeof rec.maxMessages === "number" ? rec.maxMessages : null,
+  };
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+function formatClock(ms: number | null): string {
+  if (ms === null) return "-";
+  return new Date(ms).toLocaleString();
+}
+
+function TranscriptToolCall(props: { part: Extract<TranscriptPart, { kind: "tool" }> }) {
+  const { part } = props;
+  return (
+    <details className="transcriptTool">
+      <summary className="mono">
+        {part.tool}
+        <span className={part.status === "error" ? "transcriptToolError" : "muted"}> {part.status}</span>
+        <span className="muted"> {formatToolCallDuration(part.durationMs)}</span>
+      </summary>
+      <div className="mono muted transcriptToolId">{part.callId}</div>
+      {part.input !== undefined ? (
+        <pre className="code">
+          <code>{formatValue(part.input)}</code>
+        </pre>
+      ) : null}
+      {part.output !== undefined ? (
+        <pre className="code">
+          <code>{formatValue(part.output)}</code>
+        </pre>
+      ) : null}
+      {part.error !== undefined ? (
+        <pre className="code transcriptToolError">
+          <code>{formatValue(part.error)}</code>
+        </pre>
+      ) : null}
+    </details>
+  );
+}
+
+export function TranscriptView(props: { transcript: SessionTranscript }) {
+  const { transcript } = props;
+
+  if (transcript.messages.length === 0) {
+    return <div className="muted">No messages recorded.</div>;
+  }
+
+  return (
+    <div className="transcript" data-testid="transcript">
+      {transcript.truncated ? (
+        <div className="mono muted">Showing the newest {transcript.maxMessages ?? transcript.messages.length} messages.</div>
+      ) : null}
+      {transcript.messages.map((message) => (
+        <article key={message.id} className={`transcriptMessage transcriptMessage-${message.role}`}>
+          <div className="mono muted transcriptMeta">
+            {message.role}
+            {message.agent ? ` - ${message.agent}` : ""} - {formatClock(message.createdAtMs)}
+          </div>
+          {message.parts.length === 0 ? <div className="muted">(no text)</div> : null}
+          {message.parts.map((part, idx) => {
+            const key = part.id || `${message.id}-${idx}`;
+            if (part.kind === "tool") return <TranscriptToolCall key={key} part={part} />;
+            if (part.kind === "reasoning") {
+              return (
+                <details key={key} className="transcriptReasoning">
+                  <summary className="mono muted">Reasoning</summary>
+                  <div className="transcriptText">{part.text}</div>
+                </details>
+              );
+            }
+            return (
+              <div key={key} className="transcriptText">
+                {part.text}
+              </div>
+            );
+          })}
+        </article>
+      ))}
+    </div>
+  );
+}